@@ -25,6 +25,16 @@ describe('CLI Integration Tests', () => {
     let mockUrl: string;
     let apiClient: APIClient;
 
+    // Resumable upload state for the mock controller
+    const uploads = new Map<string, { size: number; sha256?: string; chunks: Buffer[]; offset: number; complete: boolean; chunkSize: number }>();
+    let failNextChunk = false;
+    const DEFAULT_CHUNK_SIZE = 8 * 1024 * 1024;
+    let chunkSize = DEFAULT_CHUNK_SIZE; // Resumable upload tests use 4-byte chunks
+
+    // Content-addressed blobs the mock controller already stores, and accepted submissions
+    const knownBlobs = new Set<string>();
+    const submissions: Array<Record<string, string>> = [];
+
     beforeAll(() => {
       // Start mock server - no auth checks, mock server just returns data
       mockServer = Bun.serve({
@@ -37,10 +47,73 @@ describe('CLI Integration Tests', () => {
             return Response.json({ status: 'ok' });
           }
 
+          // Resumable uploads
+          if (url.pathname === '/api/uploads' && req.method === 'POST') {
+            const { size, sha256 } = (await req.json()) as { size: number; sha256?: string };
+            const id = `upload-${uploads.size + 1}`;
+            uploads.set(id, { size, sha256, chunks: [], offset: 0, complete: false, chunkSize });
+            return Response.json({ id, status: 'uploading', size, offset: 0, chunk_size: chunkSize });
+          }
+
+          if (url.pathname.startsWith('/api/uploads/')) {
+            const [, , , id, action] = url.pathname.split('/');
+            const upload = uploads.get(id);
+            if (!upload) {
+              return Response.json({ error: 'Upload not found' }, { status: 404 });
+            }
+
+            if (req.method === 'PUT') {
+              const chunk = Buffer.from(await req.arrayBuffer());
+              if (Number(url.searchParams.get('offset')) !== upload.offset) {
+                return Response.json({ error: 'Offset mismatch', offset: upload.offset }, { status: 409 });
+              }
+              upload.chunks.push(chunk);
+              upload.offset += chunk.length;
+
+              // Simulate a dropped response after the chunk was committed
+              if (failNextChunk) {
+                failNextChunk = false;
+                return Response.json({ error: 'Bad gateway' }, { status: 502 });
+              }
+              return Response.json({ id, offset: upload.offset, size: upload.size });
+            }
+
+            if (action === 'finalize') {
+              upload.complete = true;
+              if (upload.sha256) {
+                knownBlobs.add(upload.sha256);
+              }
+            }
+            return Response.json({
+              id,
+              status: upload.complete ? 'complete' : 'uploading',
+              size: upload.size,
+              offset: upload.offset,
+              chunk_size: upload.chunkSize,
+            });
+          }
+
           // Build submission
           if (url.pathname === '/api/builds/submit' && req.method === 'POST') {
+            const fields: Record<string, string> = {};
+            for (const [name, value] of await req.formData()) {
+              if (typeof value === 'string') {
+                fields[name] = value;
+              }
+            }
+
+            const missing = ['source', 'certs'].filter(
+              (kind) => fields[`${kind}_sha256`] && !knownBlobs.has(fields[`${kind}_sha256`])
+            );
+            if (missing.length > 0) {
+              return Response.json({ error: 'Unknown digest', missing }, { status: 404 });
+            }
+
+            submissions.push(fields);
             return Response.json({
               buildId: 'test-build-123',
+              id: 'test-build-123',
+              access_token: 'test-build-token',
             });
           }
 
@@ -54,6 +127,28 @@ describe('CLI Integration Tests', () => {
             });
           }
 
+          // Range-capable download (current ETag "v2")
+          if (url.pathname === '/api/builds/ranged-build/download') {
+            const content = Buffer.from('fake-ipa-content');
+            const digest = `sha-256=${require('crypto').createHash('sha256').update(content).digest('base64')}`;
+            const range = /^bytes=(\d+)-$/.exec(req.headers.get('range') ?? '');
+            const ifRange = req.headers.get('if-range');
+
+            if (range && (!ifRange || ifRange === '"v2"')) {
+              const start = Number(range[1]);
+              return new Response(content.subarray(start), {
+                status: 206,
+                headers: {
+                  'Content-Range': `bytes ${start}-${content.length - 1}/${content.length}`,
+                  ETag: '"v2"',
+                  Digest: digest,
+                },
+              });
+            }
+
+            return new Response(content, { headers: { ETag: '"v2"', Digest: digest } });
+          }
+
           // Build download
           if (url.pathname.startsWith('/api/builds/') && url.pathname.endsWith('/download')) {
             return new Response('fake-ipa-content', {
@@ -169,6 +264,148 @@ describe('CLI Integration Tests', () => {
       });
     });
 
+    describe('Resumable Uploads', () => {
+      let client: APIClient;
+
+      beforeAll(() => {
+        client = new APIClient(mockUrl, 'test-api-key');
+        // Small chunks so small files span several requests
+        chunkSize = 4;
+      });
+
+      afterAll(() => {
+        chunkSize = DEFAULT_CHUNK_SIZE;
+      });
+
+      test('should upload file in chunks', async () => {
+        const filePath = join(testDir, 'chunked.zip');
+        writeFileSync(filePath, 'abcdefghij');
+
+        const progress: number[] = [];
+        const uploadId = await client.uploadResumable(filePath, 'source', (uploaded) => {
+          progress.push(uploaded);
+        });
+
+        const upload = uploads.get(uploadId)!;
+        expect(Buffer.concat(upload.chunks).toString()).toBe('abcdefghij');
+        expect(upload.complete).toBe(true);
+        expect(progress).toEqual([4, 8, 10]);
+      });
+
+      test('should resume from committed offset after a failed chunk', async () => {
+        const filePath = join(testDir, 'resumed.zip');
+        writeFileSync(filePath, 'abcdefghij');
+
+        failNextChunk = true;
+        const uploadId = await client.uploadResumable(filePath, 'source');
+
+        // The failed chunk was committed, so it must not be sent twice
+        const upload = uploads.get(uploadId)!;
+        expect(Buffer.concat(upload.chunks).toString()).toBe('abcdefghij');
+        expect(upload.complete).toBe(true);
+      });
+    });
+
+    describe('Deduplicated Submission', () => {
+      let client: APIClient;
+
+      beforeAll(() => {
+        client = new APIClient(mockUrl, 'test-api-key');
+      });
+
+      test('should upload only sources the controller does not have', async () => {
+        const projectPath = join(testDir, 'dedup.zip');
+        writeFileSync(projectPath, 'dedup-project-bytes');
+        const uploadsBefore = uploads.size;
+
+        const first = await client.submitBuild({ projectPath });
+
+        expect(first.buildId).toBe('test-build-123');
+        expect(uploads.size).toBe(uploadsBefore + 1);
+        expect(submissions.at(-1)!.source_upload_id).toBeDefined();
+
+        const progress: number[] = [];
+        await client.submitBuild({ projectPath }, (uploaded) => progress.push(uploaded));
+
+        // Second submission references the stored blob by digest
+        expect(uploads.size).toBe(uploadsBefore + 1);
+        expect(submissions.at(-1)!.source_sha256).toMatch(/^[a-f0-9]{64}$/);
+        expect(submissions.at(-1)!.source_upload_id).toBeUndefined();
+        expect(progress).toEqual([19]);
+      });
+
+      test('should send platform, priority, submitter and requirements with the submission', async () => {
+        const projectPath = join(testDir, 'priority.zip');
+        writeFileSync(projectPath, 'priority-project-bytes');
+
+        await client.submitBuild({
+          projectPath,
+          platform: 'android',
+          priority: 'urgent',
+          submitter: 'alice',
+          requirements: { minMemoryGB: 16, expoSdk: 52 },
+        });
+
+        expect(submissions.at(-1)).toMatchObject({
+          platform: 'android',
+          priority: 'urgent',
+          submitter: 'alice',
+          min_memory_gb: '16',
+          expo_sdk: '52',
+        });
+        expect(submissions.at(-1)!.min_xcode_version).toBeUndefined();
+      });
+    });
+
+    describe('Resumable Downloads', () => {
+      let client: APIClient;
+
+      beforeAll(() => {
+        client = new APIClient(mockUrl, 'test-api-key');
+      });
+
+      test('should resume partial download with matching ETag', async () => {
+        const outputPath = join(testDir, 'resumed.ipa');
+        writeFileSync(`${outputPath}.part`, 'fake-');
+        writeFileSync(`${outputPath}.part.etag`, '"v2"');
+
+        const progressUpdates: number[] = [];
+        const sha256 = await client.downloadBuild('ranged-build', outputPath, (bytes) => {
+          progressUpdates.push(bytes);
+        });
+
+        // Digest header covers the whole file, not just the resumed range
+        expect(sha256).toBe(require('crypto').createHash('sha256').update('fake-ipa-content').digest('hex'));
+
+        expect(await Bun.file(outputPath).text()).toBe('fake-ipa-content');
+        expect(progressUpdates[progressUpdates.length - 1]).toBe('fake-ipa-content'.length);
+        expect(existsSync(`${outputPath}.part`)).toBe(false);
+        expect(existsSync(`${outputPath}.part.etag`)).toBe(false);
+      });
+
+      test('should reject download that does not match its digest', async () => {
+        const outputPath = join(testDir, 'corrupt.ipa');
+        const wrongDigest = require('crypto').createHash('sha256').update('other-content').digest('hex');
+
+        await expect(
+          client.downloadBuild('ranged-build', outputPath, undefined, wrongDigest)
+        ).rejects.toThrow(/checksum mismatch/i);
+
+        expect(existsSync(outputPath)).toBe(false);
+        expect(existsSync(`${outputPath}.part`)).toBe(false);
+      });
+
+      test('should restart partial download when artifact changed', async () => {
+        const outputPath = join(testDir, 'restarted.ipa');
+        writeFileSync(`${outputPath}.part`, 'stale-bytes');
+        writeFileSync(`${outputPath}.part.etag`, '"v1"');
+
+        await client.downloadBuild('ranged-build', outputPath);
+
+        expect(await Bun.file(outputPath).text()).toBe('fake-ipa-content');
+      });
+    });
+
     describe('Build Status', () => {
       test('should get build status', async () => {
         const status = await apiClient.getBuildStatus('test-build-123');
@@ -1,35 +1,280 @@
 import fs from 'fs';
-import { createWriteStream } from 'fs';
+import { createWriteStream, createReadStream } from 'fs';
+import crypto from 'crypto';
 import { getControllerUrl, getApiKey } from './config.js';
 import { getBuildToken } from './build-tokens.js';
 import { z } from 'zod';
 
 // Validation schemas
+const BuildAttemptSchema = z.object({
+  attempt: z.number(),
+  worker_id: z.string().nullable(),
+  started_at: z.number(),
+  finished_at: z.number().nullable(),
+  outcome: z.enum(['completed', 'failed', 'cancelled']).nullable(),
+  failure_type: z.enum(['infrastructure', 'build', 'timeout']).nullable(),
+  error_message: z.string().nullable(),
+}).transform((data) => ({
+  attempt: data.attempt,
+  workerId: data.worker_id ?? undefined,
+  startedAt: new Date(data.started_at).toISOString(),
+  finishedAt: data.finished_at ? new Date(data.finished_at).toISOString() : undefined,
+  outcome: data.outcome ?? undefined,
+  failureType: data.failure_type ?? undefined,
+  error: data.error_message ?? undefined,
+}));
+
 const BuildSubmissionResponseSchema = z.object({
   id: z.string(),
   access_token: z.string(),
-}).transform((data) => ({ buildId: data.id, accessToken: data.access_token }));
+  waiting_reason: z.string().nullable().optional(),
+  cached_from: z.string().nullable().optional(),
+  group_id: z.string().optional(),
+  builds: z.array(z.object({
+    id: z.string(),
+    platform: z.string(),
+    waiting_reason: z.string().nullable(),
+    cached_from: z.string().nullable().optional(),
+  })).optional(),
+}).transform((data) => ({
+  buildId: data.id,
+  accessToken: data.access_token,
+  waitingReason: data.waiting_reason ?? undefined,
+  cachedFrom: data.cached_from ?? undefined,
+  groupId: data.group_id,
+  builds: (data.builds ?? []).map((build) => ({
+    buildId: build.id,
+    platform: build.platform,
+    waitingReason: build.waiting_reason ?? undefined,
+    cachedFrom: build.cached_from ?? undefined,
+  })),
+}));
 
 const BuildStatusSchema = z.object({
   id: z.string(),
-  status: z.enum(['pending', 'assigned', 'building', 'completed', 'failed']),
+  status: z.enum(['pending', 'assigned', 'building', 'completed', 'failed', 'cancelled']),
   platform: z.string().nullable().optional(),
   worker_id: z.string().nullable().optional(),
   submitted_at: z.number().nullable().optional(),
   started_at: z.number().nullable().optional(),
   completed_at: z.number().nullable().optional(),
   error_message: z.string().nullable().optional(),
+  source_sha256: z.string().nullable().optional(),
+  result_sha256: z.string().nullable().optional(),
+  priority: z.enum(['urgent', 'normal', 'background']).optional(),
+  queue_position: z.number().nullable().optional(),
+  waiting_reason: z.string().nullable().optional(),
+  estimated_start_at: z.number().nullable().optional(),
+  estimated_completion_at: z.number().nullable().optional(),
+  cached_from: z.string().nullable().optional(),
+  attempt: z.number().optional(),
+  max_attempts: z.number().optional(),
+  retry_after: z.number().nullable().optional(),
+  cancel_requested_at: z.number().nullable().optional(),
+  cancel_acknowledged_at: z.number().nullable().optional(),
+  timeouts: z.object({
+    max_queue_wait_ms: z.number().nullable(),
+    max_duration_ms: z.number().nullable(),
+    deadline_at: z.number().nullable(),
+  }).optional(),
+  attempts: z.array(BuildAttemptSchema).optional(),
 }).transform((data) => ({
   id: data.id,
   status: data.status,
   createdAt: data.submitted_at ? new Date(data.submitted_at).toISOString() : undefined,
   completedAt: data.completed_at ? new Date(data.completed_at).toISOString() : undefined,
   error: data.error_message || undefined,
+  sourceSha256: data.source_sha256 || undefined,
+  resultSha256: data.result_sha256 || undefined,
+  priority: data.priority,
+  queuePosition: data.queue_position ?? undefined,
+  waitingReason: data.waiting_reason ?? undefined,
+  estimatedStartAt: data.estimated_start_at ? new Date(data.estimated_start_at).toISOString() : undefined,
+  estimatedCompletionAt: data.estimated_completion_at ? new Date(data.estimated_completion_at).toISOString() : undefined,
+  cachedFrom: data.cached_from ?? undefined,
+  attempt: data.attempt,
+  maxAttempts: data.max_attempts,
+  retryAfter: data.retry_after ? new Date(data.retry_after).toISOString() : undefined,
+  cancelRequestedAt: data.cancel_requested_at ? new Date(data.cancel_requested_at).toISOString() : undefined,
+  // Set once the worker confirmed it stopped the build
+  cancelAcknowledgedAt: data.cancel_acknowledged_at ? new Date(data.cancel_acknowledged_at).toISOString() : undefined,
+  // Limits the build runs under (undefined: unlimited) and when it times out as it stands
+  maxQueueWaitMs: data.timeouts?.max_queue_wait_ms ?? undefined,
+  maxDurationMs: data.timeouts?.max_duration_ms ?? undefined,
+  timesOutAt: data.timeouts?.deadline_at ? new Date(data.timeouts.deadline_at).toISOString() : undefined,
+  attempts: data.attempts ?? [],
+}));
+
+const BuildGroupStatusSchema = z.object({
+  id: z.string(),
+  status: z.enum(['pending', 'building', 'completed', 'failed', 'cancelled']),
+  submitted_at: z.number(),
+  builds: z.array(z.object({
+    id: z.string(),
+    platform: z.string(),
+    status: z.enum(['pending', 'assigned', 'building', 'completed', 'failed', 'cancelled']),
+    error_message: z.string().nullable(),
+    result_sha256: z.string().nullable(),
+    queue_position: z.number().nullable(),
+  })),
+}).transform((data) => ({
+  id: data.id,
+  status: data.status,
+  createdAt: new Date(data.submitted_at).toISOString(),
+  builds: data.builds.map((build) => ({
+    id: build.id,
+    platform: build.platform,
+    status: build.status,
+    error: build.error_message ?? undefined,
+    resultSha256: build.result_sha256 ?? undefined,
+    queuePosition: build.queue_position ?? undefined,
+  })),
+}));
+
+const ScheduleSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  cron: z.string(),
+  platforms: z.array(z.string()),
+  source_sha256: z.string().nullable(),
+  git_url: z.string().nullable(),
+  git_ref: z.string().nullable(),
+  priority: z.enum(['urgent', 'normal', 'background']),
+  catch_up: z.boolean(),
+  next_run_at: z.number(),
+  last_run_at: z.number().nullable(),
+  runs: z.array(z.object({
+    scheduled_for: z.number(),
+    outcome: z.enum(['triggered', 'missed', 'failed']),
+    build_id: z.string().nullable(),
+    error_message: z.string().nullable(),
+  })).optional(),
+}).transform((data) => ({
+  id: data.id,
+  name: data.name,
+  cron: data.cron,
+  platforms: data.platforms,
+  source: data.git_url ? `${data.git_url}#${data.git_ref}` : `stored source ${data.source_sha256?.slice(0, 12)}`,
+  priority: data.priority,
+  catchUp: data.catch_up,
+  nextRunAt: new Date(data.next_run_at).toISOString(),
+  lastRunAt: data.last_run_at ? new Date(data.last_run_at).toISOString() : undefined,
+  runs: (data.runs ?? []).map((run) => ({
+    scheduledFor: new Date(run.scheduled_for).toISOString(),
+    outcome: run.outcome,
+    buildId: run.build_id ?? undefined,
+    error: run.error_message ?? undefined,
+  })),
+}));
+
+const SchedulesListSchema = z.object({
+  schedules: z.array(ScheduleSchema),
+});
+
+const WorkerStateSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  status: z.enum(['idle', 'building', 'offline']),
+  availability: z.enum(['available', 'draining', 'drained', 'paused']),
+  drain_requested_at: z.number().nullable(),
+  paused_at: z.number().nullable(),
+  slots: z.object({ total: z.number(), used: z.number() }),
+  last_seen_at: z.number(),
+}).transform((data) => ({
+  id: data.id,
+  name: data.name,
+  status: data.status,
+  availability: data.availability,
+  drainRequestedAt: data.drain_requested_at ? new Date(data.drain_requested_at).toISOString() : undefined,
+  pausedAt: data.paused_at ? new Date(data.paused_at).toISOString() : undefined,
+  slots: data.slots,
+  lastSeenAt: new Date(data.last_seen_at).toISOString(),
+}));
+
+const WorkersListSchema = z.object({
+  workers: z.array(WorkerStateSchema),
+});
+
+const QueueStateSchema = z.object({
+  paused: z.boolean(),
+  paused_at: z.number().nullable(),
+  reason: z.string().nullable(),
+  pending: z.number().optional(),
+  active: z.number().optional(),
+}).transform((data) => ({
+  paused: data.paused,
+  pausedAt: data.paused_at ? new Date(data.paused_at).toISOString() : undefined,
+  reason: data.reason ?? undefined,
+  pending: data.pending,
+  active: data.active,
+}));
+
+const CancelResultSchema = z.object({
+  status: z.literal('cancelled'),
+  cancel_requested_at: z.number(),
+  worker_notified: z.boolean(),
+}).transform((data) => ({
+  cancelRequestedAt: new Date(data.cancel_requested_at).toISOString(),
+  workerNotified: data.worker_notified, // The build was running; its worker is told to stop
 }));
 
+// Events streamed by /builds/:id/events
+const BuildLogLineSchema = z.object({
+  attempt: z.number(),
+  timestamp: z.number(),
+  level: z.string(),
+  message: z.string(),
+});
+
+const BuildEventStatusSchema = z.object({
+  status: z.enum(['pending', 'assigned', 'building', 'completed', 'failed', 'cancelled']),
+  attempt: z.number(),
+  worker_id: z.string().nullable(),
+  queue_position: z.number().nullable(),
+  retry_after: z.number().nullable(),
+  started_at: z.number().nullable(),
+  completed_at: z.number().nullable(),
+  error_message: z.string().nullable(),
+  cancel_requested_at: z.number().nullable(),
+}).transform((data) => ({
+  status: data.status,
+  attempt: data.attempt,
+  workerId: data.worker_id ?? undefined,
+  queuePosition: data.queue_position ?? undefined,
+  retryAfter: data.retry_after ? new Date(data.retry_after).toISOString() : undefined,
+  startedAt: data.started_at ? new Date(data.started_at).toISOString() : undefined,
+  completedAt: data.completed_at ? new Date(data.completed_at).toISOString() : undefined,
+  error: data.error_message ?? undefined,
+  cancelRequestedAt: data.cancel_requested_at ? new Date(data.cancel_requested_at).toISOString() : undefined,
+}));
+
+const BuildProgressSchema = z.object({
+  attempt: z.number(),
+  timestamp: z.number(),
+  progress: z.number(),
+});
+
+const MissingBlobsSchema = z.object({
+  missing: z.array(z.enum(['source', 'certs'])),
+});
+
+const UploadSessionSchema = z.object({
+  id: z.string(),
+  status: z.enum(['uploading', 'complete']),
+  size: z.number(),
+  offset: z.number(),
+  chunk_size: z.number(),
+});
+
+const UploadChunkResponseSchema = z.object({
+  offset: z.number(),
+});
+
 const BuildSchema = z.object({
   id: z.string(),
   status: z.string(),
+  platform: z.string().optional(),
+  groupId: z.string().optional(),
   createdAt: z.string(),
   completedAt: z.string().optional(),
 });
@@ -37,21 +282,83 @@ const BuildSchema = z.object({
 const BuildsArraySchema = z.array(BuildSchema);
 
 // Exported types
+export const BUILD_PRIORITIES = ['urgent', 'normal', 'background'] as const;
+export type BuildPriority = (typeof BUILD_PRIORITIES)[number];
+
+export type BuildRequirements = {
+  minXcodeVersion?: string;
+  minMemoryGB?: number;
+  expoSdk?: number; // Major version
+};
+
+export type BuildPlatform = 'ios' | 'android';
+
+// Only tighten the controller's limits; a build past either fails
+export type BuildTimeouts = {
+  maxQueueWaitSeconds?: number;
+  maxDurationSeconds?: number;
+};
+
 export type BuildSubmission = {
   projectPath: string;
+  platform?: BuildPlatform | BuildPlatform[]; // Default: ios. Several make a build group
   certPath?: string;
   profilePath?: string;
   appleId?: string;
+  priority?: BuildPriority;
+  submitter?: string; // Builds are shared fairly between submitters
+  requirements?: BuildRequirements; // Only workers meeting these take the build
+  timeouts?: BuildTimeouts;
+  noCache?: boolean; // Rebuild even if the controller has a result for identical inputs
+};
+
+export type ScheduleDefinition = {
+  name: string;
+  cron: string; // 5 fields, UTC
+  platform?: BuildPlatform | BuildPlatform[]; // Default: ios
+  sourceBuildId?: string; // Re-run this build's stored source (and certs)
+  gitUrl?: string; // Or clone this branch or tag at each run
+  gitRef?: string;
+  priority?: BuildPriority;
+  submitter?: string;
+  requirements?: BuildRequirements;
+  catchUp?: boolean; // Run once for runs missed while the controller was down (default)
 };
 
+export type UploadKind = 'source' | 'certs' | 'result';
+
+// drain: finish current builds, then take no more; pause: take no new builds
+export type WorkerHoldAction = 'drain' | 'undrain' | 'pause' | 'resume';
+
 export type BuildStatus = z.infer<typeof BuildStatusSchema>;
+export type BuildAttempt = z.infer<typeof BuildAttemptSchema>;
+export type BuildGroupStatus = z.infer<typeof BuildGroupStatusSchema>;
+export type BuildSubmissionResult = z.infer<typeof BuildSubmissionResponseSchema>;
 export type Build = z.infer<typeof BuildSchema>;
+export type Schedule = z.infer<typeof ScheduleSchema>;
+export type WorkerState = z.infer<typeof WorkerStateSchema>;
+export type QueueState = z.infer<typeof QueueStateSchema>;
+export type CancelResult = z.infer<typeof CancelResultSchema>;
+export type BuildLogLine = z.infer<typeof BuildLogLineSchema>;
+export type BuildEventStatus = z.infer<typeof BuildEventStatusSchema>;
+
+export type BuildEvent =
+  | { type: 'log'; log: BuildLogLine }
+  | { type: 'status'; status: BuildEventStatus }
+  | { type: 'progress'; attempt: number; progress: number }; // Percent reported by the worker
+
+type ServerSentEvent = { id?: string; event: string; data: string };
 
 // Config
 const FETCH_TIMEOUT_MS = 30_000;
 const MAX_RETRIES = 3;
 const RETRY_DELAY_MS = 1000;
 const MAX_UPLOAD_SIZE_BYTES = 500 * 1024 * 1024; // 500MB
+const CHUNK_TIMEOUT_MS = 120_000;
+const MAX_CHUNK_FAILURES = 8; // Consecutive failures before giving up on an upload
+const MAX_RESUME_DELAY_MS = 30_000;
+const EVENT_STREAM_IDLE_MS = 45_000; // The controller sends a keepalive every 15s
+const MAX_STREAM_FAILURES = 5; // Consecutive failed connections before giving up
 
 export class APIClient {
   private baseUrl: string;
@@ -82,10 +389,11 @@ export class APIClient {
   private async fetchWithTimeout(
     url: string,
     options: RequestInit = {},
-    retries = MAX_RETRIES
+    retries = MAX_RETRIES,
+    timeoutMs = FETCH_TIMEOUT_MS
   ): Promise<Response> {
     const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
 
     // Add API key header if available
     // Handle both plain objects (from form.getHeaders()) and Headers instances
@@ -121,14 +429,17 @@ export class APIClient {
       // Retry on network errors or timeouts
       if (retries > 0 && (error instanceof Error && error.name === 'AbortError')) {
         await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS));
-        return this.fetchWithTimeout(url, options, retries - 1);
+        return this.fetchWithTimeout(url, options, retries - 1, timeoutMs);
       }
 
       throw error;
     }
   }
 
-  async submitBuild(submission: BuildSubmission): Promise<{ buildId: string }> {
+  async submitBuild(
+    submission: BuildSubmission,
+    onProgress?: (uploadedBytes: number, totalBytes: number) => void
+  ): Promise<BuildSubmissionResult> {
     await this.init();
 
     // Validate inputs
@@ -162,19 +473,93 @@ export class APIClient {
       }
     }
 
-    // Read files into buffers and create native FormData with Blobs
-    const projectBuffer = await fs.promises.readFile(submission.projectPath);
-    const projectBlob = new Blob([projectBuffer], { type: 'application/gzip' });
+    // Offer digests first: the controller stores sources and certs by
+    // content, so resubmitting the same zip needs no upload at all
+    const sourceSha256 = await hashFile(submission.projectPath);
+    const certsSha256 = submission.certPath ? await hashFile(submission.certPath) : undefined;
+
+    const fields: Record<string, string> = { source_sha256: sourceSha256 };
+    if (certsSha256) {
+      fields.certs_sha256 = certsSha256;
+    }
+
+    let response = await this.postSubmission(submission, fields);
+    let uploadedSource = false;
 
+    if (response.status === 404) {
+      const missing = MissingBlobsSchema.safeParse(await response.json().catch(() => null));
+      if (!missing.success) {
+        throw new Error('Build submission failed: controller rejected the submission');
+      }
+
+      // Upload large files through resumable sessions so a dropped connection
+      // only costs the chunk in flight
+      if (missing.data.missing.includes('source')) {
+        delete fields.source_sha256;
+        fields.source_upload_id = await this.uploadResumable(submission.projectPath, 'source', onProgress, sourceSha256);
+        uploadedSource = true;
+      }
+      if (missing.data.missing.includes('certs') && submission.certPath) {
+        delete fields.certs_sha256;
+        fields.certs_upload_id = await this.uploadResumable(submission.certPath, 'certs', undefined, certsSha256);
+      }
+
+      response = await this.postSubmission(submission, fields);
+    }
+
+    if (!uploadedSource) {
+      // Controller already had the source
+      onProgress?.(projectStats.size, projectStats.size);
+    }
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Build submission failed: ${error}`);
+    }
+
+    const json = await response.json();
+    return BuildSubmissionResponseSchema.parse(json);
+  }
+
+  /**
+   * POST a submission whose files are referenced by digest or upload ID
+   */
+  private async postSubmission(submission: BuildSubmission, fields: Record<string, string>): Promise<Response> {
     // Use native FormData (works with fetch)
     const form = new FormData();
-    form.append('source', projectBlob, 'project.tar.gz');
-    form.append('platform', 'ios'); // TODO: detect from project or pass as param
+    form.append('platform', [submission.platform ?? 'ios'].flat().join(','));
 
-    if (submission.certPath) {
-      const certBuffer = await fs.promises.readFile(submission.certPath);
-      const certBlob = new Blob([certBuffer], { type: 'application/zip' });
-      form.append('certs', certBlob, 'certs.zip');
+    for (const [name, value] of Object.entries(fields)) {
+      form.append(name, value);
+    }
+
+    if (submission.priority) {
+      form.append('priority', submission.priority);
+    }
+    if (submission.submitter) {
+      form.append('submitter', submission.submitter);
+    }
+    if (submission.noCache) {
+      form.append('no_cache', 'true');
+    }
+
+    const { minXcodeVersion, minMemoryGB, expoSdk } = submission.requirements ?? {};
+    if (minXcodeVersion) {
+      form.append('min_xcode_version', minXcodeVersion);
+    }
+    if (minMemoryGB) {
+      form.append('min_memory_gb', String(minMemoryGB));
+    }
+    if (expoSdk) {
+      form.append('expo_sdk', String(expoSdk));
+    }
+
+    const { maxQueueWaitSeconds, maxDurationSeconds } = submission.timeouts ?? {};
+    if (maxQueueWaitSeconds) {
+      form.append('max_queue_wait_seconds', String(maxQueueWaitSeconds));
+    }
+    if (maxDurationSeconds) {
+      form.append('max_duration_seconds', String(maxDurationSeconds));
     }
 
     if (submission.profilePath) {
@@ -193,18 +578,140 @@ export class APIClient {
       form.append('applePassword', applePassword);
     }
 
-    const response = await this.fetchWithTimeout(`${this.baseUrl}/api/builds/submit`, {
+    return this.fetchWithTimeout(`${this.baseUrl}/api/builds/submit`, {
       method: 'POST',
       body: form as any,
     });
+  }
 
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`Build submission failed: ${error}`);
+  /**
+   * Upload a file through the controller's resumable upload protocol
+   *
+   * Sends the file in chunks at the committed offset. After a network error or
+   * server error the committed offset is re-read from the controller and the
+   * upload resumes from there, with exponential backoff between attempts.
+   *
+   * @param sha256 Digest of the file, if the caller already computed it
+   * @returns Upload ID to reference in a submission
+   */
+  async uploadResumable(
+    filePath: string,
+    kind: UploadKind,
+    onProgress?: (uploadedBytes: number, totalBytes: number) => void,
+    sha256?: string
+  ): Promise<string> {
+    await this.init();
+
+    const { size } = await fs.promises.stat(filePath);
+    sha256 ??= await hashFile(filePath);
+
+    const createResponse = await this.fetchWithTimeout(`${this.baseUrl}/api/uploads`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ kind, size, sha256 }),
+    });
+
+    if (!createResponse.ok) {
+      const error = await createResponse.text();
+      throw new Error(`Failed to start ${kind} upload: ${error}`);
     }
 
-    const json = await response.json();
-    return BuildSubmissionResponseSchema.parse(json);
+    const session = UploadSessionSchema.parse(await createResponse.json());
+    const uploadUrl = `${this.baseUrl}/api/uploads/${session.id}`;
+
+    const file = await fs.promises.open(filePath, 'r');
+    const buffer = Buffer.alloc(Math.min(session.chunk_size, Math.max(size, 1)));
+    let offset = session.offset;
+    let failures = 0;
+
+    try {
+      while (offset < size) {
+        const { bytesRead } = await file.read(buffer, 0, Math.min(buffer.length, size - offset), offset);
+        const chunk = buffer.subarray(0, bytesRead);
+
+        try {
+          const response = await this.fetchWithTimeout(
+            `${uploadUrl}?offset=${offset}`,
+            {
+              method: 'PUT',
+              headers: { 'Content-Type': 'application/octet-stream' },
+              body: chunk,
+            },
+            0,
+            CHUNK_TIMEOUT_MS
+          );
+
+          if (response.ok) {
+            offset = UploadChunkResponseSchema.parse(await response.json()).offset;
+            failures = 0;
+            onProgress?.(offset, size);
+            continue;
+          }
+
+          // Offset mismatch: a previous chunk landed but its response was lost
+          if (response.status === 409) {
+            offset = UploadChunkResponseSchema.parse(await response.json()).offset;
+            continue;
+          }
+
+          if (response.status < 500) {
+            const error = await response.text();
+            throw new UploadAbortedError(`${kind} upload failed: ${error}`);
+          }
+        } catch (error) {
+          if (error instanceof UploadAbortedError) {
+            throw error;
+          }
+          // Network error or timeout; fall through to resume
+        }
+
+        failures++;
+        if (failures > MAX_CHUNK_FAILURES) {
+          throw new Error(`${kind} upload failed after ${MAX_CHUNK_FAILURES} attempts at offset ${offset}`);
+        }
+
+        await new Promise((resolve) =>
+          setTimeout(resolve, Math.min(RETRY_DELAY_MS * 2 ** (failures - 1), MAX_RESUME_DELAY_MS))
+        );
+        offset = await this.getCommittedOffset(uploadUrl, offset);
+      }
+    } finally {
+      await file.close();
+    }
+
+    const finalizeResponse = await this.fetchWithTimeout(`${uploadUrl}/finalize`, { method: 'POST' });
+
+    if (!finalizeResponse.ok) {
+      const error = await finalizeResponse.text();
+      throw new Error(`Failed to finalize ${kind} upload: ${error}`);
+    }
+
+    return session.id;
+  }
+
+  /**
+   * Ask the controller where to resume an upload from
+   * Falls back to the last known offset if the controller is still unreachable
+   */
+  private async getCommittedOffset(uploadUrl: string, fallback: number): Promise<number> {
+    try {
+      const response = await this.fetchWithTimeout(uploadUrl, {}, 0);
+
+      if (response.status === 404) {
+        throw new UploadAbortedError('Upload session expired or was removed');
+      }
+
+      if (!response.ok) {
+        return fallback;
+      }
+
+      return UploadSessionSchema.parse(await response.json()).offset;
+    } catch (error) {
+      if (error instanceof UploadAbortedError) {
+        throw error;
+      }
+      return fallback;
+    }
   }
 
   async getBuildStatus(buildId: string): Promise<BuildStatus> {
@@ -234,15 +741,130 @@ export class APIClient {
     return BuildStatusSchema.parse(json);
   }
 
+  /**
+   * Follow a build's log lines, status changes and progress until it finishes
+   *
+   * A dropped connection is reopened with Last-Event-ID, so the controller
+   * sends only the lines missed meanwhile.
+   * @returns The build's final status
+   */
+  async followBuildEvents(buildId: string, onEvent: (event: BuildEvent) => void): Promise<BuildEventStatus> {
+    await this.init();
+
+    if (!buildId || buildId.trim() === '') {
+      throw new Error('Build ID is required');
+    }
+
+    const buildToken = await getBuildToken(buildId);
+    let lastEventId: string | undefined;
+    let failures = 0;
+
+    while (true) {
+      const headers: Record<string, string> = { Accept: 'text/event-stream' };
+      if (buildToken) {
+        headers['X-Build-Token'] = buildToken;
+      }
+      if (lastEventId) {
+        headers['Last-Event-ID'] = lastEventId;
+      }
+
+      try {
+        const response = await this.fetchWithTimeout(`${this.baseUrl}/api/builds/${buildId}/events`, { headers });
+
+        if (!response.ok) {
+          await response.body?.cancel();
+          // Only server errors are worth retrying
+          const message = `Failed to follow build: ${response.statusText}`;
+          throw response.status < 500 ? new StreamRejectedError(message) : new Error(message);
+        }
+
+        for await (const event of readServerSentEvents(response.body!, EVENT_STREAM_IDLE_MS)) {
+          failures = 0;
+          lastEventId = event.id ?? lastEventId;
+
+          const parsed = parseBuildEvent(event);
+          if (!parsed) {
+            continue;
+          }
+          onEvent(parsed);
+
+          const { status } = parsed.type === 'status' ? parsed : {};
+          if (status && (status.status === 'completed' || status.status === 'failed' || status.status === 'cancelled')) {
+            return status;
+          }
+        }
+
+        throw new Error('Event stream closed before the build finished');
+      } catch (error) {
+        failures++;
+        if (error instanceof StreamRejectedError || failures >= MAX_STREAM_FAILURES) {
+          throw error;
+        }
+        await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS * 2 ** (failures - 1)));
+      }
+    }
+  }
+
+  /**
+   * Get a build group's status, or undefined if the ID is not a group
+   */
+  async getGroupStatus(groupId: string): Promise<BuildGroupStatus | undefined> {
+    await this.init();
+
+    if (!groupId || groupId.trim() === '') {
+      throw new Error('Build ID is required');
+    }
+
+    // Builds of a group share its token
+    const buildToken = await getBuildToken(groupId);
+    const headers: Record<string, string> = {};
+    if (buildToken) {
+      headers['X-Build-Token'] = buildToken;
+    }
+
+    const response = await this.fetchWithTimeout(
+      `${this.baseUrl}/api/groups/${groupId}/status`,
+      { headers }
+    );
+
+    if (response.status === 404) {
+      await response.body?.cancel();
+      return undefined;
+    }
+
+    if (!response.ok) {
+      throw new Error(`Failed to get build group status: ${response.statusText}`);
+    }
+
+    const json = await response.json();
+    return BuildGroupStatusSchema.parse(json);
+  }
+
+  /**
+   * Download a build artifact, resuming from a previous partial download
+   *
+   * Bytes are written to `<outputPath>.part` and moved into place once
+   * complete. The ETag of the partial download is kept alongside it
+   * (`.part.etag`) and sent as If-Range, so the controller only resumes
+   * when the artifact hasn't changed; otherwise it restarts from zero.
+   *
+   * The finished file is checked against `expectedSha256` (or the controller's
+   * Digest header) before it is moved into place.
+   *
+   * @returns Hex SHA-256 of the downloaded file
+   */
   async downloadBuild(
     buildId: string,
     outputPath: string,
-    onProgress?: (downloadedBytes: number) => void
-  ): Promise<void> {
+    onProgress?: (downloadedBytes: number, totalBytes?: number) => void,
+    expectedSha256?: string
+  ): Promise<string> {
     await this.init();
 
     // Validate output path to prevent path traversal
     const resolvedPath = validateOutputPath(outputPath);
+    const partPath = `${resolvedPath}.part`;
+    const etagPath = `${partPath}.etag`;
 
     // Try to get build token for this build
     const buildToken = await getBuildToken(buildId);
@@ -251,11 +873,38 @@ export class APIClient {
       headers['X-Build-Token'] = buildToken;
     }
 
+    // Only resume partial files whose ETag we know
+    const savedEtag = await fs.promises.readFile(etagPath, 'utf-8').catch(() => null);
+    const partSize = savedEtag
+      ? await fs.promises.stat(partPath).then((s) => s.size, () => 0)
+      : 0;
+
+    if (partSize > 0 && savedEtag) {
+      headers['Range'] = `bytes=${partSize}-`;
+      headers['If-Range'] = savedEtag;
+    }
+
     const response = await this.fetchWithTimeout(
       `${this.baseUrl}/api/builds/${buildId}/download`,
       { headers }
     );
 
+    // Partial file already holds every byte
+    if (response.status === 416) {
+      const totalSize = parseContentRangeTotal(response.headers.get('content-range'));
+      await response.body?.cancel();
+
+      if (totalSize !== null && totalSize === partSize) {
+        onProgress?.(partSize, totalSize);
+        return finishDownload(partPath, resolvedPath, expectedSha256);
+      }
+
+      // Partial file is longer than the artifact; start over
+      await fs.promises.rm(partPath, { force: true });
+      await fs.promises.rm(etagPath, { force: true });
+      return this.downloadBuild(buildId, outputPath, onProgress, expectedSha256);
+    }
+
     if (!response.ok) {
       throw new Error(`Failed to download build: ${response.statusText}`);
     }
@@ -264,12 +913,28 @@ export class APIClient {
       throw new Error('Response body is empty');
     }
 
+    // 206 continues the partial file; 200 means the controller sent the whole
+    // artifact (no range support, or the artifact changed)
+    const resuming = response.status === 206;
+    let downloadedBytes = resuming ? partSize : 0;
+    const contentLength = Number(response.headers.get('content-length'));
+    const totalBytes = resuming
+      ? parseContentRangeTotal(response.headers.get('content-range')) ?? undefined
+      : (contentLength > 0 ? contentLength : undefined);
+
+    const expectedDigest = expectedSha256 ?? parseDigestHeader(response.headers.get('digest'));
+
+    const etag = response.headers.get('etag');
+    if (etag) {
+      await fs.promises.writeFile(etagPath, etag);
+    } else {
+      await fs.promises.rm(etagPath, { force: true });
+    }
+
     // Stream to disk instead of loading into memory
-    const fileStream = createWriteStream(resolvedPath);
+    const fileStream = createWriteStream(partPath, { flags: resuming ? 'a' : 'w' });
     const reader = response.body.getReader();
 
-    let downloadedBytes = 0;
-
     try {
       while (true) {
         const { done, value } = await reader.read();
@@ -277,10 +942,12 @@ export class APIClient {
         if (done) break;
 
         downloadedBytes += value.length;
-        fileStream.write(value);
+        if (!fileStream.write(value)) {
+          await new Promise<void>((resolve) => fileStream.once('drain', () => resolve()));
+        }
 
         if (onProgress) {
-          onProgress(downloadedBytes);
+          onProgress(downloadedBytes, totalBytes);
         }
       }
 
@@ -292,13 +959,18 @@ export class APIClient {
         fileStream.on('error', reject);
       });
     } catch (error) {
-      // Clean up partial file on error
+      // Keep the partial file (and its ETag) so the next attempt can resume
       fileStream.close();
-      try {
-        await fs.promises.unlink(resolvedPath);
-      } catch {}
       throw error;
     }
+
+    if (totalBytes !== undefined && downloadedBytes !== totalBytes) {
+      throw new Error(
+        `Download incomplete: received ${formatBytes(downloadedBytes)} of ${formatBytes(totalBytes)}. Run the command again to resume.`
+      );
+    }
+
+    return finishDownload(partPath, resolvedPath, expectedDigest);
   }
 
   async listBuilds(): Promise<Build[]> {
@@ -314,7 +986,170 @@ export class APIClient {
     return BuildsArraySchema.parse(json);
   }
 
-  async cancelBuild(buildId: string): Promise<void> {
+  async createSchedule(definition: ScheduleDefinition): Promise<Schedule> {
+    await this.init();
+
+    const response = await this.fetchWithTimeout(`${this.baseUrl}/api/schedules`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        name: definition.name,
+        cron: definition.cron,
+        platform: [definition.platform ?? 'ios'].flat().join(','),
+        source_build_id: definition.sourceBuildId,
+        git_url: definition.gitUrl,
+        git_ref: definition.gitRef,
+        priority: definition.priority,
+        submitter: definition.submitter,
+        min_xcode_version: definition.requirements?.minXcodeVersion,
+        min_memory_gb: definition.requirements?.minMemoryGB,
+        expo_sdk: definition.requirements?.expoSdk,
+        catch_up: definition.catchUp,
+      }),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Failed to create schedule: ${error}`);
+    }
+
+    return ScheduleSchema.parse(await response.json());
+  }
+
+  async listSchedules(): Promise<Schedule[]> {
+    await this.init();
+
+    const response = await this.fetchWithTimeout(`${this.baseUrl}/api/schedules`);
+
+    if (!response.ok) {
+      throw new Error(`Failed to list schedules: ${response.statusText}`);
+    }
+
+    return SchedulesListSchema.parse(await response.json()).schedules;
+  }
+
+  /**
+   * Get a schedule with its recent runs (newest first)
+   */
+  async getSchedule(scheduleId: string): Promise<Schedule> {
+    await this.init();
+
+    if (!scheduleId || scheduleId.trim() === '') {
+      throw new Error('Schedule ID is required');
+    }
+
+    const response = await this.fetchWithTimeout(`${this.baseUrl}/api/schedules/${scheduleId}`);
+
+    if (!response.ok) {
+      throw new Error(response.status === 404 ? 'Schedule not found' : `Failed to get schedule: ${response.statusText}`);
+    }
+
+    return ScheduleSchema.parse(await response.json());
+  }
+
+  async deleteSchedule(scheduleId: string): Promise<void> {
+    await this.init();
+
+    if (!scheduleId || scheduleId.trim() === '') {
+      throw new Error('Schedule ID is required');
+    }
+
+    const response = await this.fetchWithTimeout(`${this.baseUrl}/api/schedules/${scheduleId}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      throw new Error(response.status === 404 ? 'Schedule not found' : `Failed to delete schedule: ${response.statusText}`);
+    }
+  }
+
+  /**
+   * List workers with their drain and pause state
+   */
+  async listWorkers(): Promise<WorkerState[]> {
+    await this.init();
+
+    const response = await this.fetchWithTimeout(`${this.baseUrl}/api/admin/workers`);
+
+    if (!response.ok) {
+      throw new Error(`Failed to list workers: ${response.statusText}`);
+    }
+
+    return WorkersListSchema.parse(await response.json()).workers;
+  }
+
+  /**
+   * Drain, undrain, pause or resume a worker
+   */
+  async setWorkerHold(workerId: string, action: WorkerHoldAction): Promise<WorkerState> {
+    await this.init();
+
+    if (!workerId || workerId.trim() === '') {
+      throw new Error('Worker ID is required');
+    }
+
+    const response = await this.fetchWithTimeout(`${this.baseUrl}/api/admin/workers/${workerId}/${action}`, {
+      method: 'POST',
+    });
+
+    if (!response.ok) {
+      throw new Error(response.status === 404 ? 'Worker not found' : `Failed to ${action} worker: ${response.statusText}`);
+    }
+
+    return WorkerStateSchema.parse(await response.json());
+  }
+
+  async getQueueState(): Promise<QueueState> {
+    await this.init();
+
+    const response = await this.fetchWithTimeout(`${this.baseUrl}/api/admin/queue`);
+
+    if (!response.ok) {
+      throw new Error(`Failed to get queue state: ${response.statusText}`);
+    }
+
+    return QueueStateSchema.parse(await response.json());
+  }
+
+  /**
+   * Stop assigning builds to every worker for controller maintenance
+   */
+  async pauseQueue(reason?: string): Promise<QueueState> {
+    await this.init();
+
+    const response = await this.fetchWithTimeout(`${this.baseUrl}/api/admin/queue/pause`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ reason }),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Failed to pause queue: ${error}`);
+    }
+
+    return QueueStateSchema.parse(await response.json());
+  }
+
+  async resumeQueue(): Promise<QueueState> {
+    await this.init();
+
+    const response = await this.fetchWithTimeout(`${this.baseUrl}/api/admin/queue/resume`, {
+      method: 'POST',
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to resume queue: ${response.statusText}`);
+    }
+
+    return QueueStateSchema.parse(await response.json());
+  }
+
+  async cancelBuild(buildId: string): Promise<CancelResult> {
     await this.init();
 
     if (!buildId || buildId.trim() === '') {
@@ -332,6 +1167,8 @@ export class APIClient {
       const error = await response.text();
       throw new Error(`Failed to cancel build: ${error}`);
     }
+
+    return CancelResultSchema.parse(await response.json());
   }
 
   async getDiagnostics(workerId: string, limit?: number): Promise<any> {
@@ -381,6 +1218,154 @@ export const apiClient = new APIClient();
 
 // Helper functions
 
+/**
+ * Upload failure that resuming cannot fix (rejected by the controller)
+ */
+class UploadAbortedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UploadAbortedError';
+  }
+}
+
+/**
+ * Event stream refused by the controller (unknown build, no access)
+ */
+class StreamRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StreamRejectedError';
+  }
+}
+
+/**
+ * Verify a completed .part download and move it into place
+ * A corrupt download is discarded so the next attempt starts from zero
+ */
+async function finishDownload(partPath: string, resolvedPath: string, expectedSha256?: string): Promise<string> {
+  const etagPath = `${partPath}.etag`;
+  const actualSha256 = await hashFile(partPath);
+
+  if (expectedSha256 && actualSha256 !== expectedSha256.toLowerCase()) {
+    await fs.promises.rm(partPath, { force: true });
+    await fs.promises.rm(etagPath, { force: true });
+    throw new Error(
+      `Checksum mismatch: expected SHA-256 ${expectedSha256}, got ${actualSha256}. The download was discarded.`
+    );
+  }
+
+  await fs.promises.rename(partPath, resolvedPath);
+  await fs.promises.rm(etagPath, { force: true });
+
+  return actualSha256;
+}
+
+/**
+ * Events of a Server-Sent Events stream as they arrive; comments (the
+ * controller's keepalives) are skipped
+ * @throws If nothing arrives for idleMs
+ */
+async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+  idleMs: number
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      let idleTimer: ReturnType<typeof setTimeout> | undefined;
+      const idle = new Promise<never>((_, reject) => {
+        idleTimer = setTimeout(() => reject(new Error('Event stream stalled')), idleMs);
+      });
+      const chunk = await Promise.race([reader.read(), idle]).finally(() => clearTimeout(idleTimer));
+      if (chunk.done) {
+        return;
+      }
+
+      buffer += decoder.decode(chunk.value, { stream: true });
+      let end: number;
+      while ((end = buffer.indexOf('\n\n')) !== -1) {
+        const block = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+
+        const event: ServerSentEvent = { event: 'message', data: '' };
+        for (const line of block.split('\n')) {
+          const colon = line.indexOf(':');
+          if (colon === 0) {
+            continue;
+          }
+          const field = colon === -1 ? line : line.slice(0, colon);
+          const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+          if (field === 'id') {
+            event.id = value;
+          } else if (field === 'event') {
+            event.event = value;
+          } else if (field === 'data') {
+            event.data = event.data ? `${event.data}\n${value}` : value;
+          }
+        }
+
+        if (event.data) {
+          yield event;
+        }
+      }
+    }
+  } finally {
+    await reader.cancel().catch(() => {});
+  }
+}
+
+/**
+ * @returns undefined for events this client does not know
+ */
+function parseBuildEvent(event: ServerSentEvent): BuildEvent | undefined {
+  const data = JSON.parse(event.data);
+
+  switch (event.event) {
+    case 'log':
+      return { type: 'log', log: BuildLogLineSchema.parse(data) };
+    case 'status':
+      return { type: 'status', status: BuildEventStatusSchema.parse(data) };
+    case 'progress': {
+      const { attempt, progress } = BuildProgressSchema.parse(data);
+      return { type: 'progress', attempt, progress };
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Extract the hex SHA-256 from a Digest header ("sha-256=<base64>")
+ */
+function parseDigestHeader(header: string | null): string | undefined {
+  const entry = header
+    ?.split(',')
+    .map((value) => value.trim())
+    .find((value) => value.toLowerCase().startsWith('sha-256='));
+
+  return entry ? Buffer.from(entry.slice('sha-256='.length), 'base64').toString('hex') : undefined;
+}
+
+/**
+ * Extract the complete length from a Content-Range header
+ * (the trailing "/<length>", present on both 206 and 416 responses)
+ */
+function parseContentRangeTotal(header: string | null): number | null {
+  const match = header ? /\/(\d+)$/.exec(header) : null;
+  return match ? parseInt(match[1], 10) : null;
+}
+
+async function hashFile(filePath: string): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk);
+  }
+  return hash.digest('hex');
+}
+
 function validateOutputPath(outputPath: string): string {
   const path = require('path');
 
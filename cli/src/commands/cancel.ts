@@ -19,12 +19,15 @@ export function createCancelCommand(): Command {
           ? new APIClient(options.controllerUrl, options.apiKey)
           : apiClient;
 
-        await client.cancelBuild(buildId);
+        const result = await client.cancelBuild(buildId);
         spinner.succeed(chalk.green('Build cancelled successfully'));
 
         console.log();
         console.log(chalk.bold('Build ID:'), buildId);
         console.log(chalk.bold('Status:'), chalk.yellow('cancelled'));
+        if (result.workerNotified) {
+          console.log(chalk.gray('The worker stops the build when it next checks in'));
+        }
         console.log();
       } catch (error) {
         spinner.fail(chalk.red('Failed to cancel build'));
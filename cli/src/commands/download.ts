@@ -2,16 +2,16 @@ import { Command } from 'commander';
 import path from 'path';
 import { apiClient, APIClient } from '../api-client.js';
 import chalk from 'chalk';
-import ora from 'ora';
+import ora, { type Ora } from 'ora';
 import fs from 'fs';
 
 export function createDownloadCommand(): Command {
   const command = new Command('download');
 
   command
-    .description('Download a completed build')
-    .argument('<build-id>', 'Build ID to download')
-    .option('-o, --output <path>', 'Output file path', './build.ipa')
+    .description('Download a completed build, or every completed build of a group')
+    .argument('<build-id>', 'Build or group ID to download')
+    .option('-o, --output <path>', 'Output file path (for a group, the directory; default: ./build.ipa or .)')
     .option('--api-key <key>', 'API key for authentication')
     .option('--controller-url <url>', 'Controller URL')
     .action(async (buildId: string, options) => {
@@ -22,6 +22,35 @@ export function createDownloadCommand(): Command {
           ? new APIClient(options.controllerUrl, options.apiKey)
           : apiClient;
 
+        const group = await client.getGroupStatus(buildId);
+        if (group) {
+          const completed = group.builds.filter((build) => build.status === 'completed');
+          if (completed.length === 0) {
+            spinner.fail(chalk.red(`No build of the group is ready (status: ${group.status})`));
+            console.log();
+            console.log('Check status:', chalk.cyan(`expo-free-agent status ${buildId}`));
+            console.log();
+            process.exit(1);
+          }
+
+          const outputDir = path.resolve(options.output ?? '.');
+          await fs.promises.mkdir(outputDir, { recursive: true });
+          spinner.succeed(chalk.green(`Downloading ${completed.length} of ${group.builds.length} builds`));
+
+          for (const build of group.builds) {
+            if (build.status !== 'completed') {
+              console.log(chalk.yellow(`Skipping ${build.platform} build ${build.id} (status: ${build.status})`));
+              continue;
+            }
+
+            const extension = build.platform === 'android' ? 'apk' : 'ipa';
+            const outputPath = path.join(outputDir, `${group.id}-${build.platform}.${extension}`);
+            spinner.start(`Downloading ${build.platform} build`);
+            await downloadArtifact(client, spinner, build.id, outputPath, build.resultSha256);
+          }
+          return;
+        }
+
         // Check if build is completed
         const status = await client.getBuildStatus(buildId);
 
@@ -33,51 +62,7 @@ export function createDownloadCommand(): Command {
           process.exit(1);
         }
 
-        const outputPath = path.resolve(options.output);
-
-        // Check if file exists
-        const fileExists = await fs.promises
-          .access(outputPath)
-          .then(() => true)
-          .catch(() => false);
-
-        if (fileExists) {
-          spinner.stop();
-          console.log(chalk.yellow(`File already exists: ${outputPath}`));
-          console.log();
-          console.log('Overwrite? Press Enter to continue, Ctrl+C to cancel');
-
-          // Wait for user confirmation
-          await new Promise<void>((resolve) => {
-            process.stdin.once('data', () => resolve());
-          });
-
-          spinner.start('Downloading build');
-        } else {
-          spinner.text = 'Downloading build';
-        }
-
-        let lastUpdate = Date.now();
-        const startTime = Date.now();
-
-        await client.downloadBuild(buildId, outputPath, (downloadedBytes) => {
-          // Update spinner every 500ms to avoid too many updates
-          const now = Date.now();
-          if (now - lastUpdate > 500) {
-            const elapsed = (now - startTime) / 1000;
-            const speed = downloadedBytes / elapsed;
-            spinner.text = `Downloading build (${formatBytes(downloadedBytes)} @ ${formatBytes(speed)}/s)`;
-            lastUpdate = now;
-          }
-        });
-
-        const fileSize = (await fs.promises.stat(outputPath)).size;
-        spinner.succeed(chalk.green('Build downloaded successfully'));
-
-        console.log();
-        console.log(chalk.bold('File:'), outputPath);
-        console.log(chalk.bold('Size:'), formatBytes(fileSize));
-        console.log();
+        await downloadArtifact(client, spinner, buildId, path.resolve(options.output ?? './build.ipa'), status.resultSha256);
       } catch (error) {
         spinner.fail(chalk.red('Download failed'));
         console.error(chalk.red(error instanceof Error ? error.message : String(error)));
@@ -88,6 +73,78 @@ export function createDownloadCommand(): Command {
   return command;
 }
 
+/**
+ * Download one build's artifact to outputPath, confirming before overwriting
+ * and resuming a previous partial download
+ */
+async function downloadArtifact(
+  client: APIClient,
+  spinner: Ora,
+  buildId: string,
+  outputPath: string,
+  expectedSha256?: string
+): Promise<void> {
+  // Check if file exists
+  const fileExists = await fs.promises
+    .access(outputPath)
+    .then(() => true)
+    .catch(() => false);
+
+  if (fileExists) {
+    spinner.stop();
+    console.log(chalk.yellow(`File already exists: ${outputPath}`));
+    console.log();
+    console.log('Overwrite? Press Enter to continue, Ctrl+C to cancel');
+
+    // Wait for user confirmation
+    await new Promise<void>((resolve) => {
+      process.stdin.once('data', () => resolve());
+    });
+
+    spinner.start('Downloading build');
+  } else {
+    spinner.text = 'Downloading build';
+  }
+
+  // A previous interrupted download leaves a .part file to resume from
+  const resumeFrom = await fs.promises
+    .stat(`${outputPath}.part`)
+    .then((s) => s.size)
+    .catch(() => 0);
+
+  if (resumeFrom > 0) {
+    spinner.text = `Resuming download from ${formatBytes(resumeFrom)}`;
+  }
+
+  let lastUpdate = Date.now();
+  const startTime = Date.now();
+
+  const sha256 = await client.downloadBuild(buildId, outputPath, (downloadedBytes, totalBytes) => {
+    // Update spinner every 500ms to avoid too many updates
+    const now = Date.now();
+    if (now - lastUpdate > 500) {
+      const elapsed = (now - startTime) / 1000;
+      const speed = Math.max(downloadedBytes - resumeFrom, 0) / elapsed;
+      const progress = totalBytes
+        ? `${formatBytes(downloadedBytes)} / ${formatBytes(totalBytes)}`
+        : formatBytes(downloadedBytes);
+      spinner.text = `Downloading build (${progress} @ ${formatBytes(speed)}/s)`;
+      lastUpdate = now;
+    }
+  }, expectedSha256);
+
+  const fileSize = (await fs.promises.stat(outputPath)).size;
+  spinner.succeed(chalk.green(
+    expectedSha256 ? 'Build downloaded and verified' : 'Build downloaded successfully'
+  ));
+
+  console.log();
+  console.log(chalk.bold('File:'), outputPath);
+  console.log(chalk.bold('Size:'), formatBytes(fileSize));
+  console.log(chalk.bold('SHA-256:'), sha256);
+  console.log();
+}
+
 function formatBytes(bytes: number): string {
   if (bytes < 1024) return `${bytes} B`;
   if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(2)} KB`;
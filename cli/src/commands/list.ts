@@ -1,5 +1,5 @@
 import { Command } from 'commander';
-import { apiClient, APIClient } from '../api-client.js';
+import { apiClient, APIClient, type Build } from '../api-client.js';
 import chalk from 'chalk';
 import ora from 'ora';
 
@@ -33,10 +33,26 @@ export function createListCommand(): Command {
         console.log(chalk.bold('Recent Builds:'));
         console.log();
 
+        // A build group is listed (and limited) as one entry
+        const entries = groupBuilds(builds);
         const limit = parseInt(options.limit, 10);
-        const displayBuilds = builds.slice(0, limit);
+        const displayEntries = entries.slice(0, limit);
+
+        displayEntries.forEach((entry) => {
+          if (Array.isArray(entry)) {
+            const groupStatus = getGroupStatus(entry);
+
+            console.log(chalk.bold('Group:'), entry[0].groupId);
+            console.log('  Status:', getStatusColor(groupStatus));
+            console.log('  Created:', new Date(entry[0].createdAt).toLocaleString());
+            for (const build of entry) {
+              console.log(`  ${(build.platform ?? '').padEnd(8)} ${build.id}  ${getStatusColor(build.status)}`);
+            }
+            console.log();
+            return;
+          }
 
-        displayBuilds.forEach((build) => {
+          const build = entry;
           const statusColor = getStatusColor(build.status);
           const createdAt = new Date(build.createdAt).toLocaleString();
 
@@ -54,8 +70,8 @@ export function createListCommand(): Command {
           console.log();
         });
 
-        if (builds.length > limit) {
-          console.log(chalk.gray(`... and ${builds.length - limit} more`));
+        if (entries.length > limit) {
+          console.log(chalk.gray(`... and ${entries.length - limit} more`));
           console.log();
         }
 
@@ -71,6 +87,48 @@ export function createListCommand(): Command {
   return command;
 }
 
+/**
+ * Collect the builds of each group into one entry, where its newest build is
+ */
+function groupBuilds(builds: Build[]): (Build | Build[])[] {
+  const entries: (Build | Build[])[] = [];
+  const groups = new Map<string, Build[]>();
+
+  for (const build of builds) {
+    if (!build.groupId) {
+      entries.push(build);
+      continue;
+    }
+
+    const group = groups.get(build.groupId);
+    if (group) {
+      group.push(build);
+    } else {
+      groups.set(build.groupId, [build]);
+      entries.push(groups.get(build.groupId)!);
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Aggregate status of a group's builds, as the controller reports it
+ */
+function getGroupStatus(builds: Build[]): string {
+  const finished = builds.filter(
+    (build) => build.status === 'completed' || build.status === 'failed' || build.status === 'cancelled'
+  );
+
+  if (finished.length < builds.length) {
+    return builds.some((build) => build.status !== 'pending') ? 'building' : 'pending';
+  }
+  if (finished.every((build) => build.status === 'completed')) {
+    return 'completed';
+  }
+  return finished.some((build) => build.status === 'failed') ? 'failed' : 'cancelled';
+}
+
 function getStatusColor(status: string): string {
   switch (status) {
     case 'completed':
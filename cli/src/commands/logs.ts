@@ -1,5 +1,5 @@
 import { Command } from 'commander';
-import { apiClient } from '../api-client.js';
+import { apiClient, APIClient } from '../api-client.js';
 import chalk from 'chalk';
 
 export function createLogsCommand(): Command {
@@ -10,10 +10,9 @@ export function createLogsCommand(): Command {
     .argument('<build-id>', 'Build ID to get logs for')
     .option('--api-key <key>', 'API key for authentication')
     .option('--controller-url <url>', 'Controller URL')
-    .option('-f, --follow', 'Follow logs in real-time (poll for updates)')
+    .option('-f, --follow', 'Follow logs in real-time until the build finishes')
     .option('-w, --watch', 'Watch logs in real-time (alias for --follow)')
     .option('-t, --tail', 'Tail logs in real-time (alias for --follow)')
-    .option('--interval <ms>', 'Poll interval in milliseconds (default: 2000)', '2000')
     .action(async (buildId: string, options) => {
       try {
         if (options.follow || options.watch || options.tail) {
@@ -48,62 +47,34 @@ async function showLogs(buildId: string, options: any): Promise<void> {
 }
 
 async function followLogs(buildId: string, options: any): Promise<void> {
-  const interval = parseInt(options.interval);
-  let lastLogCount = 0;
+  // Use custom client if --api-key or --controller-url provided
+  const client = (options.apiKey || options.controllerUrl)
+    ? new APIClient(options.controllerUrl, options.apiKey)
+    : apiClient;
 
   console.log(chalk.bold('Following logs for build:'), buildId);
   console.log(chalk.dim('Press Ctrl+C to stop\n'));
 
-  // Show initial logs
-  await showLogs(buildId, options);
-
-  // Poll for new logs
-  const pollInterval = setInterval(async () => {
-    try {
-      const response = await fetch(
-        `${options.controllerUrl || await apiClient.init().then(() => (apiClient as any).baseUrl)}/api/builds/${buildId}/logs`,
-        {
-          headers: await getHeaders(buildId, options),
-        }
-      );
-
-      if (!response.ok) {
-        clearInterval(pollInterval);
-        throw new Error('Failed to get logs');
+  // The controller streams every line so far, then each new one as it arrives
+  let attempt: number | undefined;
+  let started = false;
+  const { status } = await client.followBuildEvents(buildId, (event) => {
+    if (event.type === 'log') {
+      attempt = displayLogs([event.log], false, attempt);
+    } else if (event.type === 'status' && !started) {
+      started = true;
+      if (attempt === undefined) {
+        console.log(chalk.dim('No logs yet'));
       }
-
-      const data = await response.json();
-
-      // Only show new logs
-      if (data.logs.length > lastLogCount) {
-        const newLogs = data.logs.slice(lastLogCount);
-        displayLogs(newLogs, false);
-        lastLogCount = data.logs.length;
-      }
-
-      // Check if build is complete
-      const statusResponse = await fetch(
-        `${options.controllerUrl || await apiClient.init().then(() => (apiClient as any).baseUrl)}/api/builds/${buildId}/status`,
-        {
-          headers: await getHeaders(buildId, options),
-        }
-      );
-
-      if (statusResponse.ok) {
-        const status = await statusResponse.json();
-        if (status.status === 'completed' || status.status === 'failed') {
-          clearInterval(pollInterval);
-          console.log();
-          console.log(chalk.bold('Build finished:'), status.status === 'completed' ? chalk.green('completed') : chalk.red('failed'));
-          process.exit(0);
-        }
-      }
-    } catch (error) {
-      clearInterval(pollInterval);
-      console.error(chalk.red('Error polling logs:'), error instanceof Error ? error.message : String(error));
-      process.exit(1);
     }
-  }, interval);
+  });
+
+  console.log();
+  const outcome = status === 'completed'
+    ? chalk.green('completed')
+    : status === 'cancelled' ? chalk.gray('cancelled') : chalk.red('failed');
+  console.log(chalk.bold('Build finished:'), outcome);
+  process.exit(0);
 }
 
 async function getHeaders(buildId: string, options: any): Promise<Record<string, string>> {
@@ -140,13 +111,23 @@ async function getHeaders(buildId: string, options: any): Promise<Record<string,
   return headers;
 }
 
-function displayLogs(logs: any[], showHeader: boolean = true): void {
+/**
+ * @param attempt Attempt of the lines shown before these, if any
+ * @returns Attempt of the last line shown
+ */
+function displayLogs(logs: any[], showHeader: boolean = true, attempt: number = logs[0]?.attempt ?? 1): number {
   if (showHeader && logs.length === 0) {
     console.log(chalk.dim('No logs yet'));
-    return;
+    return attempt;
   }
 
   for (const log of logs) {
+    // Retried builds: mark where each new attempt starts
+    if (log.attempt && log.attempt !== attempt) {
+      attempt = log.attempt;
+      console.log(chalk.bold(`── Attempt ${attempt} ──`));
+    }
+
     const timestamp = new Date(log.timestamp).toLocaleTimeString();
     let levelColor = chalk.white;
     let levelSymbol = '●';
@@ -172,4 +153,6 @@ function displayLogs(logs: any[], showHeader: boolean = true): void {
       log.message
     );
   }
+
+  return attempt;
 }
@@ -0,0 +1,96 @@
+import { Command } from 'commander';
+import { apiClient, APIClient, type QueueState } from '../api-client.js';
+import chalk from 'chalk';
+import ora from 'ora';
+
+export function createQueueCommand(): Command {
+  const command = new Command('queue');
+
+  command.description('Pause and resume the controller\'s build queue for maintenance');
+
+  // Status subcommand
+  command
+    .command('status')
+    .description('Show whether the queue is paused, with its counts')
+    .option('--api-key <key>', 'API key for authentication')
+    .option('--controller-url <url>', 'Controller URL')
+    .action(async (options) => {
+      const spinner = ora('Fetching queue state').start();
+
+      try {
+        const state = await createClient(options).getQueueState();
+        spinner.stop();
+
+        console.log();
+        printQueueState(state);
+        console.log(`  Pending: ${state.pending ?? 0}  Active: ${state.active ?? 0}`);
+        console.log();
+      } catch (error) {
+        spinner.fail(chalk.red('Failed to get queue state'));
+        console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+        process.exit(1);
+      }
+    });
+
+  // Pause subcommand
+  command
+    .command('pause')
+    .description('Stop assigning builds to every worker (builds still queue; running builds finish)')
+    .option('--reason <text>', 'Shown to submitters as why their builds are waiting')
+    .option('--api-key <key>', 'API key for authentication')
+    .option('--controller-url <url>', 'Controller URL')
+    .action(async (options) => {
+      const spinner = ora('Pausing queue').start();
+
+      try {
+        const state = await createClient(options).pauseQueue(options.reason);
+        spinner.succeed(chalk.green('Queue paused'));
+        console.log();
+        printQueueState(state);
+        console.log();
+      } catch (error) {
+        spinner.fail(chalk.red('Failed to pause queue'));
+        console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+        process.exit(1);
+      }
+    });
+
+  // Resume subcommand
+  command
+    .command('resume')
+    .description('Resume assigning builds')
+    .option('--api-key <key>', 'API key for authentication')
+    .option('--controller-url <url>', 'Controller URL')
+    .action(async (options) => {
+      const spinner = ora('Resuming queue').start();
+
+      try {
+        await createClient(options).resumeQueue();
+        spinner.succeed(chalk.green('Queue resumed'));
+      } catch (error) {
+        spinner.fail(chalk.red('Failed to resume queue'));
+        console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+        process.exit(1);
+      }
+    });
+
+  return command;
+}
+
+function printQueueState(state: QueueState) {
+  if (!state.paused) {
+    console.log(`  Queue: ${chalk.green('running')}`);
+    return;
+  }
+
+  console.log(`  Queue: ${chalk.yellow('paused')} since ${new Date(state.pausedAt!).toLocaleString()}`);
+  if (state.reason) {
+    console.log(`  Reason: ${state.reason}`);
+  }
+}
+
+function createClient(options: { apiKey?: string; controllerUrl?: string }): APIClient {
+  return (options.apiKey || options.controllerUrl)
+    ? new APIClient(options.controllerUrl, options.apiKey)
+    : apiClient;
+}
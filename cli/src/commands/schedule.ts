@@ -0,0 +1,186 @@
+import { Command } from 'commander';
+import { apiClient, APIClient, BUILD_PRIORITIES, type BuildPlatform, type BuildPriority, type Schedule } from '../api-client.js';
+import chalk from 'chalk';
+import ora from 'ora';
+
+export function createScheduleCommand(): Command {
+  const command = new Command('schedule');
+
+  command.description('Manage scheduled builds (cron expressions run in UTC)');
+
+  // Create subcommand
+  command
+    .command('create')
+    .description('Schedule builds from a previous build\'s source or a git branch')
+    .argument('<name>', 'Schedule name')
+    .requiredOption('--cron <expression>', 'When to build, e.g. "0 2 * * *" for 02:00 UTC daily')
+    .option('--from-build <build-id>', 'Re-run this build\'s source and certs')
+    .option('--git <url>', 'Clone this repository at each run (https://, ssh:// or git@)')
+    .option('--ref <ref>', 'Branch or tag to clone with --git')
+    .option('--platform <platform>', 'Target platform (ios, android, or ios,android to build both)', 'ios')
+    .option('--min-xcode <version>', 'Only run on workers with at least this Xcode version')
+    .option('--min-memory <gb>', 'Only run on workers with at least this much memory (GB)', parseFloat)
+    .option('--expo-sdk <version>', 'Expo SDK major version', parseInt)
+    .option('--priority <level>', `Queue priority (${BUILD_PRIORITIES.join(', ')})`, 'normal')
+    .option('--submitter <name>', 'Name the queue shares workers fairly by')
+    .option('--no-catch-up', 'Skip runs missed while the controller was down instead of running once')
+    .option('--api-key <key>', 'API key for authentication')
+    .option('--controller-url <url>', 'Controller URL')
+    .action(async (name: string, options) => {
+      if (!BUILD_PRIORITIES.includes(options.priority)) {
+        console.error(chalk.red(`Priority must be one of: ${BUILD_PRIORITIES.join(', ')}`));
+        process.exit(1);
+      }
+
+      if (Boolean(options.fromBuild) === Boolean(options.git) || (options.git && !options.ref)) {
+        console.error(chalk.red('Specify either --from-build <build-id> or --git <url> --ref <ref>'));
+        process.exit(1);
+      }
+
+      const platforms = [...new Set(String(options.platform).split(',').map((value) => value.trim()))];
+      if (!platforms.every((value) => ['ios', 'android'].includes(value))) {
+        console.error(chalk.red('Platform must be ios, android, or both comma-separated'));
+        process.exit(1);
+      }
+
+      const spinner = ora('Creating schedule').start();
+
+      try {
+        const client = createClient(options);
+        const schedule = await client.createSchedule({
+          name,
+          cron: options.cron,
+          platform: platforms as BuildPlatform[],
+          sourceBuildId: options.fromBuild,
+          gitUrl: options.git,
+          gitRef: options.ref,
+          priority: options.priority as BuildPriority,
+          submitter: options.submitter,
+          requirements: {
+            minXcodeVersion: options.minXcode,
+            minMemoryGB: options.minMemory,
+            expoSdk: options.expoSdk,
+          },
+          catchUp: options.catchUp,
+        });
+
+        spinner.succeed(chalk.green('Schedule created'));
+        displaySchedule(schedule);
+      } catch (error) {
+        spinner.fail(chalk.red('Failed to create schedule'));
+        console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+        process.exit(1);
+      }
+    });
+
+  // List subcommand
+  command
+    .command('list')
+    .description('List schedules')
+    .option('--api-key <key>', 'API key for authentication')
+    .option('--controller-url <url>', 'Controller URL')
+    .action(async (options) => {
+      const spinner = ora('Fetching schedules').start();
+
+      try {
+        const schedules = await createClient(options).listSchedules();
+        spinner.stop();
+
+        if (schedules.length === 0) {
+          console.log(chalk.yellow('\nNo schedules\n'));
+          return;
+        }
+
+        console.log(chalk.bold(`\nSchedules (${schedules.length}):\n`));
+        for (const schedule of schedules) {
+          console.log(`  ${chalk.cyan(schedule.id)}  ${chalk.bold(schedule.name)}  ${schedule.cron}  ${schedule.platforms.join(',')}`);
+          console.log(chalk.dim(`    Next run: ${new Date(schedule.nextRunAt).toLocaleString()}  Source: ${schedule.source}`));
+        }
+        console.log();
+      } catch (error) {
+        spinner.fail(chalk.red('Failed to list schedules'));
+        console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+        process.exit(1);
+      }
+    });
+
+  // Show subcommand
+  command
+    .command('show')
+    .description('Show a schedule and its recent runs')
+    .argument('<schedule-id>', 'Schedule ID')
+    .option('--api-key <key>', 'API key for authentication')
+    .option('--controller-url <url>', 'Controller URL')
+    .action(async (scheduleId: string, options) => {
+      const spinner = ora('Fetching schedule').start();
+
+      try {
+        const schedule = await createClient(options).getSchedule(scheduleId);
+        spinner.stop();
+        displaySchedule(schedule);
+
+        if (schedule.runs.length === 0) {
+          console.log(chalk.dim('No runs yet\n'));
+          return;
+        }
+
+        console.log(chalk.bold('Recent runs:'));
+        for (const run of schedule.runs) {
+          const outcome = run.outcome === 'triggered'
+            ? chalk.green(run.outcome)
+            : run.outcome === 'missed' ? chalk.yellow(run.outcome) : chalk.red(run.outcome);
+          const detail = run.buildId ?? run.error ?? '';
+          console.log(`  ${new Date(run.scheduledFor).toLocaleString()}  ${outcome}  ${chalk.dim(detail)}`);
+        }
+        console.log();
+      } catch (error) {
+        spinner.fail(chalk.red('Failed to get schedule'));
+        console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+        process.exit(1);
+      }
+    });
+
+  // Delete subcommand
+  command
+    .command('delete')
+    .description('Delete a schedule (builds it submitted are kept)')
+    .argument('<schedule-id>', 'Schedule ID')
+    .option('--api-key <key>', 'API key for authentication')
+    .option('--controller-url <url>', 'Controller URL')
+    .action(async (scheduleId: string, options) => {
+      const spinner = ora('Deleting schedule').start();
+
+      try {
+        await createClient(options).deleteSchedule(scheduleId);
+        spinner.succeed(chalk.green('Schedule deleted'));
+      } catch (error) {
+        spinner.fail(chalk.red('Failed to delete schedule'));
+        console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+        process.exit(1);
+      }
+    });
+
+  return command;
+}
+
+function createClient(options: { apiKey?: string; controllerUrl?: string }): APIClient {
+  return (options.apiKey || options.controllerUrl)
+    ? new APIClient(options.controllerUrl, options.apiKey)
+    : apiClient;
+}
+
+function displaySchedule(schedule: Schedule): void {
+  console.log();
+  console.log(chalk.bold('Schedule ID:'), chalk.cyan(schedule.id));
+  console.log(chalk.bold('Name:'), schedule.name);
+  console.log(chalk.bold('Cron (UTC):'), schedule.cron);
+  console.log(chalk.bold('Platforms:'), schedule.platforms.join(', '));
+  console.log(chalk.bold('Source:'), schedule.source);
+  console.log(chalk.bold('Priority:'), schedule.priority);
+  console.log(chalk.bold('Catch up missed runs:'), schedule.catchUp ? 'yes' : 'no');
+  console.log(chalk.bold('Next run:'), new Date(schedule.nextRunAt).toLocaleString());
+  if (schedule.lastRunAt) {
+    console.log(chalk.bold('Last run:'), new Date(schedule.lastRunAt).toLocaleString());
+  }
+  console.log();
+}
@@ -1,5 +1,12 @@
 import { Command } from 'commander';
-import { apiClient, APIClient } from '../api-client.js';
+import {
+  apiClient,
+  APIClient,
+  type BuildAttempt,
+  type BuildEventStatus,
+  type BuildGroupStatus,
+  type BuildStatus,
+} from '../api-client.js';
 import chalk from 'chalk';
 import ora from 'ora';
 import cliProgress from 'cli-progress';
@@ -13,9 +20,9 @@ export function createStatusCommand(): Command {
   const command = new Command('status');
 
   command
-    .description('Check the status of a build')
-    .argument('<build-id>', 'Build ID to check')
-    .option('-w, --watch', 'Watch build progress and poll for updates')
+    .description('Check the status of a build or build group')
+    .argument('<build-id>', 'Build or group ID to check')
+    .option('-w, --watch', 'Watch build progress until it finishes')
     .option('--api-key <key>', 'API key for authentication')
     .option('--controller-url <url>', 'Controller URL')
     .action(async (buildId: string, options) => {
@@ -24,10 +31,20 @@ export function createStatusCommand(): Command {
           ? new APIClient(options.controllerUrl, options.apiKey)
           : apiClient;
 
-        if (options.watch) {
+        const spinner = ora('Fetching build status').start();
+        const group = await client.getGroupStatus(buildId);
+        spinner.stop();
+
+        if (group) {
+          if (options.watch) {
+            await watchGroupStatus(group, client);
+          } else {
+            displayGroupStatus(group);
+          }
+        } else if (options.watch) {
           await watchBuildStatus(buildId, client);
         } else {
-          const spinner = ora('Fetching build status').start();
+          spinner.start('Fetching build status');
           const status = await client.getBuildStatus(buildId);
           spinner.stop();
 
@@ -49,6 +66,53 @@ function displayBuildStatus(status: any): void {
   console.log(chalk.bold('Status:'), getStatusColor(status.status));
   console.log(chalk.bold('Created:'), new Date(status.createdAt).toLocaleString());
 
+  if (status.priority && status.priority !== 'normal') {
+    console.log(chalk.bold('Priority:'), status.priority);
+  }
+
+  if (status.queuePosition) {
+    console.log(chalk.bold('Queue position:'), `#${status.queuePosition}`);
+  }
+
+  if (status.waitingReason) {
+    console.log(chalk.bold('Waiting:'), chalk.yellow(status.waitingReason));
+  }
+
+  if (status.status === 'pending' && status.estimatedStartAt) {
+    console.log(chalk.bold('Expected start:'), formatEstimate(status.estimatedStartAt));
+  }
+
+  if (status.estimatedCompletionAt) {
+    console.log(chalk.bold('Expected finish:'), formatEstimate(status.estimatedCompletionAt));
+  }
+
+  const limits = [
+    status.maxQueueWaitMs && `queue wait ${formatDuration(Math.round(status.maxQueueWaitMs / 1000))}`,
+    status.maxDurationMs && `build ${formatDuration(Math.round(status.maxDurationMs / 1000))}`,
+  ].filter(Boolean);
+  if (limits.length > 0) {
+    console.log(chalk.bold('Limits:'), limits.join(', '));
+  }
+
+  if (status.timesOutAt) {
+    console.log(chalk.bold('Times out:'), formatEstimate(status.timesOutAt));
+  }
+
+  if (status.attempt > 1) {
+    console.log(chalk.bold('Attempt:'), `${status.attempt} of ${status.maxAttempts}`);
+  }
+
+  if (status.retryAfter) {
+    console.log(chalk.bold('Retrying at:'), new Date(status.retryAfter).toLocaleString());
+  }
+
+  if (status.attempts?.length > 1) {
+    console.log(chalk.bold('Attempts:'));
+    for (const attempt of status.attempts) {
+      console.log(`  ${formatAttempt(attempt)}`);
+    }
+  }
+
   if (status.completedAt) {
     console.log(chalk.bold('Completed:'), new Date(status.completedAt).toLocaleString());
     const duration = Math.round(
@@ -57,10 +121,18 @@ function displayBuildStatus(status: any): void {
     console.log(chalk.bold('Duration:'), formatDuration(duration));
   }
 
+  if (status.cachedFrom) {
+    console.log(chalk.bold('From cache:'), `result of build ${status.cachedFrom}`);
+  }
+
   if (status.error) {
     console.log(chalk.bold('Error:'), chalk.red(status.error));
   }
 
+  if (status.resultSha256) {
+    console.log(chalk.bold('SHA-256:'), status.resultSha256);
+  }
+
   console.log();
 
   if (status.status === 'completed') {
@@ -68,6 +140,13 @@ function displayBuildStatus(status: any): void {
     console.log('Download:', chalk.cyan(`expo-free-agent download ${status.id}`));
   } else if (status.status === 'failed') {
     console.log(chalk.red('Build failed'));
+  } else if (status.status === 'cancelled') {
+    console.log(chalk.gray('Build cancelled'));
+    // Only a build cancelled while running has a worker to stop
+    const stopping = status.attempts[status.attempts.length - 1]?.outcome === 'cancelled';
+    if (stopping && !status.cancelAcknowledgedAt) {
+      console.log(chalk.dim('Waiting for the worker to confirm it stopped'));
+    }
   } else {
     console.log(chalk.yellow('Build in progress...'));
     console.log('Watch progress:', chalk.cyan(`expo-free-agent status ${status.id} --watch`));
@@ -76,101 +155,217 @@ function displayBuildStatus(status: any): void {
   console.log();
 }
 
-async function watchBuildStatus(buildId: string, client: APIClient = apiClient): Promise<void> {
-  console.log(chalk.bold('Watching build:'), buildId);
-  console.log(chalk.dim('Max watch time: 30 minutes'));
+function displayGroupStatus(group: BuildGroupStatus): void {
+  console.log();
+  console.log(chalk.bold('Group ID:'), group.id);
+  console.log(chalk.bold('Status:'), getStatusColor(group.status));
+  console.log(chalk.bold('Created:'), new Date(group.createdAt).toLocaleString());
+  console.log(chalk.bold('Builds:'));
+  for (const build of group.builds) {
+    const position = build.queuePosition ? ` (#${build.queuePosition} in queue)` : '';
+    console.log(`  ${build.platform.padEnd(8)} ${build.id}  ${getStatusColor(build.status)}${position}`);
+    if (build.error) {
+      console.log(`           ${chalk.red(build.error)}`);
+    }
+  }
   console.log();
 
-  const bar = new cliProgress.SingleBar({
-    format: `Build Progress |${chalk.cyan('{bar}')}| {status}`,
-    barCompleteChar: '\u2588',
-    barIncompleteChar: '\u2591',
-    hideCursor: true,
-  });
+  if (group.status === 'completed') {
+    console.log(chalk.green('All builds completed successfully!'));
+  } else if (group.status === 'failed') {
+    console.log(chalk.red('Some builds failed'));
+  } else if (group.status === 'cancelled') {
+    console.log(chalk.gray('Some builds were cancelled'));
+  } else {
+    console.log(chalk.yellow('Builds in progress...'));
+    console.log('Watch progress:', chalk.cyan(`expo-free-agent status ${group.id} --watch`));
+  }
+
+  if (group.builds.some((build) => build.status === 'completed')) {
+    console.log('Download:', chalk.cyan(`expo-free-agent download ${group.id}`));
+  }
+
+  console.log();
+}
+
+/**
+ * Poll a group until every build has finished, printing each build's status
+ * changes
+ */
+async function watchGroupStatus(group: BuildGroupStatus, client: APIClient): Promise<void> {
+  console.log(chalk.bold('Watching build group:'), group.id);
+  console.log(chalk.dim('Max watch time: 30 minutes'));
+  console.log();
 
-  let started = false;
   const startTime = Date.now();
+  const seen = new Map<string, string>();
   let pollInterval = INITIAL_POLL_INTERVAL_MS;
   let consecutiveErrors = 0;
 
   while (true) {
-    const elapsed = Date.now() - startTime;
+    for (const build of group.builds) {
+      if (seen.get(build.id) !== build.status) {
+        seen.set(build.id, build.status);
+        console.log(`${build.platform.padEnd(8)} ${getStatusText(build.status)}`);
+      }
+    }
 
-    // Check max timeout
-    if (elapsed > MAX_WATCH_DURATION_MS) {
-      if (started) {
-        bar.stop();
+    if (group.status === 'completed' || group.status === 'failed' || group.status === 'cancelled') {
+      displayGroupStatus(group);
+      if (group.status !== 'completed') {
+        process.exit(1);
       }
+      return;
+    }
+
+    if (Date.now() - startTime > MAX_WATCH_DURATION_MS) {
       console.log();
       console.log(chalk.red('Watch timeout exceeded (30 minutes)'));
-      console.log('Build may still be running. Check status manually:');
-      console.log(chalk.cyan(`expo-free-agent status ${buildId}`));
+      console.log('Builds may still be running. Check status manually:');
+      console.log(chalk.cyan(`expo-free-agent status ${group.id}`));
       console.log();
       process.exit(1);
     }
 
-    try {
-      const status = await client.getBuildStatus(buildId);
+    await new Promise((resolve) => setTimeout(resolve, pollInterval));
 
-      // Reset error counter on success
+    try {
+      group = (await client.getGroupStatus(group.id)) ?? group;
       consecutiveErrors = 0;
-
-      if (!started) {
-        bar.start(100, 0, { status: status.status });
-        started = true;
-      }
-
-      // Update progress based on status
-      let progress = 0;
-      if (status.status === 'pending') progress = 10;
-      else if (status.status === 'building') progress = 50;
-      else if (status.status === 'completed' || status.status === 'failed') progress = 100;
-
-      bar.update(progress, { status: getStatusText(status.status) });
-
-      if (status.status === 'completed') {
-        bar.stop();
-        const duration = Math.round((Date.now() - startTime) / 1000);
-        console.log();
-        console.log(chalk.green('Build completed successfully!'));
-        console.log(chalk.bold('Duration:'), formatDuration(duration));
-        console.log('Download:', chalk.cyan(`expo-free-agent download ${buildId}`));
-        console.log();
-        break;
-      } else if (status.status === 'failed') {
-        bar.stop();
-        console.log();
-        console.log(chalk.red('Build failed'));
-        if (status.error) {
-          console.log(chalk.red('Error:'), status.error);
-        }
-        console.log();
-        process.exit(1);
-      }
-
-      // Exponential backoff for polling
-      await new Promise((resolve) => setTimeout(resolve, pollInterval));
       pollInterval = Math.min(pollInterval * BACKOFF_MULTIPLIER, MAX_POLL_INTERVAL_MS);
     } catch (error) {
       consecutiveErrors++;
-
       if (consecutiveErrors >= 5) {
-        if (started) {
-          bar.stop();
-        }
         console.log();
         console.log(chalk.red('Too many consecutive errors (5). Stopping watch.'));
         console.error(chalk.red(error instanceof Error ? error.message : String(error)));
         console.log();
-        console.log('Try again:', chalk.cyan(`expo-free-agent status ${buildId} --watch`));
-        console.log();
         process.exit(1);
       }
+    }
+  }
+}
+
+async function watchBuildStatus(buildId: string, client: APIClient = apiClient): Promise<void> {
+  console.log(chalk.bold('Watching build:'), buildId);
+  console.log();
+
+  const bar = new cliProgress.SingleBar({
+    format: `Build Progress |${chalk.cyan('{bar}')}| {status}`,
+    barCompleteChar: '\u2588',
+    barIncompleteChar: '\u2591',
+    hideCursor: true,
+  });
+  bar.start(100, 0, { status: 'Connecting...' });
 
-      // Wait before retry on error (don't increase poll interval on errors)
-      await new Promise((resolve) => setTimeout(resolve, pollInterval));
+  const startTime = Date.now();
+  let current: BuildEventStatus | undefined;
+  let progress: number | undefined; // Reported by the worker
+  let estimate = '';
+  let watching = true;
+
+  const render = () => {
+    // Estimates may still arrive once the bar is gone
+    if (!current || !watching) {
+      return;
+    }
+
+    let value = 0;
+    if (current.status === 'pending') value = 10;
+    else if (current.status === 'completed' || current.status === 'failed' || current.status === 'cancelled') value = 100;
+    else value = progress ?? 50;
+
+    bar.update(value, { status: `${getStatusText(current.status)}${estimate}` });
+  };
+
+  // The controller pushes changes; estimates are fetched only when the
+  // build's status or queue position changes
+  let status: BuildEventStatus;
+  try {
+    status = await client.followBuildEvents(buildId, (event) => {
+      if (event.type === 'progress') {
+        progress = event.progress;
+      } else if (event.type === 'status') {
+        if (current && event.status.attempt !== current.attempt) {
+          progress = undefined;
+        }
+        current = event.status;
+        if (current.status === 'pending' || current.status === 'assigned' || current.status === 'building') {
+          client.getBuildStatus(buildId).then(
+            (full) => {
+              estimate = formatProgressEstimate(full);
+              render();
+            },
+            () => {}
+          );
+        }
+      }
+      render();
+    });
+  } catch (error) {
+    watching = false;
+    bar.stop();
+    throw error;
+  }
+
+  estimate = '';
+  render();
+  watching = false;
+  bar.stop();
+  console.log();
+
+  if (status.status === 'completed') {
+    const duration = Math.round((Date.now() - startTime) / 1000);
+    console.log(chalk.green('Build completed successfully!'));
+    console.log(chalk.bold('Duration:'), formatDuration(duration));
+    console.log('Download:', chalk.cyan(`expo-free-agent download ${buildId}`));
+    console.log();
+  } else if (status.status === 'failed') {
+    console.log(chalk.red('Build failed'));
+    if (status.error) {
+      console.log(chalk.red('Error:'), status.error);
     }
+    console.log();
+    process.exit(1);
+  } else {
+    console.log(chalk.gray('Build cancelled'));
+    console.log();
+    process.exit(1);
+  }
+}
+
+function formatAttempt(attempt: BuildAttempt): string {
+  const worker = attempt.workerId ? ` on ${attempt.workerId}` : '';
+  const duration = attempt.finishedAt
+    ? ` after ${formatDuration(Math.round((new Date(attempt.finishedAt).getTime() - new Date(attempt.startedAt).getTime()) / 1000))}`
+    : '';
+
+  if (!attempt.outcome) {
+    return `#${attempt.attempt}${worker}: ${chalk.yellow('running')}`;
   }
+
+  const outcome = attempt.outcome === 'completed' ? chalk.green(attempt.outcome) : chalk.red(attempt.outcome);
+  const reason = attempt.error ? ` (${attempt.failureType === 'infrastructure' ? 'infrastructure: ' : ''}${attempt.error})` : '';
+  return `#${attempt.attempt}${worker}: ${outcome}${duration}${reason}`;
+}
+
+/**
+ * Estimated time as local time and how far off, e.g. "14:05:00 (in ~7m)"
+ */
+function formatEstimate(time: string): string {
+  const seconds = Math.max(0, Math.round((new Date(time).getTime() - Date.now()) / 1000));
+  return `${new Date(time).toLocaleTimeString()} (in ~${formatDuration(seconds)})`;
+}
+
+function formatProgressEstimate(status: BuildStatus): string {
+  const details = status.status === 'pending'
+    ? [
+      status.queuePosition && `#${status.queuePosition} in queue`,
+      status.estimatedStartAt && `starts ${formatEstimate(status.estimatedStartAt)}`,
+    ]
+    : [status.estimatedCompletionAt && `done ${formatEstimate(status.estimatedCompletionAt)}`];
+  const text = details.filter(Boolean).join(', ');
+  return text ? ` (${text})` : '';
 }
 
 function getStatusColor(status: string): string {
@@ -196,6 +391,8 @@ function getStatusText(status: string): string {
       return 'Completed';
     case 'failed':
       return 'Failed';
+    case 'cancelled':
+      return 'Cancelled';
     default:
       return status;
   }
@@ -4,7 +4,7 @@ import fs from 'fs';
 import path from 'path';
 import os from 'os';
 import readline from 'readline';
-import { apiClient, APIClient } from '../api-client.js';
+import { apiClient, APIClient, BUILD_PRIORITIES, type BuildPlatform, type BuildPriority } from '../api-client.js';
 import { saveBuildToken } from '../build-tokens.js';
 import chalk from 'chalk';
 import ora from 'ora';
@@ -18,9 +18,36 @@ export function createSubmitCommand(): Command {
     .option('--cert <path>', 'Path to signing certificate (.p12)')
     .option('--profile <path>', 'Path to provisioning profile (.mobileprovision)')
     .option('--apple-id <email>', 'Apple ID email')
+    .option('--platform <platform>', 'Target platform (ios, android, or ios,android to build both)', 'ios')
+    .option('--min-xcode <version>', 'Only run on workers with at least this Xcode version')
+    .option('--min-memory <gb>', 'Only run on workers with at least this much memory (GB)', parseFloat)
+    .option('--expo-sdk <version>', 'Expo SDK major version (default: detected from package.json)', parseInt)
+    .option('--priority <level>', `Queue priority (${BUILD_PRIORITIES.join(', ')})`, 'normal')
+    .option('--max-queue-wait <minutes>', 'Fail the build if no worker starts it within this long', parseFloat)
+    .option('--max-duration <minutes>', 'Fail the build if it runs longer than this', parseFloat)
+    .option('--submitter <name>', 'Name the queue shares workers fairly by (default: your username)')
+    .option('--no-cache', 'Rebuild even if an identical build already completed')
     .option('--api-key <key>', 'API key for authentication')
     .option('--controller-url <url>', 'Controller URL')
     .action(async (projectPath: string, options) => {
+      if (!BUILD_PRIORITIES.includes(options.priority)) {
+        console.error(chalk.red(`Priority must be one of: ${BUILD_PRIORITIES.join(', ')}`));
+        process.exit(1);
+      }
+
+      const platforms = [...new Set(String(options.platform).split(',').map((value) => value.trim()))];
+      if (!platforms.every((value) => ['ios', 'android'].includes(value))) {
+        console.error(chalk.red('Platform must be ios, android, or both comma-separated'));
+        process.exit(1);
+      }
+
+      for (const [flag, minutes] of [['--max-queue-wait', options.maxQueueWait], ['--max-duration', options.maxDuration]]) {
+        if (minutes !== undefined && !(minutes > 0)) {
+          console.error(chalk.red(`${flag} must be a positive number of minutes`));
+          process.exit(1);
+        }
+      }
+
       const spinner = ora('Preparing project for submission').start();
 
       try {
@@ -114,21 +141,64 @@ export function createSubmitCommand(): Command {
           ? new APIClient(options.controllerUrl, options.apiKey)
           : apiClient;
 
-        const { buildId, accessToken } = await client.submitBuild({
+        const { buildId, accessToken, waitingReason, cachedFrom, groupId, builds } = await client.submitBuild({
           projectPath: zipPath,
+          platform: platforms as BuildPlatform[],
+          requirements: {
+            minXcodeVersion: options.minXcode,
+            minMemoryGB: options.minMemory,
+            expoSdk: options.expoSdk ?? (await detectExpoSdk(resolvedPath)),
+          },
           certPath: options.cert ? path.resolve(options.cert) : undefined,
           profilePath: options.profile ? path.resolve(options.profile) : undefined,
           appleId: options.appleId,
+          priority: options.priority as BuildPriority,
+          submitter: options.submitter ?? os.userInfo().username,
+          timeouts: {
+            maxQueueWaitSeconds: options.maxQueueWait ? Math.round(options.maxQueueWait * 60) : undefined,
+            maxDurationSeconds: options.maxDuration ? Math.round(options.maxDuration * 60) : undefined,
+          },
+          noCache: !options.cache,
+        }, (uploadedBytes, totalBytes) => {
+          const percent = Math.floor((uploadedBytes / totalBytes) * 100);
+          spinner.text = `Uploading to controller (${formatBytes(uploadedBytes)} / ${formatBytes(totalBytes)}, ${percent}%)`;
         });
 
-        // Store build token for future access
+        // Store build token for future access (a group's builds share its token)
         await saveBuildToken(buildId, accessToken);
+        for (const build of builds) {
+          await saveBuildToken(build.buildId, accessToken);
+        }
 
-        spinner.succeed(chalk.green('Build submitted successfully'));
+        spinner.succeed(chalk.green(groupId ? 'Build group submitted successfully' : 'Build submitted successfully'));
 
         console.log();
-        console.log(chalk.bold('Build ID:'), buildId);
+        console.log(chalk.bold(groupId ? 'Group ID:' : 'Build ID:'), buildId);
+        for (const build of builds) {
+          const cached = build.cachedFrom ? chalk.dim(` (from cache: build ${build.cachedFrom})`) : '';
+          console.log(`  ${build.platform}:`, build.buildId + cached);
+        }
         console.log();
+
+        if (cachedFrom) {
+          console.log(chalk.green(`Completed from cache: identical to build ${cachedFrom}`));
+          console.log(chalk.dim('Use --no-cache to rebuild.'));
+          console.log();
+        }
+
+        for (const build of builds.filter((build) => build.waitingReason)) {
+          console.log(chalk.yellow(`Waiting (${build.platform}): ${build.waitingReason}`));
+        }
+        if (builds.some((build) => build.waitingReason)) {
+          console.log(chalk.dim('Builds stay queued until a matching worker registers.'));
+          console.log();
+        }
+
+        if (waitingReason) {
+          console.log(chalk.yellow(`Waiting: ${waitingReason}`));
+          console.log(chalk.dim('The build stays queued until a matching worker registers.'));
+          console.log();
+        }
         console.log('Track status:', chalk.cyan(`expo-free-agent status ${buildId}`));
         console.log('Download when ready:', chalk.cyan(`expo-free-agent download ${buildId}`));
         console.log();
@@ -145,6 +215,19 @@ export function createSubmitCommand(): Command {
   return command;
 }
 
+/**
+ * Expo SDK major version from the project's expo dependency, e.g. "~52.0.0" -> 52
+ */
+async function detectExpoSdk(projectPath: string): Promise<number | undefined> {
+  try {
+    const pkg = JSON.parse(await fs.promises.readFile(path.join(projectPath, 'package.json'), 'utf-8'));
+    const match = /(\d+)/.exec(pkg.dependencies?.expo ?? '');
+    return match ? parseInt(match[1], 10) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
 async function zipDirectory(
   sourceDir: string,
   outPath: string,
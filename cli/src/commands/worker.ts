@@ -2,6 +2,7 @@ import { Command } from 'commander';
 import { execSync } from 'child_process';
 import chalk from 'chalk';
 import ora from 'ora';
+import { apiClient, APIClient, type WorkerHoldAction, type WorkerState } from '../api-client.js';
 
 const WORKER_APP_PATH = '/Applications/FreeAgent.app';
 const WORKER_PROCESS_NAME = 'FreeAgent';
@@ -119,9 +120,99 @@ export function createWorkerCommand(): Command {
       }
     });
 
+  // List subcommand
+  command
+    .command('list')
+    .description('List the controller\'s workers with their drain and pause state')
+    .option('--api-key <key>', 'API key for authentication')
+    .option('--controller-url <url>', 'Controller URL')
+    .action(async (options) => {
+      const spinner = ora('Fetching workers').start();
+
+      try {
+        const workers = await createClient(options).listWorkers();
+        spinner.stop();
+
+        if (workers.length === 0) {
+          console.log(chalk.yellow('\nNo workers registered\n'));
+          return;
+        }
+
+        console.log(chalk.bold(`\nWorkers (${workers.length}):\n`));
+        for (const worker of workers) {
+          console.log(`  ${chalk.cyan(worker.id)}  ${chalk.bold(worker.name)}  ${formatWorkerState(worker)}`);
+          console.log(chalk.dim(`    Slots: ${worker.slots.used}/${worker.slots.total}  Last seen: ${new Date(worker.lastSeenAt).toLocaleString()}`));
+        }
+        console.log();
+      } catch (error) {
+        spinner.fail(chalk.red('Failed to list workers'));
+        console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+        process.exit(1);
+      }
+    });
+
+  // Drain, undrain, pause and resume subcommands
+  addHoldCommand(command, 'drain', 'Let a worker finish its current builds, then give it no more (e.g. before updating Xcode)');
+  addHoldCommand(command, 'undrain', 'Give a drained worker builds again');
+  addHoldCommand(command, 'pause', 'Give a worker no new builds until resumed');
+  addHoldCommand(command, 'resume', 'Give a paused worker builds again');
+
   return command;
 }
 
+const HOLD_PROGRESS: Record<WorkerHoldAction, string> = {
+  drain: 'Draining worker',
+  undrain: 'Undraining worker',
+  pause: 'Pausing worker',
+  resume: 'Resuming worker',
+};
+
+function addHoldCommand(command: Command, action: WorkerHoldAction, description: string) {
+  command
+    .command(action)
+    .description(description)
+    .argument('<worker-id>', 'Worker ID (see `worker list`)')
+    .option('--api-key <key>', 'API key for authentication')
+    .option('--controller-url <url>', 'Controller URL')
+    .action(async (workerId: string, options) => {
+      const spinner = ora(HOLD_PROGRESS[action]).start();
+
+      try {
+        const worker = await createClient(options).setWorkerHold(workerId, action);
+        spinner.succeed(`${worker.name}: ${formatWorkerState(worker)}`);
+
+        if (worker.availability === 'draining') {
+          console.log(chalk.dim(`  Finishing ${worker.slots.used} build(s); run \`worker list\` to see when it is drained\n`));
+        }
+      } catch (error) {
+        spinner.fail(chalk.red(`Failed to ${action} worker`));
+        console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+        process.exit(1);
+      }
+    });
+}
+
+function formatWorkerState(worker: WorkerState): string {
+  const status = worker.status === 'offline' ? chalk.dim('offline') : worker.status;
+
+  switch (worker.availability) {
+    case 'draining':
+      return `${status}, ${chalk.yellow('draining')}`;
+    case 'drained':
+      return `${status}, ${chalk.green('drained')} (safe for maintenance)`;
+    case 'paused':
+      return `${status}, ${chalk.magenta('paused')}`;
+    default:
+      return status;
+  }
+}
+
+function createClient(options: { apiKey?: string; controllerUrl?: string }): APIClient {
+  return (options.apiKey || options.controllerUrl)
+    ? new APIClient(options.controllerUrl, options.apiKey)
+    : apiClient;
+}
+
 function isWorkerInstalled(): boolean {
   try {
     execSync(`test -d "${WORKER_APP_PATH}"`, { stdio: 'pipe' });
@@ -12,6 +12,8 @@ import { createWorkerCommand } from './commands/worker.js';
 import { createLoginCommand } from './commands/login.js';
 import { createLogsCommand } from './commands/logs.js';
 import { createRetryCommand } from './commands/retry.js';
+import { createScheduleCommand } from './commands/schedule.js';
+import { createQueueCommand } from './commands/queue.js';
 
 const program = new Command();
 
@@ -30,6 +32,8 @@ program.addCommand(createDownloadCommand());
 program.addCommand(createListCommand());
 program.addCommand(createCancelCommand());
 program.addCommand(createRetryCommand());
+program.addCommand(createScheduleCommand());
+program.addCommand(createQueueCommand());
 program.addCommand(createConfigCommand());
 program.addCommand(createDoctorCommand());
 
@@ -3,15 +3,25 @@ import Foundation
 // Shared types for BuildVM
 // Avoids circular dependency with WorkerCore
 
+/// Why a build failed, sent to the controller as failure_type
+/// A failing build command is the project's fault; anything else (cloning or
+/// booting the VM, SSH, copying files) is retried by the controller.
+public enum BuildFailureType: String, Sendable {
+    case build
+    case infrastructure
+}
+
 public struct BuildResult: Sendable {
     public let success: Bool
     public let logs: String
     public let artifactPath: URL?
+    public let failureType: BuildFailureType // Only meaningful when !success
 
-    public init(success: Bool, logs: String, artifactPath: URL?) {
+    public init(success: Bool, logs: String, artifactPath: URL?, failureType: BuildFailureType = .build) {
         self.success = success
         self.logs = logs
         self.artifactPath = artifactPath
+        self.failureType = failureType
     }
 }
 
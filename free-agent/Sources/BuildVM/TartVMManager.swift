@@ -48,6 +48,8 @@ public class TartVMManager {
         var logs = ""
         var created = false
         var monitorPID: Int32?
+        // Only errors from the build command itself are the build's fault
+        var runningBuildCommand = false
 
         // Validate inputs to prevent command injection
         if let buildId = buildId {
@@ -226,6 +228,7 @@ public class TartVMManager {
 
                 // 12) Run build with credentials sourced
                 logs += "=== Starting build ===\n"
+                runningBuildCommand = true
                 let buildLogs = try await sshCommand(
                     ip: vmIP!,
                     command: "source '\(credFile)' && /usr/local/bin/free-agent-run-job --in ~/free-agent/in --out ~/free-agent/out; rm -f '\(credFile)'",
@@ -236,6 +239,7 @@ public class TartVMManager {
             } else {
                 // Fallback: run without log streaming
                 logs += "=== Starting build (no log streaming) ===\n"
+                runningBuildCommand = true
                 let buildLogs = try await sshCommand(
                     ip: vmIP!,
                     command: "/usr/local/bin/free-agent-run-job --in ~/free-agent/in --out ~/free-agent/out",
@@ -244,6 +248,7 @@ public class TartVMManager {
                 logs += buildLogs + "\n"
                 logs += "=== Build complete ===\n\n"
             }
+            runningBuildCommand = false
 
             // 13) Stop build monitor
             if let pid = monitorPID {
@@ -292,7 +297,12 @@ public class TartVMManager {
             // Cleanup on error
             await cleanupVM(&logs, created: created)
 
-            return BuildResult(success: false, logs: logs, artifactPath: nil)
+            return BuildResult(
+                success: false,
+                logs: logs,
+                artifactPath: nil,
+                failureType: runningBuildCommand ? .build : .infrastructure
+            )
         }
     }
 
@@ -35,6 +35,8 @@ public class VMManager: NSObject {
         let executor = XcodeBuildExecutor(vm: vm)
 
         var logs = ""
+        // Only errors from the build itself are the build's fault
+        var runningBuild = false
 
         do {
             // Copy source code to VM
@@ -63,7 +65,9 @@ public class VMManager: NSObject {
             }
 
             // Execute build with timeout
+            runningBuild = true
             let result = try await executor.executeBuild(timeout: buildTimeout)
+            runningBuild = false
             logs += result.logs
 
             // Check for crash
@@ -90,7 +94,12 @@ public class VMManager: NSObject {
         } catch {
             logs += "\n✗ Build failed: \(error)\n"
             try? await stopVM()
-            return BuildResult(success: false, logs: logs, artifactPath: nil)
+            return BuildResult(
+                success: false,
+                logs: logs,
+                artifactPath: nil,
+                failureType: runningBuild ? .build : .infrastructure
+            )
         }
     }
 
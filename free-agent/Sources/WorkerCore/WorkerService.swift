@@ -1,4 +1,5 @@
 import Foundation
+import CryptoKit
 import BuildVM
 
 @available(macOS 14.0, *)
@@ -7,6 +8,11 @@ public actor WorkerService {
     private var isActive = false
     private var pollingTask: Task<Void, Never>?
     private var activeBuilds: [String: Task<Void, Never>] = [:]
+    /// Builds the controller cancelled; their failure is not reported
+    private var cancelledBuilds: Set<String> = []
+
+    /// Consecutive failed chunk attempts before a result upload is abandoned
+    private static let maxChunkFailures = 8
 
     public var isRunning: Bool { isActive }
 
@@ -58,10 +64,18 @@ public actor WorkerService {
     private func pollLoop() async {
         while !Task.isCancelled && isActive {
             do {
-                // Check if we can accept more builds
-                if activeBuilds.count < configuration.maxConcurrentBuilds {
-                    if let job = try await pollForJob() {
-                        await executeJob(job)
+                // Poll even while every slot is busy, to hear of cancellations
+                if let poll = try await pollForJob() {
+                    for jobID in poll.cancelled_jobs ?? [] {
+                        await cancelJob(jobID)
+                    }
+
+                    // The controller repeats a running build while no slot is free
+                    if let job = poll.job,
+                       activeBuilds[job.id] == nil,
+                       activeBuilds.count < configuration.maxConcurrentBuilds {
+                        print("Received job: \(job.id)")
+                        executeJob(job)
                     }
                 }
 
@@ -146,11 +160,11 @@ public actor WorkerService {
         }
     }
 
-    private func pollForJob() async throws -> BuildJob? {
+    private func pollForJob() async throws -> PollResponse? {
         guard let workerID = configuration.workerID else { return nil }
 
-        // Controller expects query param: /api/workers/poll?worker_id={id}
-        let url = URL(string: "\(configuration.controllerURL)/api/workers/poll?worker_id=\(workerID)")!
+        // Controller expects query params: /api/workers/poll?worker_id={id}&max_concurrent_builds={slots}
+        let url = URL(string: "\(configuration.controllerURL)/api/workers/poll?worker_id=\(workerID)&max_concurrent_builds=\(configuration.maxConcurrentBuilds)")!
         var request = URLRequest(url: url)
         request.httpMethod = "GET"
         request.setValue(configuration.apiKey, forHTTPHeaderField: "X-API-Key")
@@ -160,13 +174,8 @@ public actor WorkerService {
         guard let httpResponse = response as? HTTPURLResponse else { return nil }
 
         if httpResponse.statusCode == 200 {
-            // Controller returns { job: BuildJob | null }
-            let pollResponse = try JSONDecoder().decode(PollResponse.self, from: data)
-            if let job = pollResponse.job {
-                print("Received job: \(job.id)")
-                return job
-            }
-            return nil
+            // Controller returns { job: BuildJob | null, cancelled_jobs: [String] }
+            return try JSONDecoder().decode(PollResponse.self, from: data)
         } else if httpResponse.statusCode == 204 {
             // No jobs available
             return nil
@@ -176,22 +185,53 @@ public actor WorkerService {
         }
     }
 
-    private func executeJob(_ job: BuildJob) async {
+    /// Run a build in the background; it frees its slot when done
+    private func executeJob(_ job: BuildJob) {
         let task = Task {
             do {
                 print("Starting build job: \(job.id)")
                 try await performBuild(job)
                 print("✓ Build job completed: \(job.id)")
             } catch {
-                print("✗ Build job failed: \(job.id) - \(error)")
-                await reportJobFailure(job.id, error: error)
+                if cancelledBuilds.contains(job.id) {
+                    print("Build job stopped: \(job.id)")
+                } else {
+                    print("✗ Build job failed: \(job.id) - \(error)")
+                    await reportJobFailure(job.id, error: error)
+                }
             }
+            activeBuilds.removeValue(forKey: job.id)
         }
 
         activeBuilds[job.id] = task
+    }
+
+    /// Stop a build the controller cancelled, then acknowledge it
+    private func cancelJob(_ jobID: String) async {
+        if let task = activeBuilds[jobID] {
+            print("Build \(jobID) was cancelled, stopping...")
+            cancelledBuilds.insert(jobID)
+            task.cancel()
+            await task.value
+            cancelledBuilds.remove(jobID)
+        }
 
-        await task.value
-        activeBuilds.removeValue(forKey: job.id)
+        guard let workerID = configuration.workerID else { return }
+
+        do {
+            let url = URL(string: "\(configuration.controllerURL)/api/builds/\(jobID)/cancel/ack?worker_id=\(workerID)")!
+            var request = URLRequest(url: url)
+            request.httpMethod = "POST"
+            request.setValue(configuration.apiKey, forHTTPHeaderField: "X-API-Key")
+
+            let (_, response) = try await URLSession.shared.data(for: request)
+
+            if let httpResponse = response as? HTTPURLResponse, httpResponse.statusCode == 200 {
+                print("✓ Acknowledged cancellation of \(jobID)")
+            }
+        } catch {
+            print("Failed to acknowledge cancellation: \(error)")
+        }
     }
 
     private func performBuild(_ job: BuildJob) async throws {
@@ -221,10 +261,16 @@ public actor WorkerService {
             vmManager = TartVMManager(configuration: vmConfig, templateImage: templateImage)
             print("✓ Tart VM Manager created with template: \(templateImage)")
 
+            // Stop no later than the controller would time the build out
+            var buildTimeout = TimeInterval(configuration.buildTimeoutMinutes * 60)
+            if let maxDurationMs = job.max_duration_ms {
+                buildTimeout = min(buildTimeout, TimeInterval(maxDurationMs) / 1000)
+            }
+
             let buildResult = try await vmManager!.executeBuild(
                 sourceCodePath: buildPackagePath!,
                 signingCertsPath: nil, // VM fetches via API now
-                buildTimeout: TimeInterval(configuration.buildTimeoutMinutes * 60),
+                buildTimeout: buildTimeout,
                 buildId: job.id,
                 workerId: configuration.workerID,
                 controllerURL: configuration.controllerURL,
@@ -296,11 +342,35 @@ public actor WorkerService {
         try FileManager.default.moveItem(at: localURL, to: packagePath)
         print("Downloaded build package to \(packagePath.path)")
 
+        // Verify against the digest recorded at submission (falls back to the
+        // Digest header for controllers that don't send it with the job)
+        let expectedSHA256 = job.source_sha256 ?? Self.sha256FromDigestHeader(
+            httpResponse.value(forHTTPHeaderField: "Digest")
+        )
+        if let expectedSHA256 {
+            let actualSHA256 = try sha256Hex(of: packagePath)
+            guard actualSHA256 == expectedSHA256 else {
+                try? FileManager.default.removeItem(at: packagePath)
+                throw WorkerError.checksumMismatch(expected: expectedSHA256, actual: actualSHA256)
+            }
+            print("✓ Verified build package SHA-256")
+        } else {
+            print("Controller sent no source digest; skipping verification")
+        }
+
         return packagePath
     }
 
 
     private func uploadBuildResult(_ jobID: String, result: BuildResult) async throws {
+        // Send the artifact through a resumable upload first so a dropped
+        // connection near the end doesn't waste the whole build
+        var resultUploadID: String?
+        if let artifactPath = result.artifactPath,
+           FileManager.default.fileExists(atPath: artifactPath.path) {
+            resultUploadID = try await uploadArtifactResumable(jobID, artifactPath: artifactPath)
+        }
+
         let url = URL(string: "\(configuration.controllerURL)/api/workers/upload")!
         var request = URLRequest(url: url)
         request.httpMethod = "POST"
@@ -326,21 +396,25 @@ public actor WorkerService {
         body.append("Content-Disposition: form-data; name=\"success\"\r\n\r\n")
         body.append("\(result.success ? "true" : "false")\r\n")
 
-        // Add error_message if failed
+        // Add error_message and failure_type if failed; VM errors are
+        // infrastructure failures, which the controller retries
         if !result.success {
             body.append("--\(boundary)\r\n")
             body.append("Content-Disposition: form-data; name=\"error_message\"\r\n\r\n")
-            body.append("Build failed. See logs for details.\r\n")
+            body.append(result.failureType == .infrastructure
+                ? "Build VM failed. See logs for details.\r\n"
+                : "Build failed. See logs for details.\r\n")
+
+            body.append("--\(boundary)\r\n")
+            body.append("Content-Disposition: form-data; name=\"failure_type\"\r\n\r\n")
+            body.append("\(result.failureType.rawValue)\r\n")
         }
 
-        // Add result file if exists (controller expects field name "result")
-        if let artifactPath = result.artifactPath,
-           let artifactData = try? Data(contentsOf: artifactPath) {
+        // Reference the finalized upload instead of attaching the file
+        if let resultUploadID {
             body.append("--\(boundary)\r\n")
-            body.append("Content-Disposition: form-data; name=\"result\"; filename=\"\(artifactPath.lastPathComponent)\"\r\n")
-            body.append("Content-Type: application/octet-stream\r\n\r\n")
-            body.append(artifactData)
-            body.append("\r\n")
+            body.append("Content-Disposition: form-data; name=\"result_upload_id\"\r\n\r\n")
+            body.append("\(resultUploadID)\r\n")
         }
 
         body.append("--\(boundary)--\r\n")
@@ -358,6 +432,156 @@ public actor WorkerService {
         }
     }
 
+    /// Upload a build artifact via /api/uploads in chunks, resuming from the
+    /// controller's committed offset after network errors
+    /// - Returns: Finalized upload ID to pass as result_upload_id
+    private func uploadArtifactResumable(_ jobID: String, artifactPath: URL) async throws -> String {
+        let attributes = try FileManager.default.attributesOfItem(atPath: artifactPath.path)
+        let size = (attributes[.size] as? NSNumber)?.intValue ?? 0
+        let sha256 = try sha256Hex(of: artifactPath)
+
+        // Create session
+        let createURL = URL(string: "\(configuration.controllerURL)/api/uploads")!
+        var createRequest = URLRequest(url: createURL)
+        createRequest.httpMethod = "POST"
+        createRequest.setValue(configuration.apiKey, forHTTPHeaderField: "X-API-Key")
+        createRequest.setValue("application/json", forHTTPHeaderField: "Content-Type")
+        createRequest.httpBody = try JSONSerialization.data(withJSONObject: [
+            "kind": "result",
+            "size": size,
+            "sha256": sha256,
+            "build_id": jobID,
+            "worker_id": configuration.workerID ?? ""
+        ])
+
+        let (createData, createResponse) = try await URLSession.shared.data(for: createRequest)
+        let createStatus = (createResponse as? HTTPURLResponse)?.statusCode ?? 0
+        guard createStatus == 200 else {
+            throw WorkerError.uploadFailed(statusCode: createStatus)
+        }
+
+        let session = try JSONDecoder().decode(UploadSession.self, from: createData)
+        let uploadURL = "\(configuration.controllerURL)/api/uploads/\(session.id)"
+
+        let handle = try FileHandle(forReadingFrom: artifactPath)
+        defer { try? handle.close() }
+
+        var offset = session.offset
+        var failures = 0
+
+        while offset < size {
+            try handle.seek(toOffset: UInt64(offset))
+            let chunk = try handle.read(upToCount: min(session.chunk_size, size - offset)) ?? Data()
+
+            var request = URLRequest(url: URL(string: "\(uploadURL)?offset=\(offset)")!)
+            request.httpMethod = "PUT"
+            request.timeoutInterval = 120
+            request.setValue(configuration.apiKey, forHTTPHeaderField: "X-API-Key")
+            request.setValue("application/octet-stream", forHTTPHeaderField: "Content-Type")
+
+            do {
+                let (data, response) = try await URLSession.shared.upload(for: request, from: chunk)
+                let statusCode = (response as? HTTPURLResponse)?.statusCode ?? 0
+
+                // 409 means the controller has a different committed offset
+                // (e.g. the previous chunk landed but its response was lost)
+                if statusCode == 200 || statusCode == 409 {
+                    offset = try JSONDecoder().decode(UploadOffset.self, from: data).offset
+                    if statusCode == 200 {
+                        failures = 0
+                    }
+                    continue
+                }
+
+                if (400..<500).contains(statusCode) {
+                    throw WorkerError.uploadFailed(statusCode: statusCode)
+                }
+
+                print("Chunk upload at offset \(offset) failed: HTTP \(statusCode)")
+            } catch let error as WorkerError {
+                throw error
+            } catch {
+                print("Chunk upload at offset \(offset) failed: \(error.localizedDescription)")
+            }
+
+            failures += 1
+            if failures > Self.maxChunkFailures {
+                throw WorkerError.uploadRetriesExhausted(offset: offset)
+            }
+
+            // Exponential backoff, then resync with the controller before resuming
+            let delay = min(pow(2.0, Double(failures - 1)), 30)
+            try await Task.sleep(for: .seconds(delay))
+            offset = try await committedUploadOffset(uploadURL, fallback: offset)
+            print("Resuming upload for job \(jobID) at \(offset)/\(size) bytes")
+        }
+
+        // Finalize (idempotent, so safe to retry)
+        var finalizeRequest = URLRequest(url: URL(string: "\(uploadURL)/finalize")!)
+        finalizeRequest.httpMethod = "POST"
+        finalizeRequest.setValue(configuration.apiKey, forHTTPHeaderField: "X-API-Key")
+
+        let (_, finalizeResponse) = try await URLSession.shared.data(for: finalizeRequest)
+        let finalizeStatus = (finalizeResponse as? HTTPURLResponse)?.statusCode ?? 0
+        guard finalizeStatus == 200 else {
+            throw WorkerError.uploadFailed(statusCode: finalizeStatus)
+        }
+
+        return session.id
+    }
+
+    /// Query the controller for an upload's committed offset
+    /// Falls back to the last known offset while the controller is unreachable
+    private func committedUploadOffset(_ uploadURL: String, fallback: Int) async throws -> Int {
+        var request = URLRequest(url: URL(string: uploadURL)!)
+        request.setValue(configuration.apiKey, forHTTPHeaderField: "X-API-Key")
+
+        guard let result = try? await URLSession.shared.data(for: request),
+              let httpResponse = result.1 as? HTTPURLResponse else {
+            return fallback
+        }
+        let data = result.0
+
+        if httpResponse.statusCode == 404 {
+            throw WorkerError.uploadSessionExpired
+        }
+
+        guard httpResponse.statusCode == 200,
+              let session = try? JSONDecoder().decode(UploadSession.self, from: data) else {
+            return fallback
+        }
+
+        return session.offset
+    }
+
+    /// Parse "sha-256=<base64>" from a Digest header into lowercase hex
+    private static func sha256FromDigestHeader(_ header: String?) -> String? {
+        guard let header else { return nil }
+
+        for entry in header.split(separator: ",") {
+            let parts = entry.trimmingCharacters(in: .whitespaces).split(separator: "=", maxSplits: 1)
+            guard parts.count == 2, parts[0].lowercased() == "sha-256",
+                  let data = Data(base64Encoded: String(parts[1])) else {
+                continue
+            }
+            return data.map { String(format: "%02x", $0) }.joined()
+        }
+
+        return nil
+    }
+
+    private func sha256Hex(of fileURL: URL) throws -> String {
+        let handle = try FileHandle(forReadingFrom: fileURL)
+        defer { try? handle.close() }
+
+        var hasher = SHA256()
+        while let data = try handle.read(upToCount: 1024 * 1024), !data.isEmpty {
+            hasher.update(data: data)
+        }
+
+        return hasher.finalize().map { String(format: "%02x", $0) }.joined()
+    }
+
     private func reportJobFailure(_ jobID: String, error: Error) async {
         // Report failure via the upload endpoint with success=false
         do {
@@ -391,6 +615,13 @@ public actor WorkerService {
             body.append("Content-Disposition: form-data; name=\"error_message\"\r\n\r\n")
             body.append("\(error.localizedDescription)\r\n")
 
+            // Thrown errors come from downloading the source, starting the VM
+            // manager or uploading the result; a failed build (or VM) arrives as
+            // a BuildResult with its own failure type instead
+            body.append("--\(boundary)\r\n")
+            body.append("Content-Disposition: form-data; name=\"failure_type\"\r\n\r\n")
+            body.append("infrastructure\r\n")
+
             body.append("--\(boundary)--\r\n")
 
             request.httpBody = body
@@ -411,6 +642,8 @@ public actor WorkerService {
 /// Job response from controller's /api/workers/poll endpoint
 public struct PollResponse: Codable, Sendable {
     public let job: BuildJob?
+    /// Builds cancelled while on this worker, to stop and acknowledge
+    public let cancelled_jobs: [String]?
 }
 
 /// Build job details returned by controller
@@ -418,20 +651,42 @@ public struct BuildJob: Codable, Sendable {
     public let id: String
     public let platform: String
     public let source_url: String
+    public let source_sha256: String?
     public let certs_url: String?
     public let baseImageId: String?
+    /// Longest the controller lets this build run before timing it out
+    public let max_duration_ms: Int?
 
     enum CodingKeys: String, CodingKey {
         case id
         case platform
         case source_url
+        case source_sha256
         case certs_url
         case baseImageId
+        case max_duration_ms
     }
 }
 
+/// Resumable upload session returned by /api/uploads
+struct UploadSession: Codable, Sendable {
+    let id: String
+    let status: String
+    let size: Int
+    let offset: Int
+    let chunk_size: Int
+}
+
+/// Committed offset returned after a chunk PUT
+struct UploadOffset: Codable, Sendable {
+    let offset: Int
+}
+
 enum WorkerError: Error {
     case uploadFailed(statusCode: Int)
+    case uploadSessionExpired
+    case uploadRetriesExhausted(offset: Int)
+    case checksumMismatch(expected: String, actual: String)
     case downloadFailed
     case buildFailed(reason: String)
 }
@@ -1,8 +1,9 @@
 import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
 import { ControllerServer } from '../server';
 import { createConfig } from '../domain/Config';
-import { mkdirSync, rmSync, existsSync, writeFileSync, readFileSync } from 'fs';
+import { mkdirSync, rmSync, existsSync, writeFileSync, readFileSync, statSync } from 'fs';
 import { join } from 'path';
+import { createHash } from 'crypto';
 import archiver from 'archiver';
 
 describe('Controller E2E Tests', () => {
@@ -260,6 +261,30 @@ describe('Controller E2E Tests', () => {
       const data = await response.json();
       expect(data.error).toContain('platform');
     });
+
+    test('should reject build with invalid priority', async () => {
+      const form = new FormData();
+      const zipPath = join(testDir, 'invalid-priority.zip');
+      await createTestZip(zipPath, { 'test.txt': 'data' });
+
+      const buffer = readFileSync(zipPath);
+      const blob = new Blob([buffer], { type: 'application/zip' });
+      form.append('source', blob, 'source.zip');
+      form.append('platform', 'ios');
+      form.append('priority', 'asap');
+
+      const response = await fetch(`${baseUrl}/api/builds/submit`, {
+        method: 'POST',
+        headers: {
+          'X-API-Key': apiKey,
+        },
+        body: form,
+      });
+
+      expect(response.status).toBe(400);
+      const data = await response.json();
+      expect(data.error).toContain('Priority');
+    });
   });
 
   describe('Build Status', () => {
@@ -299,6 +324,10 @@ describe('Controller E2E Tests', () => {
       expect(data.status).toBe('pending');
       expect(data.platform).toBe('ios');
       expect(data.submitted_at).toBeDefined();
+      expect(data.priority).toBe('normal');
+      expect(data.queue_position).toBeGreaterThan(0);
+      expect(data).toHaveProperty('estimated_start_at');
+      expect(data).toHaveProperty('estimated_completion_at');
     });
 
     test('should return 404 for non-existent build', async () => {
@@ -371,6 +400,34 @@ describe('Controller E2E Tests', () => {
       expect(response.status).toBe(200);
       const data = await response.json();
       expect(data.job.id).toBe(buildId);
+      expect(data.active_jobs.map((job: { id: string }) => job.id)).toEqual([buildId]);
+      expect(data.slots).toEqual({ total: 1, used: 1 });
+    });
+
+    test('worker reporting more slots should get another job', async () => {
+      const response = await fetch(`${baseUrl}/api/workers/poll?worker_id=${workerId}&max_concurrent_builds=2`, {
+        headers: { 'X-API-Key': apiKey },
+      });
+
+      expect(response.status).toBe(200);
+      const data = await response.json();
+      expect(data.job.id).not.toBe(buildId);
+      expect(data.active_jobs.map((job: { id: string }) => job.id)).toEqual([buildId, data.job.id]);
+      expect(data.slots).toEqual({ total: 2, used: 2 });
+
+      const statsResponse = await fetch(`${baseUrl}/api/workers/${workerId}/stats`, {
+        headers: { 'X-API-Key': apiKey },
+      });
+      const stats = await statsResponse.json();
+      expect(stats).toMatchObject({ status: 'building', activeBuilds: 2, maxConcurrentBuilds: 2 });
+    });
+
+    test('poll should reject an invalid slot count', async () => {
+      const response = await fetch(`${baseUrl}/api/workers/poll?worker_id=${workerId}&max_concurrent_builds=0`, {
+        headers: { 'X-API-Key': apiKey },
+      });
+
+      expect(response.status).toBe(400);
     });
 
     test('poll should fail without worker_id', async () => {
@@ -388,6 +445,26 @@ describe('Controller E2E Tests', () => {
 
       expect(response.status).toBe(404);
     });
+
+    test('should report last check-in and uptime history', async () => {
+      const response = await fetch(`${baseUrl}/api/workers/${workerId}/uptime?days=1`, {
+        headers: { 'X-API-Key': apiKey },
+      });
+
+      expect(response.status).toBe(200);
+      const data = await response.json();
+      expect(data.status).toBe('building');
+      expect(data.last_seen_at).toBeGreaterThan(0);
+      expect(data.online_since).toBe(data.sessions[0].online_at);
+      expect(data.sessions).toHaveLength(1);
+      expect(data.sessions[0].offline_at).toBeNull();
+      expect(data.uptime_percent).toBe(100);
+
+      const invalid = await fetch(`${baseUrl}/api/workers/${workerId}/uptime?days=0`, {
+        headers: { 'X-API-Key': apiKey },
+      });
+      expect(invalid.status).toBe(400);
+    });
   });
 
   describe('File Download', () => {
@@ -416,7 +493,7 @@ describe('Controller E2E Tests', () => {
       const certsPath = join(testDir, 'download-certs.zip');
 
       await createTestZip(sourcePath, { 'test.txt': 'source-content' });
-      await createTestZip(certsPath, { 'cert.txt': 'cert-content' });
+      await createTestZip(certsPath, { 'cert.p12': 'cert-content' });
 
       const sourceBuffer = readFileSync(sourcePath);
       const certsBuffer = readFileSync(certsPath);
@@ -426,6 +503,8 @@ describe('Controller E2E Tests', () => {
       form.append('source', sourceBlob, 'source.zip');
       form.append('certs', certsBlob, 'certs.zip');
       form.append('platform', 'ios');
+      // Jump the builds left pending above, so the poll assigns this one
+      form.append('priority', 'urgent');
 
       const submitResponse = await fetch(`${baseUrl}/api/builds/submit`, {
         method: 'POST',
@@ -457,11 +536,15 @@ describe('Controller E2E Tests', () => {
       expect(response.status).toBe(200);
       expect(response.headers.get('content-type')).toBe('application/zip');
 
-      const buffer = await response.arrayBuffer();
+      // Digest lets the worker verify the source it received
+      const buffer = Buffer.from(await response.arrayBuffer());
       expect(buffer.byteLength).toBeGreaterThan(0);
+      expect(response.headers.get('digest')).toBe(
+        `sha-256=${createHash('sha256').update(buffer).digest('base64')}`
+      );
     });
 
-    test('worker should download certs file', async () => {
+    test('worker should not download raw certs', async () => {
       const response = await fetch(`${baseUrl}/api/builds/${buildId}/certs`, {
         headers: {
           'X-API-Key': apiKey,
@@ -469,11 +552,31 @@ describe('Controller E2E Tests', () => {
         },
       });
 
+      expect(response.status).toBe(410);
+    });
+
+    test('worker should receive decrypted certs via certs-secure', async () => {
+      const response = await fetch(`${baseUrl}/api/builds/${buildId}/certs-secure`, {
+        headers: {
+          'X-API-Key': apiKey,
+          'X-Worker-Id': workerId,
+          'X-Build-Id': buildId,
+        },
+      });
+
       expect(response.status).toBe(200);
-      expect(response.headers.get('content-type')).toBe('application/zip');
+      const data = await response.json();
+      expect(Buffer.from(data.p12, 'base64').byteLength).toBeGreaterThan(0);
+      expect(data.keychainPassword).toBeTruthy();
+    });
 
-      const buffer = await response.arrayBuffer();
-      expect(buffer.byteLength).toBeGreaterThan(0);
+    test('certs should be encrypted at rest', async () => {
+      const certsBuffer = readFileSync(join(testDir, 'download-certs.zip'));
+      const sha256 = createHash('sha256').update(certsBuffer).digest('hex');
+      const stored = readFileSync(join(storagePath, 'blobs', sha256));
+
+      expect(stored.subarray(0, 2).toString()).not.toBe('PK');
+      expect(stored.includes(certsBuffer)).toBe(false);
     });
 
     test('download should fail without worker header', async () => {
@@ -499,6 +602,7 @@ describe('Controller E2E Tests', () => {
   describe('Build Upload and Download', () => {
     let workerId: string;
     let buildId: string;
+    let resultSha256: string;
 
     beforeAll(async () => {
       // Register worker
@@ -525,6 +629,8 @@ describe('Controller E2E Tests', () => {
       const blob = new Blob([buffer], { type: 'application/zip' });
       form.append('source', blob, 'source.zip');
       form.append('platform', 'ios');
+      // Jump the builds left pending above, so the poll assigns this one
+      form.append('priority', 'urgent');
 
       const submitResponse = await fetch(`${baseUrl}/api/builds/submit`, {
         method: 'POST',
@@ -541,12 +647,34 @@ describe('Controller E2E Tests', () => {
       });
     });
 
+    test('worker upload should reject mismatched result checksum', async () => {
+      const form = new FormData();
+      const blob = new Blob([Buffer.from('corrupted-ipa')], { type: 'application/octet-stream' });
+      form.append('result', blob, 'build.ipa');
+      form.append('build_id', buildId);
+      form.append('worker_id', workerId);
+      form.append('success', 'true');
+      form.append('result_sha256', sha256(Buffer.from('fake-ipa-content')));
+
+      const response = await fetch(`${baseUrl}/api/workers/upload`, {
+        method: 'POST',
+        headers: {
+          'X-API-Key': apiKey,
+        },
+        body: form,
+      });
+
+      expect(response.status).toBe(422);
+    });
+
     test('worker should upload successful build result', async () => {
       const form = new FormData();
       const resultPath = join(testDir, 'result.ipa');
       await createTestZip(resultPath, { 'app.ipa': 'fake-ipa-content' });
 
       const buffer = readFileSync(resultPath);
+      resultSha256 = sha256(buffer);
+      form.append('result_sha256', resultSha256);
       const blob = new Blob([buffer], { type: 'application/octet-stream' });
       form.append('result', blob, 'build.ipa');
       form.append('build_id', buildId);
@@ -575,6 +703,8 @@ describe('Controller E2E Tests', () => {
       const data = await response.json();
       expect(data.status).toBe('completed');
       expect(data.completed_at).toBeDefined();
+      expect(data.result_sha256).toBe(resultSha256);
+      expect(data.source_sha256).toMatch(/^[a-f0-9]{64}$/);
     });
 
     test('should download completed build', async () => {
@@ -587,6 +717,46 @@ describe('Controller E2E Tests', () => {
 
       const buffer = await response.arrayBuffer();
       expect(buffer.byteLength).toBeGreaterThan(0);
+      expect(response.headers.get('content-length')).toBe(String(buffer.byteLength));
+      expect(response.headers.get('accept-ranges')).toBe('bytes');
+      expect(response.headers.get('etag')).toBeTruthy();
+      expect(response.headers.get('digest')).toBe(
+        `sha-256=${Buffer.from(resultSha256, 'hex').toString('base64')}`
+      );
+    });
+
+    test('should serve byte ranges of completed build', async () => {
+      const full = Buffer.from(
+        await (await fetch(`${baseUrl}/api/builds/${buildId}/download`, {
+          headers: { 'X-API-Key': apiKey },
+        })).arrayBuffer()
+      );
+
+      const response = await fetch(`${baseUrl}/api/builds/${buildId}/download`, {
+        headers: { 'X-API-Key': apiKey, Range: 'bytes=10-' },
+      });
+
+      expect(response.status).toBe(206);
+      expect(response.headers.get('content-range')).toBe(`bytes 10-${full.length - 1}/${full.length}`);
+      expect(Buffer.from(await response.arrayBuffer()).equals(full.subarray(10))).toBe(true);
+    });
+
+    test('should ignore Range when If-Range does not match', async () => {
+      const response = await fetch(`${baseUrl}/api/builds/${buildId}/download`, {
+        headers: { 'X-API-Key': apiKey, Range: 'bytes=10-', 'If-Range': '"stale-etag"' },
+      });
+
+      expect(response.status).toBe(200);
+      await response.arrayBuffer();
+    });
+
+    test('should reject unsatisfiable range', async () => {
+      const response = await fetch(`${baseUrl}/api/builds/${buildId}/download`, {
+        headers: { 'X-API-Key': apiKey, Range: 'bytes=999999999-' },
+      });
+
+      expect(response.status).toBe(416);
+      expect(response.headers.get('content-range')).toMatch(/^bytes \*\/\d+$/);
     });
   });
 
@@ -619,6 +789,8 @@ describe('Controller E2E Tests', () => {
       const blob = new Blob([buffer], { type: 'application/zip' });
       form.append('source', blob, 'source.zip');
       form.append('platform', 'ios');
+      // Jump the builds left pending above, so the poll assigns this one
+      form.append('priority', 'urgent');
 
       const submitResponse = await fetch(`${baseUrl}/api/builds/submit`, {
         method: 'POST',
@@ -713,60 +885,1111 @@ describe('Controller E2E Tests', () => {
     });
   });
 
-  describe('Queue Persistence', () => {
-    test('queue state should persist across restart', async () => {
-      // Submit build
-      const form = new FormData();
-      const zipPath = join(testDir, 'persistence-test.zip');
-      await createTestZip(zipPath, { 'test.txt': 'data' });
+  describe('Resumable Uploads', () => {
+    let sourceBuffer: Buffer;
+    let uploadId: string;
 
-      const buffer = readFileSync(zipPath);
-      const blob = new Blob([buffer], { type: 'application/zip' });
-      form.append('source', blob, 'source.zip');
+    const putChunk = (offset: number, chunk: Buffer) =>
+      fetch(`${baseUrl}/api/uploads/${uploadId}?offset=${offset}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/octet-stream',
+          'X-API-Key': apiKey,
+        },
+        body: chunk,
+      });
+
+    beforeAll(async () => {
+      const zipPath = join(testDir, 'resumable-source.zip');
+      await createTestZip(zipPath, { 'app.json': '{"expo": {"name": "Resumable"}}' });
+      sourceBuffer = readFileSync(zipPath);
+    });
+
+    test('should create upload session', async () => {
+      const response = await fetch(`${baseUrl}/api/uploads`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-API-Key': apiKey,
+        },
+        body: JSON.stringify({ kind: 'source', size: sourceBuffer.length, sha256: sha256(sourceBuffer) }),
+      });
+
+      expect(response.status).toBe(200);
+      const data = await response.json();
+      expect(data.offset).toBe(0);
+      expect(data.status).toBe('uploading');
+      expect(data.chunk_size).toBeGreaterThan(0);
+      uploadId = data.id;
+    });
+
+    test('should accept chunks and reject out-of-order offsets', async () => {
+      const half = Math.floor(sourceBuffer.length / 2);
+
+      const first = await putChunk(0, sourceBuffer.subarray(0, half));
+      expect(first.status).toBe(200);
+      expect((await first.json()).offset).toBe(half);
+
+      // Replaying the first chunk (e.g. after a lost response) reports the committed offset
+      const replay = await putChunk(0, sourceBuffer.subarray(0, half));
+      expect(replay.status).toBe(409);
+      expect((await replay.json()).offset).toBe(half);
+
+      const resume = await fetch(`${baseUrl}/api/uploads/${uploadId}`, {
+        headers: { 'X-API-Key': apiKey },
+      });
+      const { offset } = await resume.json();
+
+      const second = await putChunk(offset, sourceBuffer.subarray(offset));
+      expect(second.status).toBe(200);
+      expect((await second.json()).offset).toBe(sourceBuffer.length);
+    });
+
+    test('should finalize and submit build from upload', async () => {
+      const finalize = await fetch(`${baseUrl}/api/uploads/${uploadId}/finalize`, {
+        method: 'POST',
+        headers: { 'X-API-Key': apiKey },
+      });
+      expect(finalize.status).toBe(200);
+      expect((await finalize.json()).status).toBe('complete');
+
+      const form = new FormData();
+      form.append('source_upload_id', uploadId);
       form.append('platform', 'ios');
 
-      const submitResponse = await fetch(`${baseUrl}/api/builds/submit`, {
+      const response = await fetch(`${baseUrl}/api/builds/submit`, {
+        method: 'POST',
+        headers: { 'X-API-Key': apiKey },
+        body: form,
+      });
+
+      expect(response.status).toBe(200);
+      const data = await response.json();
+      expect(data.status).toBe('pending');
+
+      // Upload is consumed by the submission
+      const reuse = await fetch(`${baseUrl}/api/uploads/${uploadId}`, {
+        headers: { 'X-API-Key': apiKey },
+      });
+      expect(reuse.status).toBe(404);
+    });
+
+    test('should reject submit with unfinalized upload', async () => {
+      const create = await fetch(`${baseUrl}/api/uploads`, {
         method: 'POST',
         headers: {
+          'Content-Type': 'application/json',
           'X-API-Key': apiKey,
         },
+        body: JSON.stringify({ kind: 'source', size: sourceBuffer.length }),
+      });
+      const { id } = await create.json();
+
+      const form = new FormData();
+      form.append('source_upload_id', id);
+      form.append('platform', 'ios');
+
+      const response = await fetch(`${baseUrl}/api/builds/submit`, {
+        method: 'POST',
+        headers: { 'X-API-Key': apiKey },
         body: form,
       });
-      const { id: buildId } = await submitResponse.json();
+      expect(response.status).toBe(409);
+    });
 
-      // Check it's in queue
-      const healthBefore = await fetch(`${baseUrl}/health`);
-      const healthDataBefore = await healthBefore.json();
-      expect(healthDataBefore.queue.pending).toBeGreaterThan(0);
+    test('should reject finalize with checksum mismatch', async () => {
+      const create = await fetch(`${baseUrl}/api/uploads`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-API-Key': apiKey,
+        },
+        body: JSON.stringify({ kind: 'source', size: 4, sha256: '0'.repeat(64) }),
+      });
+      uploadId = (await create.json()).id;
 
-      // Restart server
-      await server.stop();
+      await putChunk(0, Buffer.from('data'));
 
-      const config = createConfig({
-        port: 3002,
-        dbPath,
-        storagePath,
-        apiKey,
+      const finalize = await fetch(`${baseUrl}/api/uploads/${uploadId}/finalize`, {
+        method: 'POST',
+        headers: { 'X-API-Key': apiKey },
       });
-      server = new ControllerServer(config);
-      await server.start();
+      expect(finalize.status).toBe(422);
+    });
 
-      // Check build still exists
-      const statusResponse = await fetch(`${baseUrl}/api/builds/${buildId}/status`, {
+    test('should not delete an upload while a chunk is being written', async () => {
+      const create = await fetch(`${baseUrl}/api/uploads`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-API-Key': apiKey,
+        },
+        body: JSON.stringify({ kind: 'source', size: 8 }),
+      });
+      uploadId = (await create.json()).id;
+
+      // Send half the chunk and hold the rest back
+      let sendRest!: () => void;
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(Buffer.from('data'));
+          sendRest = () => {
+            controller.enqueue(Buffer.from('more'));
+            controller.close();
+          };
+        },
+      });
+      const put = fetch(`${baseUrl}/api/uploads/${uploadId}?offset=0`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/octet-stream',
+          'X-API-Key': apiKey,
+        },
+        body,
+        duplex: 'half',
+      } as RequestInit);
+
+      const partPath = join(storagePath, 'uploads', `${uploadId}.part`);
+      const deadline = Date.now() + 5_000;
+      while (statSync(partPath).size === 0) {
+        if (Date.now() > deadline) {
+          throw new Error('Chunk write never started');
+        }
+        await Bun.sleep(10);
+      }
+
+      const remove = () => fetch(`${baseUrl}/api/uploads/${uploadId}`, {
+        method: 'DELETE',
         headers: { 'X-API-Key': apiKey },
       });
-      expect(statusResponse.status).toBe(200);
 
-      const statusData = await statusResponse.json();
-      expect(statusData.status).toBe('pending');
+      const during = await remove();
+      expect(during.status).toBe(409);
+      expect((await during.json()).offset).toBe(0);
 
-      // Check queue restored
-      const healthAfter = await fetch(`${baseUrl}/health`);
-      const healthDataAfter = await healthAfter.json();
-      expect(healthDataAfter.queue.pending).toBeGreaterThan(0);
+      sendRest();
+      const written = await put;
+      expect(written.status).toBe(200);
+      expect((await written.json()).offset).toBe(8);
+
+      expect((await remove()).status).toBe(200);
     });
   });
-});
+
+  describe('Source Deduplication', () => {
+    let zip: Buffer;
+    let firstBuildId: string;
+
+    const submit = async (fields: Record<string, string>, withSource: boolean) => {
+      const form = new FormData();
+      if (withSource) {
+        form.append('source', new Blob([zip], { type: 'application/zip' }), 'source.zip');
+      }
+      form.append('platform', 'android');
+      for (const [name, value] of Object.entries(fields)) {
+        form.append(name, value);
+      }
+      return fetch(`${baseUrl}/api/builds/submit`, {
+        method: 'POST',
+        headers: { 'X-API-Key': apiKey },
+        body: form,
+      });
+    };
+
+    const sourceSha256Of = async (buildId: string) => {
+      const response = await fetch(`${baseUrl}/api/builds/${buildId}/status`, {
+        headers: { 'X-API-Key': apiKey },
+      });
+      return (await response.json()).source_sha256;
+    };
+
+    beforeAll(async () => {
+      const zipPath = join(testDir, 'dedup-test.zip');
+      await createTestZip(zipPath, { 'dedup.txt': 'identical project' });
+      zip = readFileSync(zipPath);
+
+      firstBuildId = (await (await submit({}, true)).json()).id;
+    });
+
+    test('identical uploads should share one stored blob', async () => {
+      const response = await submit({}, true);
+      expect(response.status).toBe(200);
+      const { id } = await response.json();
+
+      expect(await sourceSha256Of(id)).toBe(sha256(zip));
+      expect(existsSync(join(storagePath, 'blobs', sha256(zip)))).toBe(true);
+      expect(existsSync(join(storagePath, 'builds', `${firstBuildId}.zip`))).toBe(false);
+      expect(existsSync(join(storagePath, 'builds', `${id}.zip`))).toBe(false);
+    });
+
+    test('should accept a known digest instead of the file', async () => {
+      const response = await submit({ source_sha256: sha256(zip) }, false);
+      expect(response.status).toBe(200);
+
+      const { id } = await response.json();
+      expect(await sourceSha256Of(id)).toBe(sha256(zip));
+    });
+
+    test('should report unknown digests as missing', async () => {
+      const response = await submit({ source_sha256: 'a'.repeat(64) }, false);
+      expect(response.status).toBe(404);
+      expect((await response.json()).missing).toEqual(['source']);
+    });
+
+    test('should reject malformed digests', async () => {
+      const response = await submit({ source_sha256: 'not-a-digest' }, false);
+      expect(response.status).toBe(400);
+    });
+
+    test('retry should share the source instead of copying it', async () => {
+      const response = await fetch(`${baseUrl}/api/builds/${firstBuildId}/retry`, {
+        method: 'POST',
+        headers: { 'X-API-Key': apiKey },
+      });
+      expect(response.status).toBe(200);
+
+      const { id } = await response.json();
+      expect(await sourceSha256Of(id)).toBe(sha256(zip));
+      expect(existsSync(join(storagePath, 'builds', `${id}.zip`))).toBe(false);
+    });
+  });
+
+  describe('Retention', () => {
+    let buildId: string;
+
+    beforeAll(async () => {
+      const form = new FormData();
+      const zipPath = join(testDir, 'retention-test.zip');
+      await createTestZip(zipPath, { 'test.txt': 'data' });
+      form.append('source', new Blob([readFileSync(zipPath)], { type: 'application/zip' }), 'source.zip');
+      form.append('platform', 'android');
+
+      const response = await fetch(`${baseUrl}/api/builds/submit`, {
+        method: 'POST',
+        headers: { 'X-API-Key': apiKey },
+        body: form,
+      });
+      buildId = (await response.json()).id;
+    });
+
+    test('should pin and unpin builds', async () => {
+      const pin = await fetch(`${baseUrl}/api/builds/${buildId}/pin`, {
+        method: 'POST',
+        headers: { 'X-API-Key': apiKey },
+      });
+      expect(pin.status).toBe(200);
+      expect((await pin.json()).pinned).toBe(true);
+
+      const status = await fetch(`${baseUrl}/api/builds/${buildId}/status`, {
+        headers: { 'X-API-Key': apiKey },
+      });
+      expect((await status.json()).pinned).toBe(true);
+
+      const unpin = await fetch(`${baseUrl}/api/builds/${buildId}/pin`, {
+        method: 'DELETE',
+        headers: { 'X-API-Key': apiKey },
+      });
+      expect((await unpin.json()).pinned).toBe(false);
+    });
+
+    test('should return 404 when pinning unknown build', async () => {
+      const response = await fetch(`${baseUrl}/api/builds/nonexistent/pin`, {
+        method: 'POST',
+        headers: { 'X-API-Key': apiKey },
+      });
+      expect(response.status).toBe(404);
+    });
+
+    test('should refuse to retry a finished build whose certs were deleted, saying how to keep them', async () => {
+      const form = new FormData();
+      const sourcePath = join(testDir, 'retention-signed.zip');
+      const certsPath = join(testDir, 'retention-certs.zip');
+      await createTestZip(sourcePath, { 'test.txt': 'signed' });
+      await createTestZip(certsPath, { 'cert.p12': 'fake-cert' });
+      form.append('source', new Blob([readFileSync(sourcePath)], { type: 'application/zip' }), 'source.zip');
+      form.append('certs', new Blob([readFileSync(certsPath)], { type: 'application/zip' }), 'certs.zip');
+      form.append('platform', 'ios');
+
+      const submit = await fetch(`${baseUrl}/api/builds/submit`, {
+        method: 'POST',
+        headers: { 'X-API-Key': apiKey },
+        body: form,
+      });
+      const { id } = await submit.json();
+
+      // Certs are deleted on completion by default, including cancellation
+      await fetch(`${baseUrl}/api/builds/${id}/cancel`, {
+        method: 'POST',
+        headers: { 'X-API-Key': apiKey },
+      });
+
+      const retry = await fetch(`${baseUrl}/api/builds/${id}/retry`, {
+        method: 'POST',
+        headers: { 'X-API-Key': apiKey },
+      });
+      expect(retry.status).toBe(400);
+      expect((await retry.json()).error).toContain('RETENTION_DELETE_CERTS=false');
+    });
+
+    test('should report retention dry run without deleting', async () => {
+      const response = await fetch(`${baseUrl}/api/admin/retention`, {
+        headers: { 'X-API-Key': apiKey },
+      });
+      expect(response.status).toBe(200);
+
+      const report = await response.json();
+      expect(report.dry_run).toBe(true);
+      expect(report.policy.sourceRetentionDays).toBeNull();
+      expect(report.stored_bytes).toBeGreaterThan(0);
+      expect(report.actions).toEqual([]);
+    });
+
+    test('admin endpoints should require API key', async () => {
+      const response = await fetch(`${baseUrl}/api/admin/retention`);
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('Capability Matching', () => {
+    const submitWithRequirements = async (fields: Record<string, string>) => {
+      const form = new FormData();
+      const zipPath = join(testDir, 'requirements-test.zip');
+      await createTestZip(zipPath, { 'test.txt': 'requirements' });
+
+      form.append('source', new Blob([readFileSync(zipPath)], { type: 'application/zip' }), 'source.zip');
+      form.append('platform', 'ios');
+      for (const [name, value] of Object.entries(fields)) {
+        form.append(name, value);
+      }
+
+      return fetch(`${baseUrl}/api/builds/submit`, {
+        method: 'POST',
+        headers: { 'X-API-Key': apiKey },
+        body: form,
+      });
+    };
+
+    test('should explain when no worker can run a build', async () => {
+      const response = await submitWithRequirements({ min_xcode_version: '99.0', min_memory_gb: '8' });
+      expect(response.status).toBe(200);
+      const { id, waiting_reason } = await response.json();
+      expect(waiting_reason).toContain('No registered worker can run this build');
+
+      const statusResponse = await fetch(`${baseUrl}/api/builds/${id}/status`, {
+        headers: { 'X-API-Key': apiKey },
+      });
+      const status = await statusResponse.json();
+      expect(status.requirements).toEqual({ min_xcode_version: '99.0', min_memory_gb: 8 });
+      expect(status.waiting_reason).toContain('needs 99.0');
+    });
+
+    test('should not assign builds a worker cannot run', async () => {
+      const registerResponse = await fetch(`${baseUrl}/api/workers/register`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-API-Key': apiKey },
+        body: JSON.stringify({ name: 'Android Only Worker', capabilities: { platforms: ['android'] } }),
+      });
+      const { id: workerId } = await registerResponse.json();
+
+      // Earlier tests leave iOS builds queued; none may go to this worker
+      const response = await fetch(`${baseUrl}/api/workers/poll?worker_id=${workerId}`, {
+        headers: { 'X-API-Key': apiKey },
+      });
+      const { job } = await response.json();
+      expect(job?.platform ?? null).not.toBe('ios');
+    });
+
+    test('should reject malformed requirements', async () => {
+      const response = await submitWithRequirements({ min_xcode_version: 'latest' });
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toContain('min_xcode_version');
+    });
+  });
+
+  describe('Automatic Retries', () => {
+    let buildId: string;
+    let workerId: string;
+
+    const reportFailure = (failureType: string) => {
+      const form = new FormData();
+      form.append('build_id', buildId);
+      form.append('worker_id', workerId);
+      form.append('success', 'false');
+      form.append('error_message', 'VM failed to boot');
+      form.append('failure_type', failureType);
+
+      return fetch(`${baseUrl}/api/workers/upload`, {
+        method: 'POST',
+        headers: { 'X-API-Key': apiKey },
+        body: form,
+      });
+    };
+
+    beforeAll(async () => {
+      const registerResponse = await fetch(`${baseUrl}/api/workers/register`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-API-Key': apiKey },
+        body: JSON.stringify({ name: 'Flaky Worker', capabilities: { platforms: ['ios'] } }),
+      });
+      workerId = (await registerResponse.json()).id;
+
+      // Urgent, so it is assigned ahead of builds earlier tests left queued
+      const form = new FormData();
+      const zipPath = join(testDir, 'retry-test.zip');
+      await createTestZip(zipPath, { 'test.txt': 'retry' });
+      form.append('source', new Blob([readFileSync(zipPath)], { type: 'application/zip' }), 'source.zip');
+      form.append('platform', 'ios');
+      form.append('priority', 'urgent');
+
+      const submitResponse = await fetch(`${baseUrl}/api/builds/submit`, {
+        method: 'POST',
+        headers: { 'X-API-Key': apiKey },
+        body: form,
+      });
+      buildId = (await submitResponse.json()).id;
+
+      const pollResponse = await fetch(`${baseUrl}/api/workers/poll?worker_id=${workerId}`, {
+        headers: { 'X-API-Key': apiKey },
+      });
+      expect((await pollResponse.json()).job?.id).toBe(buildId);
+    });
+
+    test('should reject unknown failure types', async () => {
+      const response = await reportFailure('cosmic-rays');
+      expect(response.status).toBe(400);
+    });
+
+    test('should requeue infrastructure failures as a new attempt', async () => {
+      const response = await reportFailure('infrastructure');
+      expect(response.status).toBe(200);
+      expect((await response.json()).status).toBe('retrying');
+
+      const statusResponse = await fetch(`${baseUrl}/api/builds/${buildId}/status`, {
+        headers: { 'X-API-Key': apiKey },
+      });
+      const status = await statusResponse.json();
+      expect(status).toMatchObject({ status: 'pending', attempt: 2, max_attempts: 3, worker_id: null });
+      expect(status.retry_after).toBeGreaterThan(Date.now());
+      expect(status.attempts).toMatchObject([
+        { attempt: 1, worker_id: workerId, outcome: 'failed', failure_type: 'infrastructure', error_message: 'VM failed to boot' },
+      ]);
+
+      const logsResponse = await fetch(`${baseUrl}/api/builds/${buildId}/logs`, {
+        headers: { 'X-API-Key': apiKey },
+      });
+      const { logs } = await logsResponse.json();
+      expect(logs.at(-1)).toMatchObject({ attempt: 2, message: 'Retrying in 30s (attempt 2 of 3)' });
+    });
+
+    test('should reject results from an attempt that was retried', async () => {
+      const response = await reportFailure('build');
+      expect(response.status).toBe(409);
+    });
+  });
+
+  describe('Build Groups', () => {
+    let group: any;
+
+    beforeAll(async () => {
+      const form = new FormData();
+      const zipPath = join(testDir, 'group-test.zip');
+      await createTestZip(zipPath, { 'test.txt': 'group' });
+      form.append('source', new Blob([readFileSync(zipPath)], { type: 'application/zip' }), 'source.zip');
+      form.append('platform', 'ios, android');
+      form.append('min_xcode_version', '16');
+
+      const submitResponse = await fetch(`${baseUrl}/api/builds/submit`, {
+        method: 'POST',
+        headers: { 'X-API-Key': apiKey },
+        body: form,
+      });
+      expect(submitResponse.status).toBe(200);
+      group = await submitResponse.json();
+    });
+
+    test('should create one build per platform from a single upload', async () => {
+      expect(group.id).toBe(group.group_id);
+      expect(group.builds.map((build: any) => build.platform)).toEqual(['android', 'ios']);
+
+      const [android, ios] = await Promise.all(
+        group.builds.map(async (build: any) => {
+          const response = await fetch(`${baseUrl}/api/builds/${build.id}/status`, {
+            headers: { 'X-API-Key': apiKey },
+          });
+          return response.json();
+        })
+      );
+      expect(ios.group_id).toBe(group.id);
+      expect(ios.source_sha256).toBe(android.source_sha256);
+      expect(ios.requirements).toEqual({ min_xcode_version: '16' });
+      expect(android.requirements).toEqual({});
+    });
+
+    test('should report aggregate status with the group token', async () => {
+      const response = await fetch(`${baseUrl}/api/groups/${group.id}/status`, {
+        headers: { 'X-API-Key': apiKey, 'X-Build-Token': group.access_token },
+      });
+      expect(response.status).toBe(200);
+
+      const status = await response.json();
+      expect(status.status).toBe('pending');
+      expect(status.builds.map((build: any) => build.id)).toEqual(group.builds.map((build: any) => build.id));
+    });
+
+    test('should let the group token access each build', async () => {
+      const response = await fetch(`${baseUrl}/api/builds/${group.builds[1].id}/status`, {
+        headers: { 'X-Build-Token': group.access_token, 'X-API-Key': apiKey },
+      });
+      expect(response.status).toBe(200);
+    });
+
+    test('should 404 for unknown groups', async () => {
+      const response = await fetch(`${baseUrl}/api/groups/no-such-group/status`, {
+        headers: { 'X-API-Key': apiKey },
+      });
+      expect(response.status).toBe(404);
+    });
+
+    test('should reject unknown platforms in the list', async () => {
+      const form = new FormData();
+      form.append('source', new Blob([Buffer.from('zip')], { type: 'application/zip' }), 'source.zip');
+      form.append('platform', 'ios,windows');
+
+      const response = await fetch(`${baseUrl}/api/builds/submit`, {
+        method: 'POST',
+        headers: { 'X-API-Key': apiKey },
+        body: form,
+      });
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('Schedules', () => {
+    let buildId: string;
+
+    const createSchedule = (body: Record<string, unknown>) =>
+      fetch(`${baseUrl}/api/schedules`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-API-Key': apiKey },
+        body: JSON.stringify(body),
+      });
+
+    beforeAll(async () => {
+      const form = new FormData();
+      const zipPath = join(testDir, 'schedule-test.zip');
+      await createTestZip(zipPath, { 'test.txt': 'nightly' });
+      form.append('source', new Blob([readFileSync(zipPath)], { type: 'application/zip' }), 'source.zip');
+      form.append('platform', 'ios');
+
+      const submitResponse = await fetch(`${baseUrl}/api/builds/submit`, {
+        method: 'POST',
+        headers: { 'X-API-Key': apiKey },
+        body: form,
+      });
+      buildId = (await submitResponse.json()).id;
+    });
+
+    test('should create, list and delete a schedule from a stored source', async () => {
+      const createResponse = await createSchedule({
+        name: 'nightly',
+        cron: '0 2 * * *',
+        platform: 'ios,android',
+        source_build_id: buildId,
+        min_memory_gb: 16,
+      });
+      expect(createResponse.status).toBe(201);
+
+      const schedule = await createResponse.json();
+      expect(schedule).toMatchObject({
+        name: 'nightly',
+        platforms: ['android', 'ios'],
+        requirements: { min_memory_gb: 16 },
+        catch_up: true,
+        last_run_at: null,
+      });
+      expect(new Date(schedule.next_run_at).getUTCHours()).toBe(2);
+
+      const listResponse = await fetch(`${baseUrl}/api/schedules`, { headers: { 'X-API-Key': apiKey } });
+      expect((await listResponse.json()).schedules.map((entry: any) => entry.id)).toContain(schedule.id);
+
+      const getResponse = await fetch(`${baseUrl}/api/schedules/${schedule.id}`, { headers: { 'X-API-Key': apiKey } });
+      expect((await getResponse.json()).runs).toEqual([]);
+
+      const deleteResponse = await fetch(`${baseUrl}/api/schedules/${schedule.id}`, {
+        method: 'DELETE',
+        headers: { 'X-API-Key': apiKey },
+      });
+      expect(deleteResponse.status).toBe(200);
+
+      const goneResponse = await fetch(`${baseUrl}/api/schedules/${schedule.id}`, { headers: { 'X-API-Key': apiKey } });
+      expect(goneResponse.status).toBe(404);
+    });
+
+    test('should reject invalid schedules', async () => {
+      const cases = [
+        { name: 'bad cron', cron: '61 * * * *', source_build_id: buildId },
+        { name: 'never', cron: '0 0 30 2 *', source_build_id: buildId },
+        { name: 'two sources', cron: '@daily', source_build_id: buildId, git_url: 'https://example.com/app.git', git_ref: 'main' },
+        { name: 'local git', cron: '@daily', git_url: '/srv/app', git_ref: 'main' },
+        { name: 'option ref', cron: '@daily', git_url: 'https://example.com/app.git', git_ref: '--upload-pack=x' },
+      ];
+
+      for (const body of cases) {
+        const response = await createSchedule(body);
+        expect(response.status).toBe(400);
+      }
+
+      const unknownBuild = await createSchedule({ name: 'unknown', cron: '@daily', source_build_id: 'no-such-build' });
+      expect(unknownBuild.status).toBe(404);
+    });
+  });
+
+  describe('Maintenance', () => {
+    let workerId: string;
+
+    const submitAndroid = async () => {
+      const form = new FormData();
+      const zipPath = join(testDir, 'maintenance-test.zip');
+      await createTestZip(zipPath, { 'test.txt': 'maintenance' });
+
+      form.append('source', new Blob([readFileSync(zipPath)], { type: 'application/zip' }), 'source.zip');
+      form.append('platform', 'android');
+      form.append('priority', 'urgent');
+
+      const response = await fetch(`${baseUrl}/api/builds/submit`, {
+        method: 'POST',
+        headers: { 'X-API-Key': apiKey },
+        body: form,
+      });
+      return response.json();
+    };
+
+    const admin = (path: string, body?: unknown) =>
+      fetch(`${baseUrl}/api/admin${path}`, {
+        method: 'POST',
+        headers: body ? { 'Content-Type': 'application/json', 'X-API-Key': apiKey } : { 'X-API-Key': apiKey },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+
+    const poll = async (slots = 1) => {
+      const response = await fetch(`${baseUrl}/api/workers/poll?worker_id=${workerId}&max_concurrent_builds=${slots}`, {
+        headers: { 'X-API-Key': apiKey },
+      });
+      return response.json();
+    };
+
+    beforeAll(async () => {
+      const registerResponse = await fetch(`${baseUrl}/api/workers/register`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-API-Key': apiKey },
+        body: JSON.stringify({ name: 'Maintenance Worker', capabilities: { platforms: ['android'] } }),
+      });
+      workerId = (await registerResponse.json()).id;
+      await submitAndroid();
+    });
+
+    afterAll(async () => {
+      await admin('/queue/resume');
+    });
+
+    test('draining worker should get no new builds until undrained', async () => {
+      const drain = await admin(`/workers/${workerId}/drain`);
+      expect(drain.status).toBe(200);
+      const drained = await drain.json();
+      expect(drained.availability).toBe('drained');
+      expect(drained.drain_requested_at).toBeGreaterThan(0);
+
+      const held = await poll();
+      expect(held.job).toBeNull();
+      expect(held.availability).toBe('drained');
+      expect(held.queue_paused).toBe(false);
+
+      const undrain = await admin(`/workers/${workerId}/undrain`);
+      expect((await undrain.json()).availability).toBe('available');
+
+      const resumed = await poll();
+      expect(resumed.job).not.toBeNull();
+      expect(resumed.availability).toBe('available');
+    });
+
+    test('paused worker should keep its builds but get no new ones', async () => {
+      await admin(`/workers/${workerId}/pause`);
+
+      const paused = await poll(2);
+      expect(paused.job).toBeNull();
+      expect(paused.active_jobs).toHaveLength(1);
+      expect(paused.availability).toBe('paused');
+
+      const listResponse = await fetch(`${baseUrl}/api/admin/workers`, {
+        headers: { 'X-API-Key': apiKey },
+      });
+      const { workers } = await listResponse.json();
+      expect(workers.find((worker: { id: string }) => worker.id === workerId).availability).toBe('paused');
+
+      await admin(`/workers/${workerId}/resume`);
+    });
+
+    test('paused queue should assign no builds and explain why', async () => {
+      const pause = await admin('/queue/pause', { reason: 'Upgrading controller' });
+      expect(pause.status).toBe(200);
+
+      const stateResponse = await fetch(`${baseUrl}/api/admin/queue`, {
+        headers: { 'X-API-Key': apiKey },
+      });
+      const state = await stateResponse.json();
+      expect(state.paused).toBe(true);
+      expect(state.reason).toBe('Upgrading controller');
+
+      const { id: buildId, waiting_reason } = await submitAndroid();
+      expect(waiting_reason).toBe('The queue is paused for maintenance: Upgrading controller');
+
+      const held = await poll(2);
+      expect(held.job).toBeNull();
+      expect(held.queue_paused).toBe(true);
+
+      await admin('/queue/resume');
+
+      const resumed = await poll(2);
+      expect(resumed.job?.id).toBe(buildId);
+      expect(resumed.queue_paused).toBe(false);
+    });
+
+    test('should 404 for unknown workers', async () => {
+      const response = await admin('/workers/nonexistent/drain');
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('Cancellation', () => {
+    let buildId: string;
+    let workerId: string;
+
+    const submitAndroid = async () => {
+      const form = new FormData();
+      const zipPath = join(testDir, 'cancel-test.zip');
+      await createTestZip(zipPath, { 'test.txt': 'cancel' });
+
+      form.append('source', new Blob([readFileSync(zipPath)], { type: 'application/zip' }), 'source.zip');
+      form.append('platform', 'android');
+      form.append('priority', 'urgent');
+
+      const response = await fetch(`${baseUrl}/api/builds/submit`, {
+        method: 'POST',
+        headers: { 'X-API-Key': apiKey },
+        body: form,
+      });
+      return (await response.json()).id as string;
+    };
+
+    const poll = async () => {
+      const response = await fetch(`${baseUrl}/api/workers/poll?worker_id=${workerId}`, {
+        headers: { 'X-API-Key': apiKey },
+      });
+      return response.json();
+    };
+
+    const cancel = (id: string) =>
+      fetch(`${baseUrl}/api/builds/${id}/cancel`, {
+        method: 'POST',
+        headers: { 'X-API-Key': apiKey },
+      });
+
+    beforeAll(async () => {
+      const registerResponse = await fetch(`${baseUrl}/api/workers/register`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-API-Key': apiKey },
+        body: JSON.stringify({ name: 'Cancel Worker', capabilities: { platforms: ['android'] } }),
+      });
+      workerId = (await registerResponse.json()).id;
+
+      buildId = await submitAndroid();
+      expect((await poll()).job?.id).toBe(buildId);
+    });
+
+    test('should cancel a running build and tell its worker', async () => {
+      const response = await cancel(buildId);
+      expect(response.status).toBe(200);
+      const cancelled = await response.json();
+      expect(cancelled).toMatchObject({ status: 'cancelled', worker_notified: true });
+
+      const statusResponse = await fetch(`${baseUrl}/api/builds/${buildId}/status`, {
+        headers: { 'X-API-Key': apiKey },
+      });
+      const status = await statusResponse.json();
+      expect(status).toMatchObject({
+        status: 'cancelled',
+        cancel_requested_at: cancelled.cancel_requested_at,
+        cancel_acknowledged_at: null,
+      });
+      expect(status.attempts).toMatchObject([{ attempt: 1, outcome: 'cancelled' }]);
+
+      const polled = await poll();
+      expect(polled.cancelled_jobs).toEqual([buildId]);
+      expect(polled.active_jobs.map((job: { id: string }) => job.id)).not.toContain(buildId);
+
+      const heartbeat = await fetch(`${baseUrl}/api/builds/${buildId}/heartbeat?worker_id=${workerId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-API-Key': apiKey },
+        body: JSON.stringify({}),
+      });
+      expect(heartbeat.status).toBe(409);
+      expect((await heartbeat.json()).cancelled).toBe(true);
+
+      expect((await cancel(buildId)).status).toBe(400);
+    });
+
+    test('should record the worker acknowledgement once', async () => {
+      const ack = (worker: string) =>
+        fetch(`${baseUrl}/api/builds/${buildId}/cancel/ack?worker_id=${worker}`, {
+          method: 'POST',
+          headers: { 'X-API-Key': apiKey },
+        });
+
+      expect((await ack('someone-else')).status).toBe(403);
+
+      const first = await ack(workerId);
+      expect(first.status).toBe(200);
+      const { acknowledged_at } = await first.json();
+      expect(acknowledged_at).toBeGreaterThan(0);
+
+      const again = await ack(workerId);
+      expect((await again.json()).acknowledged_at).toBe(acknowledged_at);
+
+      expect((await poll()).cancelled_jobs).toEqual([]);
+    });
+
+    test('should reject results for a cancelled build', async () => {
+      const form = new FormData();
+      form.append('build_id', buildId);
+      form.append('worker_id', workerId);
+      form.append('success', 'true');
+      form.append('result', new Blob(['late result'], { type: 'application/octet-stream' }), 'app.apk');
+
+      const response = await fetch(`${baseUrl}/api/workers/upload`, {
+        method: 'POST',
+        headers: { 'X-API-Key': apiKey },
+        body: form,
+      });
+      expect(response.status).toBe(409);
+      expect((await response.json()).cancelled).toBe(true);
+    });
+
+    test('should cancel a pending build without a worker to notify', async () => {
+      await fetch(`${baseUrl}/api/admin/workers/${workerId}/pause`, {
+        method: 'POST',
+        headers: { 'X-API-Key': apiKey },
+      });
+      const pendingId = await submitAndroid();
+
+      const response = await cancel(pendingId);
+      expect(await response.json()).toMatchObject({ status: 'cancelled', worker_notified: false });
+
+      await fetch(`${baseUrl}/api/admin/workers/${workerId}/resume`, {
+        method: 'POST',
+        headers: { 'X-API-Key': apiKey },
+      });
+    });
+  });
+
+  describe('Timeouts', () => {
+    const submit = async (fields: Record<string, string>) => {
+      const form = new FormData();
+      const zipPath = join(testDir, 'timeout-test.zip');
+      await createTestZip(zipPath, { 'test.txt': 'timeout' });
+
+      form.append('source', new Blob([readFileSync(zipPath)], { type: 'application/zip' }), 'source.zip');
+      form.append('platform', 'ios');
+      for (const [name, value] of Object.entries(fields)) {
+        form.append(name, value);
+      }
+
+      return fetch(`${baseUrl}/api/builds/submit`, {
+        method: 'POST',
+        headers: { 'X-API-Key': apiKey },
+        body: form,
+      });
+    };
+
+    test('should reject limits above the controller limit', async () => {
+      const response = await submit({ max_duration_seconds: String(3 * 60 * 60) });
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toBe("max_duration_seconds exceeds the controller's ios limit of 2h");
+
+      expect((await submit({ max_queue_wait_seconds: 'soon' })).status).toBe(400);
+    });
+
+    test('should report the limits a build runs under', async () => {
+      const response = await submit({ max_duration_seconds: '600' });
+      expect(response.status).toBe(200);
+      const { id } = await response.json();
+
+      const statusResponse = await fetch(`${baseUrl}/api/builds/${id}/status`, {
+        headers: { 'X-API-Key': apiKey },
+      });
+      expect((await statusResponse.json()).timeouts).toEqual({
+        max_queue_wait_ms: null,
+        max_duration_ms: 600_000,
+        deadline_at: null,
+      });
+    });
+  });
+
+  describe('Build Events', () => {
+    const submitAndroid = async () => {
+      const form = new FormData();
+      const zipPath = join(testDir, 'events-test.zip');
+      await createTestZip(zipPath, { 'test.txt': 'events' });
+
+      form.append('source', new Blob([readFileSync(zipPath)], { type: 'application/zip' }), 'source.zip');
+      form.append('platform', 'android');
+      form.append('priority', 'background');
+
+      const response = await fetch(`${baseUrl}/api/builds/submit`, {
+        method: 'POST',
+        headers: { 'X-API-Key': apiKey },
+        body: form,
+      });
+      return (await response.json()).id as string;
+    };
+
+    const openEvents = (id: string, lastEventId?: string) =>
+      fetch(`${baseUrl}/api/builds/${id}/events`, {
+        headers: { 'X-API-Key': apiKey, ...(lastEventId ? { 'Last-Event-ID': lastEventId } : {}) },
+        // A stream that never sends what a test waits for fails it instead of hanging the suite
+        signal: AbortSignal.timeout(10_000),
+      });
+
+    const parseEvents = (text: string) =>
+      text
+        .split('\n\n')
+        .filter((block) => block.startsWith('id:'))
+        .map((block) => {
+          const fields = Object.fromEntries(
+            block.split('\n').map((line) => [line.slice(0, line.indexOf(':')), line.slice(line.indexOf(':') + 2)])
+          );
+          return { id: fields.id, event: fields.event, data: JSON.parse(fields.data) };
+        });
+
+    test('should replay a finished build and end the stream', async () => {
+      const id = await submitAndroid();
+      await fetch(`${baseUrl}/api/builds/${id}/cancel`, {
+        method: 'POST',
+        headers: { 'X-API-Key': apiKey },
+      });
+
+      const response = await openEvents(id);
+      expect(response.status).toBe(200);
+      expect(response.headers.get('content-type')).toBe('text/event-stream');
+
+      const events = parseEvents(await response.text());
+      const logs = events.filter((event) => event.event === 'log');
+      expect(logs.length).toBeGreaterThan(1);
+      expect(events.at(-1)).toMatchObject({ event: 'status', data: { status: 'cancelled' } });
+
+      // Resuming from the last event skips the lines already seen
+      const resumed = parseEvents(await (await openEvents(id, events.at(-1)!.id)).text());
+      expect(resumed.map((event) => event.event)).toEqual(['status']);
+
+      // Resuming from the middle of a batch replays the lines after it
+      expect(new Set(logs.map((event) => event.id)).size).toBe(logs.length);
+      const fromFirst = parseEvents(await (await openEvents(id, logs[0].id)).text());
+      expect(fromFirst.filter((event) => event.event === 'log')).toEqual(logs.slice(1));
+    });
+
+    test('should stream status changes as they happen', async () => {
+      const id = await submitAndroid();
+      const response = await openEvents(id);
+      expect(response.headers.get('content-type')).toBe('text/event-stream');
+      const reader = response.body!.getReader();
+      const decoder = new TextDecoder();
+
+      let text = '';
+      while (!parseEvents(text).some((event) => event.event === 'status')) {
+        const chunk = await reader.read();
+        if (chunk.done) {
+          throw new Error(`Stream ended before a status event: ${text}`);
+        }
+        text += decoder.decode(chunk.value);
+      }
+      expect(parseEvents(text).find((event) => event.event === 'status')?.data).toMatchObject({
+        status: 'pending',
+        queue_position: expect.any(Number),
+      });
+
+      await fetch(`${baseUrl}/api/builds/${id}/cancel`, {
+        method: 'POST',
+        headers: { 'X-API-Key': apiKey },
+      });
+
+      for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+        text += decoder.decode(chunk.value);
+      }
+      expect(parseEvents(text).at(-1)).toMatchObject({ event: 'status', data: { status: 'cancelled' } });
+    });
+
+    test('should return 404 for an unknown build', async () => {
+      expect((await openEvents('nonexistent')).status).toBe(404);
+    });
+  });
+
+  describe('Queue Persistence', () => {
+    test('queue state should persist across restart', async () => {
+      // Submit build
+      const form = new FormData();
+      const zipPath = join(testDir, 'persistence-test.zip');
+      await createTestZip(zipPath, { 'test.txt': 'data' });
+
+      const buffer = readFileSync(zipPath);
+      const blob = new Blob([buffer], { type: 'application/zip' });
+      form.append('source', blob, 'source.zip');
+      form.append('platform', 'ios');
+
+      const submitResponse = await fetch(`${baseUrl}/api/builds/submit`, {
+        method: 'POST',
+        headers: {
+          'X-API-Key': apiKey,
+        },
+        body: form,
+      });
+      const { id: buildId } = await submitResponse.json();
+
+      // Check it's in queue
+      const healthBefore = await fetch(`${baseUrl}/health`);
+      const healthDataBefore = await healthBefore.json();
+      expect(healthDataBefore.queue.pending).toBeGreaterThan(0);
+
+      // Restart server
+      await server.stop();
+
+      const config = createConfig({
+        port: 3002,
+        dbPath,
+        storagePath,
+        apiKey,
+      });
+      server = new ControllerServer(config);
+      await server.start();
+
+      // Check build still exists
+      const statusResponse = await fetch(`${baseUrl}/api/builds/${buildId}/status`, {
+        headers: { 'X-API-Key': apiKey },
+      });
+      expect(statusResponse.status).toBe(200);
+
+      const statusData = await statusResponse.json();
+      expect(statusData.status).toBe('pending');
+
+      // Check queue restored
+      const healthAfter = await fetch(`${baseUrl}/health`);
+      const healthDataAfter = await healthAfter.json();
+      expect(healthDataAfter.queue.pending).toBeGreaterThan(0);
+    });
+  });
+});
+
+function sha256(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
 
 // Helper function to create test zip files
 async function createTestZip(outputPath: string, files: Record<string, string>): Promise<void> {
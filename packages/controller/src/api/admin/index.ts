@@ -0,0 +1,224 @@
+import { FastifyPluginAsync, FastifyReply } from 'fastify';
+import type { DatabaseService, Worker } from '../../db/Database.js';
+import type { FileStorage } from '../../services/FileStorage.js';
+import type { JobQueue } from '../../services/JobQueue.js';
+import type { ControllerConfig } from '../../domain/Config.js';
+import { runRetention } from '../../services/Retention.js';
+import { rotateStoredCerts } from '../../services/CertsRotation.js';
+import { getQueuePause, pauseQueue, resumeQueue, workerAvailability } from '../../services/Maintenance.js';
+
+interface AdminPluginOptions {
+  db: DatabaseService;
+  queue: JobQueue;
+  storage: FileStorage;
+  config: ControllerConfig;
+}
+
+interface WorkerParams {
+  id: string;
+}
+
+interface QueuePauseBody {
+  reason?: string;
+}
+
+// Longest queue pause reason kept
+const MAX_REASON_LENGTH = 500;
+
+/**
+ * A worker's maintenance state as the admin endpoints report it
+ */
+function workerState(worker: Worker) {
+  return {
+    id: worker.id,
+    name: worker.name,
+    status: worker.status,
+    availability: workerAvailability(worker),
+    drain_requested_at: worker.drain_requested_at,
+    paused_at: worker.paused_at,
+    slots: { total: worker.max_concurrent_builds, used: worker.active_builds },
+    last_seen_at: worker.last_seen_at,
+  };
+}
+
+export const adminRoutes: FastifyPluginAsync<AdminPluginOptions> = async (
+  fastify,
+  { db, queue, storage, config }
+) => {
+  /**
+   * GET /admin/retention
+   * Dry run: report what the retention sweep would delete, without deleting
+   */
+  fastify.get('/retention', async (request, reply) => {
+    try {
+      const report = await runRetention(db, storage, config.retention, { dryRun: true });
+      return reply.send({ policy: config.retention, ...report });
+    } catch (err) {
+      fastify.log.error('Retention report error:', err);
+      return reply.status(500).send({ error: 'Failed to build retention report' });
+    }
+  });
+
+  /**
+   * POST /admin/retention
+   * Run the retention sweep now instead of waiting for the next interval
+   */
+  fastify.post('/retention', async (request, reply) => {
+    try {
+      const report = await runRetention(db, storage, config.retention);
+      return reply.send({ policy: config.retention, ...report });
+    } catch (err) {
+      fastify.log.error('Retention sweep error:', err);
+      return reply.status(500).send({ error: 'Retention sweep failed' });
+    }
+  });
+
+  /**
+   * POST /admin/certs/rotate
+   * Rewrap stored certs with the current master key (after a key rotation)
+   */
+  fastify.post('/certs/rotate', async (request, reply) => {
+    try {
+      const report = await rotateStoredCerts(db, storage);
+      return reply.send(report);
+    } catch (err) {
+      fastify.log.error('Certs rotation error:', err);
+      return reply.status(500).send({ error: 'Certs key rotation failed' });
+    }
+  });
+
+  /**
+   * GET /admin/workers
+   * List workers with their drain and pause state
+   */
+  fastify.get('/workers', async (request, reply) => {
+    try {
+      const workers = await db.workers.list();
+      return reply.send({ workers: workers.map(workerState) });
+    } catch (err) {
+      fastify.log.error('Worker list error:', err);
+      return reply.status(500).send({ error: 'Failed to list workers' });
+    }
+  });
+
+  /**
+   * POST /admin/workers/:id/drain
+   * Let the worker finish the builds it holds, then assign it no more (its
+   * availability turns 'drained' once the last one finishes)
+   */
+  fastify.post<{ Params: WorkerParams }>('/workers/:id/drain', async (request, reply) => {
+    return setHold(request.params.id, 'drain', true, reply);
+  });
+
+  /**
+   * POST /admin/workers/:id/undrain
+   * Assign the worker builds again
+   */
+  fastify.post<{ Params: WorkerParams }>('/workers/:id/undrain', async (request, reply) => {
+    return setHold(request.params.id, 'drain', false, reply);
+  });
+
+  /**
+   * POST /admin/workers/:id/pause
+   * Assign the worker no new builds until resumed; its builds carry on
+   */
+  fastify.post<{ Params: WorkerParams }>('/workers/:id/pause', async (request, reply) => {
+    return setHold(request.params.id, 'pause', true, reply);
+  });
+
+  /**
+   * POST /admin/workers/:id/resume
+   * Assign the worker builds again
+   */
+  fastify.post<{ Params: WorkerParams }>('/workers/:id/resume', async (request, reply) => {
+    return setHold(request.params.id, 'pause', false, reply);
+  });
+
+  /**
+   * Set or clear a worker's drain or pause; setting it again keeps the
+   * original time
+   */
+  async function setHold(workerId: string, hold: 'drain' | 'pause', held: boolean, reply: FastifyReply) {
+    try {
+      const worker = await db.workers.get(workerId);
+
+      if (!worker) {
+        return reply.status(404).send({ error: 'Worker not found' });
+      }
+
+      const column = hold === 'drain' ? 'drain_requested_at' : 'paused_at';
+      const since = held ? worker[column] ?? Date.now() : null;
+
+      if (hold === 'drain') {
+        await db.workers.setDraining(workerId, since);
+      } else {
+        await db.workers.setPaused(workerId, since);
+      }
+
+      if (since !== worker[column]) {
+        const change = hold === 'drain' ? (held ? 'draining' : 'undrained') : (held ? 'paused' : 'resumed');
+        console.log(`[Maintenance] Worker ${worker.name} (${workerId}) ${change}`);
+      }
+      return reply.send(workerState({ ...worker, [column]: since }));
+    } catch (err) {
+      fastify.log.error('Worker hold error:', err);
+      return reply.status(500).send({ error: 'Failed to update worker' });
+    }
+  }
+
+  /**
+   * GET /admin/queue
+   * Whether the queue is paused for maintenance, with its counts
+   */
+  fastify.get('/queue', async (request, reply) => {
+    try {
+      const pause = await getQueuePause(db);
+      return reply.send({
+        paused: pause !== null,
+        paused_at: pause?.pausedAt ?? null,
+        reason: pause?.reason ?? null,
+        ...queue.getStats(),
+      });
+    } catch (err) {
+      fastify.log.error('Queue state error:', err);
+      return reply.status(500).send({ error: 'Failed to fetch queue state' });
+    }
+  });
+
+  /**
+   * POST /admin/queue/pause
+   * Stop assigning builds to every worker for controller maintenance; builds
+   * still queue and running builds finish. Optional body: { reason }
+   */
+  fastify.post<{ Body: QueuePauseBody | undefined }>('/queue/pause', async (request, reply) => {
+    const reason = request.body?.reason ?? null;
+    if (reason !== null && (typeof reason !== 'string' || reason.length > MAX_REASON_LENGTH)) {
+      return reply.status(400).send({ error: `reason must be a string of at most ${MAX_REASON_LENGTH} characters` });
+    }
+
+    try {
+      const pause = await pauseQueue(db, reason?.trim() || null);
+      console.log(`[Maintenance] Queue paused${pause.reason ? `: ${pause.reason}` : ''}`);
+      return reply.send({ paused: true, paused_at: pause.pausedAt, reason: pause.reason });
+    } catch (err) {
+      fastify.log.error('Queue pause error:', err);
+      return reply.status(500).send({ error: 'Failed to pause queue' });
+    }
+  });
+
+  /**
+   * POST /admin/queue/resume
+   * Resume assigning builds
+   */
+  fastify.post('/queue/resume', async (request, reply) => {
+    try {
+      if (await resumeQueue(db)) {
+        console.log('[Maintenance] Queue resumed');
+      }
+      return reply.send({ paused: false, paused_at: null, reason: null });
+    } catch (err) {
+      fastify.log.error('Queue resume error:', err);
+      return reply.status(500).send({ error: 'Failed to resume queue' });
+    }
+  });
+};
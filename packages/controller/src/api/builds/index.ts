@@ -1,12 +1,32 @@
 import { FastifyPluginAsync, FastifyRequest, FastifyReply } from 'fastify';
 import { nanoid } from 'nanoid';
 import crypto from 'crypto';
-import type { DatabaseService } from '../../db/Database.js';
+import type { ServerResponse } from 'http';
+import { BUILD_PRIORITIES, type Build, type BuildPriority, type DatabaseService } from '../../db/Database.js';
 import type { JobQueue } from '../../services/JobQueue.js';
 import type { FileStorage } from '../../services/FileStorage.js';
-import { unzipCerts } from '../../services/FileStorage.js';
+import { unzipCerts, FileTooLargeError, type StoredFile } from '../../services/FileStorage.js';
 import type { ControllerConfig } from '../../domain/Config.js';
+import { claimUpload, UploadClaimError } from '../../services/UploadSessions.js';
+import { storeBlob, acquireBlob, shareArtifact, releaseArtifact, SHA256_PATTERN } from '../../services/Blobs.js';
+import { parsePlatforms, submitBuilds } from '../../services/Submissions.js';
+import { estimateBuild } from '../../services/Estimates.js';
+import { buildCacheKey } from '../../services/BuildCache.js';
+import { groupStatus } from '../../services/BuildGroups.js';
+import { deleteFinishedBuildCerts } from '../../services/Retention.js';
+import { leaseExpiry } from '../../services/Leases.js';
+import { explainWaiting, getPastQueuePauses, getQueuePause } from '../../services/Maintenance.js';
+import { parseRequirements, parseRequirementFields, REQUIREMENT_FIELDS } from '../../services/Capabilities.js';
+import { buildLimits, parseTimeoutFields, stopReason, timeoutDeadline, TIMEOUT_FIELDS } from '../../services/Timeouts.js';
+import {
+  EVENTS_KEEPALIVE_MS,
+  EVENTS_POLL_INTERVAL_MS,
+  progressMessage,
+  readBuildEvents,
+  type BuildEventCursor,
+} from '../../services/BuildEvents.js';
 import { requireWorkerAccess, requireBuildAccess } from '../../middleware/auth.js';
+import { sendStoredFile } from '../sendFile.js';
 
 interface BuildsPluginOptions {
   db: DatabaseService;
@@ -15,6 +35,8 @@ interface BuildsPluginOptions {
   config: ControllerConfig;
 }
 
+const MAX_SUBMITTER_LENGTH = 100;
+
 interface BuildParams {
   id: string;
 }
@@ -31,9 +53,50 @@ export const buildsRoutes: FastifyPluginAsync<BuildsPluginOptions> = async (
   fastify,
   { db, queue, storage, config }
 ) => {
+  /**
+   * Why a pending build cannot be assigned yet, if no worker will take it
+   */
+  const explainPending = async (build: Build) =>
+    explainWaiting(build, await db.workers.list(), await getQueuePause(db));
+
+  // Event streams still open; ended when the server shuts down
+  const openStreams = new Set<ServerResponse>();
+  fastify.addHook('preClose', (done) => {
+    for (const stream of openStreams) {
+      stream.end();
+    }
+    openStreams.clear();
+    done();
+  });
+
   /**
    * POST /builds/submit
    * Submit new build job
+   *
+   * Files may be sent inline (source, certs), as IDs of finalized resumable
+   * uploads (source_upload_id, certs_upload_id), or as SHA-256 digests of
+   * blobs the controller already stores (source_sha256, certs_sha256). Unknown
+   * digests are rejected with 404 and a `missing` list, so the client can
+   * upload just those and resubmit.
+   *
+   * Optional fields: priority (urgent|normal|background, default normal) and
+   * submitter, which the queue shares workers fairly between; and the
+   * requirements min_xcode_version, min_memory_gb and expo_sdk, which only
+   * matching workers are assigned. If no online worker matches (or every
+   * match is draining or paused, or the queue is paused), the build still
+   * queues and the response explains why in waiting_reason.
+   *
+   * platform may list both platforms (`ios,android`) to create a build group:
+   * one build per platform from the single upload, sharing an access token.
+   * The response then carries the group ID and a builds list instead of the
+   * single build's queue position.
+   *
+   * max_queue_wait_seconds and max_duration_seconds tighten the controller's
+   * timeouts for these builds (see TimeoutPolicy); a build past either fails.
+   *
+   * With the build cache enabled, a build whose inputs match a completed
+   * build is returned completed, with that build's result (cached_from);
+   * no_cache=true forces a rebuild.
    */
   fastify.post('/submit', async (request, reply) => {
     try {
@@ -42,98 +105,222 @@ export const buildsRoutes: FastifyPluginAsync<BuildsPluginOptions> = async (
       }
 
       const parts = request.parts();
-      let sourceBuffer: Buffer | null = null;
-      let certsBuffer: Buffer | null = null;
+      let source: StoredFile | null = null;
+      let certs: StoredFile | null = null;
+      let sourceUploadId: string | null = null;
+      let certsUploadId: string | null = null;
+      let sourceSha256: string | null = null;
+      let certsSha256: string | null = null;
       let platform: string | null = null;
+      let priority = 'normal';
+      let submitter: string | null = null;
+      let noCache = false;
+      const requirementFields: Record<string, string> = {};
+      const timeoutFields: Record<string, string> = {};
 
-      for await (const part of parts) {
-        if (part.type === 'file') {
-          if (part.fieldname === 'source') {
-            const chunks: Buffer[] = [];
-            for await (const chunk of part.file) {
-              chunks.push(chunk);
-            }
-            sourceBuffer = Buffer.concat(chunks);
-
-            if (sourceBuffer.length > config.maxSourceFileSize) {
-              return reply.status(413).send({ error: 'Source file too large' });
-            }
-          } else if (part.fieldname === 'certs') {
-            const chunks: Buffer[] = [];
-            for await (const chunk of part.file) {
-              chunks.push(chunk);
+      try {
+        // Files are streamed straight to temp files in storage; nothing is
+        // buffered in memory and size limits apply as bytes arrive
+        for await (const part of parts) {
+          if (part.type === 'file') {
+            if (part.fieldname === 'source') {
+              try {
+                source = await storage.stageUpload(part.file, config.maxSourceFileSize);
+              } catch (err) {
+                if (err instanceof FileTooLargeError) {
+                  // Drop the connection instead of reading the rest of the oversized body
+                  return reply.status(413).header('Connection', 'close').send({ error: 'Source file too large' });
+                }
+                throw err;
+              }
+            } else if (part.fieldname === 'certs') {
+              try {
+                certs = await storage.stageUpload(part.file, config.maxCertsFileSize);
+              } catch (err) {
+                if (err instanceof FileTooLargeError) {
+                  // Drop the connection instead of reading the rest of the oversized body
+                  return reply.status(413).header('Connection', 'close').send({ error: 'Certs file too large' });
+                }
+                throw err;
+              }
+            } else {
+              // Unknown file fields must still be consumed or the parser stalls
+              part.file.resume();
             }
-            certsBuffer = Buffer.concat(chunks);
-
-            if (certsBuffer.length > config.maxCertsFileSize) {
-              return reply.status(413).send({ error: 'Certs file too large' });
+          } else {
+            if (part.fieldname === 'platform') {
+              platform = part.value as string;
+            } else if (part.fieldname === 'source_upload_id') {
+              sourceUploadId = part.value as string;
+            } else if (part.fieldname === 'certs_upload_id') {
+              certsUploadId = part.value as string;
+            } else if (part.fieldname === 'source_sha256') {
+              sourceSha256 = part.value as string;
+            } else if (part.fieldname === 'certs_sha256') {
+              certsSha256 = part.value as string;
+            } else if (part.fieldname === 'priority') {
+              priority = part.value as string;
+            } else if (part.fieldname === 'submitter') {
+              submitter = (part.value as string).trim() || null;
+            } else if (part.fieldname === 'no_cache') {
+              noCache = part.value === 'true';
+            } else if (REQUIREMENT_FIELDS.includes(part.fieldname)) {
+              requirementFields[part.fieldname] = (part.value as string).trim();
+            } else if (TIMEOUT_FIELDS.includes(part.fieldname)) {
+              timeoutFields[part.fieldname] = (part.value as string).trim();
             }
           }
-        } else {
-          if (part.fieldname === 'platform') {
-            platform = part.value as string;
+        }
+
+        if (!source && !sourceUploadId && !sourceSha256) {
+          return reply.status(400).send({ error: 'Source file required' });
+        }
+
+        // A comma-separated list builds every platform from the one upload
+        const platforms = parsePlatforms(platform ?? '');
+        if (!platforms) {
+          return reply.status(400).send({ error: 'Valid platform required (ios|android, or both comma-separated)' });
+        }
+
+        if (!(BUILD_PRIORITIES as readonly string[]).includes(priority)) {
+          return reply.status(400).send({ error: `Priority must be one of ${BUILD_PRIORITIES.join(', ')}` });
+        }
+
+        if (submitter !== null && submitter.length > MAX_SUBMITTER_LENGTH) {
+          return reply.status(400).send({ error: `Submitter must be at most ${MAX_SUBMITTER_LENGTH} characters` });
+        }
+
+        const requirements = parseRequirementFields(requirementFields);
+        if (typeof requirements === 'string') {
+          return reply.status(400).send({ error: requirements });
+        }
+
+        const timeouts = parseTimeoutFields(timeoutFields, config.timeouts, platforms);
+        if (typeof timeouts === 'string') {
+          return reply.status(400).send({ error: timeouts });
+        }
+
+        for (const digest of [sourceSha256, certsSha256]) {
+          if (digest !== null && !SHA256_PATTERN.test(digest)) {
+            return reply.status(400).send({ error: 'Digests must be lowercase hex SHA-256' });
           }
         }
-      }
 
-      if (!sourceBuffer) {
-        return reply.status(400).send({ error: 'Source file required' });
-      }
+        // Reference blobs the client identified by digest instead of uploading
+        const sourceBlob = !source && !sourceUploadId && sourceSha256
+          ? await acquireBlob(db, storage, sourceSha256)
+          : null;
+        const certsBlob = !certs && !certsUploadId && certsSha256
+          ? await acquireBlob(db, storage, certsSha256)
+          : null;
+
+        const releaseAcquiredBlobs = async () => {
+          for (const blob of [sourceBlob, certsBlob]) {
+            if (blob) {
+              await releaseArtifact(db, storage, blob.location);
+            }
+          }
+        };
+
+        const missing = [
+          ...(!source && !sourceUploadId && !sourceBlob ? ['source'] : []),
+          ...(!certs && !certsUploadId && certsSha256 && !certsBlob ? ['certs'] : []),
+        ];
+        if (missing.length > 0) {
+          await releaseAcquiredBlobs();
+          return reply.status(404).send({
+            error: `Unknown ${missing.join(' and ')} digest; upload the file instead`,
+            missing,
+          });
+        }
 
-      if (!platform || !['ios', 'android'].includes(platform)) {
-        return reply.status(400).send({ error: 'Valid platform required (ios|android)' });
-      }
+        // Claim resumable uploads only after validation, so a rejected
+        // submission leaves them available for a corrected retry
+        try {
+          if (!source && sourceUploadId) {
+            source = await claimUpload(db, storage, sourceUploadId, 'source');
+          }
+          if (!certs && certsUploadId) {
+            certs = await claimUpload(db, storage, certsUploadId, 'certs');
+          }
+        } catch (err) {
+          await releaseAcquiredBlobs();
+          if (err instanceof UploadClaimError) {
+            return reply.status(err.statusCode).send({ error: err.message });
+          }
+          throw err;
+        }
 
-      const buildId = nanoid();
-      const timestamp = Date.now();
+        const timestamp = Date.now();
 
-      // Save source zip
-      const sourcePath = await storage.saveBuildSource(
-        buildId,
-        require('stream').Readable.from(sourceBuffer)
-      );
-
-      // Save certs if provided
-      let certsPath: string | null = null;
-      if (certsBuffer) {
-        certsPath = await storage.saveBuildCerts(
-          buildId,
-          require('stream').Readable.from(certsBuffer)
-        );
-      }
-
-      // Generate unique access token for this build
-      const accessToken = crypto.randomBytes(32).toString('base64url');
-
-      // Create build record
-      db.createBuild({
-        id: buildId,
-        status: 'pending',
-        platform: platform as 'ios' | 'android',
-        source_path: sourcePath,
-        certs_path: certsPath,
-        submitted_at: timestamp,
-        access_token: accessToken,
-      });
+        // Store uploads content-addressed, sharing identical bytes
+        const storedSource = source
+          ? await storeBlob(db, storage, source)
+          : { path: sourceBlob!.location, size: sourceBlob!.size, sha256: sourceBlob!.sha256 };
+        let storedCerts: StoredFile | null;
+        try {
+          storedCerts = certs
+            ? await storeBlob(db, storage, certs, { certs: true })
+            : certsBlob && { path: certsBlob.location, size: certsBlob.size, sha256: certsBlob.sha256 };
+        } catch (err) {
+          // No build will reference the source, so drop the reference taken for it
+          await releaseArtifact(db, storage, storedSource.path);
+          throw err;
+        }
 
-      // Add to queue
-      const build = db.getBuild(buildId)!;
-      queue.enqueue(build);
+        const { groupId, accessToken, builds } = await submitBuilds(db, queue, {
+          source: storedSource,
+          certs: storedCerts,
+          platforms,
+          priority: priority as BuildPriority,
+          submitter,
+          requirements,
+          timeouts,
+          useCache: config.buildCache && !noCache,
+        }, timestamp);
+
+        // Cache hits finished on submission
+        for (const { build } of builds) {
+          if (build.status === 'completed' && config.retention.deleteCertsOnCompletion) {
+            await deleteFinishedBuildCerts(db, storage, build.id, timestamp);
+          }
+        }
 
-      // Log
-      db.addBuildLog({
-        build_id: buildId,
-        timestamp,
-        level: 'info',
-        message: 'Build submitted',
-      });
+        if (!groupId) {
+          const [{ build, waitingReason }] = builds;
+          return reply.send({
+            id: build.id,
+            status: build.status,
+            submitted_at: timestamp,
+            access_token: accessToken,
+            priority,
+            queue_position: queue.getPosition(build.id) ?? null,
+            waiting_reason: waitingReason,
+            cached_from: build.cached_from,
+          });
+        }
 
-      return reply.send({
-        id: buildId,
-        status: 'pending',
-        submitted_at: timestamp,
-        access_token: accessToken,
-      });
+        return reply.send({
+          id: groupId,
+          group_id: groupId,
+          status: groupStatus(builds.map(({ build }) => build)),
+          submitted_at: timestamp,
+          access_token: accessToken,
+          priority,
+          builds: builds.map(({ build, waitingReason }) => ({
+            id: build.id,
+            platform: build.platform,
+            status: build.status,
+            waiting_reason: waitingReason,
+            queue_position: queue.getPosition(build.id) ?? null,
+            cached_from: build.cached_from,
+          })),
+        });
+      } finally {
+        // No-ops for files that were committed
+        storage.discardStaged(source);
+        storage.discardStaged(certs, { secure: true });
+      }
     } catch (err) {
       fastify.log.error('Build submission error:', err);
       return reply.status(500).send({ error: 'Build submission failed' });
@@ -145,11 +332,13 @@ export const buildsRoutes: FastifyPluginAsync<BuildsPluginOptions> = async (
    * List all builds
    */
   fastify.get('/', async (request, reply) => {
-    const allBuilds = db.getAllBuilds();
+    const allBuilds = await db.builds.list();
 
     const builds = allBuilds.map((b) => ({
       id: b.id,
       status: b.status,
+      platform: b.platform,
+      groupId: b.group_id ?? undefined,
       createdAt: new Date(b.submitted_at).toISOString(),
       completedAt: b.completed_at ? new Date(b.completed_at).toISOString() : undefined,
     }));
@@ -162,9 +351,7 @@ export const buildsRoutes: FastifyPluginAsync<BuildsPluginOptions> = async (
    * List currently running builds
    */
   fastify.get('/active', async (request, reply) => {
-    const activeBuilds = db
-      .getAllBuilds()
-      .filter((b) => b.status === 'assigned' || b.status === 'building');
+    const activeBuilds = await db.builds.listAssigned();
 
     const builds = activeBuilds.map((b) => ({
       id: b.id,
@@ -172,6 +359,7 @@ export const buildsRoutes: FastifyPluginAsync<BuildsPluginOptions> = async (
       platform: b.platform,
       worker_id: b.worker_id,
       started_at: b.started_at,
+      lease_expires_at: b.lease_expires_at,
     }));
 
     return reply.send({ builds });
@@ -188,12 +376,16 @@ export const buildsRoutes: FastifyPluginAsync<BuildsPluginOptions> = async (
       preHandler: requireBuildAccess(config, db),
     },
     async (request, reply) => {
-      const build = db.getBuild(request.params.id);
+      const build = await db.builds.get(request.params.id);
 
       if (!build) {
         return reply.status(404).send({ error: 'Build not found' });
       }
 
+      const attempts = await db.attempts.list(build.id);
+      const estimate = await estimateBuild(db, queue, build.id);
+      const limits = buildLimits(config.timeouts, build);
+
       return reply.send({
         id: build.id,
         status: build.status,
@@ -203,6 +395,48 @@ export const buildsRoutes: FastifyPluginAsync<BuildsPluginOptions> = async (
         started_at: build.started_at,
         completed_at: build.completed_at,
         error_message: build.error_message,
+        priority: build.priority,
+        submitter: build.submitter,
+        group_id: build.group_id,
+        // Set for cache hits: the build whose result this one reused
+        cached_from: build.cached_from,
+        requirements: parseRequirements(build),
+        // Where the build stands in assignment order right now (pending only)
+        queue_position: estimate?.queuePosition ?? null,
+        // Expected from recent build durations and the running builds (null
+        // once finished, or while no online worker can run the build)
+        estimated_start_at: estimate?.startAt ?? null,
+        estimated_completion_at: estimate?.finishAt ?? null,
+        // Set while no worker will take the build, or the queue is paused
+        waiting_reason: build.status === 'pending' ? await explainPending(build) : null,
+        attempt: build.attempt,
+        max_attempts: config.retry.maxAttempts,
+        // Set while a retried build waits out its backoff
+        retry_after: build.status === 'pending' ? build.retry_after : null,
+        // Reclaimed for a retry unless the worker heartbeats before then
+        lease_expires_at: build.lease_expires_at,
+        // Set once cancelled, and once the worker confirms it stopped
+        cancel_requested_at: build.cancel_requested_at,
+        cancel_acknowledged_at: build.cancel_acknowledged_at,
+        // Effective limits (null is unlimited), and when the build times out as it stands
+        timeouts: {
+          max_queue_wait_ms: limits.maxQueueWaitMs,
+          max_duration_ms: limits.maxDurationMs,
+          deadline_at: timeoutDeadline(config.timeouts, build, await getQueuePause(db), await getPastQueuePauses(db)),
+        },
+        attempts: attempts.map((attempt) => ({
+          attempt: attempt.attempt,
+          worker_id: attempt.worker_id,
+          started_at: attempt.started_at,
+          finished_at: attempt.finished_at,
+          outcome: attempt.outcome,
+          failure_type: attempt.failure_type,
+          error_message: attempt.error_message,
+        })),
+        source_sha256: build.source_sha256,
+        result_sha256: build.result_sha256,
+        pinned: build.pinned === 1,
+        result_deleted_at: build.result_deleted_at,
       });
     }
   );
@@ -218,17 +452,18 @@ export const buildsRoutes: FastifyPluginAsync<BuildsPluginOptions> = async (
       preHandler: requireBuildAccess(config, db),
     },
     async (request, reply) => {
-      const build = db.getBuild(request.params.id);
+      const build = await db.builds.get(request.params.id);
 
       if (!build) {
         return reply.status(404).send({ error: 'Build not found' });
       }
 
-      const logs = db.getBuildLogs(request.params.id);
+      const logs = await db.logs.list(request.params.id);
 
       return reply.send({
         build_id: request.params.id,
         logs: logs.map((log) => ({
+          attempt: log.attempt,
           timestamp: log.timestamp,
           level: log.level,
           message: log.message,
@@ -237,6 +472,80 @@ export const buildsRoutes: FastifyPluginAsync<BuildsPluginOptions> = async (
     }
   );
 
+  /**
+   * GET /builds/:id/events
+   * Stream the build's new log lines, status changes and progress as
+   * Server-Sent Events (`log`, `status`, `progress`)
+   * Requires: X-API-Key (admin) OR X-Build-Token (build submitter)
+   *
+   * Each event's ID is the log line it carries (for status events, the last
+   * line before them), so a client reconnecting with Last-Event-ID gets only
+   * the lines it missed. The current status is sent on every connection, and
+   * the stream ends once the build finished.
+   */
+  fastify.get<{ Params: BuildParams }>(
+    '/:id/events',
+    {
+      preHandler: requireBuildAccess(config, db),
+    },
+    async (request, reply) => {
+      const buildId = request.params.id;
+      if (!(await db.builds.get(buildId))) {
+        return reply.status(404).send({ error: 'Build not found' });
+      }
+
+      const lastEventId = Number(request.headers['last-event-id']);
+      let cursor: BuildEventCursor = {
+        lastLogId: Number.isInteger(lastEventId) && lastEventId > 0 ? lastEventId : 0,
+        snapshot: null,
+      };
+
+      // Write the stream ourselves; headers set by hooks (CORS) still apply
+      reply.hijack();
+      const stream = reply.raw;
+      stream.writeHead(200, {
+        ...(reply.getHeaders() as Record<string, string>),
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      });
+      openStreams.add(stream);
+      stream.on('close', () => openStreams.delete(stream));
+
+      try {
+        let lastWriteAt = Date.now();
+        while (openStreams.has(stream)) {
+          const read = await readBuildEvents(db, queue, buildId, cursor);
+          if (!read) {
+            break;
+          }
+          cursor = read.cursor;
+
+          for (const event of read.events) {
+            stream.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+            lastWriteAt = Date.now();
+          }
+
+          const status = cursor.snapshot?.status;
+          if (status === 'completed' || status === 'failed' || status === 'cancelled') {
+            break;
+          }
+
+          if (Date.now() - lastWriteAt >= EVENTS_KEEPALIVE_MS) {
+            stream.write(': keepalive\n\n');
+            lastWriteAt = Date.now();
+          }
+          await new Promise((resolve) => setTimeout(resolve, EVENTS_POLL_INTERVAL_MS));
+        }
+      } catch (err) {
+        fastify.log.error('Build events error:', err);
+      } finally {
+        openStreams.delete(stream);
+        stream.end();
+      }
+    }
+  );
+
   /**
    * POST /builds/:id/logs
    * Stream build logs from worker
@@ -272,7 +581,7 @@ export const buildsRoutes: FastifyPluginAsync<BuildsPluginOptions> = async (
               continue; // Skip invalid levels
             }
 
-            db.addBuildLog({
+            await db.logs.add({
               build_id: buildId,
               timestamp,
               level,
@@ -293,7 +602,7 @@ export const buildsRoutes: FastifyPluginAsync<BuildsPluginOptions> = async (
             });
           }
 
-          db.addBuildLog({
+          await db.logs.add({
             build_id: buildId,
             timestamp,
             level,
@@ -315,7 +624,7 @@ export const buildsRoutes: FastifyPluginAsync<BuildsPluginOptions> = async (
 
   /**
    * GET /builds/:id/download
-   * Download build result
+   * Download build result (supports Range/If-Range for resuming)
    * Requires: X-API-Key (admin) OR X-Build-Token (build submitter)
    */
   fastify.get<{ Params: BuildParams }>(
@@ -324,7 +633,7 @@ export const buildsRoutes: FastifyPluginAsync<BuildsPluginOptions> = async (
       preHandler: requireBuildAccess(config, db),
     },
     async (request, reply) => {
-      const build = db.getBuild(request.params.id);
+      const build = await db.builds.get(request.params.id);
 
       if (!build) {
         return reply.status(404).send({ error: 'Build not found' });
@@ -338,16 +647,21 @@ export const buildsRoutes: FastifyPluginAsync<BuildsPluginOptions> = async (
         return reply.status(404).send({ error: 'Build result not found' });
       }
 
+      if (build.result_deleted_at !== null) {
+        return reply.status(410).send({ error: 'Build result was deleted by the retention policy' });
+      }
+
+      await db.builds.updateAccessed(build.id, Date.now());
+
       const extension = build.platform === 'ios' ? 'ipa' : 'apk';
       const filename = `${build.id}.${extension}`;
 
       try {
-        const stream = storage.createReadStream(build.result_path);
-
-        return reply
-          .header('Content-Disposition', `attachment; filename="${filename}"`)
-          .header('Content-Type', 'application/octet-stream')
-          .send(stream);
+        return await sendStoredFile(request, reply, storage, build.result_path, {
+          filename,
+          contentType: 'application/octet-stream',
+          sha256: build.result_sha256,
+        });
       } catch (err) {
         fastify.log.error('File read error:', err);
         return reply.status(500).send({ error: 'Failed to read build result' });
@@ -369,12 +683,11 @@ export const buildsRoutes: FastifyPluginAsync<BuildsPluginOptions> = async (
       const build = (request as any).build;
 
       try {
-        const stream = storage.createReadStream(build.source_path);
-
-        return reply
-          .header('Content-Disposition', `attachment; filename="${build.id}.zip"`)
-          .header('Content-Type', 'application/zip')
-          .send(stream);
+        return await sendStoredFile(request, reply, storage, build.source_path, {
+          filename: `${build.id}.zip`,
+          contentType: 'application/zip',
+          sha256: build.source_sha256,
+        });
       } catch (err) {
         fastify.log.error('File read error:', err);
         return reply.status(500).send({ error: 'Failed to read source file' });
@@ -384,8 +697,8 @@ export const buildsRoutes: FastifyPluginAsync<BuildsPluginOptions> = async (
 
   /**
    * GET /builds/:id/certs
-   * Download build certs (for workers)
-   * SECURITY: Requires X-Worker-Id header matching assigned worker
+   * Former raw certs download (for workers)
+   * SECURITY: Certs are encrypted at rest and only decrypted by /certs-secure
    */
   fastify.get<{ Params: BuildParams }>(
     '/:id/certs',
@@ -399,17 +712,9 @@ export const buildsRoutes: FastifyPluginAsync<BuildsPluginOptions> = async (
         return reply.status(404).send({ error: 'Certs not found' });
       }
 
-      try {
-        const stream = storage.createReadStream(build.certs_path);
-
-        return reply
-          .header('Content-Disposition', `attachment; filename="${build.id}-certs.zip"`)
-          .header('Content-Type', 'application/zip')
-          .send(stream);
-      } catch (err) {
-        fastify.log.error('File read error:', err);
-        return reply.status(500).send({ error: 'Failed to read certs file' });
-      }
+      return reply.status(410).send({
+        error: 'Raw certs downloads are no longer served. Use /certs-secure.',
+      });
     }
   );
 
@@ -431,12 +736,16 @@ export const buildsRoutes: FastifyPluginAsync<BuildsPluginOptions> = async (
         return reply.status(404).send({ error: 'Certs not found' });
       }
 
+      if (build.certs_deleted_at !== null) {
+        return reply.status(410).send({ error: 'Certs were deleted after the build finished' });
+      }
+
       try {
         // Generate random keychain password (24 bytes = 32 chars base64)
         const keychainPassword = crypto.randomBytes(24).toString('base64');
 
-        // Read and unzip certs
-        const certsBuffer = storage.readBuildCerts(build.certs_path);
+        // Decrypt and unzip certs (in memory only)
+        const certsBuffer = await storage.readBuildCerts(build.certs_path);
         const { p12, password, profiles } = unzipCerts(certsBuffer);
 
         return reply.send({
@@ -454,7 +763,7 @@ export const buildsRoutes: FastifyPluginAsync<BuildsPluginOptions> = async (
 
   /**
    * POST /builds/:id/heartbeat
-   * Worker sends heartbeat during build to prove it's alive
+   * Worker sends heartbeat during build to prove it's alive, renewing its lease
    */
   fastify.post<{
     Params: BuildParams;
@@ -469,7 +778,7 @@ export const buildsRoutes: FastifyPluginAsync<BuildsPluginOptions> = async (
         return reply.status(400).send({ error: 'worker_id required' });
       }
 
-      const build = db.getBuild(request.params.id);
+      const build = await db.builds.get(request.params.id);
       if (!build) {
         return reply.status(404).send({ error: 'Build not found' });
       }
@@ -479,24 +788,32 @@ export const buildsRoutes: FastifyPluginAsync<BuildsPluginOptions> = async (
         return reply.status(403).send({ error: 'Build not assigned to this worker' });
       }
 
-      // Update heartbeat timestamp
       const timestamp = Date.now();
-      db.run('UPDATE builds SET last_heartbeat_at = ? WHERE id = ?', [
-        timestamp,
-        request.params.id,
-      ]);
+
+      // The worker learns of a cancellation (or timeout) from its next heartbeat
+      if (build.cancel_requested_at !== null) {
+        await db.workers.markSeen(worker_id, timestamp);
+        return reply.status(409).send({ error: stopReason(build), cancelled: true });
+      }
+
+      // An expired lease is not renewed: the build is (being) reclaimed
+      const leaseExpiresAt = leaseExpiry(config.leases, build.platform, timestamp);
+      if (!(await db.builds.renewLease(request.params.id, worker_id, timestamp, leaseExpiresAt))) {
+        return reply.status(409).send({ error: 'Lease expired; the build was reclaimed from this worker' });
+      }
+      await db.workers.markSeen(worker_id, timestamp);
 
       // Optionally log progress
       if (progress !== undefined) {
-        db.addBuildLog({
+        await db.logs.add({
           build_id: request.params.id,
           timestamp,
           level: 'info',
-          message: `Build progress: ${progress}%`,
+          message: progressMessage(progress),
         });
       }
 
-      return reply.send({ status: 'ok', timestamp });
+      return reply.send({ status: 'ok', timestamp, lease_expires_at: leaseExpiresAt, cancelled: false });
     } catch (err) {
       fastify.log.error('Heartbeat error:', err);
       return reply.status(500).send({ error: 'Heartbeat failed' });
@@ -521,12 +838,15 @@ export const buildsRoutes: FastifyPluginAsync<BuildsPluginOptions> = async (
       try {
         const { type, timestamp, data } = request.body;
         const buildId = request.params.id;
+        const build = await db.builds.get(buildId);
+        // Tells the VM monitor to stop once the build is cancelled or timed out
+        const cancelled = build !== undefined && build.cancel_requested_at !== null;
 
         // Log telemetry event
         const logLevel = type === 'monitor_started' ? 'info' : 'debug';
         const message = formatTelemetryMessage(type, data);
 
-        db.addBuildLog({
+        await db.logs.add({
           build_id: buildId,
           timestamp: Date.now(),
           level: logLevel,
@@ -541,14 +861,14 @@ export const buildsRoutes: FastifyPluginAsync<BuildsPluginOptions> = async (
           // Validate bounds to prevent data corruption
           if (!Number.isFinite(cpuPercent) || cpuPercent < 0 || cpuPercent > 1000) {
             fastify.log.warn(`Invalid cpu_percent from worker: ${data.cpu_percent}`);
-            return reply.send({ status: 'ok' });
+            return reply.send({ status: 'ok', cancelled });
           }
           if (!Number.isFinite(memoryMb) || memoryMb < 0 || memoryMb > 1_000_000) {
             fastify.log.warn(`Invalid memory_mb from worker: ${data.memory_mb}`);
-            return reply.send({ status: 'ok' });
+            return reply.send({ status: 'ok', cancelled });
           }
 
-          db.addCpuSnapshot({
+          await db.cpuSnapshots.add({
             build_id: buildId,
             timestamp: Date.now(),
             cpu_percent: cpuPercent,
@@ -556,13 +876,14 @@ export const buildsRoutes: FastifyPluginAsync<BuildsPluginOptions> = async (
           });
         }
 
-        // Update last heartbeat
-        db.run('UPDATE builds SET last_heartbeat_at = ? WHERE id = ?', [
-          Date.now(),
-          buildId,
-        ]);
+        // Telemetry counts as a heartbeat, renewing the lease while it is held
+        const now = Date.now();
+        const workerId = request.headers['x-worker-id'] as string;
+        if (build && (await db.builds.renewLease(buildId, workerId, now, leaseExpiry(config.leases, build.platform, now)))) {
+          await db.workers.markSeen(workerId, now);
+        }
 
-        return reply.send({ status: 'ok' });
+        return reply.send({ status: 'ok', cancelled });
       } catch (err) {
         fastify.log.error('Telemetry error:', err);
         return reply.status(500).send({ error: 'Telemetry failed' });
@@ -572,54 +893,134 @@ export const buildsRoutes: FastifyPluginAsync<BuildsPluginOptions> = async (
 
   /**
    * POST /builds/:id/cancel
-   * Cancel a stuck or running build
+   * Cancel a pending or running build
+   *
+   * A running build's worker is told to stop on its next heartbeat, telemetry
+   * or poll, and acknowledges once it has.
    */
   fastify.post<{ Params: BuildParams }>('/:id/cancel', async (request, reply) => {
     try {
-      const build = db.getBuild(request.params.id);
+      const build = await db.builds.get(request.params.id);
 
       if (!build) {
         return reply.status(404).send({ error: 'Build not found' });
       }
 
-      if (build.status === 'completed' || build.status === 'failed') {
+      if (build.status === 'completed' || build.status === 'failed' || build.status === 'cancelled') {
         return reply.status(400).send({ error: 'Build already finished' });
       }
 
       const timestamp = Date.now();
 
-      // Update build status
-      db.updateBuildStatus(request.params.id, 'failed', {
-        error_message: 'Build cancelled by user',
-        completed_at: timestamp,
-      });
+      // Only one of cancel, upload and lease reclaim finishes the build
+      if (!(await db.builds.cancel(build.id, timestamp, 'Build cancelled by user'))) {
+        return reply.status(409).send({ error: 'Build finished before it could be cancelled' });
+      }
+
+      const running = build.status !== 'pending';
+      if (running) {
+        await db.attempts.finish(build.id, build.attempt, { finished_at: timestamp, outcome: 'cancelled' });
+      }
 
-      // If assigned to worker, mark worker as idle
+      // If assigned to worker, free its slot
       if (build.worker_id) {
-        const worker = db.getWorker(build.worker_id);
-        if (worker) {
-          db.updateWorkerStatus(build.worker_id, 'idle', timestamp);
-        }
+        await db.workers.syncSlots(build.worker_id);
       }
 
-      // Remove from queue
-      queue.fail(request.params.id, false);
+      queue.cancel(build.id);
 
-      // Log
-      db.addBuildLog({
-        build_id: request.params.id,
+      await db.logs.add({
+        build_id: build.id,
         timestamp,
         level: 'info',
-        message: 'Build cancelled',
+        message: running ? 'Build cancelled, telling the worker to stop' : 'Build cancelled',
       });
 
-      return reply.send({ status: 'cancelled' });
+      return reply.send({ status: 'cancelled', cancel_requested_at: timestamp, worker_notified: running });
     } catch (err) {
       fastify.log.error('Cancel error:', err);
       return reply.status(500).send({ error: 'Cancel failed' });
     }
   });
 
+  /**
+   * POST /builds/:id/cancel/ack?worker_id=
+   * Worker confirms it stopped a cancelled or timed-out build (idempotent)
+   */
+  fastify.post<{ Params: BuildParams; Querystring: { worker_id?: string } }>(
+    '/:id/cancel/ack',
+    async (request, reply) => {
+      const workerId = request.query.worker_id;
+
+      if (!workerId) {
+        return reply.status(400).send({ error: 'worker_id required' });
+      }
+
+      try {
+        const build = await db.builds.get(request.params.id);
+
+        if (!build) {
+          return reply.status(404).send({ error: 'Build not found' });
+        }
+
+        if (build.worker_id !== workerId) {
+          return reply.status(403).send({ error: 'Build not assigned to this worker' });
+        }
+
+        if (build.cancel_requested_at === null) {
+          return reply.status(409).send({ error: 'Build was not cancelled' });
+        }
+
+        const timestamp = Date.now();
+        await db.workers.markSeen(workerId, timestamp);
+
+        if (await db.builds.acknowledgeCancel(build.id, workerId, timestamp)) {
+          const worker = await db.workers.get(workerId);
+          await db.logs.add({
+            build_id: build.id,
+            timestamp,
+            level: 'info',
+            message: `Worker ${worker?.name ?? workerId} stopped the ${build.status === 'cancelled' ? 'cancelled' : 'timed-out'} build`,
+          });
+          return reply.send({ status: 'acknowledged', acknowledged_at: timestamp });
+        }
+
+        const current = await db.builds.get(build.id);
+        return reply.send({ status: 'acknowledged', acknowledged_at: current?.cancel_acknowledged_at ?? timestamp });
+      } catch (err) {
+        fastify.log.error('Cancel acknowledgement error:', err);
+        return reply.status(500).send({ error: 'Cancel acknowledgement failed' });
+      }
+    }
+  );
+
+  /**
+   * POST /builds/:id/pin
+   * Keep a build's artifacts and logs regardless of retention policy
+   */
+  fastify.post<{ Params: BuildParams }>('/:id/pin', async (request, reply) => {
+    return setPinned(request.params.id, true, reply);
+  });
+
+  /**
+   * DELETE /builds/:id/pin
+   * Return a build to normal retention
+   */
+  fastify.delete<{ Params: BuildParams }>('/:id/pin', async (request, reply) => {
+    return setPinned(request.params.id, false, reply);
+  });
+
+  async function setPinned(buildId: string, pinned: boolean, reply: FastifyReply) {
+    const build = await db.builds.get(buildId);
+
+    if (!build) {
+      return reply.status(404).send({ error: 'Build not found' });
+    }
+
+    await db.builds.setPinned(buildId, pinned);
+    return reply.send({ id: buildId, pinned });
+  }
+
   /**
    * POST /builds/:id/retry
    * Retry a failed or completed build with same source/settings
@@ -632,40 +1033,59 @@ export const buildsRoutes: FastifyPluginAsync<BuildsPluginOptions> = async (
     },
     async (request, reply) => {
       try {
-        const originalBuild = db.getBuild(request.params.id);
+        const originalBuild = await db.builds.get(request.params.id);
 
         if (!originalBuild) {
           return reply.status(404).send({ error: 'Build not found' });
         }
 
         // Check if source still exists
-        if (!originalBuild.source_path || !storage.exists(originalBuild.source_path)) {
+        if (
+          !originalBuild.source_path ||
+          originalBuild.source_deleted_at !== null ||
+          !(await storage.exists(originalBuild.source_path))
+        ) {
           return reply.status(400).send({
             error: 'Original build source no longer available. Please submit a new build.'
           });
         }
 
+        // Retrying without the signing credentials would produce a different build.
+        // By default certs are shredded once a build finishes, so this is the
+        // usual outcome for signed builds unless the controller keeps them.
+        if (originalBuild.certs_path && originalBuild.certs_deleted_at !== null) {
+          return reply.status(400).send({
+            error:
+              'Original build certs no longer available: they are securely deleted once a build finishes. ' +
+              'Please submit a new build, or set RETENTION_DELETE_CERTS=false on the controller to keep certs for retries.'
+          });
+        }
+
         const newBuildId = nanoid();
         const timestamp = Date.now();
         const accessToken = crypto.randomBytes(32).toString('base64url');
 
-        // Copy source to new build
-        const newSourcePath = await storage.copyBuildSource(
-          originalBuild.source_path,
-          newBuildId
-        );
+        // Share the stored source/certs with the new build (no bytes copied);
+        // legacy artifacts without a digest are copied instead
+        const newSourcePath =
+          (await shareArtifact(db, {
+            path: originalBuild.source_path,
+            sha256: originalBuild.source_sha256,
+            size: originalBuild.source_size,
+          })) ?? (await storage.copyBuildSource(originalBuild.source_path, newBuildId));
 
-        // Copy certs if they exist
         let newCertsPath: string | null = null;
-        if (originalBuild.certs_path && storage.exists(originalBuild.certs_path)) {
-          newCertsPath = await storage.copyBuildCerts(
-            originalBuild.certs_path,
-            newBuildId
-          );
+        if (originalBuild.certs_path && await storage.exists(originalBuild.certs_path)) {
+          newCertsPath =
+            (await shareArtifact(db, {
+              path: originalBuild.certs_path,
+              sha256: originalBuild.certs_sha256,
+              size: originalBuild.certs_size,
+            })) ?? (await storage.copyBuildCerts(originalBuild.certs_path, newBuildId));
         }
 
         // Create new build record
-        db.createBuild({
+        await db.builds.create({
           id: newBuildId,
           status: 'pending',
           platform: originalBuild.platform,
@@ -673,21 +1093,40 @@ export const buildsRoutes: FastifyPluginAsync<BuildsPluginOptions> = async (
           certs_path: newCertsPath,
           submitted_at: timestamp,
           access_token: accessToken,
+          // Same bytes, so the digests carry over
+          source_sha256: originalBuild.source_sha256,
+          certs_sha256: newCertsPath ? originalBuild.certs_sha256 : null,
+          source_size: originalBuild.source_size,
+          certs_size: newCertsPath ? originalBuild.certs_size : null,
+          priority: originalBuild.priority,
+          submitter: originalBuild.submitter,
+          requirements: originalBuild.requirements,
+          group_id: null, // Retries stand alone, outside the original's group
+          // Retries always rebuild, but their results serve later cache hits
+          cache_key: buildCacheKey({
+            platform: originalBuild.platform,
+            source_sha256: originalBuild.source_sha256,
+            certs_sha256: newCertsPath ? originalBuild.certs_sha256 : null,
+            requirements: originalBuild.requirements,
+          }),
+          cached_from: null,
+          max_queue_wait_ms: originalBuild.max_queue_wait_ms,
+          max_duration_ms: originalBuild.max_duration_ms,
         });
 
         // Add to queue
-        const newBuild = db.getBuild(newBuildId)!;
+        const newBuild = (await db.builds.get(newBuildId))!;
         queue.enqueue(newBuild);
 
         // Log both builds
-        db.addBuildLog({
+        await db.logs.add({
           build_id: newBuildId,
           timestamp,
           level: 'info',
           message: `Build submitted (retry of ${request.params.id})`,
         });
 
-        db.addBuildLog({
+        await db.logs.add({
           build_id: request.params.id,
           timestamp,
           level: 'info',
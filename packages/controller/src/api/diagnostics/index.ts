@@ -50,7 +50,7 @@ export const diagnosticsRoutes: FastifyPluginAsync<DiagnosticsPluginOptions> = a
       }
 
       // Validate worker exists
-      const worker = db.getWorker(worker_id);
+      const worker = await db.workers.get(worker_id);
       if (!worker) {
         return reply.status(404).send({ error: 'Worker not found' });
       }
@@ -61,7 +61,7 @@ export const diagnosticsRoutes: FastifyPluginAsync<DiagnosticsPluginOptions> = a
       }
 
       // Save report
-      const id = db.saveDiagnosticReport({
+      const id = await db.diagnostics.save({
         worker_id,
         status,
         run_at: Date.now(),
@@ -89,12 +89,12 @@ export const diagnosticsRoutes: FastifyPluginAsync<DiagnosticsPluginOptions> = a
         const limit = parseInt(request.query.limit || '10');
 
         // Validate worker exists
-        const worker = db.getWorker(worker_id);
+        const worker = await db.workers.get(worker_id);
         if (!worker) {
           return reply.status(404).send({ error: 'Worker not found' });
         }
 
-        const reports = db.getDiagnosticReports(worker_id, limit);
+        const reports = await db.diagnostics.list(worker_id, limit);
 
         // Parse checks JSON
         const parsedReports = reports.map((report) => ({
@@ -120,12 +120,12 @@ export const diagnosticsRoutes: FastifyPluginAsync<DiagnosticsPluginOptions> = a
       const { worker_id } = request.params;
 
       // Validate worker exists
-      const worker = db.getWorker(worker_id);
+      const worker = await db.workers.get(worker_id);
       if (!worker) {
         return reply.status(404).send({ error: 'Worker not found' });
       }
 
-      const report = db.getLatestDiagnostic(worker_id);
+      const report = await db.diagnostics.getLatest(worker_id);
 
       if (!report) {
         return reply.status(404).send({ error: 'No diagnostic reports found' });
@@ -0,0 +1,66 @@
+import { FastifyPluginAsync } from 'fastify';
+import type { DatabaseService } from '../../db/Database.js';
+import type { JobQueue } from '../../services/JobQueue.js';
+import type { ControllerConfig } from '../../domain/Config.js';
+import { groupStatus } from '../../services/BuildGroups.js';
+import { requireGroupAccess } from '../../middleware/auth.js';
+
+interface GroupsPluginOptions {
+  db: DatabaseService;
+  queue: JobQueue;
+  config: ControllerConfig;
+}
+
+interface GroupParams {
+  id: string;
+}
+
+/**
+ * Build group routes
+ *
+ * A group is one multi-platform submission; its builds are ordinary builds
+ * (status, logs and download work per build with the group's token).
+ */
+export const groupsRoutes: FastifyPluginAsync<GroupsPluginOptions> = async (
+  fastify,
+  { db, queue, config }
+) => {
+  /**
+   * GET /groups/:id/status
+   * Get the group's aggregate status and each of its builds
+   * Requires: X-API-Key (admin) OR X-Build-Token (group submitter)
+   */
+  fastify.get<{ Params: GroupParams }>(
+    '/:id/status',
+    {
+      preHandler: requireGroupAccess(config, db),
+    },
+    async (request, reply) => {
+      const group = await db.groups.get(request.params.id);
+
+      if (!group) {
+        return reply.status(404).send({ error: 'Build group not found' });
+      }
+
+      const builds = await db.builds.listByGroup(group.id);
+
+      return reply.send({
+        id: group.id,
+        status: groupStatus(builds),
+        submitted_at: group.submitted_at,
+        submitter: group.submitter,
+        builds: builds.map((build) => ({
+          id: build.id,
+          platform: build.platform,
+          status: build.status,
+          worker_id: build.worker_id,
+          started_at: build.started_at,
+          completed_at: build.completed_at,
+          error_message: build.error_message,
+          result_sha256: build.result_sha256,
+          queue_position: queue.getPosition(build.id) ?? null,
+        })),
+      });
+    }
+  );
+};
@@ -6,8 +6,12 @@ import type { FileStorage } from '../services/FileStorage.js';
 import type { ControllerConfig } from '../domain/Config.js';
 import { requireApiKey } from '../middleware/auth.js';
 import { buildsRoutes } from './builds/index.js';
+import { groupsRoutes } from './groups/index.js';
 import { workersRoutes } from './workers/index.js';
 import { diagnosticsRoutes } from './diagnostics/index.js';
+import { uploadsRoutes } from './uploads/index.js';
+import { adminRoutes } from './admin/index.js';
+import { schedulesRoutes } from './schedules/index.js';
 import { statsRoutes } from './stats/index.js';
 
 export interface ApiPluginOptions {
@@ -29,24 +33,59 @@ export interface ApiPluginOptions {
  *     GET    /active          - List active builds
  *     GET    /:id/status      - Get build status
  *     GET    /:id/logs        - Get build logs
+ *     GET    /:id/events      - Stream logs, status and progress (SSE)
  *     GET    /:id/download    - Download result
  *     GET    /:id/source      - Download source (workers only)
  *     GET    /:id/certs       - Download certs (workers only)
  *     GET    /:id/certs-secure - Get certs JSON for VM bootstrap (workers only, requires X-Build-Id)
  *     POST   /:id/heartbeat   - Send heartbeat
- *     POST   /:id/cancel      - Cancel build
+ *     POST   /:id/cancel      - Cancel build (the worker is told to stop)
+ *     POST   /:id/cancel/ack  - Worker confirms it stopped a cancelled or timed-out build
+ *     POST   /:id/retry       - Retry build with same source
+ *     POST   /:id/pin         - Exempt build from retention
+ *     DELETE /:id/pin         - Return build to normal retention
+ *
+ *   /groups
+ *     GET    /:id/status      - Get build group status
  *
  *   /workers
  *     POST   /register        - Register worker
  *     GET    /poll            - Poll for jobs
  *     POST   /upload          - Upload result
  *     GET    /:id/stats       - Get worker stats
+ *     GET    /:id/uptime      - Get worker uptime history
+ *
+ *   /uploads
+ *     POST   /                - Create resumable upload session
+ *     GET    /:id             - Get committed offset
+ *     PUT    /:id?offset=N    - Upload chunk
+ *     POST   /:id/finalize    - Verify and complete upload
+ *     DELETE /:id             - Abandon upload
  *
  *   /diagnostics
  *     POST   /report          - Submit diagnostic report
  *     GET    /:worker_id      - Get worker diagnostics
  *     GET    /:worker_id/latest - Get latest diagnostic
  *
+ *   /schedules
+ *     POST   /                - Create schedule
+ *     GET    /                - List schedules
+ *     GET    /:id             - Get schedule and run history
+ *     DELETE /:id             - Delete schedule
+ *
+ *   /admin
+ *     GET    /retention       - Dry-run retention report
+ *     POST   /retention       - Run retention sweep now
+ *     POST   /certs/rotate    - Rewrap stored certs with the current key
+ *     GET    /workers         - List workers with drain/pause state
+ *     POST   /workers/:id/drain   - Finish current builds, then take no more
+ *     POST   /workers/:id/undrain - Take builds again
+ *     POST   /workers/:id/pause   - Take no new builds until resumed
+ *     POST   /workers/:id/resume  - Take builds again
+ *     GET    /queue           - Queue pause state and counts
+ *     POST   /queue/pause     - Pause all assignment for maintenance
+ *     POST   /queue/resume    - Resume assignment
+ *
  *   /stats
  *     GET    /                - Get network stats (public, no auth)
  */
@@ -79,6 +118,13 @@ export const registerApiRoutes: FastifyPluginAsync<ApiPluginOptions> = async (
     config,
   });
 
+  await fastify.register(groupsRoutes, {
+    prefix: '/groups',
+    db,
+    queue,
+    config,
+  });
+
   await fastify.register(workersRoutes, {
     prefix: '/workers',
     db,
@@ -87,9 +133,31 @@ export const registerApiRoutes: FastifyPluginAsync<ApiPluginOptions> = async (
     config,
   });
 
+  await fastify.register(uploadsRoutes, {
+    prefix: '/uploads',
+    db,
+    storage,
+    config,
+  });
+
   await fastify.register(diagnosticsRoutes, {
     prefix: '/diagnostics',
     db,
     config,
   });
+
+  await fastify.register(schedulesRoutes, {
+    prefix: '/schedules',
+    db,
+    storage,
+    config,
+  });
+
+  await fastify.register(adminRoutes, {
+    prefix: '/admin',
+    db,
+    queue,
+    storage,
+    config,
+  });
 };
@@ -0,0 +1,252 @@
+import { FastifyPluginAsync } from 'fastify';
+import { nanoid } from 'nanoid';
+import { BUILD_PRIORITIES, type BuildPriority, type DatabaseService, type Schedule } from '../../db/Database.js';
+import type { FileStorage } from '../../services/FileStorage.js';
+import type { ControllerConfig } from '../../domain/Config.js';
+import { acquireBlob, releaseArtifact, SHA256_PATTERN } from '../../services/Blobs.js';
+import { parseRequirements, parseRequirementFields, REQUIREMENT_FIELDS } from '../../services/Capabilities.js';
+import { CronError, nextCronRun, parseCron } from '../../services/Cron.js';
+import { parsePlatforms } from '../../services/Submissions.js';
+import { deleteSchedule, GIT_REF_PATTERN } from '../../services/Schedules.js';
+
+interface SchedulesPluginOptions {
+  db: DatabaseService;
+  storage: FileStorage;
+  config: ControllerConfig;
+}
+
+interface ScheduleParams {
+  id: string;
+}
+
+interface CreateScheduleBody {
+  name?: string;
+  cron?: string;
+  platform?: string;
+  source_build_id?: string;
+  source_sha256?: string;
+  certs_sha256?: string;
+  git_url?: string;
+  git_ref?: string;
+  priority?: string;
+  submitter?: string;
+  catch_up?: boolean;
+  min_xcode_version?: string | number;
+  min_memory_gb?: string | number;
+  expo_sdk?: string | number;
+}
+
+const MAX_NAME_LENGTH = 100;
+const GIT_URL_PATTERN = /^(https:\/\/|ssh:\/\/|git@)/;
+
+/**
+ * Schedule routes
+ *
+ * Schedules submit builds on a cron expression (UTC). The source is either
+ * stored (a previous build's, or a blob by digest) or a git branch or tag
+ * cloned at each run; the controller runs due schedules every 30 seconds.
+ */
+export const schedulesRoutes: FastifyPluginAsync<SchedulesPluginOptions> = async (
+  fastify,
+  { db, storage }
+) => {
+  /**
+   * POST /schedules
+   * Create a schedule
+   *
+   * JSON body: name, cron and platform (ios, android or both
+   * comma-separated, default ios); the source as source_build_id (reuses
+   * that build's source and certs), source_sha256 (+ certs_sha256) of stored
+   * blobs, or git_url + git_ref; optional priority, submitter, requirements
+   * (as for /builds/submit) and catch_up (default true: after downtime, run
+   * once for the runs that were missed).
+   */
+  fastify.post<{ Body: CreateScheduleBody }>('/', async (request, reply) => {
+    const body = request.body ?? {};
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      return reply.status(400).send({ error: `Name required (at most ${MAX_NAME_LENGTH} characters)` });
+    }
+
+    if (typeof body.cron !== 'string') {
+      return reply.status(400).send({ error: 'Cron expression required' });
+    }
+
+    const now = Date.now();
+    let nextRunAt: number | null;
+    try {
+      nextRunAt = nextCronRun(parseCron(body.cron), now);
+    } catch (err) {
+      if (err instanceof CronError) {
+        return reply.status(400).send({ error: err.message });
+      }
+      throw err;
+    }
+    if (nextRunAt === null) {
+      return reply.status(400).send({ error: 'Cron expression never matches' });
+    }
+
+    const platforms = parsePlatforms(body.platform ?? 'ios');
+    if (!platforms) {
+      return reply.status(400).send({ error: 'Valid platform required (ios|android, or both comma-separated)' });
+    }
+
+    const priority = body.priority ?? 'normal';
+    if (!(BUILD_PRIORITIES as readonly string[]).includes(priority)) {
+      return reply.status(400).send({ error: `Priority must be one of ${BUILD_PRIORITIES.join(', ')}` });
+    }
+
+    const requirementFields: Record<string, string> = {};
+    for (const field of REQUIREMENT_FIELDS) {
+      const value = body[field as keyof CreateScheduleBody];
+      if (value !== undefined && value !== null) {
+        requirementFields[field] = String(value).trim();
+      }
+    }
+    const requirements = parseRequirementFields(requirementFields);
+    if (typeof requirements === 'string') {
+      return reply.status(400).send({ error: requirements });
+    }
+
+    const sources = [body.source_build_id, body.source_sha256, body.git_url].filter((value) => value !== undefined);
+    if (sources.length !== 1) {
+      return reply.status(400).send({ error: 'Exactly one of source_build_id, source_sha256 or git_url required' });
+    }
+
+    if (body.git_url !== undefined) {
+      if (typeof body.git_url !== 'string' || !GIT_URL_PATTERN.test(body.git_url)) {
+        return reply.status(400).send({ error: 'git_url must be an https://, ssh:// or git@ URL' });
+      }
+      if (typeof body.git_ref !== 'string' || !GIT_REF_PATTERN.test(body.git_ref)) {
+        return reply.status(400).send({ error: 'git_ref must be a branch or tag name' });
+      }
+    }
+
+    // The schedule holds its own references to stored files
+    let sourceSha256: string | null = null;
+    let certsSha256: string | null = null;
+
+    if (body.source_build_id !== undefined) {
+      const build = await db.builds.get(body.source_build_id);
+      if (!build) {
+        return reply.status(404).send({ error: 'Build not found' });
+      }
+      if (build.source_deleted_at !== null || !build.source_sha256) {
+        return reply.status(409).send({ error: 'Source of that build is no longer stored' });
+      }
+      sourceSha256 = build.source_sha256;
+      if (build.certs_path && build.certs_deleted_at === null) {
+        certsSha256 = build.certs_sha256;
+      }
+    } else if (body.source_sha256 !== undefined) {
+      for (const digest of [body.source_sha256, body.certs_sha256 ?? null]) {
+        if (digest !== null && (typeof digest !== 'string' || !SHA256_PATTERN.test(digest))) {
+          return reply.status(400).send({ error: 'Digests must be lowercase hex SHA-256' });
+        }
+      }
+      sourceSha256 = body.source_sha256;
+      certsSha256 = body.certs_sha256 ?? null;
+    }
+
+    const acquired: Array<{ location: string; secure: boolean }> = [];
+    for (const [sha256, secure] of [[sourceSha256, false], [certsSha256, true]] as const) {
+      if (!sha256) {
+        continue;
+      }
+      const blob = await acquireBlob(db, storage, sha256);
+      if (!blob) {
+        for (const { location, secure } of acquired) {
+          await releaseArtifact(db, storage, location, { secure });
+        }
+        return reply.status(404).send({ error: `Unknown ${secure ? 'certs' : 'source'} digest ${sha256}` });
+      }
+      acquired.push({ location: blob.location, secure });
+    }
+
+    const schedule: Omit<Schedule, 'last_run_at'> = {
+      id: nanoid(),
+      name,
+      cron: body.cron.trim(),
+      platforms: platforms.join(','),
+      source_sha256: sourceSha256,
+      certs_sha256: certsSha256,
+      git_url: body.git_url ?? null,
+      git_ref: body.git_url !== undefined ? body.git_ref! : null,
+      priority: priority as BuildPriority,
+      submitter: body.submitter?.trim() || null,
+      requirements: Object.keys(requirements).length > 0 ? JSON.stringify(requirements) : null,
+      catch_up: body.catch_up === false ? 0 : 1,
+      created_at: now,
+      next_run_at: nextRunAt,
+    };
+    await db.schedules.create(schedule);
+
+    return reply.status(201).send(formatSchedule({ ...schedule, last_run_at: null }));
+  });
+
+  /**
+   * GET /schedules
+   * List schedules
+   */
+  fastify.get('/', async (_request, reply) => {
+    const schedules = await db.schedules.list();
+    return reply.send({ schedules: schedules.map(formatSchedule) });
+  });
+
+  /**
+   * GET /schedules/:id
+   * Get a schedule and its most recent runs (newest first)
+   */
+  fastify.get<{ Params: ScheduleParams }>('/:id', async (request, reply) => {
+    const schedule = await db.schedules.get(request.params.id);
+    if (!schedule) {
+      return reply.status(404).send({ error: 'Schedule not found' });
+    }
+
+    const runs = await db.schedules.listRuns(schedule.id);
+    return reply.send({
+      ...formatSchedule(schedule),
+      runs: runs.map((run) => ({
+        scheduled_for: run.scheduled_for,
+        recorded_at: run.recorded_at,
+        outcome: run.outcome,
+        build_id: run.build_id,
+        error_message: run.error_message,
+      })),
+    });
+  });
+
+  /**
+   * DELETE /schedules/:id
+   * Delete a schedule (builds it submitted are kept)
+   */
+  fastify.delete<{ Params: ScheduleParams }>('/:id', async (request, reply) => {
+    const schedule = await db.schedules.get(request.params.id);
+    if (!schedule) {
+      return reply.status(404).send({ error: 'Schedule not found' });
+    }
+
+    await deleteSchedule(db, storage, schedule);
+    return reply.send({ success: true });
+  });
+};
+
+function formatSchedule(schedule: Schedule) {
+  return {
+    id: schedule.id,
+    name: schedule.name,
+    cron: schedule.cron,
+    platforms: schedule.platforms.split(','),
+    source_sha256: schedule.source_sha256,
+    certs_sha256: schedule.certs_sha256,
+    git_url: schedule.git_url,
+    git_ref: schedule.git_ref,
+    priority: schedule.priority,
+    submitter: schedule.submitter,
+    requirements: parseRequirements(schedule),
+    catch_up: schedule.catch_up === 1,
+    created_at: schedule.created_at,
+    next_run_at: schedule.next_run_at,
+    last_run_at: schedule.last_run_at,
+  };
+}
@@ -0,0 +1,138 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import type { FileStorage, FileStats, ByteRange } from '../services/FileStorage.js';
+
+export interface SendFileOptions {
+  filename: string;
+  contentType: string;
+  /** Hex SHA-256 of the whole file, sent as a Digest header when known */
+  sha256?: string | null;
+}
+
+/**
+ * Strong validator for a stored file
+ * Stored files are written once (temp file + rename) and never modified in
+ * place, so size + mtime identifies their content
+ */
+export function fileETag(stats: FileStats): string {
+  return `"${stats.size.toString(16)}-${Math.floor(stats.mtimeMs).toString(16)}"`;
+}
+
+/**
+ * Digest header value (RFC 3230) for a hex SHA-256
+ */
+export function digestHeader(sha256: string): string {
+  return `sha-256=${Buffer.from(sha256, 'hex').toString('base64')}`;
+}
+
+/**
+ * Parse a Range header against a file size (RFC 9110 §14.2)
+ * @returns The requested range, 'unsatisfiable' when no byte of the range
+ *          exists, or null when the header should be ignored (malformed or
+ *          multiple ranges, which are served as a full response)
+ */
+export function parseRange(header: string, size: number): ByteRange | 'unsatisfiable' | null {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (match[1] === '' && match[2] === '')) {
+    return null;
+  }
+
+  // Suffix range: last N bytes
+  if (match[1] === '') {
+    const suffix = parseInt(match[2], 10);
+    if (suffix === 0 || size === 0) {
+      return 'unsatisfiable';
+    }
+    return { start: Math.max(size - suffix, 0), end: size - 1 };
+  }
+
+  const start = parseInt(match[1], 10);
+  const end = match[2] === '' ? size - 1 : Math.min(parseInt(match[2], 10), size - 1);
+
+  if (match[2] !== '' && parseInt(match[2], 10) < start) {
+    return null;
+  }
+
+  if (start >= size) {
+    return 'unsatisfiable';
+  }
+
+  return { start, end };
+}
+
+/**
+ * If-Range passes when it names the current representation, by ETag or by
+ * Last-Modified date; otherwise the full file must be sent
+ */
+function ifRangeMatches(ifRange: string, etag: string, stats: FileStats): boolean {
+  if (ifRange.startsWith('"') || ifRange.startsWith('W/')) {
+    return ifRange === etag;
+  }
+
+  const date = Date.parse(ifRange);
+  return !isNaN(date) && Math.floor(stats.mtimeMs / 1000) * 1000 === date;
+}
+
+function etagListMatches(header: string, etag: string): boolean {
+  return header.trim() === '*' || header.split(',').some((tag) => tag.trim().replace(/^W\//, '') === etag);
+}
+
+/**
+ * Stream a stored file with Content-Length, ETag/Last-Modified validators,
+ * Digest and single-range support (Range, If-Range), so interrupted downloads
+ * can resume and be verified
+ */
+export async function sendStoredFile(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  storage: FileStorage,
+  filePath: string,
+  { filename, contentType, sha256 }: SendFileOptions
+) {
+  const stats = await storage.getFileStats(filePath);
+  const etag = fileETag(stats);
+
+  reply
+    .header('Accept-Ranges', 'bytes')
+    .header('ETag', etag)
+    .header('Last-Modified', new Date(stats.mtimeMs).toUTCString());
+
+  const ifNoneMatch = request.headers['if-none-match'];
+  if (ifNoneMatch && etagListMatches(ifNoneMatch, etag)) {
+    return reply.status(304).send();
+  }
+
+  const rangeHeader = request.headers.range;
+  const ifRange = request.headers['if-range'];
+  const range = rangeHeader && (!ifRange || ifRangeMatches(ifRange, etag, stats))
+    ? parseRange(rangeHeader, stats.size)
+    : null;
+
+  if (range === 'unsatisfiable') {
+    return reply
+      .status(416)
+      .header('Content-Range', `bytes */${stats.size}`)
+      .send({ error: 'Requested range not satisfiable' });
+  }
+
+  reply
+    .header('Content-Disposition', `attachment; filename="${filename}"`)
+    .header('Content-Type', contentType);
+
+  // Digest always describes the whole file, so clients resuming with Range
+  // can verify the reassembled download
+  if (sha256) {
+    reply.header('Digest', digestHeader(sha256));
+  }
+
+  if (range) {
+    return reply
+      .status(206)
+      .header('Content-Range', `bytes ${range.start}-${range.end}/${stats.size}`)
+      .header('Content-Length', range.end - range.start + 1)
+      .send(storage.createReadStream(filePath, range));
+  }
+
+  return reply
+    .header('Content-Length', stats.size)
+    .send(storage.createReadStream(filePath));
+}
@@ -41,7 +41,7 @@ export const statsRoutes: FastifyPluginAsync<StatsPluginOptions> = async (
     }
 
     // Query fresh stats
-    const stats = computeNetworkStats(db);
+    const stats = await computeNetworkStats(db);
 
     // Update cache
     cachedStats = stats;
@@ -51,53 +51,26 @@ export const statsRoutes: FastifyPluginAsync<StatsPluginOptions> = async (
   });
 };
 
-function computeNetworkStats(db: DatabaseService): NetworkStats {
+async function computeNetworkStats(db: DatabaseService): Promise<NetworkStats> {
   const now = Date.now();
   const twoMinutesAgo = now - 2 * 60 * 1000;
   const startOfTodayUTC = getStartOfTodayUTC();
 
   // Check if we have real data
-  const totalBuildsQuery = db['db'].prepare(`
-    SELECT COUNT(*) as count
-    FROM builds
-    WHERE status IN ('completed', 'failed')
-  `);
-  const realTotalBuilds = (totalBuildsQuery.get() as { count: number }).count;
+  const realTotalBuilds = await db.builds.countByStatus(['completed', 'failed', 'cancelled']);
 
   // If we have real activity, use real stats
   if (realTotalBuilds > 10) {
-    const nodesOnlineQuery = db['db'].prepare(`
-      SELECT COUNT(*) as count
-      FROM workers
-      WHERE status IN ('idle', 'building')
-        AND last_seen_at > ?
-    `);
-    const nodesOnline = (nodesOnlineQuery.get(twoMinutesAgo) as { count: number }).count;
-
-    const buildsQueuedQuery = db['db'].prepare(`
-      SELECT COUNT(*) as count
-      FROM builds
-      WHERE status = 'pending'
-    `);
-    const buildsQueued = (buildsQueuedQuery.get() as { count: number }).count;
-
-    const activeBuildsQuery = db['db'].prepare(`
-      SELECT COUNT(*) as count
-      FROM builds
-      WHERE status IN ('assigned', 'building')
-    `);
-    const activeBuilds = (activeBuildsQuery.get() as { count: number }).count;
-
-    const buildsTodayQuery = db['db'].prepare(`
-      SELECT COUNT(*) as count
-      FROM builds
-      WHERE completed_at >= ?
-        AND status = 'completed'
-    `);
-    const buildsToday = (buildsTodayQuery.get(startOfTodayUTC) as { count: number }).count;
-
-    const totalBuildTimeMs = db.getTotalBuildTimeMs();
-    const totalCpuCycles = db.getTotalCpuCycles();
+    const nodesOnline = await db.workers.countOnline(twoMinutesAgo);
+    const buildsQueued = await db.builds.countByStatus(['pending']);
+    const activeBuilds = await db.builds.countByStatus(['assigned', 'building']);
+    const buildsToday = await db.builds.countCompletedSince(startOfTodayUTC);
+
+    const totalBuildTimeMs = await db.builds.getTotalBuildTimeMs();
+
+    // Approximation: avg CPU % across all snapshots * total build time in seconds
+    const avgCpuPercent = await db.cpuSnapshots.getAverageCpuPercent();
+    const totalCpuCycles = avgCpuPercent ? (avgCpuPercent / 100) * (totalBuildTimeMs / 1000) : 0;
 
     return {
       nodesOnline,
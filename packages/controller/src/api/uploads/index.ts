@@ -0,0 +1,296 @@
+import { FastifyPluginAsync } from 'fastify';
+import { nanoid } from 'nanoid';
+import type { Readable } from 'stream';
+import type { DatabaseService, UploadSession } from '../../db/Database.js';
+import type { FileStorage } from '../../services/FileStorage.js';
+import { FileTooLargeError } from '../../services/FileStorage.js';
+import type { ControllerConfig } from '../../domain/Config.js';
+
+interface UploadsPluginOptions {
+  db: DatabaseService;
+  storage: FileStorage;
+  config: ControllerConfig;
+}
+
+interface UploadParams {
+  id: string;
+}
+
+interface ChunkQuery {
+  offset?: string;
+}
+
+interface CreateUploadBody {
+  kind: UploadSession['kind'];
+  size: number;
+  sha256?: string;
+  build_id?: string;
+  worker_id?: string;
+}
+
+const UPLOAD_KINDS: UploadSession['kind'][] = ['source', 'certs', 'result'];
+const SHA256_PATTERN = /^[a-f0-9]{64}$/;
+
+/**
+ * Resumable upload protocol
+ *
+ * 1. POST   /uploads               - Create session, declaring size (and optional sha256)
+ * 2. PUT    /uploads/:id?offset=N  - Send next chunk (application/octet-stream) at the committed offset
+ * 3. GET    /uploads/:id           - Query committed offset (resume after a network drop)
+ * 4. POST   /uploads/:id/finalize  - Verify size/digest once all bytes are in
+ *
+ * The finalized upload ID is then passed to /builds/submit (source_upload_id,
+ * certs_upload_id) or /workers/upload (result_upload_id) in place of a file.
+ */
+export const uploadsRoutes: FastifyPluginAsync<UploadsPluginOptions> = async (
+  fastify,
+  { db, storage, config }
+) => {
+  // Chunks arrive as raw bytes; hand the request stream to the route untouched
+  fastify.addContentTypeParser('application/octet-stream', (_request, payload, done) => {
+    done(null, payload);
+  });
+
+  // Sessions with a chunk currently being written (one writer per session)
+  const activeWrites = new Set<string>();
+
+  const maxSizeFor = (kind: UploadSession['kind']): number => {
+    switch (kind) {
+      case 'source':
+        return config.maxSourceFileSize;
+      case 'certs':
+        return config.maxCertsFileSize;
+      case 'result':
+        return config.maxResultFileSize;
+    }
+  };
+
+  const getLiveSession = async (id: string): Promise<UploadSession | undefined> => {
+    const session = await db.uploads.get(id);
+    if (!session || session.expires_at < Date.now()) {
+      return undefined;
+    }
+    return session;
+  };
+
+  const describe = (session: UploadSession) => ({
+    id: session.id,
+    kind: session.kind,
+    status: session.status,
+    size: session.total_size,
+    offset: session.committed_offset,
+    sha256: session.sha256,
+    chunk_size: config.uploadChunkSize,
+    expires_at: session.expires_at,
+  });
+
+  /**
+   * POST /uploads
+   * Create a resumable upload session
+   */
+  fastify.post<{ Body: CreateUploadBody }>('/', async (request, reply) => {
+    try {
+      const { kind, size, sha256, build_id, worker_id } = request.body || ({} as CreateUploadBody);
+
+      if (!UPLOAD_KINDS.includes(kind)) {
+        return reply.status(400).send({ error: 'Valid kind required (source|certs|result)' });
+      }
+
+      if (!Number.isInteger(size) || size <= 0) {
+        return reply.status(400).send({ error: 'size must be a positive integer' });
+      }
+
+      if (size > maxSizeFor(kind)) {
+        return reply.status(413).send({ error: `${kind} file too large` });
+      }
+
+      if (sha256 !== undefined && !SHA256_PATTERN.test(sha256)) {
+        return reply.status(400).send({ error: 'sha256 must be a lowercase hex SHA-256 digest' });
+      }
+
+      // Results may only be uploaded by the worker the build is assigned to
+      if (kind === 'result') {
+        if (!build_id || !worker_id) {
+          return reply.status(400).send({ error: 'build_id and worker_id required for result uploads' });
+        }
+
+        const build = await db.builds.get(build_id);
+        if (!build) {
+          return reply.status(404).send({ error: 'Build not found' });
+        }
+
+        if (build.worker_id !== worker_id) {
+          return reply.status(403).send({ error: 'Build not assigned to this worker' });
+        }
+      }
+
+      const id = nanoid();
+      const timestamp = Date.now();
+
+      storage.createUpload(id);
+      await db.uploads.create({
+        id,
+        kind,
+        total_size: size,
+        expected_sha256: sha256 ?? null,
+        build_id: kind === 'result' ? build_id! : null,
+        worker_id: kind === 'result' ? worker_id! : null,
+        created_at: timestamp,
+        updated_at: timestamp,
+        expires_at: timestamp + config.uploadSessionTtlMs,
+      });
+
+      return reply.send(describe((await db.uploads.get(id))!));
+    } catch (err) {
+      fastify.log.error('Upload session creation error:', err);
+      return reply.status(500).send({ error: 'Failed to create upload session' });
+    }
+  });
+
+  /**
+   * GET /uploads/:id
+   * Get session state, including the committed offset to resume from
+   */
+  fastify.get<{ Params: UploadParams }>('/:id', async (request, reply) => {
+    const session = await getLiveSession(request.params.id);
+
+    if (!session) {
+      return reply.status(404).send({ error: 'Upload not found' });
+    }
+
+    return reply.send(describe(session));
+  });
+
+  /**
+   * PUT /uploads/:id?offset=N
+   * Append a chunk. offset must equal the committed offset; on mismatch the
+   * response carries the committed offset so the client can resync.
+   */
+  fastify.put<{ Params: UploadParams; Querystring: ChunkQuery }>('/:id', async (request, reply) => {
+    const uploadId = request.params.id;
+    const session = await getLiveSession(uploadId);
+
+    if (!session) {
+      return reply.status(404).send({ error: 'Upload not found' });
+    }
+
+    if (session.status !== 'uploading') {
+      return reply.status(409).send({ error: 'Upload already finalized', offset: session.committed_offset });
+    }
+
+    const offset = Number(request.query.offset);
+    if (!Number.isInteger(offset) || offset !== session.committed_offset) {
+      return reply.status(409).send({ error: 'Offset mismatch', offset: session.committed_offset });
+    }
+
+    if (!request.body) {
+      return reply.status(415).send({ error: 'Chunk must be sent as application/octet-stream' });
+    }
+
+    if (activeWrites.has(uploadId)) {
+      return reply.status(409).send({ error: 'Another chunk is in progress', offset: session.committed_offset });
+    }
+
+    activeWrites.add(uploadId);
+    try {
+      const remaining = session.total_size - offset;
+      const written = await storage.writeUploadChunk(
+        uploadId,
+        offset,
+        request.body as Readable,
+        Math.min(config.uploadChunkSize, remaining)
+      );
+
+      const timestamp = Date.now();
+      const newOffset = offset + written;
+      if (!(await db.uploads.advanceOffset(uploadId, offset, newOffset, timestamp, timestamp + config.uploadSessionTtlMs))) {
+        // Finalized, purged or deleted while the chunk was being written
+        const current = await db.uploads.get(uploadId);
+        if (!current) {
+          return reply.status(404).send({ error: 'Upload not found' });
+        }
+        return reply.status(409).send({ error: 'Upload changed while the chunk was written', offset: current.committed_offset });
+      }
+
+      return reply.send({ id: uploadId, offset: newOffset, size: session.total_size });
+    } catch (err) {
+      if (err instanceof FileTooLargeError) {
+        // Drop the connection instead of reading the rest of the oversized body
+        return reply.status(413).header('Connection', 'close').send({
+          error: 'Chunk exceeds chunk size or remaining upload size',
+          offset: session.committed_offset,
+        });
+      }
+
+      fastify.log.error('Upload chunk error:', err);
+      return reply.status(500).send({ error: 'Failed to write chunk', offset: session.committed_offset });
+    } finally {
+      activeWrites.delete(uploadId);
+    }
+  });
+
+  /**
+   * POST /uploads/:id/finalize
+   * Verify the upload is complete and matches its declared digest
+   */
+  fastify.post<{ Params: UploadParams }>('/:id/finalize', async (request, reply) => {
+    const uploadId = request.params.id;
+    const session = await getLiveSession(uploadId);
+
+    if (!session) {
+      return reply.status(404).send({ error: 'Upload not found' });
+    }
+
+    // Finalize is idempotent so a client can retry after a dropped response
+    if (session.status === 'complete') {
+      return reply.send(describe(session));
+    }
+
+    if (session.committed_offset !== session.total_size) {
+      return reply.status(409).send({ error: 'Upload incomplete', offset: session.committed_offset });
+    }
+
+    try {
+      const { size, sha256 } = await storage.hashUpload(uploadId);
+
+      if (size !== session.total_size) {
+        return reply.status(500).send({ error: 'Stored upload size does not match committed offset' });
+      }
+
+      if (session.expected_sha256 && session.expected_sha256 !== sha256) {
+        // Corrupt data cannot be resumed; the client has to start over
+        storage.deleteUpload(uploadId, { secure: session.kind === 'certs' });
+        await db.uploads.delete(uploadId);
+        return reply.status(422).send({ error: 'Checksum mismatch', expected: session.expected_sha256, actual: sha256 });
+      }
+
+      await db.uploads.complete(uploadId, sha256, Date.now());
+
+      return reply.send(describe((await db.uploads.get(uploadId))!));
+    } catch (err) {
+      fastify.log.error('Upload finalize error:', err);
+      return reply.status(500).send({ error: 'Failed to finalize upload' });
+    }
+  });
+
+  /**
+   * DELETE /uploads/:id
+   * Abandon an upload session; not while a chunk is being written to it
+   */
+  fastify.delete<{ Params: UploadParams }>('/:id', async (request, reply) => {
+    const session = await db.uploads.get(request.params.id);
+
+    if (!session) {
+      return reply.status(404).send({ error: 'Upload not found' });
+    }
+
+    if (activeWrites.has(session.id)) {
+      return reply.status(409).send({ error: 'A chunk is in progress', offset: session.committed_offset });
+    }
+
+    storage.deleteUpload(session.id, { secure: session.kind === 'certs' });
+    await db.uploads.delete(session.id);
+
+    return reply.send({ status: 'deleted' });
+  });
+};
@@ -1,9 +1,16 @@
 import { FastifyPluginAsync, FastifyRequest, FastifyReply } from 'fastify';
 import { nanoid } from 'nanoid';
-import type { DatabaseService } from '../../db/Database.js';
+import type { Build, DatabaseService, FailureType } from '../../db/Database.js';
 import type { JobQueue } from '../../services/JobQueue.js';
 import type { FileStorage } from '../../services/FileStorage.js';
+import { FileTooLargeError, type StoredFile } from '../../services/FileStorage.js';
 import type { ControllerConfig } from '../../domain/Config.js';
+import { claimUpload, UploadClaimError } from '../../services/UploadSessions.js';
+import { failAttempt } from '../../services/Retries.js';
+import { leaseExpiry } from '../../services/Leases.js';
+import { summarizeUptime } from '../../services/Liveness.js';
+import { getQueuePause, workerAvailability } from '../../services/Maintenance.js';
+import { buildLimits, stopReason } from '../../services/Timeouts.js';
 
 interface WorkersPluginOptions {
   db: DatabaseService;
@@ -18,18 +25,28 @@ interface WorkerParams {
 
 interface PollQuery {
   worker_id?: string;
+  max_concurrent_builds?: string;
 }
 
 interface RegisterBody {
   name: string;
   capabilities: any;
+  max_concurrent_builds?: number;
 }
 
+// Upper bound on build slots a worker can report
+const MAX_SLOTS = 32;
+
+// Uptime history window
+const DEFAULT_UPTIME_DAYS = 7;
+const MAX_UPTIME_DAYS = 90;
+
 interface UploadBody {
   build_id: string;
   worker_id: string;
   success: string;
   error_message?: string;
+  failure_type?: FailureType;  // Default: build (not retried)
 }
 
 export const workersRoutes: FastifyPluginAsync<WorkersPluginOptions> = async (
@@ -48,21 +65,29 @@ export const workersRoutes: FastifyPluginAsync<WorkersPluginOptions> = async (
         return reply.status(400).send({ error: 'Name and capabilities required' });
       }
 
+      // Workers that predate the field report it among their capabilities
+      const maxConcurrentBuilds = parseSlots(request.body.max_concurrent_builds ?? capabilities.maxConcurrentBuilds ?? 1);
+      if (maxConcurrentBuilds === undefined) {
+        return reply.status(400).send({ error: `max_concurrent_builds must be an integer from 1 to ${MAX_SLOTS}` });
+      }
+
       const workerId = nanoid();
       const timestamp = Date.now();
 
-      db.registerWorker({
+      await db.workers.register({
         id: workerId,
         name,
         status: 'idle',
         capabilities: JSON.stringify(capabilities),
         registered_at: timestamp,
         last_seen_at: timestamp,
+        max_concurrent_builds: maxConcurrentBuilds,
       });
 
       return reply.send({
         id: workerId,
         status: 'registered',
+        max_concurrent_builds: maxConcurrentBuilds,
         baseImageId: config.baseImageId,
       });
     } catch (err) {
@@ -74,6 +99,20 @@ export const workersRoutes: FastifyPluginAsync<WorkersPluginOptions> = async (
   /**
    * GET /workers/poll
    * Worker polls for available jobs
+   *
+   * A worker runs up to max_concurrent_builds builds at once (optionally
+   * updated with the query parameter of that name). `job` is a newly assigned
+   * build while a slot is free, else the worker's oldest running build (so a
+   * restarted single-slot worker picks it back up); `active_jobs` lists all
+   * builds the worker holds.
+   *
+   * No new build is assigned while the worker is draining or paused, or the
+   * whole queue is paused for maintenance (see /admin); `availability` and
+   * `queue_paused` say which, and `availability` is 'drained' once a draining
+   * worker's last build has finished.
+   *
+   * `cancelled_jobs` lists builds cancelled (or timed out) while on this
+   * worker: it should stop each and confirm with POST /builds/:id/cancel/ack.
    */
   fastify.get<{ Querystring: PollQuery }>('/poll', async (request, reply) => {
     try {
@@ -83,68 +122,96 @@ export const workersRoutes: FastifyPluginAsync<WorkersPluginOptions> = async (
         return reply.status(400).send({ error: 'worker_id required' });
       }
 
-      const worker = db.getWorker(worker_id);
+      const maxConcurrentBuilds = request.query.max_concurrent_builds === undefined
+        ? null
+        : parseSlots(request.query.max_concurrent_builds);
+      if (maxConcurrentBuilds === undefined) {
+        return reply.status(400).send({ error: `max_concurrent_builds must be an integer from 1 to ${MAX_SLOTS}` });
+      }
+
+      let worker = await db.workers.get(worker_id);
       if (!worker) {
         return reply.status(404).send({ error: 'Worker not found' });
       }
 
-      // Update last seen (but don't change status - worker may be building)
+      if (maxConcurrentBuilds !== null && maxConcurrentBuilds !== worker.max_concurrent_builds) {
+        await db.workers.setMaxConcurrentBuilds(worker_id, maxConcurrentBuilds);
+        worker = { ...worker, max_concurrent_builds: maxConcurrentBuilds };
+      }
+
+      // Update last seen; a worker marked offline is back online
       const timestamp = Date.now();
-      const currentWorker = db.getWorker(worker_id);
-      if (currentWorker) {
-        // Only update last_seen_at, preserve current status
-        db.updateWorkerStatus(worker_id, currentWorker.status, timestamp);
+      if (await db.workers.markSeen(worker_id, timestamp)) {
+        console.log(`[Liveness] Worker ${worker.name} (${worker_id}) is back online`);
+      }
+
+      const jobFor = (build: Build) => ({
+        id: build.id,
+        platform: build.platform,
+        source_url: `/api/builds/${build.id}/source`,
+        source_sha256: build.source_sha256,
+        certs_url: build.certs_path ? `/api/builds/${build.id}/certs-secure` : null,
+        baseImageId: config.baseImageId,
+        // The controller fails the build after this long (null: no limit)
+        max_duration_ms: buildLimits(config.timeouts, build).maxDurationMs,
+      });
+      const slots = worker.max_concurrent_builds;
+      const activeBuilds = queue.getWorkerBuilds(worker_id);
+      const queuePause = await getQueuePause(db);
+      const { drain_requested_at, paused_at } = worker;
+      // Builds cancelled (or timed out) on this worker that it has not confirmed stopping
+      const cancelledJobs = (await db.builds.listUnacknowledgedCancels(worker_id)).map((build) => build.id);
+      const pollResponse = (job: Build | null, active: Build[]) => ({
+        job: job ? jobFor(job) : null,
+        active_jobs: active.map(jobFor),
+        cancelled_jobs: cancelledJobs,
+        slots: { total: slots, used: active.length },
+        availability: workerAvailability({ drain_requested_at, paused_at, active_builds: active.length }),
+        queue_paused: queuePause !== null,
+      });
+
+      // Check if all of the worker's slots are taken
+      if (queue.freeSlots(worker) === 0) {
+        return reply.send(pollResponse(activeBuilds[0] ?? null, activeBuilds));
       }
 
-      // Check if worker already has active job
-      if (queue.isWorkerBusy(worker_id)) {
-        const activeBuild = queue.getWorkerBuild(worker_id);
-        return reply.send({
-          job: {
-            id: activeBuild!.id,
-            platform: activeBuild!.platform,
-            source_url: `/api/builds/${activeBuild!.id}/source`,
-            certs_url: activeBuild!.certs_path
-              ? `/api/builds/${activeBuild!.id}/certs`
-              : null,
-            baseImageId: config.baseImageId,
-          },
-        });
+      // Draining, paused or under maintenance: finish the builds held first
+      if (queuePause || workerAvailability(worker) !== 'available') {
+        return reply.send(pollResponse(null, activeBuilds));
       }
 
       // Assign next pending build
       const build = queue.assignToWorker(worker);
 
       if (!build) {
-        return reply.send({ job: null }); // No jobs available
+        return reply.send(pollResponse(null, activeBuilds)); // No jobs available
       }
 
       // ATOMIC: Assign build to worker in database with transaction
       // This prevents race condition where two workers claim same build
-      const assigned = db.assignBuildToWorker(build.id, worker_id, timestamp);
+      const assigned = await db.builds.assignToWorker(
+        build.id,
+        worker_id,
+        timestamp,
+        leaseExpiry(config.leases, build.platform, timestamp)
+      );
 
       if (!assigned) {
         // Build was already assigned by another worker, try again
-        return reply.send({ job: null });
+        return reply.send(pollResponse(null, activeBuilds));
       }
 
       // Log
-      db.addBuildLog({
+      await db.logs.add({
         build_id: build.id,
         timestamp: Date.now(),
         level: 'info',
-        message: `Assigned to worker ${worker.name}`,
+        message: build.attempt > 1
+          ? `Assigned to worker ${worker.name} (attempt ${build.attempt} of ${config.retry.maxAttempts})`
+          : `Assigned to worker ${worker.name}`,
       });
 
-      return reply.send({
-        job: {
-          id: build.id,
-          platform: build.platform,
-          source_url: `/api/builds/${build.id}/source`,
-          certs_url: build.certs_path ? `/api/builds/${build.id}/certs` : null,
-          baseImageId: config.baseImageId,
-        },
-      });
+      return reply.send(pollResponse(build, [...activeBuilds, build]));
     } catch (err) {
       fastify.log.error('Worker poll error:', err);
       return reply.status(500).send({ error: 'Poll failed' });
@@ -154,6 +221,11 @@ export const workersRoutes: FastifyPluginAsync<WorkersPluginOptions> = async (
   /**
    * POST /workers/upload
    * Worker uploads build result
+   *
+   * The result may be sent inline (result) or as the ID of a finalized
+   * resumable upload (result_upload_id). Failures are build failures unless
+   * failure_type is 'infrastructure' (VM or disk trouble on the worker), which
+   * is retried on another worker while attempts remain.
    */
   fastify.post('/upload', async (request, reply) => {
     try {
@@ -162,105 +234,174 @@ export const workersRoutes: FastifyPluginAsync<WorkersPluginOptions> = async (
       }
 
       const parts = request.parts();
-      let resultBuffer: Buffer | null = null;
+      let result: StoredFile | null = null;
+      let resultUploadId: string | null = null;
       let build_id: string | null = null;
       let worker_id: string | null = null;
       let success: string | null = null;
       let error_message: string | undefined = undefined;
-
-      for await (const part of parts) {
-        if (part.type === 'file') {
-          if (part.fieldname === 'result') {
-            const chunks: Buffer[] = [];
-            for await (const chunk of part.file) {
-              chunks.push(chunk);
+      let failure_type: string | null = null;
+      let result_sha256: string | null = null;
+
+      try {
+        // Stream the result straight to a temp file; the build ID may arrive
+        // after the file, so it is only moved into place once validated
+        for await (const part of parts) {
+          if (part.type === 'file') {
+            if (part.fieldname === 'result') {
+              try {
+                result = await storage.stageUpload(part.file, config.maxResultFileSize);
+              } catch (err) {
+                if (err instanceof FileTooLargeError) {
+                  // Drop the connection instead of reading the rest of the oversized body
+                  return reply.status(413).header('Connection', 'close').send({ error: 'Result file too large' });
+                }
+                throw err;
+              }
+            } else {
+              // Unknown file fields must still be consumed or the parser stalls
+              part.file.resume();
             }
-            resultBuffer = Buffer.concat(chunks);
-
-            if (resultBuffer.length > config.maxResultFileSize) {
-              return reply.status(413).send({ error: 'Result file too large' });
+          } else {
+            if (part.fieldname === 'build_id') {
+              build_id = part.value as string;
+            } else if (part.fieldname === 'worker_id') {
+              worker_id = part.value as string;
+            } else if (part.fieldname === 'success') {
+              success = part.value as string;
+            } else if (part.fieldname === 'error_message') {
+              error_message = part.value as string;
+            } else if (part.fieldname === 'failure_type') {
+              failure_type = part.value as string;
+            } else if (part.fieldname === 'result_upload_id') {
+              resultUploadId = part.value as string;
+            } else if (part.fieldname === 'result_sha256') {
+              result_sha256 = (part.value as string).toLowerCase();
             }
           }
-        } else {
-          if (part.fieldname === 'build_id') {
-            build_id = part.value as string;
-          } else if (part.fieldname === 'worker_id') {
-            worker_id = part.value as string;
-          } else if (part.fieldname === 'success') {
-            success = part.value as string;
-          } else if (part.fieldname === 'error_message') {
-            error_message = part.value as string;
+        }
+
+        if (!build_id || !worker_id) {
+          return reply.status(400).send({ error: 'build_id and worker_id required' });
+        }
+
+        if (failure_type !== null && failure_type !== 'build' && failure_type !== 'infrastructure') {
+          return reply.status(400).send({ error: "failure_type must be 'build' or 'infrastructure'" });
+        }
+
+        const build = await db.builds.get(build_id);
+        if (!build) {
+          return reply.status(404).send({ error: 'Build not found' });
+        }
+
+        const worker = await db.workers.get(worker_id);
+        if (!worker) {
+          return reply.status(404).send({ error: 'Worker not found' });
+        }
+
+        const timestamp = Date.now();
+        await db.workers.markSeen(worker_id, timestamp);
+
+        // A cancelled or timed-out build's result is discarded; the report
+        // doubles as the worker's acknowledgement that it stopped
+        if (build.cancel_requested_at !== null && build.worker_id === worker_id) {
+          await db.builds.acknowledgeCancel(build_id, worker_id, timestamp);
+          return reply.status(409).send({ error: stopReason(build), cancelled: true });
+        }
+
+        // A worker that lost its build (timed out and retried, or cancelled)
+        // must not overwrite the current attempt
+        const movedOn =
+          build.status === 'completed' ||
+          build.status === 'cancelled' ||
+          build.status === 'failed' ||
+          (build.worker_id !== null && build.worker_id !== worker_id) ||
+          (build.status === 'pending' && build.retry_after !== null);
+        if (movedOn) {
+          return reply.status(409).send({ error: 'Build is no longer assigned to this worker' });
+        }
+
+        // Ends the lease once the report is accepted, unless it expired first:
+        // then the build is (being) reclaimed and this report is too late
+        const releaseLease = () => db.builds.releaseLease(build_id, worker_id, build.attempt, timestamp);
+        const leaseLost = { error: 'Lease expired; the build was reclaimed from this worker' };
+
+        if (success === 'true' && !result && resultUploadId) {
+          try {
+            result = await claimUpload(db, storage, resultUploadId, 'result', build_id);
+          } catch (err) {
+            if (err instanceof UploadClaimError) {
+              return reply.status(err.statusCode).send({ error: err.message });
+            }
+            throw err;
           }
         }
-      }
 
-      if (!build_id || !worker_id) {
-        return reply.status(400).send({ error: 'build_id and worker_id required' });
-      }
 
-      const build = db.getBuild(build_id);
-      if (!build) {
-        return reply.status(404).send({ error: 'Build not found' });
-      }
+        if (success === 'true' && result) {
+          // Worker-declared digest catches corruption between worker and controller
+          if (result_sha256 && result_sha256 !== result.sha256) {
+            return reply.status(422).send({
+              error: 'Result checksum mismatch',
+              expected: result_sha256,
+              actual: result.sha256,
+            });
+          }
 
-      const worker = db.getWorker(worker_id);
-      if (!worker) {
-        return reply.status(404).send({ error: 'Worker not found' });
-      }
+          if (!(await releaseLease())) {
+            return reply.status(409).send(leaseLost);
+          }
 
-      const timestamp = Date.now();
+          // Move result into place
+          const extension = build.platform === 'ios' ? 'ipa' : 'apk';
+          const storedResult = await storage.commitBuildResult(build_id, result, extension);
+
+          // Update build
+          await db.builds.updateStatus(build_id, 'completed', {
+            result_path: storedResult.path,
+            result_sha256: storedResult.sha256,
+            result_size: storedResult.size,
+            completed_at: timestamp,
+          });
+          await db.attempts.finish(build_id, build.attempt, { finished_at: timestamp, outcome: 'completed' });
+
+          // Update worker, freeing the build's slot
+          await db.workers.incrementBuilds(worker_id, true);
+          await db.workers.syncSlots(worker_id);
+
+          // Complete in queue
+          queue.complete(build_id);
+
+          // Log
+          await db.logs.add({
+            build_id,
+            timestamp,
+            level: 'info',
+            message: 'Build completed successfully',
+          });
+
+          return reply.send({ status: 'success' });
+        } else {
+          // Build failed; a success without a result means the upload was lost
+          const failure = success === 'true'
+            ? { type: 'infrastructure' as const, message: 'Result upload missing' }
+            : { type: (failure_type ?? 'build') as FailureType, message: error_message || 'Build failed' };
 
-      if (success === 'true' && resultBuffer) {
-        // Save result
-        const extension = build.platform === 'ios' ? 'ipa' : 'apk';
-        const resultStream = require('stream').Readable.from(resultBuffer);
-        const resultPath = await storage.saveBuildResult(build_id, resultStream, extension);
-
-        // Update build
-        db.updateBuildStatus(build_id, 'completed', {
-          result_path: resultPath,
-          completed_at: timestamp,
-        });
-
-        // Update worker
-        db.incrementWorkerBuilds(worker_id, true);
-        db.updateWorkerStatus(worker_id, 'idle', timestamp);
-
-        // Complete in queue
-        queue.complete(build_id);
-
-        // Log
-        db.addBuildLog({
-          build_id,
-          timestamp,
-          level: 'info',
-          message: 'Build completed successfully',
-        });
-
-        return reply.send({ status: 'success' });
-      } else {
-        // Build failed
-        db.updateBuildStatus(build_id, 'failed', {
-          error_message: error_message || 'Build failed',
-          completed_at: timestamp,
-        });
-
-        // Update worker
-        db.incrementWorkerBuilds(worker_id, false);
-        db.updateWorkerStatus(worker_id, 'idle', timestamp);
-
-        // Fail in queue (don't requeue for now)
-        queue.fail(build_id, false);
-
-        // Log
-        db.addBuildLog({
-          build_id,
-          timestamp,
-          level: 'error',
-          message: error_message || 'Build failed',
-        });
-
-        return reply.send({ status: 'failed' });
+          if (!(await releaseLease())) {
+            return reply.status(409).send(leaseLost);
+          }
+
+          const retrying = await failAttempt(db, queue, config.retry, build, failure, timestamp);
+
+          // Update worker, freeing the build's slot
+          await db.workers.incrementBuilds(worker_id, false);
+          await db.workers.syncSlots(worker_id);
+
+          return reply.send({ status: retrying ? 'retrying' : 'failed' });
+        }
+      } finally {
+        // No-op once the result has been committed
+        storage.discardStaged(result);
       }
     } catch (err) {
       fastify.log.error('Upload error:', err);
@@ -274,14 +415,18 @@ export const workersRoutes: FastifyPluginAsync<WorkersPluginOptions> = async (
    */
   fastify.get<{ Params: WorkerParams }>('/:id/stats', async (request, reply) => {
     try {
-      const worker = db.getWorker(request.params.id);
+      const worker = await db.workers.get(request.params.id);
 
       if (!worker) {
         return reply.status(404).send({ error: 'Worker not found' });
       }
 
       const totalBuilds = worker.builds_completed + worker.builds_failed;
-      const uptime = Date.now() - worker.registered_at;
+
+      // Uptime of the current session (none while offline)
+      const now = Date.now();
+      const { onlineSince } = summarizeUptime(worker, await db.workers.listSessions(worker.id, now), now, now);
+      const uptime = onlineSince === null ? 0 : now - onlineSince;
 
       // Format uptime as human-readable string
       const uptimeSeconds = Math.floor(uptime / 1000);
@@ -306,6 +451,12 @@ export const workersRoutes: FastifyPluginAsync<WorkersPluginOptions> = async (
         failedBuilds: worker.builds_failed,
         workerName: worker.name,
         status: worker.status,
+        activeBuilds: worker.active_builds,
+        maxConcurrentBuilds: worker.max_concurrent_builds,
+        availability: workerAvailability(worker),
+        drainRequestedAt: worker.drain_requested_at,
+        pausedAt: worker.paused_at,
+        lastSeenAt: worker.last_seen_at,
         uptime: uptimeStr,
       });
     } catch (err) {
@@ -313,4 +464,49 @@ export const workersRoutes: FastifyPluginAsync<WorkersPluginOptions> = async (
       return reply.status(500).send({ error: 'Failed to fetch stats' });
     }
   });
+
+  /**
+   * GET /workers/:id/uptime
+   * Worker's last check-in and online sessions over the last `days` (default 7)
+   */
+  fastify.get<{ Params: WorkerParams; Querystring: { days?: string } }>('/:id/uptime', async (request, reply) => {
+    try {
+      const days = request.query.days === undefined ? DEFAULT_UPTIME_DAYS : Number(request.query.days);
+      if (!Number.isInteger(days) || days < 1 || days > MAX_UPTIME_DAYS) {
+        return reply.status(400).send({ error: `days must be an integer from 1 to ${MAX_UPTIME_DAYS}` });
+      }
+
+      const worker = await db.workers.get(request.params.id);
+      if (!worker) {
+        return reply.status(404).send({ error: 'Worker not found' });
+      }
+
+      const now = Date.now();
+      const since = now - days * 24 * 60 * 60 * 1000;
+      const sessions = await db.workers.listSessions(worker.id, since);
+      const summary = summarizeUptime(worker, sessions, since, now);
+
+      return reply.send({
+        worker_id: worker.id,
+        status: worker.status,
+        last_seen_at: worker.last_seen_at,
+        online_since: summary.onlineSince,
+        since,
+        uptime_percent: summary.uptimePercent,
+        sessions: sessions.map(({ online_at, offline_at }) => ({ online_at, offline_at })),
+      });
+    } catch (err) {
+      fastify.log.error('Uptime error:', err);
+      return reply.status(500).send({ error: 'Failed to fetch uptime' });
+    }
+  });
 };
+
+/**
+ * Parse a worker's reported build slot count
+ * @returns undefined unless it is an integer from 1 to MAX_SLOTS
+ */
+function parseSlots(value: unknown): number | undefined {
+  const slots = Number(value);
+  return Number.isInteger(slots) && slots >= 1 && slots <= MAX_SLOTS ? slots : undefined;
+}
@@ -1,27 +1,52 @@
 #!/usr/bin/env bun
 
-import { join } from 'path';
-import { existsSync, mkdirSync } from 'fs';
+import { join, resolve } from 'path';
+import { createWriteStream, existsSync, mkdirSync } from 'fs';
+import { once } from 'events';
+import { Database as BunDatabase } from 'bun:sqlite';
+import { SQL } from 'bun';
 import { ControllerServer } from './server.js';
-import { createConfig } from './domain/Config.js';
+import { createConfig, DEFAULT_CONFIG } from './domain/Config.js';
+import { Migrator } from './db/Migrator.js';
+import { PostgresMigrator } from './db/PostgresMigrator.js';
+import { createDatabase } from './db/createDatabase.js';
+import { createStorageDriver } from './services/createStorageDriver.js';
+import { loadCertsKeyring } from './services/CertsKeyring.js';
+import { createBackup, exportNdjson, restoreBackup, verifyBackup, type BackupManifest } from './services/Backup.js';
 
 interface CliArgs {
+  command: 'start' | 'migrate' | 'backup' | 'restore' | 'export';
+  archive?: string;
+  out?: string;
   port?: number;
   dbPath?: string;
+  databaseUrl?: string;
   storagePath?: string;
   apiKey?: string;
+  status?: boolean;
+  dryRun?: boolean;
 }
 
 function parseArgs(): CliArgs {
-  const args: CliArgs = {};
+  const args: CliArgs = { command: 'start' };
 
   for (let i = 2; i < process.argv.length; i++) {
     const arg = process.argv[i];
 
-    if (arg === '--port' || arg === '-p') {
+    if (arg === 'start' || arg === 'migrate' || arg === 'backup' || arg === 'restore' || arg === 'export') {
+      args.command = arg;
+    } else if (arg === '--out' || arg === '-o') {
+      args.out = process.argv[++i];
+    } else if (arg === '--status') {
+      args.status = true;
+    } else if (arg === '--dry-run') {
+      args.dryRun = true;
+    } else if (arg === '--port' || arg === '-p') {
       args.port = parseInt(process.argv[++i], 10);
     } else if (arg === '--db') {
       args.dbPath = process.argv[++i];
+    } else if (arg === '--database-url') {
+      args.databaseUrl = process.argv[++i];
     } else if (arg === '--storage') {
       args.storagePath = process.argv[++i];
     } else if (arg === '--api-key') {
@@ -32,12 +57,28 @@ Expo Free Agent Controller
 
 Usage:
   expo-controller start [options]
+  expo-controller migrate [--status | --dry-run] [--db <path> | --database-url <url>]
+  expo-controller backup --out <archive> [--db <path>] [--storage <path>]
+  expo-controller restore <archive> [--dry-run] [--db <path>] [--storage <path>]
+  expo-controller export [--out <file>] [--db <path> | --database-url <url>]
+
+Commands:
+  start                    Start the controller (applies pending migrations first)
+  migrate                  Apply pending database migrations and exit
+  backup                   Archive the database and stored artifacts (safe while running)
+  restore                  Verify an archive and restore it into an empty data directory
+  export                   Write workers, builds and logs as NDJSON (default: stdout)
 
 Options:
   --port, -p <port>        Port to listen on (default: 3000)
   --db <path>              Database file path (default: ./data/controller.db)
+  --database-url <url>     PostgreSQL URL, used instead of --db (default: env DATABASE_URL)
   --storage <path>         Storage directory path (default: ./storage)
   --api-key <key>          API key for authentication (default: env CONTROLLER_API_KEY)
+  --status                 (migrate) Show applied and pending migrations
+  --dry-run                (migrate) List pending migrations without applying them
+                           (restore) Verify the archive without restoring it
+  --out, -o <path>         (backup, export) Output file
   --help, -h               Show this help message
 
 Examples:
@@ -45,28 +86,221 @@ Examples:
   expo-controller start --port 8080
   expo-controller start --db /var/data/db.sqlite --storage /var/storage
   expo-controller start --api-key "my-secure-key-min-16-chars"
+  expo-controller migrate --status --db /var/data/db.sqlite
+  expo-controller migrate --database-url postgres://controller@db.internal/controller
+  expo-controller backup --out /backups/controller-$(date +%F).tar.gz
+  expo-controller restore /backups/controller-2024-05-01.tar.gz --db /srv/data/controller.db --storage /srv/storage
 
 Environment Variables:
   CONTROLLER_API_KEY       API key for authentication (overridden by --api-key)
+  DATABASE_URL             PostgreSQL URL (overridden by --database-url)
       `);
       process.exit(0);
+    } else if (args.command === 'restore' && !arg.startsWith('-') && !args.archive) {
+      args.archive = arg;
     }
   }
 
   return args;
 }
 
+/**
+ * expo-controller migrate [--status | --dry-run] against SQLite
+ */
+async function runMigrate(args: CliArgs, dbPath: string) {
+  const readOnly = args.status || args.dryRun;
+
+  // Inspecting a database must never create or modify it
+  let db: BunDatabase;
+  if (readOnly && !existsSync(dbPath)) {
+    console.log(`No database at ${dbPath}; all migrations are pending.\n`);
+    db = new BunDatabase(':memory:');
+  } else {
+    db = readOnly ? new BunDatabase(dbPath, { readonly: true }) : new BunDatabase(dbPath);
+  }
+
+  try {
+    await reportMigrations(args, dbPath, new Migrator(db));
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * expo-controller migrate [--status | --dry-run] against PostgreSQL
+ */
+async function runPostgresMigrate(args: CliArgs, databaseUrl: string) {
+  const sql = new SQL(databaseUrl);
+  const url = new URL(databaseUrl);
+
+  try {
+    await reportMigrations(args, `${url.protocol}//${url.host}${url.pathname}`, new PostgresMigrator(sql));
+  } finally {
+    await sql.close();
+  }
+}
+
+async function reportMigrations(args: CliArgs, database: string, migrator: Migrator | PostgresMigrator) {
+  if (args.status) {
+    console.log(`Database: ${database}`);
+    console.log(`Schema version: ${await migrator.getCurrentVersion()}\n`);
+
+    for (const migration of await migrator.getStatus()) {
+      const version = String(migration.version).padStart(3, '0');
+      const appliedAt = migration.applied_at ? new Date(migration.applied_at).toISOString() : '';
+      console.log(`  ${version}  ${migration.state.padEnd(8)}  ${migration.name.padEnd(32)}  ${appliedAt}`);
+    }
+    return;
+  }
+
+  const migrations = await migrator.migrate({ dryRun: args.dryRun });
+
+  if (migrations.length === 0) {
+    console.log(`Database is up to date (version ${await migrator.getCurrentVersion()})`);
+    return;
+  }
+
+  for (const migration of migrations) {
+    const version = String(migration.version).padStart(3, '0');
+    console.log(`${args.dryRun ? 'Would apply' : 'Applied'} ${version} (${migration.name})`);
+  }
+}
+
+/**
+ * expo-controller backup --out <archive>
+ */
+async function runBackup(args: CliArgs, dbPath: string, storagePath: string, databaseUrl?: string) {
+  if (databaseUrl) {
+    throw new Error('backup supports SQLite only; back up PostgreSQL with pg_dump and the storage backend separately');
+  }
+  if (!args.out) {
+    throw new Error('backup requires --out <archive>');
+  }
+  if (!existsSync(dbPath)) {
+    throw new Error(`No database at ${dbPath}`);
+  }
+
+  const config = createConfig({ port: 3000, dbPath, storagePath });
+  const archivePath = resolve(args.out);
+  const manifest = await createBackup({
+    dbPath,
+    driver: createStorageDriver(config),
+    archivePath,
+    certsKeyId: loadCertsKeyring(config).currentKeyId,
+  });
+
+  console.log(`Backup written to ${archivePath}`);
+  printManifest(manifest);
+  for (const file of manifest.missing) {
+    console.log(`  ⚠️  ${file.key} was deleted before it could be copied`);
+  }
+}
+
+/**
+ * expo-controller restore <archive> [--dry-run]
+ */
+async function runRestore(args: CliArgs, dbPath: string, storagePath: string) {
+  if (!args.archive) {
+    throw new Error('restore requires an archive path');
+  }
+
+  if (args.dryRun) {
+    const manifest = await verifyBackup(args.archive);
+    console.log(`Archive ${args.archive} is valid`);
+    printManifest(manifest);
+    return;
+  }
+
+  const manifest = await restoreBackup(args.archive, { dbPath: resolve(dbPath), storagePath: resolve(storagePath) });
+  console.log(`Restored ${args.archive} to ${dbPath} (artifacts in ${storagePath})`);
+  printManifest(manifest);
+  if (manifest.certs_key_id) {
+    // Backups never contain the master key itself
+    console.log(`\nCerts bundles are encrypted with master key ${manifest.certs_key_id}.`);
+    console.log('Start the controller with that key in CERTS_MASTER_KEY (or copy its certs-master.key into the storage directory).');
+  }
+}
+
+/**
+ * expo-controller export [--out <file>]
+ */
+async function runExport(args: CliArgs, dbPath: string, storagePath: string, databaseUrl?: string) {
+  if (!databaseUrl && !existsSync(dbPath)) {
+    throw new Error(`No database at ${dbPath}`);
+  }
+  if (!args.out) {
+    // stdout carries the export itself, so keep migration notices off it
+    console.log = console.error;
+  }
+
+  const db = createDatabase(createConfig({ port: 3000, dbPath, databaseUrl, storagePath }));
+  const out = args.out ? createWriteStream(args.out, { mode: 0o600 }) : process.stdout;
+
+  try {
+    await db.migrate();
+    const counts = await exportNdjson(db, out);
+    if (out !== process.stdout) {
+      out.end();
+      await once(out, 'finish');
+    }
+    console.error(
+      `Exported ${counts.workers} workers, ${counts.groups} groups, ` +
+      `${counts.schedules} schedules (${counts.schedule_runs} runs), ` +
+      `${counts.builds} builds (${counts.attempts} attempts), ${counts.logs} log lines`
+    );
+  } finally {
+    await db.close();
+  }
+}
+
+function printManifest(manifest: BackupManifest) {
+  const bytes = manifest.files.reduce((sum, file) => sum + file.size, manifest.database.size);
+  console.log(`  Created:         ${new Date(manifest.created_at).toISOString()}`);
+  console.log(`  Schema version:  ${manifest.schema_version}`);
+  console.log(`  Artifacts:       ${manifest.files.length} (${(bytes / 1024 / 1024).toFixed(1)} MB with database)`);
+  console.log(`  Certs key:       ${manifest.certs_key_id ?? 'unknown'}`);
+}
+
 async function main() {
   const args = parseArgs();
 
   // Defaults
   const port = args.port || 3000;
   const dbPath = args.dbPath || join(process.cwd(), 'data', 'controller.db');
+  const databaseUrl = args.databaseUrl || DEFAULT_CONFIG.databaseUrl;
+
+  if (args.command === 'migrate') {
+    if (databaseUrl) {
+      await runPostgresMigrate(args, databaseUrl);
+      return;
+    }
+
+    const dbDir = join(dbPath, '..');
+    if (!args.status && !args.dryRun && !existsSync(dbDir)) {
+      mkdirSync(dbDir, { recursive: true });
+    }
+    await runMigrate(args, dbPath);
+    return;
+  }
+
   const storagePath = args.storagePath || join(process.cwd(), 'storage');
 
+  if (args.command === 'backup') {
+    await runBackup(args, dbPath, storagePath, databaseUrl);
+    return;
+  }
+  if (args.command === 'restore') {
+    await runRestore(args, dbPath, storagePath);
+    return;
+  }
+  if (args.command === 'export') {
+    await runExport(args, dbPath, storagePath, databaseUrl);
+    return;
+  }
+
   // Ensure directories exist
   const dbDir = join(dbPath, '..');
-  if (!existsSync(dbDir)) {
+  if (!databaseUrl && !existsSync(dbDir)) {
     mkdirSync(dbDir, { recursive: true });
   }
   if (!existsSync(storagePath)) {
@@ -77,6 +311,7 @@ async function main() {
   const config = createConfig({
     port,
     dbPath,
+    databaseUrl,
     storagePath,
     ...(args.apiKey && { apiKey: args.apiKey }),
   });
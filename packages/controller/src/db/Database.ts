@@ -1,25 +1,53 @@
-import { Database as BunDatabase } from 'bun:sqlite';
-import { readFileSync } from 'fs';
-import { join, dirname } from 'path';
-import { fileURLToPath } from 'url';
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
-
 export interface Worker {
   id: string;
   name: string;
-  status: 'idle' | 'building' | 'offline';
+  status: 'idle' | 'building' | 'offline'; // building while any slot is in use
   capabilities: string; // JSON
   registered_at: number;
   last_seen_at: number;
   builds_completed: number;
   builds_failed: number;
+  max_concurrent_builds: number; // Build slots
+  active_builds: number; // Slots in use
+  drain_requested_at: number | null; // Set while draining: no new builds
+  paused_at: number | null; // Set while paused: no new builds
+}
+
+export type NewWorker = Omit<
+  Worker,
+  'builds_completed' | 'builds_failed' | 'max_concurrent_builds' | 'active_builds' | 'drain_requested_at' | 'paused_at'
+> &
+  Partial<Pick<Worker, 'max_concurrent_builds'>>;
+
+/**
+ * A controller-wide setting, kept in the database so it survives restarts
+ */
+export interface ControllerSetting {
+  key: string;
+  value: string; // JSON
+  updated_at: number;
+}
+
+/**
+ * One stretch of a worker being online
+ */
+export interface WorkerSession {
+  id: number;
+  worker_id: string;
+  online_at: number;
+  offline_at: number | null; // null while online; else when last seen
 }
 
+/**
+ * Dispatch order between priorities; fair-share applies within each
+ */
+export const BUILD_PRIORITIES = ['urgent', 'normal', 'background'] as const;
+
+export type BuildPriority = (typeof BUILD_PRIORITIES)[number];
+
 export interface Build {
   id: string;
-  status: 'pending' | 'assigned' | 'building' | 'completed' | 'failed';
+  status: 'pending' | 'assigned' | 'building' | 'completed' | 'failed' | 'cancelled';
   platform: 'ios' | 'android';
   source_path: string;
   certs_path: string | null;
@@ -30,11 +58,117 @@ export interface Build {
   completed_at: number | null;
   error_message: string | null;
   access_token: string;
+  last_heartbeat_at: number | null;
+  source_sha256: string | null;
+  certs_sha256: string | null;
+  result_sha256: string | null;
+  source_size: number | null;
+  certs_size: number | null;
+  result_size: number | null;
+  source_deleted_at: number | null;
+  certs_deleted_at: number | null;
+  result_deleted_at: number | null;
+  pinned: number; // SQLite boolean (0 or 1)
+  last_accessed_at: number | null;
+  priority: BuildPriority;
+  submitter: string | null; // Self-reported; null builds share one fair-share slot
+  requirements: string | null; // JSON BuildRequirements
+  attempt: number; // Current attempt, from 1
+  retry_after: number | null; // Not dispatched before this time (retry backoff)
+  group_id: string | null; // Set for builds submitted for several platforms at once
+  cache_key: string | null; // Fingerprint of the inputs (buildCacheKey)
+  cached_from: string | null; // Build whose result a cache hit reused
+  lease_expires_at: number | null; // While running: when the worker's lease lapses unless renewed
+  max_queue_wait_ms: number | null; // Submitter's limits; null uses the controller's (TimeoutPolicy)
+  max_duration_ms: number | null;
+  cancel_requested_at: number | null; // When cancelled, or timed out while running: the worker must stop
+  cancel_acknowledged_at: number | null; // When the worker running it confirmed it stopped
+}
+
+/**
+ * Builds of one submission for several platforms
+ * Its builds share the group's access token
+ */
+export interface BuildGroup {
+  id: string;
+  access_token: string;
+  submitted_at: number;
+  submitter: string | null;
+}
+
+/**
+ * Builds submitted on a cron expression, from a stored source blob or a git
+ * branch or tag
+ */
+export interface Schedule {
+  id: string;
+  name: string;
+  cron: string; // 5-field cron expression, evaluated in UTC
+  platforms: string; // Comma-separated; several submit a build group
+  source_sha256: string | null; // Blob the schedule holds a reference to
+  certs_sha256: string | null;
+  git_url: string | null; // Fetched at each run instead of a stored source
+  git_ref: string | null;
+  priority: BuildPriority;
+  submitter: string | null;
+  requirements: string | null; // JSON BuildRequirements
+  catch_up: number; // SQLite boolean: run once for runs missed during downtime
+  created_at: number;
+  next_run_at: number;
+  last_run_at: number | null;
+}
+
+export interface ScheduleRun {
+  id: number;
+  schedule_id: string;
+  scheduled_for: number;
+  recorded_at: number;
+  outcome: 'triggered' | 'missed' | 'failed';
+  build_id: string | null; // The build, or the group's ID for several platforms
+  error_message: string | null;
+}
+
+/**
+ * Why an attempt failed: infrastructure failures (lost worker, failed
+ * upload) are retried, build failures are the project's own and are not,
+ * and neither are timeouts (the build ran past its limit)
+ */
+export type FailureType = 'infrastructure' | 'build' | 'timeout';
+
+export interface BuildAttempt {
+  build_id: string;
+  attempt: number;
+  worker_id: string | null;
+  started_at: number;
+  finished_at: number | null;
+  outcome: 'completed' | 'failed' | 'cancelled' | null; // null while running
+  failure_type: FailureType | null;
+  error_message: string | null;
+}
+
+export type BuildArtifact = 'source' | 'certs' | 'result';
+
+/**
+ * How long a completed build ran (its last attempt), for estimates
+ */
+export interface BuildDuration {
+  platform: Build['platform'];
+  worker_id: string | null;
+  duration_ms: number;
+}
+
+export interface Blob {
+  sha256: string;
+  location: string;
+  size: number;
+  ref_count: number;
+  created_at: number;
 }
 
 export interface BuildLog {
   id: number;
   build_id: string;
+  attempt: number;
   timestamp: number;
   level: 'info' | 'warn' | 'error';
   message: string;
@@ -58,349 +192,472 @@ export interface CpuSnapshot {
   memory_mb: number;
 }
 
-export class DatabaseService {
-  private db: BunDatabase;
-
-  constructor(dbPath: string) {
-    this.db = new BunDatabase(dbPath);
-    this.initSchema();
-  }
-
-  private initSchema() {
-    const schema = readFileSync(join(__dirname, 'schema.sql'), 'utf-8');
-    this.db.exec(schema);
-  }
-
-  // Workers
-  registerWorker(worker: Omit<Worker, 'builds_completed' | 'builds_failed'>) {
-    const stmt = this.db.prepare(`
-      INSERT INTO workers (id, name, status, capabilities, registered_at, last_seen_at)
-      VALUES (?, ?, ?, ?, ?, ?)
-    `);
-    stmt.run(
-      worker.id,
-      worker.name,
-      worker.status,
-      worker.capabilities,
-      worker.registered_at,
-      worker.last_seen_at
-    );
-  }
-
-  updateWorkerStatus(id: string, status: Worker['status'], lastSeenAt: number) {
-    const stmt = this.db.prepare(`
-      UPDATE workers
-      SET status = ?, last_seen_at = ?
-      WHERE id = ?
-    `);
-    stmt.run(status, lastSeenAt, id);
-  }
-
-  getWorker(id: string): Worker | undefined {
-    const stmt = this.db.prepare('SELECT * FROM workers WHERE id = ?');
-    return stmt.get(id) as Worker | undefined;
-  }
-
-  getAllWorkers(): Worker[] {
-    const stmt = this.db.prepare('SELECT * FROM workers ORDER BY last_seen_at DESC');
-    return stmt.all() as Worker[];
-  }
-
-  getIdleWorkers(): Worker[] {
-    const stmt = this.db.prepare(`
-      SELECT * FROM workers
-      WHERE status = 'idle'
-      ORDER BY builds_completed ASC
-    `);
-    return stmt.all() as Worker[];
-  }
-
-  incrementWorkerBuilds(workerId: string, success: boolean) {
-    const field = success ? 'builds_completed' : 'builds_failed';
-    const stmt = this.db.prepare(`
-      UPDATE workers
-      SET ${field} = ${field} + 1
-      WHERE id = ?
-    `);
-    stmt.run(workerId);
-  }
-
-  // Builds
-  createBuild(build: Omit<Build, 'worker_id' | 'started_at' | 'completed_at' | 'error_message' | 'result_path'>) {
-    const stmt = this.db.prepare(`
-      INSERT INTO builds (id, status, platform, source_path, certs_path, submitted_at, access_token)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
-    `);
-    stmt.run(
-      build.id,
-      build.status,
-      build.platform,
-      build.source_path,
-      build.certs_path,
-      build.submitted_at,
-      build.access_token
-    );
-  }
-
-  getBuild(id: string): Build | undefined {
-    const stmt = this.db.prepare('SELECT * FROM builds WHERE id = ?');
-    return stmt.get(id) as Build | undefined;
-  }
+export interface UploadSession {
+  id: string;
+  kind: 'source' | 'certs' | 'result';
+  status: 'uploading' | 'complete';
+  total_size: number;
+  committed_offset: number;
+  expected_sha256: string | null;
+  sha256: string | null;
+  build_id: string | null;
+  worker_id: string | null;
+  created_at: number;
+  updated_at: number;
+  expires_at: number;
+}
+
+export type NewBuild = Omit<
+  Build,
+  | 'worker_id' | 'started_at' | 'completed_at' | 'error_message' | 'result_path' | 'last_heartbeat_at'
+  | 'result_sha256' | 'result_size' | 'source_deleted_at' | 'certs_deleted_at' | 'result_deleted_at'
+  | 'pinned' | 'last_accessed_at' | 'attempt' | 'retry_after' | 'lease_expires_at'
+  | 'cancel_requested_at' | 'cancel_acknowledged_at' | 'max_queue_wait_ms' | 'max_duration_ms'
+> &
+  Partial<Pick<Build, 'max_queue_wait_ms' | 'max_duration_ms'>>;
+
+export interface BuildStatusUpdates {
+  worker_id?: string;
+  started_at?: number;
+  completed_at?: number;
+  error_message?: string;
+  result_path?: string;
+  result_sha256?: string;
+  result_size?: number;
+}
+
+/**
+ * Columns updateStatus may set besides status (never interpolate other keys)
+ */
+export const BUILD_STATUS_UPDATE_COLUMNS = [
+  'worker_id',
+  'started_at',
+  'completed_at',
+  'error_message',
+  'result_path',
+  'result_sha256',
+  'result_size',
+] as const satisfies ReadonlyArray<keyof BuildStatusUpdates>;
+
+export interface WorkerRepository {
+  /**
+   * Register a worker and open its first session
+   */
+  register(worker: NewWorker): Promise<void>;
+  updateStatus(id: string, status: Worker['status'], lastSeenAt: number): Promise<void>;
+
+  /**
+   * Record that the worker checked in; an offline worker comes back online
+   * with a new session
+   * @returns true if the worker was offline
+   */
+  markSeen(id: string, timestamp: number): Promise<boolean>;
+
+  /**
+   * Workers not offline that were last seen before `seenBefore`
+   */
+  listStale(seenBefore: number): Promise<Worker[]>;
+
+  /**
+   * Mark a worker offline and close its session at the time it was last seen
+   * @returns false if it checked in after `seenBefore` or was already offline
+   */
+  markOffline(id: string, seenBefore: number): Promise<boolean>;
+
+  /**
+   * The worker's sessions still open or closed after `since`, newest first
+   */
+  listSessions(id: string, since: number): Promise<WorkerSession[]>;
+
+  /**
+   * Change how many builds the worker runs at once
+   */
+  setMaxConcurrentBuilds(id: string, maxConcurrentBuilds: number): Promise<void>;
+
+  /**
+   * Start draining the worker at `since`, or stop with null; a draining
+   * worker keeps its builds but is assigned no new ones
+   */
+  setDraining(id: string, since: number | null): Promise<void>;
+
+  /**
+   * Pause the worker at `since`, or resume it with null; a paused worker
+   * keeps its builds but is assigned no new ones
+   */
+  setPaused(id: string, since: number | null): Promise<void>;
+
+  /**
+   * Recount the worker's slots in use from its running builds, after one of
+   * them left it; the worker is idle once none are (unless offline)
+   */
+  syncSlots(id: string): Promise<void>;
+  get(id: string): Promise<Worker | undefined>;
+  list(): Promise<Worker[]>;
+  listIdle(): Promise<Worker[]>;
+  incrementBuilds(workerId: string, success: boolean): Promise<void>;
+
+  /**
+   * Workers idle or building that checked in after `since`
+   */
+  countOnline(since: number): Promise<number>;
+}
+
+export interface BuildRepository {
+  create(build: NewBuild): Promise<void>;
+  get(id: string): Promise<Build | undefined>;
 
   /**
    * Verify build access token
    * Returns build if token is valid, undefined otherwise
    */
-  verifyBuildToken(buildId: string, token: string): Build | undefined {
-    const stmt = this.db.prepare('SELECT * FROM builds WHERE id = ? AND access_token = ?');
-    return stmt.get(buildId, token) as Build | undefined;
-  }
-
-  getAllBuilds(): Build[] {
-    const stmt = this.db.prepare('SELECT * FROM builds ORDER BY submitted_at DESC');
-    return stmt.all() as Build[];
-  }
-
-  updateBuildStatus(
-    id: string,
-    status: Build['status'],
-    updates: {
-      worker_id?: string;
-      started_at?: number;
-      completed_at?: number;
-      error_message?: string;
-      result_path?: string;
-    } = {}
-  ) {
-    const fields = ['status = ?'];
-    const values = [status];
-
-    if (updates.worker_id !== undefined) {
-      fields.push('worker_id = ?');
-      values.push(updates.worker_id);
-    }
-    if (updates.started_at !== undefined) {
-      fields.push('started_at = ?');
-      values.push(updates.started_at);
-    }
-    if (updates.completed_at !== undefined) {
-      fields.push('completed_at = ?');
-      values.push(updates.completed_at);
-    }
-    if (updates.error_message !== undefined) {
-      fields.push('error_message = ?');
-      values.push(updates.error_message);
-    }
-    if (updates.result_path !== undefined) {
-      fields.push('result_path = ?');
-      values.push(updates.result_path);
-    }
-
-    values.push(id);
-
-    const stmt = this.db.prepare(`
-      UPDATE builds
-      SET ${fields.join(', ')}
-      WHERE id = ?
-    `);
-    stmt.run(...values);
-  }
-
-  getPendingBuilds(): Build[] {
-    const stmt = this.db.prepare(`
-      SELECT * FROM builds
-      WHERE status = 'pending'
-      ORDER BY submitted_at ASC
-    `);
-    return stmt.all() as Build[];
-  }
-
-  getAssignedBuilds(): Build[] {
-    const stmt = this.db.prepare(`
-      SELECT * FROM builds
-      WHERE status = 'assigned'
-      ORDER BY started_at ASC
-    `);
-    return stmt.all() as Build[];
-  }
-
-  /**
-   * Atomic transaction: assign build to worker
-   * Prevents race condition where two workers claim same build
-   */
-  assignBuildToWorker(buildId: string, workerId: string, timestamp: number): boolean {
-    try {
-      // Use transaction to make assignment atomic
-      this.db.exec('BEGIN IMMEDIATE');
-
-      // Check build is still pending
-      const checkStmt = this.db.prepare('SELECT status FROM builds WHERE id = ?');
-      const build = checkStmt.get(buildId) as { status: string } | undefined;
-
-      if (!build || build.status !== 'pending') {
-        this.db.exec('ROLLBACK');
-        return false;
-      }
-
-      // Assign build
-      const updateStmt = this.db.prepare(`
-        UPDATE builds
-        SET status = 'assigned', worker_id = ?, started_at = ?
-        WHERE id = ?
-      `);
-      updateStmt.run(workerId, timestamp, buildId);
-
-      // Update worker
-      const workerStmt = this.db.prepare(`
-        UPDATE workers
-        SET status = 'building', last_seen_at = ?
-        WHERE id = ?
-      `);
-      workerStmt.run(timestamp, workerId);
-
-      this.db.exec('COMMIT');
-      return true;
-    } catch (err) {
-      this.db.exec('ROLLBACK');
-      throw err;
-    }
-  }
-
-  // Build Logs
-  addBuildLog(log: Omit<BuildLog, 'id'>) {
-    const stmt = this.db.prepare(`
-      INSERT INTO build_logs (build_id, timestamp, level, message)
-      VALUES (?, ?, ?, ?)
-    `);
-    stmt.run(log.build_id, log.timestamp, log.level, log.message);
-  }
-
-  getBuildLogs(buildId: string): BuildLog[] {
-    const stmt = this.db.prepare(`
-      SELECT * FROM build_logs
-      WHERE build_id = ?
-      ORDER BY timestamp ASC
-    `);
-    return stmt.all(buildId) as BuildLog[];
-  }
-
-  // Diagnostics
-  saveDiagnosticReport(report: Omit<DiagnosticReport, 'id'>): string {
-    const id = crypto.randomUUID();
-    const stmt = this.db.prepare(`
-      INSERT INTO diagnostics (id, worker_id, status, run_at, duration_ms, auto_fixed, checks)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
-    `);
-    stmt.run(
-      id,
-      report.worker_id,
-      report.status,
-      report.run_at,
-      report.duration_ms,
-      report.auto_fixed,
-      report.checks
-    );
-    return id;
-  }
-
-  getDiagnosticReports(workerId: string, limit: number = 10): DiagnosticReport[] {
-    const stmt = this.db.prepare(`
-      SELECT * FROM diagnostics
-      WHERE worker_id = ?
-      ORDER BY run_at DESC
-      LIMIT ?
-    `);
-    return stmt.all(workerId, limit) as DiagnosticReport[];
-  }
-
-  getLatestDiagnostic(workerId: string): DiagnosticReport | undefined {
-    const stmt = this.db.prepare(`
-      SELECT * FROM diagnostics
-      WHERE worker_id = ?
-      ORDER BY run_at DESC
-      LIMIT 1
-    `);
-    return stmt.get(workerId) as DiagnosticReport | undefined;
-  }
-
-  // CPU Snapshots
-  addCpuSnapshot(snapshot: Omit<CpuSnapshot, 'id'>) {
-    const stmt = this.db.prepare(`
-      INSERT INTO cpu_snapshots (build_id, timestamp, cpu_percent, memory_mb)
-      VALUES (?, ?, ?, ?)
-    `);
-    stmt.run(
-      snapshot.build_id,
-      snapshot.timestamp,
-      snapshot.cpu_percent,
-      snapshot.memory_mb
-    );
-  }
-
-  getCpuSnapshots(buildId: string): CpuSnapshot[] {
-    const stmt = this.db.prepare(`
-      SELECT * FROM cpu_snapshots
-      WHERE build_id = ?
-      ORDER BY timestamp ASC
-    `);
-    return stmt.all(buildId) as CpuSnapshot[];
-  }
-
-  getTotalBuildTimeMs(): number {
-    const stmt = this.db.prepare(`
-      SELECT SUM(completed_at - started_at) as total_ms
-      FROM builds
-      WHERE status IN ('completed', 'failed')
-      AND started_at IS NOT NULL
-      AND completed_at IS NOT NULL
-    `);
-    const result = stmt.get() as { total_ms: number | null };
-    return result.total_ms || 0;
-  }
-
-  getTotalCpuCycles(): number {
-    // Calculate total CPU cycles as sum of (cpu_percent * duration_between_snapshots)
-    // Approximation: avg CPU % across all snapshots * total build time
-    // NOTE: This performs a full table scan on cpu_snapshots (O(n)).
-    // Consider pre-computed aggregates if table exceeds 1M rows.
-    const stmt = this.db.prepare(`
-      SELECT AVG(cpu_percent) as avg_cpu, COUNT(*) as snapshot_count
-      FROM cpu_snapshots
-    `);
-    const result = stmt.get() as { avg_cpu: number | null; snapshot_count: number };
-
-    if (!result.avg_cpu || result.snapshot_count === 0) {
-      return 0;
-    }
-
-    // Total CPU cycles = avg CPU % * total build time in seconds
-    const totalBuildTimeMs = this.getTotalBuildTimeMs();
-    const totalBuildTimeSec = totalBuildTimeMs / 1000;
-    return (result.avg_cpu / 100) * totalBuildTimeSec;
-  }
+  verifyToken(buildId: string, token: string): Promise<Build | undefined>;
+
+  list(): Promise<Build[]>;
+  listPending(): Promise<Build[]>;
+  listAssigned(): Promise<Build[]>;
+
+  /**
+   * Builds of a group, in platform order
+   */
+  listByGroup(groupId: string): Promise<Build[]>;
+
+  /**
+   * Most recently completed build with this cache key whose result is still
+   * stored
+   */
+  findCached(cacheKey: string): Promise<Build | undefined>;
+
+  updateStatus(id: string, status: Build['status'], updates?: BuildStatusUpdates): Promise<void>;
+
+  /**
+   * Record that the assigned worker is still alive
+   */
+  updateHeartbeat(id: string, timestamp: number): Promise<void>;
+
+  /**
+   * Record a download, for least-recently-used eviction
+   */
+  updateAccessed(id: string, timestamp: number): Promise<void>;
+
+  setPinned(id: string, pinned: boolean): Promise<void>;
+
+  /**
+   * Builds with at least one artifact that retention has not deleted
+   */
+  listWithStoredArtifacts(): Promise<Build[]>;
+
+  /**
+   * Distinct locations of certs bundles still stored (shared blobs once)
+   */
+  listStoredCertsPaths(): Promise<string[]>;
+
+  markArtifactDeleted(id: string, artifact: BuildArtifact, timestamp: number): Promise<void>;
+
+  /**
+   * Point a build at its artifacts' new locations (restoring a backup into
+   * different storage)
+   */
+  updateArtifactLocations(id: string, locations: Pick<Build, 'source_path' | 'certs_path' | 'result_path'>): Promise<void>;
+
+  /**
+   * Atomically assign a pending build to a worker under a lease until
+   * leaseExpiresAt, take one of the worker's slots and open its current
+   * attempt
+   * Prevents race condition where two workers claim same build, or one worker
+   * more builds than it has slots
+   * @returns false if the build was no longer pending or no slot was free
+   */
+  assignToWorker(buildId: string, workerId: string, timestamp: number, leaseExpiresAt: number): Promise<boolean>;
+
+  /**
+   * Record a heartbeat from the worker holding the build and extend its lease
+   * @returns false if the worker no longer holds an unexpired lease
+   */
+  renewLease(id: string, workerId: string, timestamp: number, leaseExpiresAt: number): Promise<boolean>;
+
+  /**
+   * Running builds whose lease expired by now, soonest expired first
+   */
+  listExpiredLeases(now: number): Promise<Build[]>;
+
+  /**
+   * Take back an expired lease from the worker (clears lease_expires_at)
+   * @returns false if the lease was renewed or ended in the meantime
+   */
+  reclaimLease(id: string, attempt: number, now: number): Promise<boolean>;
+
+  /**
+   * End the worker's unexpired lease as it reports the attempt's outcome
+   * (clears lease_expires_at)
+   * @returns false if the lease expired or was reclaimed
+   */
+  releaseLease(id: string, workerId: string, attempt: number, now: number): Promise<boolean>;
+
+  /**
+   * Take back a lease, expired or not, from a worker that went offline
+   * (clears lease_expires_at)
+   * @returns false if the lease ended in the meantime
+   */
+  revokeLease(id: string, attempt: number): Promise<boolean>;
+
+  /**
+   * Cancel a pending or running build, ending any lease; a running build
+   * keeps its worker_id until the worker acknowledges
+   * @returns false if the build had already finished
+   */
+  cancel(id: string, timestamp: number, message: string): Promise<boolean>;
+
+  /**
+   * Fail a pending or running build that exceeded its queue wait or duration
+   * limit, ending any lease; a running build's worker is told to stop as
+   * for a cancellation
+   * @returns false if the build had moved on from that attempt or finished
+   */
+  timeOut(id: string, attempt: number, timestamp: number, message: string): Promise<boolean>;
+
+  /**
+   * Builds cancelled (or timed out) while the worker ran them that it has
+   * not yet acknowledged stopping
+   */
+  listUnacknowledgedCancels(workerId: string): Promise<Build[]>;
+
+  /**
+   * Record that the worker stopped a cancelled (or timed out) build
+   * @returns false if the build is not one of this worker's awaiting
+   * acknowledgement
+   */
+  acknowledgeCancel(id: string, workerId: string, timestamp: number): Promise<boolean>;
+
+  /**
+   * Return a running build to pending as its next attempt, held back until
+   * retryAfter
+   * @returns false if the build was no longer running that attempt
+   */
+  scheduleRetry(id: string, attempt: number, retryAfter: number): Promise<boolean>;
+
+  countByStatus(statuses: Build['status'][]): Promise<number>;
+  countCompletedSince(timestamp: number): Promise<number>;
+
+  /**
+   * Sum of started → completed time over finished builds
+   */
+  getTotalBuildTimeMs(): Promise<number>;
+
+  /**
+   * Durations of the most recently completed builds, newest first (cache
+   * hits excluded)
+   */
+  listRecentDurations(limit: number): Promise<BuildDuration[]>;
+}
+
+export interface BuildLogRepository {
+  /**
+   * Append a log line to the build's current attempt
+   */
+  add(log: Omit<BuildLog, 'id' | 'attempt'>): Promise<void>;
+  list(buildId: string): Promise<BuildLog[]>;
+
+  /**
+   * The build's logs added after the one with afterId, in the order added
+   */
+  listAfter(buildId: string, afterId: number): Promise<BuildLog[]>;
+
+  /**
+   * Count logs of unpinned builds that finished before cutoff
+   */
+  countExpired(cutoff: number): Promise<number>;
+
+  /**
+   * Delete logs of unpinned builds that finished before cutoff
+   * @returns Number of log entries deleted
+   */
+  purgeExpired(cutoff: number): Promise<number>;
+}
+
+export interface BuildGroupRepository {
+  create(group: BuildGroup): Promise<void>;
+  get(id: string): Promise<BuildGroup | undefined>;
+
+  /**
+   * Groups, oldest first
+   */
+  list(): Promise<BuildGroup[]>;
+}
+
+export interface ScheduleRepository {
+  create(schedule: Omit<Schedule, 'last_run_at'>): Promise<void>;
+  get(id: string): Promise<Schedule | undefined>;
+
+  /**
+   * Schedules, oldest first
+   */
+  list(): Promise<Schedule[]>;
+
+  /**
+   * Schedules whose next run is due at now
+   */
+  listDue(now: number): Promise<Schedule[]>;
+
+  /**
+   * Move a schedule on to its next run, unless another run already did
+   * @returns true if the schedule was still due at dueAt
+   */
+  advance(id: string, dueAt: number, nextRunAt: number, lastRunAt: number | null): Promise<boolean>;
+
+  /**
+   * Delete a schedule and its run history
+   */
+  delete(id: string): Promise<void>;
+
+  recordRun(run: Omit<ScheduleRun, 'id'>): Promise<void>;
+
+  /**
+   * A schedule's most recent runs, newest first
+   */
+  listRuns(scheduleId: string, limit?: number): Promise<ScheduleRun[]>;
+}
+
+export interface BuildAttemptRepository {
+  /**
+   * Attempts of a build, first to last
+   */
+  list(buildId: string): Promise<BuildAttempt[]>;
+
+  /**
+   * Record how an attempt ended (only the first outcome sticks)
+   */
+  finish(
+    buildId: string,
+    attempt: number,
+    result: Pick<BuildAttempt, 'finished_at' | 'outcome'> & Partial<Pick<BuildAttempt, 'failure_type' | 'error_message'>>
+  ): Promise<void>;
+}
+
+export interface DiagnosticRepository {
+  save(report: Omit<DiagnosticReport, 'id'>): Promise<string>;
+  list(workerId: string, limit?: number): Promise<DiagnosticReport[]>;
+  getLatest(workerId: string): Promise<DiagnosticReport | undefined>;
+}
+
+export interface CpuSnapshotRepository {
+  add(snapshot: Omit<CpuSnapshot, 'id'>): Promise<void>;
+  list(buildId: string): Promise<CpuSnapshot[]>;
+  count(): Promise<number>;
+
+  /**
+   * Average CPU usage across all snapshots, or null without snapshots
+   * NOTE: This performs a full table scan on cpu_snapshots (O(n)).
+   * Consider pre-computed aggregates if table exceeds 1M rows.
+   */
+  getAverageCpuPercent(): Promise<number | null>;
 
   /**
    * Delete CPU snapshots older than specified days
    * Should be called periodically to prevent unbounded growth
    * @returns Number of snapshots deleted
    */
-  purgeCpuSnapshotsOlderThan(daysOld: number): number {
-    const cutoff = Date.now() - (daysOld * 24 * 60 * 60 * 1000);
-    const stmt = this.db.prepare('DELETE FROM cpu_snapshots WHERE timestamp < ?');
-    const result = stmt.run(cutoff);
-    return result.changes;
-  }
+  purgeOlderThan(daysOld: number): Promise<number>;
+}
+
+export interface UploadSessionRepository {
+  create(session: Omit<UploadSession, 'status' | 'committed_offset' | 'sha256'>): Promise<void>;
+  get(id: string): Promise<UploadSession | undefined>;
+
+  /**
+   * Advance committed offset after a chunk is durably written
+   * Conditional on the previous offset so concurrent PUTs for the same
+   * session cannot both commit
+   * @returns true if the offset was advanced
+   */
+  advanceOffset(id: string, fromOffset: number, toOffset: number, timestamp: number, expiresAt: number): Promise<boolean>;
+
+  complete(id: string, sha256: string, timestamp: number): Promise<void>;
+
+  /**
+   * Remove a finalized, unexpired session so its file can be taken over
+   * Conditional so concurrent requests referencing the same upload cannot
+   * both claim it
+   * @returns true if this caller claimed the session
+   */
+  claim(id: string, now: number): Promise<boolean>;
+
+  delete(id: string): Promise<void>;
+  listExpired(now: number): Promise<UploadSession[]>;
+}
+
+export interface BlobRepository {
+  get(sha256: string): Promise<Blob | undefined>;
+  getByLocation(location: string): Promise<Blob | undefined>;
+  list(): Promise<Blob[]>;
+
+  /**
+   * Record a stored blob with refCount references, or add refCount
+   * references (and the new location) if the hash is already known
+   */
+  register(blob: Omit<Blob, 'ref_count'>, refCount?: number): Promise<void>;
+
+  addReference(sha256: string): Promise<void>;
 
   /**
-   * Get count of CPU snapshots for monitoring storage growth
+   * Drop one reference, deleting the record when none remain
+   * @returns References left (0 means the stored bytes can be deleted)
    */
-  getCpuSnapshotCount(): number {
-    const stmt = this.db.prepare('SELECT COUNT(*) as count FROM cpu_snapshots');
-    const result = stmt.get() as { count: number };
-    return result.count;
-  }
+  releaseReference(sha256: string): Promise<number>;
 
-  close() {
-    this.db.close();
-  }
+  updateLocation(sha256: string, location: string): Promise<void>;
 }
+
+export interface SettingRepository {
+  get(key: string): Promise<ControllerSetting | undefined>;
+  set(key: string, value: string, timestamp: number): Promise<void>;
+
+  /**
+   * @returns false if the setting was not set
+   */
+  delete(key: string): Promise<boolean>;
+}
+
+/**
+ * Controller persistence, one repository per aggregate
+ *
+ * All SQL lives behind these interfaces. Implementations: SqliteDatabase
+ * (bun:sqlite, the default) and PostgresDatabase (DATABASE_URL), created by
+ * createDatabase().
+ */
+export interface DatabaseService {
+  readonly workers: WorkerRepository;
+  readonly builds: BuildRepository;
+  readonly groups: BuildGroupRepository;
+  readonly logs: BuildLogRepository;
+  readonly attempts: BuildAttemptRepository;
+  readonly schedules: ScheduleRepository;
+  readonly diagnostics: DiagnosticRepository;
+  readonly cpuSnapshots: CpuSnapshotRepository;
+  readonly uploads: UploadSessionRepository;
+  readonly blobs: BlobRepository;
+  readonly settings: SettingRepository;
+
+  /**
+   * Bring the schema up to date (a no-op when already current)
+   */
+  migrate(): Promise<void>;
+
+  /**
+   * Claim the database for this controller until close()
+   * The queue and its fair-share state live in the controller's memory, so
+   * only one controller may assign builds from a database at a time.
+   * @throws if another controller holds the database
+   */
+  lockController(): Promise<void>;
+
+  close(): Promise<void>;
+}
+
+/**
+ * Column recording when retention deleted each artifact
+ */
+export const ARTIFACT_DELETED_COLUMNS: Record<BuildArtifact, string> = {
+  source: 'source_deleted_at',
+  certs: 'certs_deleted_at',
+  result: 'result_deleted_at',
+};
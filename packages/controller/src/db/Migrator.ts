@@ -0,0 +1,254 @@
+import { Database as BunDatabase } from 'bun:sqlite';
+import { readFileSync, readdirSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import crypto from 'crypto';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+export const MIGRATIONS_DIR = join(__dirname, 'migrations');
+
+/**
+ * PostgreSQL versions of the same migrations, numbered alike
+ */
+export const POSTGRES_MIGRATIONS_DIR = join(__dirname, 'migrations', 'postgres');
+
+const MIGRATION_FILE_PATTERN = /^(\d+)_([a-z0-9_]+)\.sql$/;
+
+const ADD_COLUMN_PATTERN = /ALTER\s+TABLE\s+(\w+)\s+ADD\s+COLUMN\s+(\w+)[^;]*;/gi;
+
+export interface Migration {
+  version: number;
+  name: string;
+  sql: string;
+  checksum: string;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: number;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  state: 'applied' | 'pending' | 'modified';
+  applied_at: number | null;
+}
+
+/**
+ * Load numbered migrations (e.g. 003_add_build_priority.sql) from a directory
+ * Files are sorted by version; duplicate versions are rejected
+ */
+export function loadMigrations(dir: string = MIGRATIONS_DIR): Migration[] {
+  const migrations: Migration[] = [];
+  const seen = new Set<number>();
+
+  for (const file of readdirSync(dir)) {
+    const match = MIGRATION_FILE_PATTERN.exec(file);
+    if (!match) {
+      continue;
+    }
+
+    const version = parseInt(match[1], 10);
+    if (seen.has(version)) {
+      throw new Error(`Duplicate migration version ${version} (${file})`);
+    }
+    seen.add(version);
+
+    const sql = readFileSync(join(dir, file), 'utf-8');
+    migrations.push({
+      version,
+      name: match[2],
+      sql,
+      checksum: crypto.createHash('sha256').update(sql).digest('hex'),
+    });
+  }
+
+  return migrations.sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Refuse to run against a database this controller doesn't understand:
+ * one migrated by a newer controller, or one whose applied migrations
+ * have since been edited
+ */
+export function verifyMigrations(migrations: Migration[], applied: AppliedMigration[]) {
+  const known = new Map(migrations.map((m) => [m.version, m]));
+
+  for (const record of applied) {
+    const migration = known.get(record.version);
+    if (!migration) {
+      throw new Error(
+        `Database has migration ${record.version} (${record.name}) which this controller does not know about. ` +
+        'Upgrade the controller before starting it against this database.'
+      );
+    }
+
+    if (migration.checksum !== record.checksum) {
+      throw new Error(
+        `Migration ${record.version} (${record.name}) has changed since it was applied. ` +
+        'Applied migrations must not be edited; add a new migration instead.'
+      );
+    }
+  }
+
+  const appliedVersions = new Set(applied.map((m) => m.version));
+  const current = applied.reduce((max, m) => Math.max(max, m.version), 0);
+  const skipped = migrations.find((m) => !appliedVersions.has(m.version) && m.version < current);
+  if (skipped) {
+    throw new Error(
+      `Migration ${skipped.version} (${skipped.name}) is older than the current schema version ${current}. ` +
+      'Migrations are forward-only; renumber it after the latest applied migration.'
+    );
+  }
+}
+
+/**
+ * Status of every known migration given the applied records
+ */
+export function migrationStatus(migrations: Migration[], applied: AppliedMigration[]): MigrationStatus[] {
+  const records = new Map(applied.map((m) => [m.version, m]));
+
+  return migrations.map((migration) => {
+    const record = records.get(migration.version);
+    if (!record) {
+      return { version: migration.version, name: migration.name, state: 'pending', applied_at: null };
+    }
+
+    return {
+      version: migration.version,
+      name: migration.name,
+      state: record.checksum === migration.checksum ? 'applied' : 'modified',
+      applied_at: record.applied_at,
+    };
+  });
+}
+
+/**
+ * Forward-only schema migrator
+ *
+ * Applied versions are recorded in schema_migrations along with a checksum of
+ * the SQL that ran. Each pending migration runs in its own transaction, so a
+ * failing migration leaves the database at the last good version.
+ *
+ * SQLite has no ADD COLUMN IF NOT EXISTS (the PostgreSQL migrations use it),
+ * so ADD COLUMN statements for columns that already exist, e.g. added by hand
+ * to work around a missing migration, are skipped instead of failing.
+ */
+export class Migrator {
+  private db: BunDatabase;
+  private migrations: Migration[];
+
+  constructor(db: BunDatabase, migrations: Migration[] = loadMigrations()) {
+    this.db = db;
+    this.migrations = migrations;
+  }
+
+  private hasMigrationsTable(): boolean {
+    const stmt = this.db.prepare(
+      "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'"
+    );
+    return stmt.get() !== null;
+  }
+
+  private ensureMigrationsTable() {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        checksum TEXT NOT NULL,
+        applied_at INTEGER NOT NULL
+      )
+    `);
+  }
+
+  getApplied(): AppliedMigration[] {
+    // Read-only callers (status, dry runs) must not create the table
+    if (!this.hasMigrationsTable()) {
+      return [];
+    }
+
+    const stmt = this.db.prepare('SELECT * FROM schema_migrations ORDER BY version ASC');
+    return stmt.all() as AppliedMigration[];
+  }
+
+  /**
+   * Highest applied version, or 0 for a database with no recorded migrations
+   */
+  getCurrentVersion(): number {
+    return this.getApplied().reduce((max, m) => Math.max(max, m.version), 0);
+  }
+
+  getStatus(): MigrationStatus[] {
+    return migrationStatus(this.migrations, this.getApplied());
+  }
+
+  getPending(): Migration[] {
+    const applied = new Set(this.getApplied().map((m) => m.version));
+    return this.migrations.filter((m) => !applied.has(m.version));
+  }
+
+  /**
+   * Apply all pending migrations in version order
+   * @param options.dryRun - Report what would run without touching the schema
+   * @returns Migrations that were (or, for a dry run, would be) applied
+   */
+  migrate(options: { dryRun?: boolean } = {}): Migration[] {
+    this.verify();
+
+    const pending = this.getPending();
+    if (options.dryRun || pending.length === 0) {
+      return pending;
+    }
+
+    this.ensureMigrationsTable();
+    for (const migration of pending) {
+      this.apply(migration);
+    }
+
+    return pending;
+  }
+
+  /**
+   * Refuse to run against a database this controller doesn't understand
+   */
+  private verify() {
+    verifyMigrations(this.migrations, this.getApplied());
+  }
+
+  private skipExistingColumns(sql: string): string {
+    return sql.replace(ADD_COLUMN_PATTERN, (statement, table: string, column: string) => {
+      const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+      return columns.some(({ name }) => name.toLowerCase() === column.toLowerCase()) ? '' : statement;
+    });
+  }
+
+  private apply(migration: Migration) {
+    try {
+      this.db.exec('BEGIN IMMEDIATE');
+
+      // Nothing may be left to run but comments, which exec rejects
+      const sql = this.skipExistingColumns(migration.sql);
+      if (/\S/.test(sql.replace(/--.*$/gm, ''))) {
+        this.db.exec(sql);
+      }
+
+      const stmt = this.db.prepare(`
+        INSERT INTO schema_migrations (version, name, checksum, applied_at)
+        VALUES (?, ?, ?, ?)
+      `);
+      stmt.run(migration.version, migration.name, migration.checksum, Date.now());
+
+      this.db.exec('COMMIT');
+    } catch (err) {
+      this.db.exec('ROLLBACK');
+      throw new Error(
+        `Migration ${migration.version} (${migration.name}) failed: ${err instanceof Error ? err.message : String(err)}`
+      );
+    }
+  }
+}
@@ -0,0 +1,1016 @@
+import { SQL, type ReservedSQL } from 'bun';
+import { PostgresMigrator } from './PostgresMigrator.js';
+import {
+  ARTIFACT_DELETED_COLUMNS,
+  BUILD_STATUS_UPDATE_COLUMNS,
+  type Blob,
+  type BlobRepository,
+  type Build,
+  type BuildArtifact,
+  type BuildAttempt,
+  type BuildAttemptRepository,
+  type BuildDuration,
+  type BuildGroup,
+  type BuildGroupRepository,
+  type BuildLog,
+  type BuildLogRepository,
+  type BuildRepository,
+  type BuildStatusUpdates,
+  type ControllerSetting,
+  type CpuSnapshot,
+  type CpuSnapshotRepository,
+  type DatabaseService,
+  type DiagnosticReport,
+  type DiagnosticRepository,
+  type NewBuild,
+  type NewWorker,
+  type Schedule,
+  type ScheduleRepository,
+  type ScheduleRun,
+  type SettingRepository,
+  type UploadSession,
+  type UploadSessionRepository,
+  type Worker,
+  type WorkerRepository,
+  type WorkerSession,
+} from './Database.js';
+
+type Row = Record<string, unknown>;
+
+/**
+ * BIGINT, NUMERIC and COUNT(*) values arrive as strings; rows expose them as
+ * numbers like SQLite does (timestamps and sizes fit in a double)
+ */
+function mapRow<T>(row: Row | undefined, numericColumns: readonly string[]): T | undefined {
+  if (!row) {
+    return undefined;
+  }
+
+  for (const column of numericColumns) {
+    if (row[column] !== null && row[column] !== undefined) {
+      row[column] = Number(row[column]);
+    }
+  }
+  return row as T;
+}
+
+function mapRows<T>(rows: Row[], numericColumns: readonly string[]): T[] {
+  return rows.map((row) => mapRow<T>(row, numericColumns)!);
+}
+
+const WORKER_NUMBERS = [
+  'registered_at', 'last_seen_at', 'builds_completed', 'builds_failed', 'max_concurrent_builds', 'active_builds',
+  'drain_requested_at', 'paused_at',
+] as const;
+const BUILD_NUMBERS = [
+  'submitted_at', 'started_at', 'completed_at', 'last_heartbeat_at',
+  'source_size', 'certs_size', 'result_size',
+  'source_deleted_at', 'certs_deleted_at', 'result_deleted_at',
+  'pinned', 'last_accessed_at', 'retry_after', 'lease_expires_at',
+  'cancel_requested_at', 'cancel_acknowledged_at', 'max_queue_wait_ms', 'max_duration_ms',
+] as const;
+const LOG_NUMBERS = ['id', 'timestamp'] as const;
+const ATTEMPT_NUMBERS = ['started_at', 'finished_at'] as const;
+const GROUP_NUMBERS = ['submitted_at'] as const;
+const WORKER_SESSION_NUMBERS = ['id', 'online_at', 'offline_at'] as const;
+const DURATION_NUMBERS = ['duration_ms'] as const;
+const SCHEDULE_NUMBERS = ['created_at', 'next_run_at', 'last_run_at'] as const;
+const SCHEDULE_RUN_NUMBERS = ['id', 'scheduled_for', 'recorded_at'] as const;
+const DIAGNOSTIC_NUMBERS = ['run_at', 'duration_ms', 'auto_fixed'] as const;
+const CPU_SNAPSHOT_NUMBERS = ['id', 'timestamp', 'cpu_percent', 'memory_mb'] as const;
+const UPLOAD_NUMBERS = ['total_size', 'committed_offset', 'created_at', 'updated_at', 'expires_at'] as const;
+const BLOB_NUMBERS = ['size', 'ref_count', 'created_at'] as const;
+const SETTING_NUMBERS = ['updated_at'] as const;
+
+/**
+ * Held for a running controller's lifetime, so a second one refuses to start
+ */
+const CONTROLLER_LOCK_KEY = `hashtext('expo-free-agent:controller')`;
+
+/**
+ * PostgreSQL implementation (Bun's built-in client) for managed
+ * infrastructure; one controller per database (see lockController)
+ * Call migrate() before first use.
+ */
+export class PostgresDatabase implements DatabaseService {
+  private sql: SQL;
+  private lockConnection?: ReservedSQL;
+
+  readonly workers: WorkerRepository;
+  readonly builds: BuildRepository;
+  readonly groups: BuildGroupRepository;
+  readonly logs: BuildLogRepository;
+  readonly attempts: BuildAttemptRepository;
+  readonly schedules: ScheduleRepository;
+  readonly diagnostics: DiagnosticRepository;
+  readonly cpuSnapshots: CpuSnapshotRepository;
+  readonly uploads: UploadSessionRepository;
+  readonly blobs: BlobRepository;
+  readonly settings: SettingRepository;
+
+  constructor(url: string) {
+    this.sql = new SQL(url);
+
+    this.workers = new PostgresWorkerRepository(this.sql);
+    this.builds = new PostgresBuildRepository(this.sql);
+    this.groups = new PostgresBuildGroupRepository(this.sql);
+    this.logs = new PostgresBuildLogRepository(this.sql);
+    this.attempts = new PostgresBuildAttemptRepository(this.sql);
+    this.schedules = new PostgresScheduleRepository(this.sql);
+    this.diagnostics = new PostgresDiagnosticRepository(this.sql);
+    this.cpuSnapshots = new PostgresCpuSnapshotRepository(this.sql);
+    this.uploads = new PostgresUploadSessionRepository(this.sql);
+    this.blobs = new PostgresBlobRepository(this.sql);
+    this.settings = new PostgresSettingRepository(this.sql);
+  }
+
+  async migrate() {
+    const applied = await new PostgresMigrator(this.sql).migrate();
+    for (const migration of applied) {
+      console.log(`[Migrations] Applied ${migration.version} (${migration.name})`);
+    }
+  }
+
+  /**
+   * Take a session advisory lock on a connection reserved until close()
+   */
+  async lockController() {
+    const connection = await this.sql.reserve();
+    const [{ locked }] = await connection.unsafe(`SELECT pg_try_advisory_lock(${CONTROLLER_LOCK_KEY}) AS locked`);
+
+    if (!locked) {
+      connection.release();
+      throw new Error(
+        'Another controller is running against this database. ' +
+        'Only one controller may use a database at a time; stop it first.'
+      );
+    }
+    this.lockConnection = connection;
+  }
+
+  async close() {
+    if (this.lockConnection) {
+      await this.lockConnection.unsafe(`SELECT pg_advisory_unlock(${CONTROLLER_LOCK_KEY})`);
+      this.lockConnection.release();
+      this.lockConnection = undefined;
+    }
+    await this.sql.close();
+  }
+}
+
+class PostgresWorkerRepository implements WorkerRepository {
+  constructor(private sql: SQL) {}
+
+  async register(worker: NewWorker) {
+    await this.sql.begin(async (tx) => {
+      await tx`
+        INSERT INTO workers (id, name, status, capabilities, registered_at, last_seen_at, max_concurrent_builds)
+        VALUES (
+          ${worker.id}, ${worker.name}, ${worker.status}, ${worker.capabilities},
+          ${worker.registered_at}, ${worker.last_seen_at}, ${worker.max_concurrent_builds ?? 1}
+        )
+      `;
+      await tx`INSERT INTO worker_sessions (worker_id, online_at) VALUES (${worker.id}, ${worker.registered_at})`;
+    });
+  }
+
+  async updateStatus(id: string, status: Worker['status'], lastSeenAt: number) {
+    await this.sql`
+      UPDATE workers
+      SET status = ${status}, last_seen_at = ${lastSeenAt}
+      WHERE id = ${id}
+    `;
+  }
+
+  async setMaxConcurrentBuilds(id: string, maxConcurrentBuilds: number) {
+    await this.sql`UPDATE workers SET max_concurrent_builds = ${maxConcurrentBuilds} WHERE id = ${id}`;
+  }
+
+  async setDraining(id: string, since: number | null) {
+    await this.sql`UPDATE workers SET drain_requested_at = ${since} WHERE id = ${id}`;
+  }
+
+  async setPaused(id: string, since: number | null) {
+    await this.sql`UPDATE workers SET paused_at = ${since} WHERE id = ${id}`;
+  }
+
+  async syncSlots(id: string) {
+    await this.sql`
+      WITH used AS (
+        SELECT COUNT(*) AS count FROM builds
+        WHERE worker_id = ${id} AND status IN ('assigned', 'building')
+      )
+      UPDATE workers
+      SET active_builds = used.count,
+        status = CASE
+          WHEN status = 'offline' THEN 'offline'
+          WHEN used.count > 0 THEN 'building'
+          ELSE 'idle'
+        END
+      FROM used
+      WHERE id = ${id}
+    `;
+  }
+
+  async markSeen(id: string, timestamp: number): Promise<boolean> {
+    return this.sql.begin(async (tx) => {
+      const [worker] = await tx`SELECT status FROM workers WHERE id = ${id} FOR UPDATE`;
+      const returning = worker?.status === 'offline';
+
+      if (returning) {
+        await tx`
+          UPDATE workers
+          SET status = CASE WHEN active_builds > 0 THEN 'building' ELSE 'idle' END, last_seen_at = ${timestamp}
+          WHERE id = ${id}
+        `;
+        await tx`INSERT INTO worker_sessions (worker_id, online_at) VALUES (${id}, ${timestamp})`;
+      } else {
+        await tx`UPDATE workers SET last_seen_at = ${timestamp} WHERE id = ${id}`;
+      }
+      return returning;
+    });
+  }
+
+  async listStale(seenBefore: number): Promise<Worker[]> {
+    const rows = await this.sql`
+      SELECT * FROM workers
+      WHERE last_seen_at < ${seenBefore} AND status != 'offline'
+      ORDER BY last_seen_at ASC
+    `;
+    return mapRows<Worker>(rows, WORKER_NUMBERS);
+  }
+
+  async markOffline(id: string, seenBefore: number): Promise<boolean> {
+    return this.sql.begin(async (tx) => {
+      const marked = await tx`
+        UPDATE workers
+        SET status = 'offline'
+        WHERE id = ${id} AND status != 'offline' AND last_seen_at < ${seenBefore}
+        RETURNING last_seen_at
+      `;
+      if (marked.length === 0) {
+        return false;
+      }
+
+      await tx`
+        UPDATE worker_sessions
+        SET offline_at = ${marked[0].last_seen_at}
+        WHERE worker_id = ${id} AND offline_at IS NULL
+      `;
+      return true;
+    });
+  }
+
+  async listSessions(id: string, since: number): Promise<WorkerSession[]> {
+    const rows = await this.sql`
+      SELECT * FROM worker_sessions
+      WHERE worker_id = ${id} AND (offline_at IS NULL OR offline_at > ${since})
+      ORDER BY online_at DESC, id DESC
+    `;
+    return mapRows<WorkerSession>(rows, WORKER_SESSION_NUMBERS);
+  }
+
+  async get(id: string): Promise<Worker | undefined> {
+    const [row] = await this.sql`SELECT * FROM workers WHERE id = ${id}`;
+    return mapRow<Worker>(row, WORKER_NUMBERS);
+  }
+
+  async list(): Promise<Worker[]> {
+    const rows = await this.sql`SELECT * FROM workers ORDER BY last_seen_at DESC`;
+    return mapRows<Worker>(rows, WORKER_NUMBERS);
+  }
+
+  async listIdle(): Promise<Worker[]> {
+    const rows = await this.sql`
+      SELECT * FROM workers
+      WHERE status = 'idle'
+      ORDER BY builds_completed ASC
+    `;
+    return mapRows<Worker>(rows, WORKER_NUMBERS);
+  }
+
+  async incrementBuilds(workerId: string, success: boolean) {
+    const field = success ? 'builds_completed' : 'builds_failed';
+    await this.sql.unsafe(`UPDATE workers SET ${field} = ${field} + 1 WHERE id = $1`, [workerId]);
+  }
+
+  async countOnline(since: number): Promise<number> {
+    const [row] = await this.sql`
+      SELECT COUNT(*) AS count
+      FROM workers
+      WHERE status IN ('idle', 'building')
+        AND last_seen_at > ${since}
+    `;
+    return Number(row.count);
+  }
+}
+
+class PostgresBuildRepository implements BuildRepository {
+  constructor(private sql: SQL) {}
+
+  async create(build: NewBuild) {
+    await this.sql`
+      INSERT INTO builds (
+        id, status, platform, source_path, certs_path, submitted_at, access_token,
+        source_sha256, certs_sha256, source_size, certs_size, priority, submitter, requirements, group_id,
+        cache_key, cached_from, max_queue_wait_ms, max_duration_ms
+      )
+      VALUES (
+        ${build.id}, ${build.status}, ${build.platform}, ${build.source_path}, ${build.certs_path},
+        ${build.submitted_at}, ${build.access_token}, ${build.source_sha256}, ${build.certs_sha256},
+        ${build.source_size}, ${build.certs_size}, ${build.priority}, ${build.submitter},
+        ${build.requirements}, ${build.group_id}, ${build.cache_key}, ${build.cached_from},
+        ${build.max_queue_wait_ms ?? null}, ${build.max_duration_ms ?? null}
+      )
+    `;
+  }
+
+  async get(id: string): Promise<Build | undefined> {
+    const [row] = await this.sql`SELECT * FROM builds WHERE id = ${id}`;
+    return mapRow<Build>(row, BUILD_NUMBERS);
+  }
+
+  async verifyToken(buildId: string, token: string): Promise<Build | undefined> {
+    const [row] = await this.sql`SELECT * FROM builds WHERE id = ${buildId} AND access_token = ${token}`;
+    return mapRow<Build>(row, BUILD_NUMBERS);
+  }
+
+  async list(): Promise<Build[]> {
+    const rows = await this.sql`SELECT * FROM builds ORDER BY submitted_at DESC`;
+    return mapRows<Build>(rows, BUILD_NUMBERS);
+  }
+
+  async listPending(): Promise<Build[]> {
+    const rows = await this.sql`
+      SELECT * FROM builds
+      WHERE status = 'pending'
+      ORDER BY submitted_at ASC
+    `;
+    return mapRows<Build>(rows, BUILD_NUMBERS);
+  }
+
+  async listAssigned(): Promise<Build[]> {
+    const rows = await this.sql`
+      SELECT * FROM builds
+      WHERE status = 'assigned'
+      ORDER BY started_at ASC
+    `;
+    return mapRows<Build>(rows, BUILD_NUMBERS);
+  }
+
+  async listByGroup(groupId: string): Promise<Build[]> {
+    const rows = await this.sql`
+      SELECT * FROM builds
+      WHERE group_id = ${groupId}
+      ORDER BY platform ASC
+    `;
+    return mapRows<Build>(rows, BUILD_NUMBERS);
+  }
+
+  async findCached(cacheKey: string): Promise<Build | undefined> {
+    const [row] = await this.sql`
+      SELECT * FROM builds
+      WHERE cache_key = ${cacheKey} AND status = 'completed'
+      AND result_path IS NOT NULL AND result_deleted_at IS NULL
+      ORDER BY completed_at DESC
+      LIMIT 1
+    `;
+    return mapRow<Build>(row, BUILD_NUMBERS);
+  }
+
+  async updateStatus(id: string, status: Build['status'], updates: BuildStatusUpdates = {}) {
+    const fields = ['status = $1'];
+    const values: Array<string | number> = [status];
+
+    for (const column of BUILD_STATUS_UPDATE_COLUMNS) {
+      const value = updates[column];
+      if (value !== undefined) {
+        values.push(value);
+        fields.push(`${column} = $${values.length}`);
+      }
+    }
+
+    values.push(id);
+    await this.sql.unsafe(
+      `UPDATE builds SET ${fields.join(', ')} WHERE id = $${values.length}`,
+      values
+    );
+  }
+
+  async updateHeartbeat(id: string, timestamp: number) {
+    await this.sql`UPDATE builds SET last_heartbeat_at = ${timestamp} WHERE id = ${id}`;
+  }
+
+  async updateAccessed(id: string, timestamp: number) {
+    await this.sql`UPDATE builds SET last_accessed_at = ${timestamp} WHERE id = ${id}`;
+  }
+
+  async setPinned(id: string, pinned: boolean) {
+    await this.sql`UPDATE builds SET pinned = ${pinned ? 1 : 0} WHERE id = ${id}`;
+  }
+
+  async listWithStoredArtifacts(): Promise<Build[]> {
+    const rows = await this.sql`
+      SELECT * FROM builds
+      WHERE source_deleted_at IS NULL
+        OR (certs_path IS NOT NULL AND certs_deleted_at IS NULL)
+        OR (result_path IS NOT NULL AND result_deleted_at IS NULL)
+      ORDER BY submitted_at ASC
+    `;
+    return mapRows<Build>(rows, BUILD_NUMBERS);
+  }
+
+  async listStoredCertsPaths(): Promise<string[]> {
+    const rows = await this.sql`
+      SELECT DISTINCT certs_path FROM builds
+      WHERE certs_path IS NOT NULL AND certs_deleted_at IS NULL
+    `;
+    return rows.map((row: { certs_path: string }) => row.certs_path);
+  }
+
+  async markArtifactDeleted(id: string, artifact: BuildArtifact, timestamp: number) {
+    const column = ARTIFACT_DELETED_COLUMNS[artifact];
+    await this.sql.unsafe(`UPDATE builds SET ${column} = $1 WHERE id = $2`, [timestamp, id]);
+  }
+
+  async updateArtifactLocations(id: string, locations: Pick<Build, 'source_path' | 'certs_path' | 'result_path'>) {
+    await this.sql`
+      UPDATE builds
+      SET source_path = ${locations.source_path}, certs_path = ${locations.certs_path}, result_path = ${locations.result_path}
+      WHERE id = ${id}
+    `;
+  }
+
+  async assignToWorker(buildId: string, workerId: string, timestamp: number, leaseExpiresAt: number): Promise<boolean> {
+    return this.sql.begin(async (tx) => {
+      // Locking the worker serializes its assignments, so the slot count holds
+      const [slots] = await tx`
+        SELECT max_concurrent_builds AS slots,
+          (SELECT COUNT(*) FROM builds WHERE worker_id = ${workerId} AND status IN ('assigned', 'building')) AS used
+        FROM workers WHERE id = ${workerId}
+        FOR UPDATE
+      `;
+      if (!slots || Number(slots.used) >= Number(slots.slots)) {
+        return false;
+      }
+
+      // Conditional update: of two workers polling at once, only one matches
+      const assigned = await tx`
+        UPDATE builds
+        SET status = 'assigned', worker_id = ${workerId}, started_at = ${timestamp},
+          lease_expires_at = ${leaseExpiresAt}
+        WHERE id = ${buildId} AND status = 'pending'
+        RETURNING id
+      `;
+      if (assigned.length === 0) {
+        return false;
+      }
+
+      // Open the attempt (replaces one left over from a controller crash)
+      await tx`
+        INSERT INTO build_attempts (build_id, attempt, worker_id, started_at)
+        SELECT id, attempt, ${workerId}, ${timestamp} FROM builds WHERE id = ${buildId}
+        ON CONFLICT (build_id, attempt) DO UPDATE
+        SET worker_id = EXCLUDED.worker_id, started_at = EXCLUDED.started_at,
+          finished_at = NULL, outcome = NULL, failure_type = NULL, error_message = NULL
+      `;
+
+      await tx`
+        UPDATE workers
+        SET status = 'building', active_builds = ${Number(slots.used) + 1}, last_seen_at = ${timestamp}
+        WHERE id = ${workerId}
+      `;
+      return true;
+    });
+  }
+
+  async renewLease(id: string, workerId: string, timestamp: number, leaseExpiresAt: number): Promise<boolean> {
+    const rows = await this.sql`
+      UPDATE builds
+      SET last_heartbeat_at = ${timestamp}, lease_expires_at = ${leaseExpiresAt}
+      WHERE id = ${id} AND worker_id = ${workerId} AND status IN ('assigned', 'building')
+        AND lease_expires_at > ${timestamp}
+      RETURNING id
+    `;
+    return rows.length > 0;
+  }
+
+  async listExpiredLeases(now: number): Promise<Build[]> {
+    const rows = await this.sql`
+      SELECT * FROM builds
+      WHERE lease_expires_at <= ${now} AND status IN ('assigned', 'building')
+      ORDER BY lease_expires_at ASC
+    `;
+    return mapRows<Build>(rows, BUILD_NUMBERS);
+  }
+
+  async reclaimLease(id: string, attempt: number, now: number): Promise<boolean> {
+    const rows = await this.sql`
+      UPDATE builds
+      SET lease_expires_at = NULL
+      WHERE id = ${id} AND attempt = ${attempt} AND status IN ('assigned', 'building')
+        AND lease_expires_at <= ${now}
+      RETURNING id
+    `;
+    return rows.length > 0;
+  }
+
+  async releaseLease(id: string, workerId: string, attempt: number, now: number): Promise<boolean> {
+    const rows = await this.sql`
+      UPDATE builds
+      SET lease_expires_at = NULL
+      WHERE id = ${id} AND worker_id = ${workerId} AND attempt = ${attempt}
+        AND status IN ('assigned', 'building') AND lease_expires_at > ${now}
+      RETURNING id
+    `;
+    return rows.length > 0;
+  }
+
+  async revokeLease(id: string, attempt: number): Promise<boolean> {
+    const rows = await this.sql`
+      UPDATE builds
+      SET lease_expires_at = NULL
+      WHERE id = ${id} AND attempt = ${attempt} AND status IN ('assigned', 'building')
+        AND lease_expires_at IS NOT NULL
+      RETURNING id
+    `;
+    return rows.length > 0;
+  }
+
+  async cancel(id: string, timestamp: number, message: string): Promise<boolean> {
+    const rows = await this.sql`
+      UPDATE builds
+      SET status = 'cancelled', completed_at = ${timestamp}, cancel_requested_at = ${timestamp},
+        error_message = ${message}, lease_expires_at = NULL
+      WHERE id = ${id} AND status IN ('pending', 'assigned', 'building')
+      RETURNING id
+    `;
+    return rows.length > 0;
+  }
+
+  async timeOut(id: string, attempt: number, timestamp: number, message: string): Promise<boolean> {
+    const rows = await this.sql`
+      UPDATE builds
+      SET status = 'failed', completed_at = ${timestamp}, error_message = ${message}, lease_expires_at = NULL,
+        cancel_requested_at = CASE WHEN worker_id IS NULL THEN NULL ELSE ${timestamp}::BIGINT END
+      WHERE id = ${id} AND attempt = ${attempt} AND status IN ('pending', 'assigned', 'building')
+      RETURNING id
+    `;
+    return rows.length > 0;
+  }
+
+  async listUnacknowledgedCancels(workerId: string): Promise<Build[]> {
+    const rows = await this.sql`
+      SELECT * FROM builds
+      WHERE worker_id = ${workerId} AND status IN ('cancelled', 'failed')
+        AND cancel_requested_at IS NOT NULL AND cancel_acknowledged_at IS NULL
+      ORDER BY cancel_requested_at ASC
+    `;
+    return mapRows<Build>(rows, BUILD_NUMBERS);
+  }
+
+  async acknowledgeCancel(id: string, workerId: string, timestamp: number): Promise<boolean> {
+    const rows = await this.sql`
+      UPDATE builds
+      SET cancel_acknowledged_at = ${timestamp}
+      WHERE id = ${id} AND worker_id = ${workerId} AND status IN ('cancelled', 'failed')
+        AND cancel_requested_at IS NOT NULL AND cancel_acknowledged_at IS NULL
+      RETURNING id
+    `;
+    return rows.length > 0;
+  }
+
+  async scheduleRetry(id: string, attempt: number, retryAfter: number): Promise<boolean> {
+    const rows = await this.sql`
+      UPDATE builds
+      SET status = 'pending', attempt = ${attempt}, retry_after = ${retryAfter},
+        worker_id = NULL, started_at = NULL, last_heartbeat_at = NULL, lease_expires_at = NULL
+      WHERE id = ${id} AND attempt = ${attempt - 1} AND status IN ('assigned', 'building')
+      RETURNING id
+    `;
+    return rows.length > 0;
+  }
+
+  async countByStatus(statuses: Build['status'][]): Promise<number> {
+    const [row] = await this.sql`
+      SELECT COUNT(*) AS count
+      FROM builds
+      WHERE status IN ${this.sql(statuses)}
+    `;
+    return Number(row.count);
+  }
+
+  async countCompletedSince(timestamp: number): Promise<number> {
+    const [row] = await this.sql`
+      SELECT COUNT(*) AS count
+      FROM builds
+      WHERE completed_at >= ${timestamp}
+        AND status = 'completed'
+    `;
+    return Number(row.count);
+  }
+
+  async getTotalBuildTimeMs(): Promise<number> {
+    const [row] = await this.sql`
+      SELECT SUM(completed_at - started_at) AS total_ms
+      FROM builds
+      WHERE status IN ('completed', 'failed', 'cancelled')
+      AND started_at IS NOT NULL
+      AND completed_at IS NOT NULL
+    `;
+    return Number(row.total_ms ?? 0);
+  }
+
+  async listRecentDurations(limit: number): Promise<BuildDuration[]> {
+    const rows = await this.sql`
+      SELECT platform, worker_id, completed_at - started_at AS duration_ms
+      FROM builds
+      WHERE status = 'completed' AND cached_from IS NULL
+      AND started_at IS NOT NULL
+      AND completed_at IS NOT NULL
+      ORDER BY completed_at DESC
+      LIMIT ${limit}
+    `;
+    return mapRows<BuildDuration>(rows, DURATION_NUMBERS);
+  }
+}
+
+class PostgresBuildLogRepository implements BuildLogRepository {
+  constructor(private sql: SQL) {}
+
+  async add(log: Omit<BuildLog, 'id' | 'attempt'>) {
+    await this.sql`
+      INSERT INTO build_logs (build_id, attempt, timestamp, level, message)
+      VALUES (
+        ${log.build_id},
+        COALESCE((SELECT attempt FROM builds WHERE id = ${log.build_id}), 1),
+        ${log.timestamp}, ${log.level}, ${log.message}
+      )
+    `;
+  }
+
+  async list(buildId: string): Promise<BuildLog[]> {
+    const rows = await this.sql`
+      SELECT * FROM build_logs
+      WHERE build_id = ${buildId}
+      ORDER BY timestamp ASC, id ASC
+    `;
+    return mapRows<BuildLog>(rows, LOG_NUMBERS);
+  }
+
+  async listAfter(buildId: string, afterId: number): Promise<BuildLog[]> {
+    const rows = await this.sql`
+      SELECT * FROM build_logs
+      WHERE build_id = ${buildId} AND id > ${afterId}
+      ORDER BY id ASC
+    `;
+    return mapRows<BuildLog>(rows, LOG_NUMBERS);
+  }
+
+  async countExpired(cutoff: number): Promise<number> {
+    const [row] = await this.sql`
+      SELECT COUNT(*) AS count FROM build_logs
+      WHERE build_id IN (
+        SELECT id FROM builds
+        WHERE status IN ('completed', 'failed', 'cancelled') AND pinned = 0 AND completed_at < ${cutoff}
+      )
+    `;
+    return Number(row.count);
+  }
+
+  async purgeExpired(cutoff: number): Promise<number> {
+    const result = await this.sql`
+      DELETE FROM build_logs
+      WHERE build_id IN (
+        SELECT id FROM builds
+        WHERE status IN ('completed', 'failed', 'cancelled') AND pinned = 0 AND completed_at < ${cutoff}
+      )
+    `;
+    return result.count;
+  }
+}
+
+class PostgresBuildGroupRepository implements BuildGroupRepository {
+  constructor(private sql: SQL) {}
+
+  async create(group: BuildGroup) {
+    await this.sql`
+      INSERT INTO build_groups (id, access_token, submitted_at, submitter)
+      VALUES (${group.id}, ${group.access_token}, ${group.submitted_at}, ${group.submitter})
+    `;
+  }
+
+  async get(id: string): Promise<BuildGroup | undefined> {
+    const [row] = await this.sql`SELECT * FROM build_groups WHERE id = ${id}`;
+    return mapRow<BuildGroup>(row, GROUP_NUMBERS);
+  }
+
+  async list(): Promise<BuildGroup[]> {
+    const rows = await this.sql`SELECT * FROM build_groups ORDER BY submitted_at ASC`;
+    return mapRows<BuildGroup>(rows, GROUP_NUMBERS);
+  }
+}
+
+class PostgresScheduleRepository implements ScheduleRepository {
+  constructor(private sql: SQL) {}
+
+  async create(schedule: Omit<Schedule, 'last_run_at'>) {
+    await this.sql`
+      INSERT INTO schedules (
+        id, name, cron, platforms, source_sha256, certs_sha256, git_url, git_ref,
+        priority, submitter, requirements, catch_up, created_at, next_run_at
+      )
+      VALUES (
+        ${schedule.id}, ${schedule.name}, ${schedule.cron}, ${schedule.platforms},
+        ${schedule.source_sha256}, ${schedule.certs_sha256}, ${schedule.git_url}, ${schedule.git_ref},
+        ${schedule.priority}, ${schedule.submitter}, ${schedule.requirements}, ${schedule.catch_up},
+        ${schedule.created_at}, ${schedule.next_run_at}
+      )
+    `;
+  }
+
+  async get(id: string): Promise<Schedule | undefined> {
+    const [row] = await this.sql`SELECT * FROM schedules WHERE id = ${id}`;
+    return mapRow<Schedule>(row, SCHEDULE_NUMBERS);
+  }
+
+  async list(): Promise<Schedule[]> {
+    const rows = await this.sql`SELECT * FROM schedules ORDER BY created_at ASC`;
+    return mapRows<Schedule>(rows, SCHEDULE_NUMBERS);
+  }
+
+  async listDue(now: number): Promise<Schedule[]> {
+    const rows = await this.sql`
+      SELECT * FROM schedules
+      WHERE next_run_at <= ${now}
+      ORDER BY next_run_at ASC
+    `;
+    return mapRows<Schedule>(rows, SCHEDULE_NUMBERS);
+  }
+
+  async advance(id: string, dueAt: number, nextRunAt: number, lastRunAt: number | null): Promise<boolean> {
+    const rows = await this.sql`
+      UPDATE schedules
+      SET next_run_at = ${nextRunAt}, last_run_at = COALESCE(${lastRunAt}::BIGINT, last_run_at)
+      WHERE id = ${id} AND next_run_at = ${dueAt}
+      RETURNING id
+    `;
+    return rows.length > 0;
+  }
+
+  async delete(id: string) {
+    await this.sql.begin(async (tx) => {
+      await tx`DELETE FROM schedule_runs WHERE schedule_id = ${id}`;
+      await tx`DELETE FROM schedules WHERE id = ${id}`;
+    });
+  }
+
+  async recordRun(run: Omit<ScheduleRun, 'id'>) {
+    await this.sql`
+      INSERT INTO schedule_runs (schedule_id, scheduled_for, recorded_at, outcome, build_id, error_message)
+      VALUES (${run.schedule_id}, ${run.scheduled_for}, ${run.recorded_at}, ${run.outcome}, ${run.build_id}, ${run.error_message})
+    `;
+  }
+
+  async listRuns(scheduleId: string, limit = 50): Promise<ScheduleRun[]> {
+    const rows = await this.sql`
+      SELECT * FROM schedule_runs
+      WHERE schedule_id = ${scheduleId}
+      ORDER BY scheduled_for DESC, id DESC
+      LIMIT ${limit}
+    `;
+    return mapRows<ScheduleRun>(rows, SCHEDULE_RUN_NUMBERS);
+  }
+}
+
+class PostgresBuildAttemptRepository implements BuildAttemptRepository {
+  constructor(private sql: SQL) {}
+
+  async list(buildId: string): Promise<BuildAttempt[]> {
+    const rows = await this.sql`
+      SELECT * FROM build_attempts
+      WHERE build_id = ${buildId}
+      ORDER BY attempt ASC
+    `;
+    return mapRows<BuildAttempt>(rows, ATTEMPT_NUMBERS);
+  }
+
+  async finish(
+    buildId: string,
+    attempt: number,
+    result: Pick<BuildAttempt, 'finished_at' | 'outcome'> & Partial<Pick<BuildAttempt, 'failure_type' | 'error_message'>>
+  ) {
+    await this.sql`
+      UPDATE build_attempts
+      SET finished_at = ${result.finished_at}, outcome = ${result.outcome},
+        failure_type = ${result.failure_type ?? null}, error_message = ${result.error_message ?? null}
+      WHERE build_id = ${buildId} AND attempt = ${attempt} AND outcome IS NULL
+    `;
+  }
+}
+
+class PostgresDiagnosticRepository implements DiagnosticRepository {
+  constructor(private sql: SQL) {}
+
+  async save(report: Omit<DiagnosticReport, 'id'>): Promise<string> {
+    const id = crypto.randomUUID();
+    await this.sql`
+      INSERT INTO diagnostics (id, worker_id, status, run_at, duration_ms, auto_fixed, checks)
+      VALUES (
+        ${id}, ${report.worker_id}, ${report.status}, ${report.run_at},
+        ${report.duration_ms}, ${report.auto_fixed}, ${report.checks}
+      )
+    `;
+    return id;
+  }
+
+  async list(workerId: string, limit: number = 10): Promise<DiagnosticReport[]> {
+    const rows = await this.sql`
+      SELECT * FROM diagnostics
+      WHERE worker_id = ${workerId}
+      ORDER BY run_at DESC
+      LIMIT ${limit}
+    `;
+    return mapRows<DiagnosticReport>(rows, DIAGNOSTIC_NUMBERS);
+  }
+
+  async getLatest(workerId: string): Promise<DiagnosticReport | undefined> {
+    const [row] = await this.sql`
+      SELECT * FROM diagnostics
+      WHERE worker_id = ${workerId}
+      ORDER BY run_at DESC
+      LIMIT 1
+    `;
+    return mapRow<DiagnosticReport>(row, DIAGNOSTIC_NUMBERS);
+  }
+}
+
+class PostgresCpuSnapshotRepository implements CpuSnapshotRepository {
+  constructor(private sql: SQL) {}
+
+  async add(snapshot: Omit<CpuSnapshot, 'id'>) {
+    await this.sql`
+      INSERT INTO cpu_snapshots (build_id, timestamp, cpu_percent, memory_mb)
+      VALUES (${snapshot.build_id}, ${snapshot.timestamp}, ${snapshot.cpu_percent}, ${snapshot.memory_mb})
+    `;
+  }
+
+  async list(buildId: string): Promise<CpuSnapshot[]> {
+    const rows = await this.sql`
+      SELECT * FROM cpu_snapshots
+      WHERE build_id = ${buildId}
+      ORDER BY timestamp ASC, id ASC
+    `;
+    return mapRows<CpuSnapshot>(rows, CPU_SNAPSHOT_NUMBERS);
+  }
+
+  async count(): Promise<number> {
+    const [row] = await this.sql`SELECT COUNT(*) AS count FROM cpu_snapshots`;
+    return Number(row.count);
+  }
+
+  async getAverageCpuPercent(): Promise<number | null> {
+    const [row] = await this.sql`SELECT AVG(cpu_percent) AS avg_cpu FROM cpu_snapshots`;
+    return row.avg_cpu === null ? null : Number(row.avg_cpu);
+  }
+
+  async purgeOlderThan(daysOld: number): Promise<number> {
+    const cutoff = Date.now() - (daysOld * 24 * 60 * 60 * 1000);
+    const result = await this.sql`DELETE FROM cpu_snapshots WHERE timestamp < ${cutoff}`;
+    return result.count;
+  }
+}
+
+class PostgresUploadSessionRepository implements UploadSessionRepository {
+  constructor(private sql: SQL) {}
+
+  async create(session: Omit<UploadSession, 'status' | 'committed_offset' | 'sha256'>) {
+    await this.sql`
+      INSERT INTO upload_sessions (
+        id, kind, total_size, expected_sha256, build_id, worker_id,
+        created_at, updated_at, expires_at
+      )
+      VALUES (
+        ${session.id}, ${session.kind}, ${session.total_size}, ${session.expected_sha256},
+        ${session.build_id}, ${session.worker_id},
+        ${session.created_at}, ${session.updated_at}, ${session.expires_at}
+      )
+    `;
+  }
+
+  async get(id: string): Promise<UploadSession | undefined> {
+    const [row] = await this.sql`SELECT * FROM upload_sessions WHERE id = ${id}`;
+    return mapRow<UploadSession>(row, UPLOAD_NUMBERS);
+  }
+
+  async advanceOffset(id: string, fromOffset: number, toOffset: number, timestamp: number, expiresAt: number): Promise<boolean> {
+    const result = await this.sql`
+      UPDATE upload_sessions
+      SET committed_offset = ${toOffset}, updated_at = ${timestamp}, expires_at = ${expiresAt}
+      WHERE id = ${id} AND committed_offset = ${fromOffset} AND status = 'uploading'
+    `;
+    return result.count === 1;
+  }
+
+  async complete(id: string, sha256: string, timestamp: number) {
+    await this.sql`
+      UPDATE upload_sessions
+      SET status = 'complete', sha256 = ${sha256}, updated_at = ${timestamp}
+      WHERE id = ${id}
+    `;
+  }
+
+  async claim(id: string, now: number): Promise<boolean> {
+    const result = await this.sql`
+      DELETE FROM upload_sessions
+      WHERE id = ${id} AND status = 'complete' AND expires_at >= ${now}
+    `;
+    return result.count === 1;
+  }
+
+  async delete(id: string) {
+    await this.sql`DELETE FROM upload_sessions WHERE id = ${id}`;
+  }
+
+  async listExpired(now: number): Promise<UploadSession[]> {
+    const rows = await this.sql`SELECT * FROM upload_sessions WHERE expires_at < ${now}`;
+    return mapRows<UploadSession>(rows, UPLOAD_NUMBERS);
+  }
+}
+
+class PostgresBlobRepository implements BlobRepository {
+  constructor(private sql: SQL) {}
+
+  async get(sha256: string): Promise<Blob | undefined> {
+    const [row] = await this.sql`SELECT * FROM blobs WHERE sha256 = ${sha256}`;
+    return mapRow<Blob>(row, BLOB_NUMBERS);
+  }
+
+  async getByLocation(location: string): Promise<Blob | undefined> {
+    const [row] = await this.sql`SELECT * FROM blobs WHERE location = ${location}`;
+    return mapRow<Blob>(row, BLOB_NUMBERS);
+  }
+
+  async list(): Promise<Blob[]> {
+    const rows = await this.sql`SELECT * FROM blobs ORDER BY created_at ASC`;
+    return mapRows<Blob>(rows, BLOB_NUMBERS);
+  }
+
+  async register(blob: Omit<Blob, 'ref_count'>, refCount = 1) {
+    await this.sql`
+      INSERT INTO blobs (sha256, location, size, ref_count, created_at)
+      VALUES (${blob.sha256}, ${blob.location}, ${blob.size}, ${refCount}, ${blob.created_at})
+      ON CONFLICT (sha256) DO UPDATE SET
+        location = EXCLUDED.location,
+        ref_count = blobs.ref_count + EXCLUDED.ref_count
+    `;
+  }
+
+  async addReference(sha256: string) {
+    await this.sql`UPDATE blobs SET ref_count = ref_count + 1 WHERE sha256 = ${sha256}`;
+  }
+
+  async releaseReference(sha256: string): Promise<number> {
+    return this.sql.begin(async (tx) => {
+      // The update locks the row until commit, so releases never interleave
+      const [row] = await tx`
+        UPDATE blobs SET ref_count = ref_count - 1
+        WHERE sha256 = ${sha256}
+        RETURNING ref_count
+      `;
+      const remaining = Math.max(row ? Number(row.ref_count) : 0, 0);
+
+      if (remaining === 0) {
+        await tx`DELETE FROM blobs WHERE sha256 = ${sha256}`;
+      }
+
+      return remaining;
+    });
+  }
+
+  async updateLocation(sha256: string, location: string) {
+    await this.sql`UPDATE blobs SET location = ${location} WHERE sha256 = ${sha256}`;
+  }
+}
+
+class PostgresSettingRepository implements SettingRepository {
+  constructor(private sql: SQL) {}
+
+  async get(key: string): Promise<ControllerSetting | undefined> {
+    const [row] = await this.sql`SELECT * FROM controller_settings WHERE key = ${key}`;
+    return mapRow<ControllerSetting>(row, SETTING_NUMBERS);
+  }
+
+  async set(key: string, value: string, timestamp: number) {
+    await this.sql`
+      INSERT INTO controller_settings (key, value, updated_at)
+      VALUES (${key}, ${value}, ${timestamp})
+      ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value, updated_at = EXCLUDED.updated_at
+    `;
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const rows = await this.sql`DELETE FROM controller_settings WHERE key = ${key} RETURNING key`;
+    return rows.length > 0;
+  }
+}
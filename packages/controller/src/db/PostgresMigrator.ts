@@ -0,0 +1,131 @@
+import type { SQL } from 'bun';
+import {
+  POSTGRES_MIGRATIONS_DIR,
+  loadMigrations,
+  migrationStatus,
+  verifyMigrations,
+  type AppliedMigration,
+  type Migration,
+  type MigrationStatus,
+} from './Migrator.js';
+
+/**
+ * Serializes schema changes across controllers sharing one database
+ */
+const MIGRATION_LOCK = `SELECT pg_advisory_xact_lock(hashtext('expo-free-agent:migrations'))`;
+
+/**
+ * Forward-only schema migrator for PostgreSQL
+ *
+ * Same contract as Migrator (schema_migrations with checksums, one
+ * transaction per migration). Several controllers may start against the
+ * same database at once: each migration takes an advisory lock and is
+ * skipped if another controller applied it first.
+ */
+export class PostgresMigrator {
+  private sql: SQL;
+  private migrations: Migration[];
+
+  constructor(sql: SQL, migrations: Migration[] = loadMigrations(POSTGRES_MIGRATIONS_DIR)) {
+    this.sql = sql;
+    this.migrations = migrations;
+  }
+
+  private async hasMigrationsTable(): Promise<boolean> {
+    const [row] = await this.sql`SELECT to_regclass('schema_migrations') AS name`;
+    return row.name !== null;
+  }
+
+  private async ensureMigrationsTable() {
+    await this.sql.begin(async (tx) => {
+      await tx.unsafe(MIGRATION_LOCK);
+      await tx`
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+          version INTEGER PRIMARY KEY,
+          name TEXT NOT NULL,
+          checksum TEXT NOT NULL,
+          applied_at BIGINT NOT NULL
+        )
+      `;
+    });
+  }
+
+  async getApplied(): Promise<AppliedMigration[]> {
+    // Read-only callers (status, dry runs) must not create the table
+    if (!(await this.hasMigrationsTable())) {
+      return [];
+    }
+
+    const rows = await this.sql`SELECT * FROM schema_migrations ORDER BY version ASC`;
+    return rows.map((row: AppliedMigration) => ({ ...row, applied_at: Number(row.applied_at) }));
+  }
+
+  /**
+   * Highest applied version, or 0 for a database with no recorded migrations
+   */
+  async getCurrentVersion(): Promise<number> {
+    return (await this.getApplied()).reduce((max, m) => Math.max(max, m.version), 0);
+  }
+
+  async getStatus(): Promise<MigrationStatus[]> {
+    return migrationStatus(this.migrations, await this.getApplied());
+  }
+
+  async getPending(): Promise<Migration[]> {
+    const applied = new Set((await this.getApplied()).map((m) => m.version));
+    return this.migrations.filter((m) => !applied.has(m.version));
+  }
+
+  /**
+   * Apply all pending migrations in version order
+   * @param options.dryRun - Report what would run without touching the schema
+   * @returns Migrations that were (or, for a dry run, would be) applied
+   */
+  async migrate(options: { dryRun?: boolean } = {}): Promise<Migration[]> {
+    verifyMigrations(this.migrations, await this.getApplied());
+
+    const pending = await this.getPending();
+    if (options.dryRun || pending.length === 0) {
+      return pending;
+    }
+
+    await this.ensureMigrationsTable();
+    const applied: Migration[] = [];
+    for (const migration of pending) {
+      if (await this.apply(migration)) {
+        applied.push(migration);
+      }
+    }
+
+    return applied;
+  }
+
+  /**
+   * @returns false if another controller applied the migration first
+   */
+  private async apply(migration: Migration): Promise<boolean> {
+    try {
+      return await this.sql.begin(async (tx) => {
+        await tx.unsafe(MIGRATION_LOCK);
+
+        const [existing] = await tx`SELECT version FROM schema_migrations WHERE version = ${migration.version}`;
+        if (existing) {
+          return false;
+        }
+
+        // Migration files hold several statements
+        await tx.unsafe(migration.sql).simple();
+
+        await tx`
+          INSERT INTO schema_migrations (version, name, checksum, applied_at)
+          VALUES (${migration.version}, ${migration.name}, ${migration.checksum}, ${Date.now()})
+        `;
+        return true;
+      });
+    } catch (err) {
+      throw new Error(
+        `Migration ${migration.version} (${migration.name}) failed: ${err instanceof Error ? err.message : String(err)}`
+      );
+    }
+  }
+}
@@ -0,0 +1,1123 @@
+import { Database as BunDatabase } from 'bun:sqlite';
+import { Migrator } from './Migrator.js';
+import {
+  ARTIFACT_DELETED_COLUMNS,
+  BUILD_STATUS_UPDATE_COLUMNS,
+  type Blob,
+  type BlobRepository,
+  type Build,
+  type BuildArtifact,
+  type BuildAttempt,
+  type BuildAttemptRepository,
+  type BuildDuration,
+  type BuildGroup,
+  type BuildGroupRepository,
+  type BuildLog,
+  type BuildLogRepository,
+  type BuildRepository,
+  type BuildStatusUpdates,
+  type ControllerSetting,
+  type CpuSnapshot,
+  type CpuSnapshotRepository,
+  type DatabaseService,
+  type DiagnosticReport,
+  type DiagnosticRepository,
+  type NewBuild,
+  type NewWorker,
+  type Schedule,
+  type ScheduleRepository,
+  type ScheduleRun,
+  type SettingRepository,
+  type UploadSession,
+  type UploadSessionRepository,
+  type Worker,
+  type WorkerRepository,
+  type WorkerSession,
+} from './Database.js';
+
+// Slots in use by the worker being updated
+const ACTIVE_BUILDS_OF_WORKER = `
+  SELECT COUNT(*) FROM builds
+  WHERE builds.worker_id = workers.id AND builds.status IN ('assigned', 'building')
+`;
+
+const EXPIRED_LOG_BUILDS = `
+  SELECT id FROM builds
+  WHERE status IN ('completed', 'failed', 'cancelled') AND pinned = 0 AND completed_at < ?
+`;
+
+/**
+ * Copy a SQLite database to destPath as a consistent snapshot
+ * VACUUM INTO reads within one transaction, so this is safe while a running
+ * controller keeps writing to the database.
+ */
+export function snapshotSqliteDatabase(dbPath: string, destPath: string) {
+  const db = new BunDatabase(dbPath, { readonly: true });
+  try {
+    db.prepare('VACUUM INTO ?').run(destPath);
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Integrity check of a SQLite database file, without modifying it
+ * @returns Schema version and any problems found (empty when healthy)
+ */
+export function checkSqliteDatabase(dbPath: string): { schemaVersion: number; problems: string[] } {
+  const db = new BunDatabase(dbPath, { readonly: true });
+  try {
+    const rows = db.prepare('PRAGMA integrity_check').all() as Array<{ integrity_check: string }>;
+    return {
+      schemaVersion: new Migrator(db).getCurrentVersion(),
+      problems: rows.map((row) => row.integrity_check).filter((result) => result !== 'ok'),
+    };
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * SQLite (bun:sqlite) implementation, the default for single-host setups
+ * Migrates on construction, so a new instance is ready to use.
+ */
+export class SqliteDatabase implements DatabaseService {
+  private db: BunDatabase;
+  private lockDb?: BunDatabase;
+
+  readonly workers: WorkerRepository;
+  readonly builds: BuildRepository;
+  readonly groups: BuildGroupRepository;
+  readonly logs: BuildLogRepository;
+  readonly attempts: BuildAttemptRepository;
+  readonly schedules: ScheduleRepository;
+  readonly diagnostics: DiagnosticRepository;
+  readonly cpuSnapshots: CpuSnapshotRepository;
+  readonly uploads: UploadSessionRepository;
+  readonly blobs: BlobRepository;
+  readonly settings: SettingRepository;
+
+  constructor(private dbPath: string) {
+    this.db = new BunDatabase(dbPath);
+    this.initSchema();
+
+    this.workers = new SqliteWorkerRepository(this.db);
+    this.builds = new SqliteBuildRepository(this.db);
+    this.groups = new SqliteBuildGroupRepository(this.db);
+    this.logs = new SqliteBuildLogRepository(this.db);
+    this.attempts = new SqliteBuildAttemptRepository(this.db);
+    this.schedules = new SqliteScheduleRepository(this.db);
+    this.diagnostics = new SqliteDiagnosticRepository(this.db);
+    this.cpuSnapshots = new SqliteCpuSnapshotRepository(this.db);
+    this.uploads = new SqliteUploadSessionRepository(this.db);
+    this.blobs = new SqliteBlobRepository(this.db);
+    this.settings = new SqliteSettingRepository(this.db);
+  }
+
+  /**
+   * Bring the schema up to date by applying any pending migrations
+   */
+  private initSchema() {
+    const applied = new Migrator(this.db).migrate();
+    for (const migration of applied) {
+      console.log(`[Migrations] Applied ${migration.version} (${migration.name})`);
+    }
+  }
+
+  async migrate() {
+    this.initSchema();
+  }
+
+  /**
+   * Held as an exclusive transaction on a `<db>.lock` file beside the
+   * database, so backups can still read the database itself. SQLite drops
+   * the lock with the connection, including when the process dies.
+   */
+  async lockController() {
+    if (this.dbPath === ':memory:') {
+      // Private to this connection already
+      return;
+    }
+
+    const lockDb = new BunDatabase(`${this.dbPath}.lock`);
+    try {
+      lockDb.exec('PRAGMA busy_timeout = 0');
+      lockDb.exec('BEGIN EXCLUSIVE');
+    } catch (err) {
+      lockDb.close();
+      if ((err as { code?: string }).code === 'SQLITE_BUSY') {
+        throw new Error(
+          'Another controller is running against this database. ' +
+          'Only one controller may use a database at a time; stop it first.'
+        );
+      }
+      throw err;
+    }
+    this.lockDb = lockDb;
+  }
+
+  async close() {
+    this.lockDb?.close();
+    this.db.close();
+  }
+}
+
+class SqliteWorkerRepository implements WorkerRepository {
+  constructor(private db: BunDatabase) {}
+
+  async register(worker: NewWorker) {
+    try {
+      this.db.exec('BEGIN IMMEDIATE');
+      this.db.prepare(`
+        INSERT INTO workers (id, name, status, capabilities, registered_at, last_seen_at, max_concurrent_builds)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        worker.id,
+        worker.name,
+        worker.status,
+        worker.capabilities,
+        worker.registered_at,
+        worker.last_seen_at,
+        worker.max_concurrent_builds ?? 1
+      );
+      this.db.prepare('INSERT INTO worker_sessions (worker_id, online_at) VALUES (?, ?)').run(worker.id, worker.registered_at);
+      this.db.exec('COMMIT');
+    } catch (err) {
+      this.db.exec('ROLLBACK');
+      throw err;
+    }
+  }
+
+  async updateStatus(id: string, status: Worker['status'], lastSeenAt: number) {
+    const stmt = this.db.prepare(`
+      UPDATE workers
+      SET status = ?, last_seen_at = ?
+      WHERE id = ?
+    `);
+    stmt.run(status, lastSeenAt, id);
+  }
+
+  async setMaxConcurrentBuilds(id: string, maxConcurrentBuilds: number) {
+    const stmt = this.db.prepare('UPDATE workers SET max_concurrent_builds = ? WHERE id = ?');
+    stmt.run(maxConcurrentBuilds, id);
+  }
+
+  async setDraining(id: string, since: number | null) {
+    const stmt = this.db.prepare('UPDATE workers SET drain_requested_at = ? WHERE id = ?');
+    stmt.run(since, id);
+  }
+
+  async setPaused(id: string, since: number | null) {
+    const stmt = this.db.prepare('UPDATE workers SET paused_at = ? WHERE id = ?');
+    stmt.run(since, id);
+  }
+
+  async syncSlots(id: string) {
+    const stmt = this.db.prepare(`
+      UPDATE workers
+      SET active_builds = (${ACTIVE_BUILDS_OF_WORKER}),
+        status = CASE
+          WHEN status = 'offline' THEN 'offline'
+          WHEN (${ACTIVE_BUILDS_OF_WORKER}) > 0 THEN 'building'
+          ELSE 'idle'
+        END
+      WHERE id = ?
+    `);
+    stmt.run(id);
+  }
+
+  async markSeen(id: string, timestamp: number): Promise<boolean> {
+    try {
+      this.db.exec('BEGIN IMMEDIATE');
+
+      const worker = this.db.prepare('SELECT status FROM workers WHERE id = ?').get(id) as Pick<Worker, 'status'> | null;
+      const returning = worker?.status === 'offline';
+
+      if (returning) {
+        this.db.prepare(`
+          UPDATE workers
+          SET status = CASE WHEN active_builds > 0 THEN 'building' ELSE 'idle' END, last_seen_at = ?
+          WHERE id = ?
+        `).run(timestamp, id);
+        this.db.prepare('INSERT INTO worker_sessions (worker_id, online_at) VALUES (?, ?)').run(id, timestamp);
+      } else {
+        this.db.prepare('UPDATE workers SET last_seen_at = ? WHERE id = ?').run(timestamp, id);
+      }
+
+      this.db.exec('COMMIT');
+      return returning;
+    } catch (err) {
+      this.db.exec('ROLLBACK');
+      throw err;
+    }
+  }
+
+  async listStale(seenBefore: number): Promise<Worker[]> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM workers
+      WHERE last_seen_at < ? AND status != 'offline'
+      ORDER BY last_seen_at ASC
+    `);
+    return stmt.all(seenBefore) as Worker[];
+  }
+
+  async markOffline(id: string, seenBefore: number): Promise<boolean> {
+    try {
+      this.db.exec('BEGIN IMMEDIATE');
+
+      const marked = this.db.prepare(`
+        UPDATE workers
+        SET status = 'offline'
+        WHERE id = ? AND status != 'offline' AND last_seen_at < ?
+      `).run(id, seenBefore).changes > 0;
+
+      if (marked) {
+        this.db.prepare(`
+          UPDATE worker_sessions
+          SET offline_at = (SELECT last_seen_at FROM workers WHERE id = ?)
+          WHERE worker_id = ? AND offline_at IS NULL
+        `).run(id, id);
+      }
+
+      this.db.exec('COMMIT');
+      return marked;
+    } catch (err) {
+      this.db.exec('ROLLBACK');
+      throw err;
+    }
+  }
+
+  async listSessions(id: string, since: number): Promise<WorkerSession[]> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM worker_sessions
+      WHERE worker_id = ? AND (offline_at IS NULL OR offline_at > ?)
+      ORDER BY online_at DESC, id DESC
+    `);
+    return stmt.all(id, since) as WorkerSession[];
+  }
+
+  async get(id: string): Promise<Worker | undefined> {
+    const stmt = this.db.prepare('SELECT * FROM workers WHERE id = ?');
+    return (stmt.get(id) as Worker | null) ?? undefined;
+  }
+
+  async list(): Promise<Worker[]> {
+    const stmt = this.db.prepare('SELECT * FROM workers ORDER BY last_seen_at DESC');
+    return stmt.all() as Worker[];
+  }
+
+  async listIdle(): Promise<Worker[]> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM workers
+      WHERE status = 'idle'
+      ORDER BY builds_completed ASC
+    `);
+    return stmt.all() as Worker[];
+  }
+
+  async incrementBuilds(workerId: string, success: boolean) {
+    const field = success ? 'builds_completed' : 'builds_failed';
+    const stmt = this.db.prepare(`
+      UPDATE workers
+      SET ${field} = ${field} + 1
+      WHERE id = ?
+    `);
+    stmt.run(workerId);
+  }
+
+  async countOnline(since: number): Promise<number> {
+    const stmt = this.db.prepare(`
+      SELECT COUNT(*) as count
+      FROM workers
+      WHERE status IN ('idle', 'building')
+        AND last_seen_at > ?
+    `);
+    return (stmt.get(since) as { count: number }).count;
+  }
+}
+
+class SqliteBuildRepository implements BuildRepository {
+  constructor(private db: BunDatabase) {}
+
+  async create(build: NewBuild) {
+    const stmt = this.db.prepare(`
+      INSERT INTO builds (
+        id, status, platform, source_path, certs_path, submitted_at, access_token,
+        source_sha256, certs_sha256, source_size, certs_size, priority, submitter, requirements, group_id,
+        cache_key, cached_from, max_queue_wait_ms, max_duration_ms
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    stmt.run(
+      build.id,
+      build.status,
+      build.platform,
+      build.source_path,
+      build.certs_path,
+      build.submitted_at,
+      build.access_token,
+      build.source_sha256,
+      build.certs_sha256,
+      build.source_size,
+      build.certs_size,
+      build.priority,
+      build.submitter,
+      build.requirements,
+      build.group_id,
+      build.cache_key,
+      build.cached_from,
+      build.max_queue_wait_ms ?? null,
+      build.max_duration_ms ?? null
+    );
+  }
+
+  async get(id: string): Promise<Build | undefined> {
+    const stmt = this.db.prepare('SELECT * FROM builds WHERE id = ?');
+    return (stmt.get(id) as Build | null) ?? undefined;
+  }
+
+  async verifyToken(buildId: string, token: string): Promise<Build | undefined> {
+    const stmt = this.db.prepare('SELECT * FROM builds WHERE id = ? AND access_token = ?');
+    return (stmt.get(buildId, token) as Build | null) ?? undefined;
+  }
+
+  async list(): Promise<Build[]> {
+    const stmt = this.db.prepare('SELECT * FROM builds ORDER BY submitted_at DESC');
+    return stmt.all() as Build[];
+  }
+
+  async listPending(): Promise<Build[]> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM builds
+      WHERE status = 'pending'
+      ORDER BY submitted_at ASC
+    `);
+    return stmt.all() as Build[];
+  }
+
+  async listAssigned(): Promise<Build[]> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM builds
+      WHERE status = 'assigned'
+      ORDER BY started_at ASC
+    `);
+    return stmt.all() as Build[];
+  }
+
+  async listByGroup(groupId: string): Promise<Build[]> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM builds
+      WHERE group_id = ?
+      ORDER BY platform ASC
+    `);
+    return stmt.all(groupId) as Build[];
+  }
+
+  async findCached(cacheKey: string): Promise<Build | undefined> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM builds
+      WHERE cache_key = ? AND status = 'completed'
+      AND result_path IS NOT NULL AND result_deleted_at IS NULL
+      ORDER BY completed_at DESC
+      LIMIT 1
+    `);
+    return (stmt.get(cacheKey) as Build | null) ?? undefined;
+  }
+
+  async updateStatus(id: string, status: Build['status'], updates: BuildStatusUpdates = {}) {
+    const fields = ['status = ?'];
+    const values: Array<string | number> = [status];
+
+    for (const column of BUILD_STATUS_UPDATE_COLUMNS) {
+      const value = updates[column];
+      if (value !== undefined) {
+        fields.push(`${column} = ?`);
+        values.push(value);
+      }
+    }
+
+    values.push(id);
+
+    const stmt = this.db.prepare(`
+      UPDATE builds
+      SET ${fields.join(', ')}
+      WHERE id = ?
+    `);
+    stmt.run(...values);
+  }
+
+  async updateHeartbeat(id: string, timestamp: number) {
+    const stmt = this.db.prepare('UPDATE builds SET last_heartbeat_at = ? WHERE id = ?');
+    stmt.run(timestamp, id);
+  }
+
+  async updateAccessed(id: string, timestamp: number) {
+    const stmt = this.db.prepare('UPDATE builds SET last_accessed_at = ? WHERE id = ?');
+    stmt.run(timestamp, id);
+  }
+
+  async setPinned(id: string, pinned: boolean) {
+    const stmt = this.db.prepare('UPDATE builds SET pinned = ? WHERE id = ?');
+    stmt.run(pinned ? 1 : 0, id);
+  }
+
+  async listWithStoredArtifacts(): Promise<Build[]> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM builds
+      WHERE source_deleted_at IS NULL
+        OR (certs_path IS NOT NULL AND certs_deleted_at IS NULL)
+        OR (result_path IS NOT NULL AND result_deleted_at IS NULL)
+      ORDER BY submitted_at ASC
+    `);
+    return stmt.all() as Build[];
+  }
+
+  async listStoredCertsPaths(): Promise<string[]> {
+    const stmt = this.db.prepare(`
+      SELECT DISTINCT certs_path FROM builds
+      WHERE certs_path IS NOT NULL AND certs_deleted_at IS NULL
+    `);
+    return (stmt.all() as Array<{ certs_path: string }>).map((row) => row.certs_path);
+  }
+
+  async markArtifactDeleted(id: string, artifact: BuildArtifact, timestamp: number) {
+    const column = ARTIFACT_DELETED_COLUMNS[artifact];
+    const stmt = this.db.prepare(`UPDATE builds SET ${column} = ? WHERE id = ?`);
+    stmt.run(timestamp, id);
+  }
+
+  async updateArtifactLocations(id: string, locations: Pick<Build, 'source_path' | 'certs_path' | 'result_path'>) {
+    const stmt = this.db.prepare(`
+      UPDATE builds
+      SET source_path = ?, certs_path = ?, result_path = ?
+      WHERE id = ?
+    `);
+    stmt.run(locations.source_path, locations.certs_path, locations.result_path, id);
+  }
+
+  async assignToWorker(buildId: string, workerId: string, timestamp: number, leaseExpiresAt: number): Promise<boolean> {
+    try {
+      // Use transaction to make assignment atomic
+      this.db.exec('BEGIN IMMEDIATE');
+
+      // Check build is still pending
+      const checkStmt = this.db.prepare('SELECT status, attempt FROM builds WHERE id = ?');
+      const build = checkStmt.get(buildId) as { status: string; attempt: number } | null;
+
+      if (!build || build.status !== 'pending') {
+        this.db.exec('ROLLBACK');
+        return false;
+      }
+
+      // Check the worker has a free slot
+      const slotsStmt = this.db.prepare(`
+        SELECT max_concurrent_builds AS slots, (${ACTIVE_BUILDS_OF_WORKER}) AS used FROM workers WHERE id = ?
+      `);
+      const slots = slotsStmt.get(workerId) as { slots: number; used: number } | null;
+
+      if (!slots || slots.used >= slots.slots) {
+        this.db.exec('ROLLBACK');
+        return false;
+      }
+
+      // Assign build
+      const updateStmt = this.db.prepare(`
+        UPDATE builds
+        SET status = 'assigned', worker_id = ?, started_at = ?, lease_expires_at = ?
+        WHERE id = ?
+      `);
+      updateStmt.run(workerId, timestamp, leaseExpiresAt, buildId);
+
+      // Open the attempt (replaces one left over from a controller crash)
+      const attemptStmt = this.db.prepare(`
+        INSERT OR REPLACE INTO build_attempts (build_id, attempt, worker_id, started_at)
+        VALUES (?, ?, ?, ?)
+      `);
+      attemptStmt.run(buildId, build.attempt, workerId, timestamp);
+
+      // Update worker
+      const workerStmt = this.db.prepare(`
+        UPDATE workers
+        SET status = 'building', active_builds = ?, last_seen_at = ?
+        WHERE id = ?
+      `);
+      workerStmt.run(slots.used + 1, timestamp, workerId);
+
+      this.db.exec('COMMIT');
+      return true;
+    } catch (err) {
+      this.db.exec('ROLLBACK');
+      throw err;
+    }
+  }
+
+  async renewLease(id: string, workerId: string, timestamp: number, leaseExpiresAt: number): Promise<boolean> {
+    const stmt = this.db.prepare(`
+      UPDATE builds
+      SET last_heartbeat_at = ?, lease_expires_at = ?
+      WHERE id = ? AND worker_id = ? AND status IN ('assigned', 'building')
+        AND lease_expires_at > ?
+    `);
+    return stmt.run(timestamp, leaseExpiresAt, id, workerId, timestamp).changes > 0;
+  }
+
+  async listExpiredLeases(now: number): Promise<Build[]> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM builds
+      WHERE lease_expires_at <= ? AND status IN ('assigned', 'building')
+      ORDER BY lease_expires_at ASC
+    `);
+    return stmt.all(now) as Build[];
+  }
+
+  async reclaimLease(id: string, attempt: number, now: number): Promise<boolean> {
+    const stmt = this.db.prepare(`
+      UPDATE builds
+      SET lease_expires_at = NULL
+      WHERE id = ? AND attempt = ? AND status IN ('assigned', 'building')
+        AND lease_expires_at <= ?
+    `);
+    return stmt.run(id, attempt, now).changes > 0;
+  }
+
+  async releaseLease(id: string, workerId: string, attempt: number, now: number): Promise<boolean> {
+    const stmt = this.db.prepare(`
+      UPDATE builds
+      SET lease_expires_at = NULL
+      WHERE id = ? AND worker_id = ? AND attempt = ?
+        AND status IN ('assigned', 'building') AND lease_expires_at > ?
+    `);
+    return stmt.run(id, workerId, attempt, now).changes > 0;
+  }
+
+  async revokeLease(id: string, attempt: number): Promise<boolean> {
+    const stmt = this.db.prepare(`
+      UPDATE builds
+      SET lease_expires_at = NULL
+      WHERE id = ? AND attempt = ? AND status IN ('assigned', 'building')
+        AND lease_expires_at IS NOT NULL
+    `);
+    return stmt.run(id, attempt).changes > 0;
+  }
+
+  async cancel(id: string, timestamp: number, message: string): Promise<boolean> {
+    const stmt = this.db.prepare(`
+      UPDATE builds
+      SET status = 'cancelled', completed_at = ?, cancel_requested_at = ?, error_message = ?, lease_expires_at = NULL
+      WHERE id = ? AND status IN ('pending', 'assigned', 'building')
+    `);
+    return stmt.run(timestamp, timestamp, message, id).changes > 0;
+  }
+
+  async timeOut(id: string, attempt: number, timestamp: number, message: string): Promise<boolean> {
+    const stmt = this.db.prepare(`
+      UPDATE builds
+      SET status = 'failed', completed_at = ?, error_message = ?, lease_expires_at = NULL,
+        cancel_requested_at = CASE WHEN worker_id IS NULL THEN NULL ELSE ? END
+      WHERE id = ? AND attempt = ? AND status IN ('pending', 'assigned', 'building')
+    `);
+    return stmt.run(timestamp, message, timestamp, id, attempt).changes > 0;
+  }
+
+  async listUnacknowledgedCancels(workerId: string): Promise<Build[]> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM builds
+      WHERE worker_id = ? AND status IN ('cancelled', 'failed')
+        AND cancel_requested_at IS NOT NULL AND cancel_acknowledged_at IS NULL
+      ORDER BY cancel_requested_at ASC
+    `);
+    return stmt.all(workerId) as Build[];
+  }
+
+  async acknowledgeCancel(id: string, workerId: string, timestamp: number): Promise<boolean> {
+    const stmt = this.db.prepare(`
+      UPDATE builds
+      SET cancel_acknowledged_at = ?
+      WHERE id = ? AND worker_id = ? AND status IN ('cancelled', 'failed')
+        AND cancel_requested_at IS NOT NULL AND cancel_acknowledged_at IS NULL
+    `);
+    return stmt.run(timestamp, id, workerId).changes > 0;
+  }
+
+  async scheduleRetry(id: string, attempt: number, retryAfter: number): Promise<boolean> {
+    const stmt = this.db.prepare(`
+      UPDATE builds
+      SET status = 'pending', attempt = ?, retry_after = ?,
+        worker_id = NULL, started_at = NULL, last_heartbeat_at = NULL, lease_expires_at = NULL
+      WHERE id = ? AND attempt = ? AND status IN ('assigned', 'building')
+    `);
+    return stmt.run(attempt, retryAfter, id, attempt - 1).changes > 0;
+  }
+
+  async countByStatus(statuses: Build['status'][]): Promise<number> {
+    const stmt = this.db.prepare(`
+      SELECT COUNT(*) as count
+      FROM builds
+      WHERE status IN (${statuses.map(() => '?').join(', ')})
+    `);
+    return (stmt.get(...statuses) as { count: number }).count;
+  }
+
+  async countCompletedSince(timestamp: number): Promise<number> {
+    const stmt = this.db.prepare(`
+      SELECT COUNT(*) as count
+      FROM builds
+      WHERE completed_at >= ?
+        AND status = 'completed'
+    `);
+    return (stmt.get(timestamp) as { count: number }).count;
+  }
+
+  async getTotalBuildTimeMs(): Promise<number> {
+    const stmt = this.db.prepare(`
+      SELECT SUM(completed_at - started_at) as total_ms
+      FROM builds
+      WHERE status IN ('completed', 'failed', 'cancelled')
+      AND started_at IS NOT NULL
+      AND completed_at IS NOT NULL
+    `);
+    const result = stmt.get() as { total_ms: number | null };
+    return result.total_ms || 0;
+  }
+
+  async listRecentDurations(limit: number): Promise<BuildDuration[]> {
+    const stmt = this.db.prepare(`
+      SELECT platform, worker_id, completed_at - started_at AS duration_ms
+      FROM builds
+      WHERE status = 'completed' AND cached_from IS NULL
+      AND started_at IS NOT NULL
+      AND completed_at IS NOT NULL
+      ORDER BY completed_at DESC
+      LIMIT ?
+    `);
+    return stmt.all(limit) as BuildDuration[];
+  }
+}
+
+class SqliteBuildLogRepository implements BuildLogRepository {
+  constructor(private db: BunDatabase) {}
+
+  async add(log: Omit<BuildLog, 'id' | 'attempt'>) {
+    const stmt = this.db.prepare(`
+      INSERT INTO build_logs (build_id, attempt, timestamp, level, message)
+      VALUES (?, COALESCE((SELECT attempt FROM builds WHERE id = ?), 1), ?, ?, ?)
+    `);
+    stmt.run(log.build_id, log.build_id, log.timestamp, log.level, log.message);
+  }
+
+  async list(buildId: string): Promise<BuildLog[]> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM build_logs
+      WHERE build_id = ?
+      ORDER BY timestamp ASC
+    `);
+    return stmt.all(buildId) as BuildLog[];
+  }
+
+  async listAfter(buildId: string, afterId: number): Promise<BuildLog[]> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM build_logs
+      WHERE build_id = ? AND id > ?
+      ORDER BY id ASC
+    `);
+    return stmt.all(buildId, afterId) as BuildLog[];
+  }
+
+  async countExpired(cutoff: number): Promise<number> {
+    const stmt = this.db.prepare(`
+      SELECT COUNT(*) as count FROM build_logs
+      WHERE build_id IN (${EXPIRED_LOG_BUILDS})
+    `);
+    return (stmt.get(cutoff) as { count: number }).count;
+  }
+
+  async purgeExpired(cutoff: number): Promise<number> {
+    const stmt = this.db.prepare(`
+      DELETE FROM build_logs
+      WHERE build_id IN (${EXPIRED_LOG_BUILDS})
+    `);
+    return stmt.run(cutoff).changes;
+  }
+}
+
+class SqliteBuildGroupRepository implements BuildGroupRepository {
+  constructor(private db: BunDatabase) {}
+
+  async create(group: BuildGroup) {
+    const stmt = this.db.prepare(`
+      INSERT INTO build_groups (id, access_token, submitted_at, submitter)
+      VALUES (?, ?, ?, ?)
+    `);
+    stmt.run(group.id, group.access_token, group.submitted_at, group.submitter);
+  }
+
+  async get(id: string): Promise<BuildGroup | undefined> {
+    const stmt = this.db.prepare('SELECT * FROM build_groups WHERE id = ?');
+    return (stmt.get(id) as BuildGroup | null) ?? undefined;
+  }
+
+  async list(): Promise<BuildGroup[]> {
+    const stmt = this.db.prepare('SELECT * FROM build_groups ORDER BY submitted_at ASC');
+    return stmt.all() as BuildGroup[];
+  }
+}
+
+class SqliteScheduleRepository implements ScheduleRepository {
+  constructor(private db: BunDatabase) {}
+
+  async create(schedule: Omit<Schedule, 'last_run_at'>) {
+    const stmt = this.db.prepare(`
+      INSERT INTO schedules (
+        id, name, cron, platforms, source_sha256, certs_sha256, git_url, git_ref,
+        priority, submitter, requirements, catch_up, created_at, next_run_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    stmt.run(
+      schedule.id,
+      schedule.name,
+      schedule.cron,
+      schedule.platforms,
+      schedule.source_sha256,
+      schedule.certs_sha256,
+      schedule.git_url,
+      schedule.git_ref,
+      schedule.priority,
+      schedule.submitter,
+      schedule.requirements,
+      schedule.catch_up,
+      schedule.created_at,
+      schedule.next_run_at
+    );
+  }
+
+  async get(id: string): Promise<Schedule | undefined> {
+    const stmt = this.db.prepare('SELECT * FROM schedules WHERE id = ?');
+    return (stmt.get(id) as Schedule | null) ?? undefined;
+  }
+
+  async list(): Promise<Schedule[]> {
+    const stmt = this.db.prepare('SELECT * FROM schedules ORDER BY created_at ASC');
+    return stmt.all() as Schedule[];
+  }
+
+  async listDue(now: number): Promise<Schedule[]> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM schedules
+      WHERE next_run_at <= ?
+      ORDER BY next_run_at ASC
+    `);
+    return stmt.all(now) as Schedule[];
+  }
+
+  async advance(id: string, dueAt: number, nextRunAt: number, lastRunAt: number | null): Promise<boolean> {
+    const stmt = this.db.prepare(`
+      UPDATE schedules
+      SET next_run_at = ?, last_run_at = COALESCE(?, last_run_at)
+      WHERE id = ? AND next_run_at = ?
+    `);
+    return stmt.run(nextRunAt, lastRunAt, id, dueAt).changes > 0;
+  }
+
+  async delete(id: string) {
+    try {
+      this.db.exec('BEGIN IMMEDIATE');
+      this.db.prepare('DELETE FROM schedule_runs WHERE schedule_id = ?').run(id);
+      this.db.prepare('DELETE FROM schedules WHERE id = ?').run(id);
+      this.db.exec('COMMIT');
+    } catch (err) {
+      this.db.exec('ROLLBACK');
+      throw err;
+    }
+  }
+
+  async recordRun(run: Omit<ScheduleRun, 'id'>) {
+    const stmt = this.db.prepare(`
+      INSERT INTO schedule_runs (schedule_id, scheduled_for, recorded_at, outcome, build_id, error_message)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    stmt.run(run.schedule_id, run.scheduled_for, run.recorded_at, run.outcome, run.build_id, run.error_message);
+  }
+
+  async listRuns(scheduleId: string, limit = 50): Promise<ScheduleRun[]> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM schedule_runs
+      WHERE schedule_id = ?
+      ORDER BY scheduled_for DESC, id DESC
+      LIMIT ?
+    `);
+    return stmt.all(scheduleId, limit) as ScheduleRun[];
+  }
+}
+
+class SqliteBuildAttemptRepository implements BuildAttemptRepository {
+  constructor(private db: BunDatabase) {}
+
+  async list(buildId: string): Promise<BuildAttempt[]> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM build_attempts
+      WHERE build_id = ?
+      ORDER BY attempt ASC
+    `);
+    return stmt.all(buildId) as BuildAttempt[];
+  }
+
+  async finish(
+    buildId: string,
+    attempt: number,
+    result: Pick<BuildAttempt, 'finished_at' | 'outcome'> & Partial<Pick<BuildAttempt, 'failure_type' | 'error_message'>>
+  ) {
+    const stmt = this.db.prepare(`
+      UPDATE build_attempts
+      SET finished_at = ?, outcome = ?, failure_type = ?, error_message = ?
+      WHERE build_id = ? AND attempt = ? AND outcome IS NULL
+    `);
+    stmt.run(
+      result.finished_at,
+      result.outcome,
+      result.failure_type ?? null,
+      result.error_message ?? null,
+      buildId,
+      attempt
+    );
+  }
+}
+
+class SqliteDiagnosticRepository implements DiagnosticRepository {
+  constructor(private db: BunDatabase) {}
+
+  async save(report: Omit<DiagnosticReport, 'id'>): Promise<string> {
+    const id = crypto.randomUUID();
+    const stmt = this.db.prepare(`
+      INSERT INTO diagnostics (id, worker_id, status, run_at, duration_ms, auto_fixed, checks)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    stmt.run(
+      id,
+      report.worker_id,
+      report.status,
+      report.run_at,
+      report.duration_ms,
+      report.auto_fixed,
+      report.checks
+    );
+    return id;
+  }
+
+  async list(workerId: string, limit: number = 10): Promise<DiagnosticReport[]> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM diagnostics
+      WHERE worker_id = ?
+      ORDER BY run_at DESC
+      LIMIT ?
+    `);
+    return stmt.all(workerId, limit) as DiagnosticReport[];
+  }
+
+  async getLatest(workerId: string): Promise<DiagnosticReport | undefined> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM diagnostics
+      WHERE worker_id = ?
+      ORDER BY run_at DESC
+      LIMIT 1
+    `);
+    return (stmt.get(workerId) as DiagnosticReport | null) ?? undefined;
+  }
+}
+
+class SqliteCpuSnapshotRepository implements CpuSnapshotRepository {
+  constructor(private db: BunDatabase) {}
+
+  async add(snapshot: Omit<CpuSnapshot, 'id'>) {
+    const stmt = this.db.prepare(`
+      INSERT INTO cpu_snapshots (build_id, timestamp, cpu_percent, memory_mb)
+      VALUES (?, ?, ?, ?)
+    `);
+    stmt.run(
+      snapshot.build_id,
+      snapshot.timestamp,
+      snapshot.cpu_percent,
+      snapshot.memory_mb
+    );
+  }
+
+  async list(buildId: string): Promise<CpuSnapshot[]> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM cpu_snapshots
+      WHERE build_id = ?
+      ORDER BY timestamp ASC
+    `);
+    return stmt.all(buildId) as CpuSnapshot[];
+  }
+
+  async count(): Promise<number> {
+    const stmt = this.db.prepare('SELECT COUNT(*) as count FROM cpu_snapshots');
+    const result = stmt.get() as { count: number };
+    return result.count;
+  }
+
+  async getAverageCpuPercent(): Promise<number | null> {
+    const stmt = this.db.prepare('SELECT AVG(cpu_percent) as avg_cpu FROM cpu_snapshots');
+    return (stmt.get() as { avg_cpu: number | null }).avg_cpu;
+  }
+
+  async purgeOlderThan(daysOld: number): Promise<number> {
+    const cutoff = Date.now() - (daysOld * 24 * 60 * 60 * 1000);
+    const stmt = this.db.prepare('DELETE FROM cpu_snapshots WHERE timestamp < ?');
+    const result = stmt.run(cutoff);
+    return result.changes;
+  }
+}
+
+class SqliteUploadSessionRepository implements UploadSessionRepository {
+  constructor(private db: BunDatabase) {}
+
+  async create(session: Omit<UploadSession, 'status' | 'committed_offset' | 'sha256'>) {
+    const stmt = this.db.prepare(`
+      INSERT INTO upload_sessions (
+        id, kind, total_size, expected_sha256, build_id, worker_id,
+        created_at, updated_at, expires_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    stmt.run(
+      session.id,
+      session.kind,
+      session.total_size,
+      session.expected_sha256,
+      session.build_id,
+      session.worker_id,
+      session.created_at,
+      session.updated_at,
+      session.expires_at
+    );
+  }
+
+  async get(id: string): Promise<UploadSession | undefined> {
+    const stmt = this.db.prepare('SELECT * FROM upload_sessions WHERE id = ?');
+    return (stmt.get(id) as UploadSession | null) ?? undefined;
+  }
+
+  async advanceOffset(id: string, fromOffset: number, toOffset: number, timestamp: number, expiresAt: number): Promise<boolean> {
+    const stmt = this.db.prepare(`
+      UPDATE upload_sessions
+      SET committed_offset = ?, updated_at = ?, expires_at = ?
+      WHERE id = ? AND committed_offset = ? AND status = 'uploading'
+    `);
+    return stmt.run(toOffset, timestamp, expiresAt, id, fromOffset).changes === 1;
+  }
+
+  async complete(id: string, sha256: string, timestamp: number) {
+    const stmt = this.db.prepare(`
+      UPDATE upload_sessions
+      SET status = 'complete', sha256 = ?, updated_at = ?
+      WHERE id = ?
+    `);
+    stmt.run(sha256, timestamp, id);
+  }
+
+  async claim(id: string, now: number): Promise<boolean> {
+    const stmt = this.db.prepare(`
+      DELETE FROM upload_sessions
+      WHERE id = ? AND status = 'complete' AND expires_at >= ?
+    `);
+    return stmt.run(id, now).changes > 0;
+  }
+
+  async delete(id: string) {
+    const stmt = this.db.prepare('DELETE FROM upload_sessions WHERE id = ?');
+    stmt.run(id);
+  }
+
+  async listExpired(now: number): Promise<UploadSession[]> {
+    const stmt = this.db.prepare('SELECT * FROM upload_sessions WHERE expires_at < ?');
+    return stmt.all(now) as UploadSession[];
+  }
+}
+
+class SqliteBlobRepository implements BlobRepository {
+  constructor(private db: BunDatabase) {}
+
+  async get(sha256: string): Promise<Blob | undefined> {
+    const stmt = this.db.prepare('SELECT * FROM blobs WHERE sha256 = ?');
+    return (stmt.get(sha256) as Blob | null) ?? undefined;
+  }
+
+  async getByLocation(location: string): Promise<Blob | undefined> {
+    const stmt = this.db.prepare('SELECT * FROM blobs WHERE location = ?');
+    return (stmt.get(location) as Blob | null) ?? undefined;
+  }
+
+  async list(): Promise<Blob[]> {
+    const stmt = this.db.prepare('SELECT * FROM blobs ORDER BY created_at ASC');
+    return stmt.all() as Blob[];
+  }
+
+  async register(blob: Omit<Blob, 'ref_count'>, refCount = 1) {
+    const stmt = this.db.prepare(`
+      INSERT INTO blobs (sha256, location, size, ref_count, created_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(sha256) DO UPDATE SET
+        location = excluded.location,
+        ref_count = ref_count + excluded.ref_count
+    `);
+    stmt.run(blob.sha256, blob.location, blob.size, refCount, blob.created_at);
+  }
+
+  async addReference(sha256: string) {
+    const stmt = this.db.prepare('UPDATE blobs SET ref_count = ref_count + 1 WHERE sha256 = ?');
+    stmt.run(sha256);
+  }
+
+  async releaseReference(sha256: string): Promise<number> {
+    try {
+      this.db.exec('BEGIN IMMEDIATE');
+
+      const update = this.db.prepare(`
+        UPDATE blobs SET ref_count = ref_count - 1
+        WHERE sha256 = ?
+        RETURNING ref_count
+      `);
+      const row = update.get(sha256) as { ref_count: number } | null;
+      const remaining = Math.max(row?.ref_count ?? 0, 0);
+
+      if (remaining === 0) {
+        this.db.prepare('DELETE FROM blobs WHERE sha256 = ?').run(sha256);
+      }
+
+      this.db.exec('COMMIT');
+      return remaining;
+    } catch (err) {
+      this.db.exec('ROLLBACK');
+      throw err;
+    }
+  }
+
+  async updateLocation(sha256: string, location: string) {
+    const stmt = this.db.prepare('UPDATE blobs SET location = ? WHERE sha256 = ?');
+    stmt.run(location, sha256);
+  }
+}
+
+class SqliteSettingRepository implements SettingRepository {
+  constructor(private db: BunDatabase) {}
+
+  async get(key: string): Promise<ControllerSetting | undefined> {
+    const stmt = this.db.prepare('SELECT * FROM controller_settings WHERE key = ?');
+    return (stmt.get(key) as ControllerSetting | null) ?? undefined;
+  }
+
+  async set(key: string, value: string, timestamp: number) {
+    const stmt = this.db.prepare(`
+      INSERT INTO controller_settings (key, value, updated_at)
+      VALUES (?, ?, ?)
+      ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at
+    `);
+    stmt.run(key, value, timestamp);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const stmt = this.db.prepare('DELETE FROM controller_settings WHERE key = ?');
+    return stmt.run(key).changes > 0;
+  }
+}
@@ -0,0 +1,446 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { SQL } from 'bun';
+import { mkdirSync, rmSync } from 'fs';
+import { join } from 'path';
+import type { DatabaseService, NewBuild } from '../Database';
+import { SqliteDatabase } from '../SqliteDatabase';
+import { PostgresDatabase } from '../PostgresDatabase';
+
+/**
+ * Every backend must behave the same behind the repository interfaces.
+ * PostgreSQL runs only when TEST_DATABASE_URL points at a disposable
+ * database (its tables are truncated before each test), e.g.
+ *   TEST_DATABASE_URL=postgres://localhost/expo_free_agent_test bun test
+ */
+const backends: Array<{ name: string; open: () => Promise<DatabaseService> }> = [
+  {
+    name: 'SQLite',
+    open: async () => new SqliteDatabase(':memory:'),
+  },
+];
+
+const testDatabaseUrl = process.env.TEST_DATABASE_URL;
+if (testDatabaseUrl) {
+  backends.push({
+    name: 'PostgreSQL',
+    open: async () => {
+      const db = new PostgresDatabase(testDatabaseUrl);
+      await db.migrate();
+
+      const sql = new SQL(testDatabaseUrl);
+      await sql`TRUNCATE workers, worker_sessions, build_groups, builds, build_logs, build_attempts, schedules, schedule_runs, diagnostics, cpu_snapshots, upload_sessions, blobs, controller_settings`;
+      await sql.close();
+
+      return db;
+    },
+  });
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+for (const backend of backends) {
+  describe(`DatabaseService (${backend.name})`, () => {
+    const now = Date.now();
+    let db: DatabaseService;
+
+    beforeEach(async () => {
+      db = await backend.open();
+    });
+
+    afterEach(async () => {
+      await db.close();
+    });
+
+    const newBuild = (id: string, overrides: Partial<NewBuild> = {}): NewBuild => ({
+      id,
+      status: 'pending',
+      platform: 'ios',
+      source_path: `builds/${id}.zip`,
+      certs_path: null,
+      submitted_at: now,
+      access_token: `token-${id}`,
+      source_sha256: null,
+      certs_sha256: null,
+      source_size: 100,
+      certs_size: null,
+      priority: 'normal',
+      submitter: null,
+      requirements: null,
+      group_id: null,
+      cache_key: null,
+      cached_from: null,
+      ...overrides,
+    });
+
+    const registerWorker = (id: string) =>
+      db.workers.register({
+        id,
+        name: `Worker ${id}`,
+        status: 'idle',
+        capabilities: '{}',
+        registered_at: now,
+        last_seen_at: now,
+      });
+
+    test('should round-trip workers with numeric timestamps', async () => {
+      await registerWorker('w1');
+      await db.workers.incrementBuilds('w1', true);
+      await db.workers.incrementBuilds('w1', false);
+      await db.workers.updateStatus('w1', 'building', now + 1);
+
+      const worker = await db.workers.get('w1');
+      expect(worker).toMatchObject({ status: 'building', builds_completed: 1, builds_failed: 1 });
+      expect(worker?.last_seen_at).toBe(now + 1);
+      expect(await db.workers.get('missing')).toBeUndefined();
+      expect(await db.workers.listIdle()).toEqual([]);
+      expect(await db.workers.countOnline(now)).toBe(1);
+    });
+
+    test('should create, verify and update builds', async () => {
+      await db.builds.create(newBuild('b1', { source_sha256: 'a'.repeat(64) }));
+
+      expect(await db.builds.verifyToken('b1', 'token-b1')).toMatchObject({ id: 'b1', submitted_at: now, pinned: 0 });
+      expect(await db.builds.verifyToken('b1', 'wrong')).toBeUndefined();
+
+      await db.builds.updateStatus('b1', 'completed', { completed_at: now + 5, result_path: 'results/b1.ipa', result_size: 42 });
+      await db.builds.updateHeartbeat('b1', now + 3);
+      await db.builds.setPinned('b1', true);
+
+      expect(await db.builds.get('b1')).toMatchObject({
+        status: 'completed',
+        completed_at: now + 5,
+        result_path: 'results/b1.ipa',
+        result_size: 42,
+        last_heartbeat_at: now + 3,
+        pinned: 1,
+      });
+    });
+
+    test('should list pending builds oldest first', async () => {
+      await db.builds.create(newBuild('newer', { submitted_at: now + 1 }));
+      await db.builds.create(newBuild('older', { submitted_at: now }));
+
+      expect((await db.builds.listPending()).map((b) => b.id)).toEqual(['older', 'newer']);
+      expect((await db.builds.list()).map((b) => b.id)).toEqual(['newer', 'older']);
+    });
+
+    test('should assign a pending build to only one worker', async () => {
+      await registerWorker('w1');
+      await registerWorker('w2');
+      await db.builds.create(newBuild('b1'));
+
+      const results = await Promise.all([
+        db.builds.assignToWorker('b1', 'w1', now, now + 120_000),
+        db.builds.assignToWorker('b1', 'w2', now, now + 120_000),
+      ]);
+
+      expect(results.filter(Boolean)).toHaveLength(1);
+      const build = await db.builds.get('b1');
+      expect(build?.status).toBe('assigned');
+      expect((await db.workers.get(build!.worker_id!))?.status).toBe('building');
+      expect((await db.builds.listAssigned()).map((b) => b.id)).toEqual(['b1']);
+    });
+
+    test('should assign a worker only as many builds as it has slots', async () => {
+      await db.workers.register({
+        id: 'studio',
+        name: 'Mac Studio',
+        status: 'idle',
+        capabilities: '{}',
+        registered_at: now,
+        last_seen_at: now,
+        max_concurrent_builds: 2,
+      });
+      for (const id of ['b1', 'b2', 'b3']) {
+        await db.builds.create(newBuild(id));
+      }
+
+      expect(await db.builds.assignToWorker('b1', 'studio', now, now + 120_000)).toBe(true);
+      expect(await db.builds.assignToWorker('b2', 'studio', now, now + 120_000)).toBe(true);
+      expect(await db.builds.assignToWorker('b3', 'studio', now, now + 120_000)).toBe(false);
+      expect(await db.workers.get('studio')).toMatchObject({ status: 'building', active_builds: 2 });
+
+      await db.builds.updateStatus('b1', 'completed', { completed_at: now + 1 });
+      await db.workers.syncSlots('studio');
+      expect(await db.workers.get('studio')).toMatchObject({ status: 'building', active_builds: 1 });
+
+      await db.builds.updateStatus('b2', 'failed', { completed_at: now + 2 });
+      await db.workers.syncSlots('studio');
+      expect(await db.workers.get('studio')).toMatchObject({ status: 'idle', active_builds: 0 });
+    });
+
+    test('should record attempts and requeue a running build only once', async () => {
+      await registerWorker('w1');
+      await db.builds.create(newBuild('b1'));
+      await db.builds.assignToWorker('b1', 'w1', now, now + 120_000);
+      await db.logs.add({ build_id: 'b1', timestamp: now, level: 'info', message: 'first run' });
+      await db.attempts.finish('b1', 1, { finished_at: now + 1, outcome: 'failed', failure_type: 'infrastructure', error_message: 'lost' });
+
+      expect(await db.builds.scheduleRetry('b1', 2, now + 100)).toBe(true);
+      expect(await db.builds.scheduleRetry('b1', 2, now + 100)).toBe(false);
+      expect(await db.builds.get('b1')).toMatchObject({ status: 'pending', attempt: 2, retry_after: now + 100, worker_id: null });
+
+      await db.builds.assignToWorker('b1', 'w1', now + 200, now + 120_200);
+      await db.logs.add({ build_id: 'b1', timestamp: now + 200, level: 'info', message: 'second run' });
+      await db.attempts.finish('b1', 2, { finished_at: now + 300, outcome: 'completed' });
+      await db.attempts.finish('b1', 2, { finished_at: now + 400, outcome: 'cancelled' });
+
+      expect(await db.attempts.list('b1')).toEqual([
+        { build_id: 'b1', attempt: 1, worker_id: 'w1', started_at: now, finished_at: now + 1, outcome: 'failed', failure_type: 'infrastructure', error_message: 'lost' },
+        { build_id: 'b1', attempt: 2, worker_id: 'w1', started_at: now + 200, finished_at: now + 300, outcome: 'completed', failure_type: null, error_message: null },
+      ]);
+      expect((await db.logs.list('b1')).map((log) => log.attempt)).toEqual([1, 2]);
+    });
+
+    test('should expire, renew and reclaim leases', async () => {
+      await registerWorker('w1');
+      await db.builds.create(newBuild('b1'));
+      await db.builds.assignToWorker('b1', 'w1', now, now + 100);
+
+      expect(await db.builds.renewLease('b1', 'w2', now + 50, now + 150)).toBe(false);
+      expect(await db.builds.renewLease('b1', 'w1', now + 50, now + 150)).toBe(true);
+      expect(await db.builds.listExpiredLeases(now + 149)).toEqual([]);
+
+      expect((await db.builds.listExpiredLeases(now + 150)).map((b) => b.id)).toEqual(['b1']);
+      expect(await db.builds.reclaimLease('b1', 1, now + 150)).toBe(true);
+      expect(await db.builds.reclaimLease('b1', 1, now + 150)).toBe(false);
+      expect(await db.builds.releaseLease('b1', 'w1', 1, now + 150)).toBe(false);
+      expect(await db.builds.listExpiredLeases(now + 150)).toEqual([]);
+    });
+
+    test('should cancel a build once and record its acknowledgement', async () => {
+      await registerWorker('w1');
+      await db.builds.create(newBuild('b1'));
+      await db.builds.assignToWorker('b1', 'w1', now, now + 100);
+
+      expect(await db.builds.cancel('b1', now + 10, 'Build cancelled by user')).toBe(true);
+      expect(await db.builds.cancel('b1', now + 20, 'Build cancelled by user')).toBe(false);
+      expect(await db.builds.releaseLease('b1', 'w1', 1, now + 30)).toBe(false);
+      expect(await db.builds.get('b1')).toMatchObject({
+        status: 'cancelled',
+        worker_id: 'w1',
+        completed_at: now + 10,
+        cancel_requested_at: now + 10,
+        cancel_acknowledged_at: null,
+        lease_expires_at: null,
+      });
+      expect((await db.builds.listUnacknowledgedCancels('w1')).map((b) => b.id)).toEqual(['b1']);
+
+      expect(await db.builds.acknowledgeCancel('b1', 'w2', now + 40)).toBe(false);
+      expect(await db.builds.acknowledgeCancel('b1', 'w1', now + 40)).toBe(true);
+      expect(await db.builds.acknowledgeCancel('b1', 'w1', now + 50)).toBe(false);
+      expect(await db.builds.listUnacknowledgedCancels('w1')).toEqual([]);
+    });
+
+    test('should track stored and deleted artifacts', async () => {
+      await db.builds.create(newBuild('b1', { certs_path: 'blobs/certs', certs_size: 10 }));
+      await db.builds.create(newBuild('b2', { certs_path: 'blobs/certs', certs_size: 10 }));
+
+      expect(await db.builds.listStoredCertsPaths()).toEqual(['blobs/certs']);
+
+      for (const id of ['b1', 'b2']) {
+        await db.builds.markArtifactDeleted(id, 'certs', now);
+      }
+      await db.builds.markArtifactDeleted('b1', 'source', now);
+
+      expect(await db.builds.listStoredCertsPaths()).toEqual([]);
+      expect((await db.builds.listWithStoredArtifacts()).map((b) => b.id)).toEqual(['b2']);
+      expect((await db.builds.get('b1'))?.certs_deleted_at).toBe(now);
+    });
+
+    test('should count builds for stats', async () => {
+      await db.builds.create(newBuild('done'));
+      await db.builds.updateStatus('done', 'completed', { started_at: now - 1000, completed_at: now });
+      await db.builds.create(newBuild('broken'));
+      await db.builds.updateStatus('broken', 'failed', { started_at: now - 500, completed_at: now });
+      await db.builds.create(newBuild('queued'));
+
+      expect(await db.builds.countByStatus(['completed', 'failed'])).toBe(2);
+      expect(await db.builds.countByStatus(['pending'])).toBe(1);
+      expect(await db.builds.countCompletedSince(now)).toBe(1);
+      expect(await db.builds.getTotalBuildTimeMs()).toBe(1500);
+      expect(await db.builds.listRecentDurations(10)).toEqual([{ platform: 'ios', worker_id: null, duration_ms: 1000 }]);
+    });
+
+    test('should purge logs of unpinned builds that finished before the cutoff', async () => {
+      for (const id of ['old', 'pinned']) {
+        await db.builds.create(newBuild(id));
+        await db.builds.updateStatus(id, 'completed', { completed_at: now - 10 * DAY_MS });
+        await db.logs.add({ build_id: id, timestamp: now - 10 * DAY_MS, level: 'info', message: 'first' });
+        await db.logs.add({ build_id: id, timestamp: now - 10 * DAY_MS, level: 'info', message: 'second' });
+      }
+      await db.builds.setPinned('pinned', true);
+
+      expect((await db.logs.list('old')).map((log) => log.message)).toEqual(['first', 'second']);
+      expect(await db.logs.countExpired(now - DAY_MS)).toBe(2);
+      expect(await db.logs.purgeExpired(now - DAY_MS)).toBe(2);
+      expect(await db.logs.list('old')).toEqual([]);
+      expect(await db.logs.list('pinned')).toHaveLength(2);
+    });
+
+    test('should store diagnostics and CPU snapshots', async () => {
+      await registerWorker('w1');
+      await db.builds.create(newBuild('b1'));
+
+      await db.diagnostics.save({ worker_id: 'w1', status: 'healthy', run_at: now - 1, duration_ms: 5, auto_fixed: 0, checks: '[]' });
+      const latest = await db.diagnostics.save({ worker_id: 'w1', status: 'warning', run_at: now, duration_ms: 7, auto_fixed: 1, checks: '[]' });
+
+      expect((await db.diagnostics.getLatest('w1'))?.id).toBe(latest);
+      expect(await db.diagnostics.list('w1', 1)).toHaveLength(1);
+
+      await db.cpuSnapshots.add({ build_id: 'b1', timestamp: now - 100 * DAY_MS, cpu_percent: 20, memory_mb: 512.5 });
+      await db.cpuSnapshots.add({ build_id: 'b1', timestamp: now, cpu_percent: 40, memory_mb: 1024 });
+
+      expect(await db.cpuSnapshots.getAverageCpuPercent()).toBe(30);
+      expect(await db.cpuSnapshots.purgeOlderThan(90)).toBe(1);
+      expect(await db.cpuSnapshots.list('b1')).toMatchObject([{ cpu_percent: 40, memory_mb: 1024, timestamp: now }]);
+      expect(await db.cpuSnapshots.count()).toBe(1);
+    });
+
+    test('should advance upload offsets only from the committed offset', async () => {
+      await db.uploads.create({
+        id: 'u1',
+        kind: 'source',
+        total_size: 10,
+        expected_sha256: null,
+        build_id: null,
+        worker_id: null,
+        created_at: now,
+        updated_at: now,
+        expires_at: now + DAY_MS,
+      });
+
+      expect(await db.uploads.advanceOffset('u1', 0, 5, now, now + DAY_MS)).toBe(true);
+      expect(await db.uploads.advanceOffset('u1', 0, 5, now, now + DAY_MS)).toBe(false);
+
+      await db.uploads.complete('u1', 'b'.repeat(64), now);
+      expect(await db.uploads.get('u1')).toMatchObject({ status: 'complete', committed_offset: 5, total_size: 10 });
+      expect(await db.uploads.listExpired(now + 2 * DAY_MS)).toHaveLength(1);
+      expect(await db.uploads.claim('u1', now + 2 * DAY_MS)).toBe(false);
+
+      expect(await db.uploads.claim('u1', now)).toBe(true);
+      expect(await db.uploads.claim('u1', now)).toBe(false);
+      expect(await db.uploads.get('u1')).toBeUndefined();
+
+      await db.uploads.delete('u1');
+      expect(await db.uploads.get('u1')).toBeUndefined();
+    });
+
+    test('should count blob references', async () => {
+      const blob = { sha256: 'c'.repeat(64), location: 'blobs/c', size: 3, created_at: now };
+
+      await db.blobs.register(blob);
+      await db.blobs.register(blob, 2);
+      await db.blobs.addReference(blob.sha256);
+
+      expect(await db.blobs.getByLocation('blobs/c')).toMatchObject({ ref_count: 4, size: 3 });
+      expect(await db.blobs.releaseReference(blob.sha256)).toBe(3);
+
+      for (const remaining of [2, 1, 0]) {
+        expect(await db.blobs.releaseReference(blob.sha256)).toBe(remaining);
+      }
+      expect(await db.blobs.get(blob.sha256)).toBeUndefined();
+    });
+
+    test('should rewrite artifact and blob locations', async () => {
+      await db.blobs.register({ sha256: 'd'.repeat(64), location: '/old/blobs/d', size: 3, created_at: now + 1 });
+      await db.blobs.register({ sha256: 'e'.repeat(64), location: '/old/blobs/e', size: 4, created_at: now });
+      await db.builds.create(newBuild('b1', { source_path: '/old/blobs/d' }));
+
+      await db.builds.updateArtifactLocations('b1', {
+        source_path: '/new/blobs/d',
+        certs_path: null,
+        result_path: '/new/results/b1.ipa',
+      });
+      await db.blobs.updateLocation('d'.repeat(64), '/new/blobs/d');
+
+      expect(await db.builds.get('b1')).toMatchObject({ source_path: '/new/blobs/d', result_path: '/new/results/b1.ipa' });
+      expect((await db.blobs.list()).map((blob) => blob.location)).toEqual(['/old/blobs/e', '/new/blobs/d']);
+    });
+
+    test('should advance a due schedule only once and keep its run history', async () => {
+      await db.schedules.create({
+        id: 's1',
+        name: 'nightly',
+        cron: '0 2 * * *',
+        platforms: 'android,ios',
+        source_sha256: 'a'.repeat(64),
+        certs_sha256: null,
+        git_url: null,
+        git_ref: null,
+        priority: 'background',
+        submitter: null,
+        requirements: null,
+        catch_up: 1,
+        created_at: now,
+        next_run_at: now + 100,
+      });
+
+      expect(await db.schedules.listDue(now)).toEqual([]);
+      expect((await db.schedules.listDue(now + 100)).map((schedule) => schedule.id)).toEqual(['s1']);
+
+      expect(await db.schedules.advance('s1', now + 100, now + DAY_MS, now + 150)).toBe(true);
+      expect(await db.schedules.advance('s1', now + 100, now + DAY_MS, now + 150)).toBe(false);
+      expect(await db.schedules.get('s1')).toMatchObject({ next_run_at: now + DAY_MS, last_run_at: now + 150 });
+
+      await db.schedules.recordRun({ schedule_id: 's1', scheduled_for: now + 100, recorded_at: now + 150, outcome: 'triggered', build_id: 'b1', error_message: null });
+      await db.schedules.recordRun({ schedule_id: 's1', scheduled_for: now + DAY_MS, recorded_at: now + DAY_MS, outcome: 'failed', build_id: null, error_message: 'clone failed' });
+      expect((await db.schedules.listRuns('s1')).map((run) => [run.scheduled_for, run.outcome])).toEqual([
+        [now + DAY_MS, 'failed'],
+        [now + 100, 'triggered'],
+      ]);
+
+      await db.schedules.delete('s1');
+      expect(await db.schedules.list()).toEqual([]);
+      expect(await db.schedules.listRuns('s1')).toEqual([]);
+    });
+  });
+}
+
+describe('SqliteDatabase', () => {
+  const testDir = join(process.cwd(), '.test-sqlite-lock');
+
+  beforeEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test('should let only one controller hold the database', async () => {
+    const dbPath = join(testDir, 'controller.db');
+    const first = new SqliteDatabase(dbPath);
+    const second = new SqliteDatabase(dbPath);
+
+    try {
+      await first.lockController();
+      await expect(second.lockController()).rejects.toThrow('Another controller is running against this database');
+
+      await first.close();
+      await second.lockController();
+    } finally {
+      await second.close();
+    }
+  });
+});
+
+if (testDatabaseUrl) {
+  describe('PostgresDatabase', () => {
+    test('should let only one controller hold the database', async () => {
+      const first = new PostgresDatabase(testDatabaseUrl);
+      const second = new PostgresDatabase(testDatabaseUrl);
+
+      try {
+        await first.lockController();
+        await expect(second.lockController()).rejects.toThrow('Another controller is running against this database');
+
+        await first.close();
+        await second.lockController();
+      } finally {
+        await second.close();
+      }
+    });
+  });
+}
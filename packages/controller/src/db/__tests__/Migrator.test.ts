@@ -0,0 +1,158 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { Database as BunDatabase } from 'bun:sqlite';
+import { Migrator, loadMigrations, POSTGRES_MIGRATIONS_DIR, type Migration } from '../Migrator';
+import { SqliteDatabase } from '../SqliteDatabase';
+
+function migration(version: number, name: string, sql: string): Migration {
+  return { version, name, sql, checksum: `checksum-${version}-${sql.length}` };
+}
+
+function columnNames(db: BunDatabase, table: string): string[] {
+  const rows = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  return rows.map((r) => r.name);
+}
+
+describe('Migrator', () => {
+  let db: BunDatabase;
+
+  beforeEach(() => {
+    db = new BunDatabase(':memory:');
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  test('should load bundled migrations in version order', () => {
+    const migrations = loadMigrations();
+
+    expect(migrations.length).toBeGreaterThanOrEqual(2);
+    expect(migrations[0].version).toBe(1);
+    expect(migrations.map((m) => m.version)).toEqual(
+      [...migrations.map((m) => m.version)].sort((a, b) => a - b)
+    );
+  });
+
+  test('should apply all migrations to a fresh database', () => {
+    const migrator = new Migrator(db);
+    const applied = migrator.migrate();
+
+    expect(applied.length).toBe(loadMigrations().length);
+    expect(migrator.getPending()).toEqual([]);
+    expect(columnNames(db, 'builds')).toContain('last_heartbeat_at');
+  });
+
+  test('should be a no-op when already up to date', () => {
+    new Migrator(db).migrate();
+    const applied = new Migrator(db).migrate();
+
+    expect(applied).toEqual([]);
+  });
+
+  test('should upgrade a database created by the legacy schema.sql bootstrap', () => {
+    // Legacy databases have the tables but no schema_migrations record
+    const [initial] = loadMigrations();
+    db.exec(initial.sql);
+    expect(columnNames(db, 'builds')).not.toContain('last_heartbeat_at');
+
+    new Migrator(db).migrate();
+
+    expect(columnNames(db, 'builds')).toContain('last_heartbeat_at');
+  });
+
+  test('should skip columns that already exist, e.g. added by hand', () => {
+    const [initial] = loadMigrations();
+    db.exec(initial.sql);
+    db.exec('ALTER TABLE builds ADD COLUMN last_heartbeat_at INTEGER');
+
+    const migrator = new Migrator(db);
+    migrator.migrate();
+
+    expect(migrator.getPending()).toEqual([]);
+    expect(columnNames(db, 'builds').filter((name) => name === 'last_heartbeat_at')).toHaveLength(1);
+    expect(columnNames(db, 'builds')).toContain('source_sha256');
+  });
+
+  test('dry run should not modify the database', () => {
+    const migrator = new Migrator(db);
+    const pending = migrator.migrate({ dryRun: true });
+
+    expect(pending.length).toBe(loadMigrations().length);
+    const tables = db.prepare("SELECT name FROM sqlite_master WHERE type = 'table'").all();
+    expect(tables).toEqual([]);
+  });
+
+  test('should report status for applied and pending migrations', () => {
+    const migrations = [
+      migration(1, 'create_things', 'CREATE TABLE things (id INTEGER PRIMARY KEY);'),
+      migration(2, 'add_name', 'ALTER TABLE things ADD COLUMN name TEXT;'),
+    ];
+
+    new Migrator(db, migrations.slice(0, 1)).migrate();
+    const status = new Migrator(db, migrations).getStatus();
+
+    expect(status.map((s) => s.state)).toEqual(['applied', 'pending']);
+    expect(status[0].applied_at).not.toBeNull();
+    expect(status[1].applied_at).toBeNull();
+  });
+
+  test('should roll back a failing migration and keep earlier ones', () => {
+    const migrations = [
+      migration(1, 'create_things', 'CREATE TABLE things (id INTEGER PRIMARY KEY);'),
+      migration(2, 'broken', 'ALTER TABLE things ADD COLUMN name TEXT; ALTER TABLE missing ADD COLUMN x TEXT;'),
+    ];
+    const migrator = new Migrator(db, migrations);
+
+    expect(() => migrator.migrate()).toThrow('Migration 2 (broken) failed');
+    expect(migrator.getCurrentVersion()).toBe(1);
+    expect(columnNames(db, 'things')).not.toContain('name');
+  });
+
+  test('should refuse a database migrated by a newer controller', () => {
+    const migrations = [
+      migration(1, 'create_things', 'CREATE TABLE things (id INTEGER PRIMARY KEY);'),
+      migration(2, 'add_name', 'ALTER TABLE things ADD COLUMN name TEXT;'),
+    ];
+    new Migrator(db, migrations).migrate();
+
+    expect(() => new Migrator(db, migrations.slice(0, 1)).migrate()).toThrow('does not know about');
+  });
+
+  test('should refuse edited migrations', () => {
+    new Migrator(db, [migration(1, 'create_things', 'CREATE TABLE things (id INTEGER PRIMARY KEY);')]).migrate();
+
+    const edited = [migration(1, 'create_things', 'CREATE TABLE things (id TEXT PRIMARY KEY);')];
+    expect(() => new Migrator(db, edited).migrate()).toThrow('has changed since it was applied');
+  });
+
+  test('should keep PostgreSQL migrations in step with SQLite', () => {
+    const names = (migrations: Migration[]) => migrations.map((m) => `${m.version}_${m.name}`);
+
+    expect(names(loadMigrations(POSTGRES_MIGRATIONS_DIR))).toEqual(names(loadMigrations()));
+  });
+
+  test('SqliteDatabase should migrate on startup', async () => {
+    const service = new SqliteDatabase(':memory:');
+    const now = Date.now();
+
+    await service.builds.create({
+      id: 'build-1',
+      status: 'pending',
+      platform: 'ios',
+      source_path: '/tmp/source.zip',
+      certs_path: null,
+      submitted_at: now,
+      access_token: 'token',
+      priority: 'normal',
+      submitter: null,
+      requirements: null,
+      group_id: null,
+      cache_key: null,
+      cached_from: null,
+    });
+    await service.builds.updateHeartbeat('build-1', now);
+
+    expect((await service.builds.get('build-1'))?.last_heartbeat_at).toBe(now);
+    await service.close();
+  });
+});
@@ -0,0 +1,15 @@
+import type { ControllerConfig } from '../domain/Config.js';
+import type { DatabaseService } from './Database.js';
+import { SqliteDatabase } from './SqliteDatabase.js';
+import { PostgresDatabase } from './PostgresDatabase.js';
+
+/**
+ * Create the database selected by config: PostgreSQL when databaseUrl is
+ * set, otherwise SQLite at dbPath
+ */
+export function createDatabase(config: ControllerConfig): DatabaseService {
+  if (config.databaseUrl) {
+    return new PostgresDatabase(config.databaseUrl);
+  }
+  return new SqliteDatabase(config.dbPath);
+}
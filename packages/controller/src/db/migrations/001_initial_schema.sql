@@ -1,4 +1,7 @@
--- Central Controller Database Schema
+-- Migration 001: initial controller schema
+--
+-- Uses IF NOT EXISTS so databases created before schema_migrations existed
+-- (via the old schema.sql bootstrap) can be adopted without errors.
 
 CREATE TABLE IF NOT EXISTS workers (
   id TEXT PRIMARY KEY,
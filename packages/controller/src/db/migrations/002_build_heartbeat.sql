@@ -0,0 +1,6 @@
+-- Migration 002: track worker heartbeats on builds
+--
+-- The heartbeat and telemetry routes record the last time a worker proved it
+-- was still alive; the stuck-build checker reads it back.
+
+ALTER TABLE builds ADD COLUMN last_heartbeat_at INTEGER;
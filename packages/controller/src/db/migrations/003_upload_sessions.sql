@@ -0,0 +1,21 @@
+-- Migration 003: resumable upload sessions
+--
+-- Large sources and build results are uploaded in chunks against a session so
+-- an interrupted transfer can resume from the last committed offset.
+
+CREATE TABLE IF NOT EXISTS upload_sessions (
+  id TEXT PRIMARY KEY,
+  kind TEXT NOT NULL, -- source, certs, result
+  status TEXT NOT NULL DEFAULT 'uploading', -- uploading, complete
+  total_size INTEGER NOT NULL, -- declared size in bytes
+  committed_offset INTEGER NOT NULL DEFAULT 0, -- bytes durably written
+  expected_sha256 TEXT, -- optional client-declared digest, verified on finalize
+  sha256 TEXT, -- digest computed on finalize
+  build_id TEXT, -- result uploads only
+  worker_id TEXT, -- result uploads only
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  expires_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_upload_sessions_expires ON upload_sessions(expires_at);
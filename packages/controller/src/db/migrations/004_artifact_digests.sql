@@ -0,0 +1,9 @@
+-- Migration 004: artifact integrity digests
+--
+-- SHA-256 (lowercase hex) of the source zip, certs zip and build result,
+-- computed as each file is stored. NULL for artifacts stored before digests
+-- were recorded.
+
+ALTER TABLE builds ADD COLUMN source_sha256 TEXT;
+ALTER TABLE builds ADD COLUMN certs_sha256 TEXT;
+ALTER TABLE builds ADD COLUMN result_sha256 TEXT;
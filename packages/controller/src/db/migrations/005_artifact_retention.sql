@@ -0,0 +1,15 @@
+-- Migration 005: artifact retention
+--
+-- Sizes let the retention sweep enforce a storage quota without listing the
+-- store. *_deleted_at records when retention removed an artifact; the path is
+-- kept for auditing. Pinned builds are never swept, and last_accessed_at
+-- (bumped on download) orders least-recently-used eviction.
+
+ALTER TABLE builds ADD COLUMN source_size INTEGER;
+ALTER TABLE builds ADD COLUMN certs_size INTEGER;
+ALTER TABLE builds ADD COLUMN result_size INTEGER;
+ALTER TABLE builds ADD COLUMN source_deleted_at INTEGER;
+ALTER TABLE builds ADD COLUMN certs_deleted_at INTEGER;
+ALTER TABLE builds ADD COLUMN result_deleted_at INTEGER;
+ALTER TABLE builds ADD COLUMN pinned INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE builds ADD COLUMN last_accessed_at INTEGER;
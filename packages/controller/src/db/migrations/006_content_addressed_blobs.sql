@@ -0,0 +1,17 @@
+-- Migration 006: content-addressed blobs
+--
+-- Sources and certs are stored once per SHA-256 and shared by every build
+-- that references them (retries, resubmissions of the same zip). ref_count is
+-- the number of builds whose source_path/certs_path is this blob's location;
+-- the blob is deleted when it drops to zero. Artifacts stored before this
+-- migration are registered lazily, the first time a retry shares them.
+
+CREATE TABLE IF NOT EXISTS blobs (
+  sha256 TEXT PRIMARY KEY,
+  location TEXT NOT NULL, -- storage driver location
+  size INTEGER NOT NULL,
+  ref_count INTEGER NOT NULL,
+  created_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_blobs_location ON blobs(location);
@@ -0,0 +1,9 @@
+-- Migration 007: build priority and submitter
+--
+-- The queue dispatches urgent builds before normal before background, and
+-- shares workers fairly between submitters within a priority. Submitter is
+-- self-reported (the API key is shared); builds without one share a queue.
+
+ALTER TABLE builds ADD COLUMN priority TEXT NOT NULL DEFAULT 'normal'
+  CHECK(priority IN ('urgent', 'normal', 'background'));
+ALTER TABLE builds ADD COLUMN submitter TEXT;
@@ -0,0 +1,6 @@
+-- Migration 008: build requirements
+--
+-- JSON object of what a worker must offer to take the build (minimum Xcode
+-- version, memory, Expo SDK); NULL means any worker for the platform will do.
+
+ALTER TABLE builds ADD COLUMN requirements TEXT;
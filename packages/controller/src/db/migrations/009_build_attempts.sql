@@ -0,0 +1,35 @@
+-- Migration 009: build attempts
+--
+-- A build that fails for infrastructure reasons (heartbeat timeout, worker
+-- crash, lost upload) is retried, preferably on another worker. Each run is
+-- one attempt with its own worker, timings and outcome; builds.attempt is the
+-- current one and logs record the attempt they were written during.
+-- retry_after holds a requeued build back until its backoff has elapsed.
+
+ALTER TABLE builds ADD COLUMN attempt INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE builds ADD COLUMN retry_after INTEGER;
+ALTER TABLE build_logs ADD COLUMN attempt INTEGER NOT NULL DEFAULT 1;
+
+CREATE TABLE IF NOT EXISTS build_attempts (
+  build_id TEXT NOT NULL,
+  attempt INTEGER NOT NULL,
+  worker_id TEXT,
+  started_at INTEGER NOT NULL,
+  finished_at INTEGER,
+  outcome TEXT, -- completed, failed, cancelled; NULL while running
+  failure_type TEXT, -- infrastructure, build
+  error_message TEXT,
+  PRIMARY KEY (build_id, attempt),
+  FOREIGN KEY (build_id) REFERENCES builds(id)
+);
+
+-- Builds that already ran count as their first attempt
+INSERT OR IGNORE INTO build_attempts (build_id, attempt, worker_id, started_at, finished_at, outcome, failure_type, error_message)
+SELECT
+  id, 1, worker_id, started_at,
+  CASE WHEN status IN ('completed', 'failed') THEN completed_at END,
+  CASE WHEN status IN ('completed', 'failed') THEN status END,
+  CASE WHEN status = 'failed' THEN 'build' END,
+  error_message
+FROM builds
+WHERE started_at IS NOT NULL;
@@ -0,0 +1,16 @@
+-- Migration 010: build groups
+--
+-- One submission for several platforms creates a group and one build per
+-- platform. The builds share the group's source and certs blobs and its
+-- access token, so the token reaches the group and every build in it.
+
+CREATE TABLE IF NOT EXISTS build_groups (
+  id TEXT PRIMARY KEY,
+  access_token TEXT NOT NULL,
+  submitted_at INTEGER NOT NULL,
+  submitter TEXT
+);
+
+ALTER TABLE builds ADD COLUMN group_id TEXT REFERENCES build_groups(id);
+
+CREATE INDEX IF NOT EXISTS idx_builds_group ON builds(group_id);
@@ -0,0 +1,38 @@
+-- Migration 011: scheduled builds
+--
+-- A schedule submits builds on a cron expression (UTC), either from a stored
+-- source blob (the schedule holds a reference to it, and to its certs) or
+-- from a git branch or tag fetched at each run. schedule_runs is the history:
+-- every run that was due, whether it was triggered, missed while the
+-- controller was down, or failed to submit.
+
+CREATE TABLE IF NOT EXISTS schedules (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  cron TEXT NOT NULL,
+  platforms TEXT NOT NULL, -- comma-separated, e.g. ios,android
+  source_sha256 TEXT,
+  certs_sha256 TEXT,
+  git_url TEXT,
+  git_ref TEXT,
+  priority TEXT NOT NULL DEFAULT 'normal',
+  submitter TEXT,
+  requirements TEXT,
+  catch_up INTEGER NOT NULL DEFAULT 1, -- run once for runs missed during downtime
+  created_at INTEGER NOT NULL,
+  next_run_at INTEGER NOT NULL,
+  last_run_at INTEGER
+);
+
+CREATE TABLE IF NOT EXISTS schedule_runs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  schedule_id TEXT NOT NULL REFERENCES schedules(id),
+  scheduled_for INTEGER NOT NULL,
+  recorded_at INTEGER NOT NULL,
+  outcome TEXT NOT NULL, -- triggered, missed, failed
+  build_id TEXT, -- the build, or the group's ID for several platforms
+  error_message TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_schedules_next_run ON schedules(next_run_at);
+CREATE INDEX IF NOT EXISTS idx_schedule_runs_schedule ON schedule_runs(schedule_id, scheduled_for);
@@ -0,0 +1,11 @@
+-- Migration 012: build result cache
+--
+-- cache_key fingerprints a build's inputs (platform, source, certs and
+-- requirements). With the cache enabled, a submission whose key matches a
+-- completed build with its result still stored completes at once, sharing
+-- that result blob; cached_from names the build it came from.
+
+ALTER TABLE builds ADD COLUMN cache_key TEXT;
+ALTER TABLE builds ADD COLUMN cached_from TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_builds_cache_key ON builds(cache_key);
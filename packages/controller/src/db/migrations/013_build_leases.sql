@@ -0,0 +1,15 @@
+-- Migration 013: build leases
+--
+-- A worker holds its build under a lease that heartbeats and telemetry
+-- renew. Expired leases are found through the index instead of scanning
+-- every build, and reclaimed by clearing lease_expires_at in one
+-- conditional update that a late upload from the worker then fails.
+
+ALTER TABLE builds ADD COLUMN lease_expires_at INTEGER;
+
+-- Running builds keep the previous 2-minute heartbeat allowance
+UPDATE builds
+SET lease_expires_at = COALESCE(last_heartbeat_at, started_at) + 120000
+WHERE status IN ('assigned', 'building');
+
+CREATE INDEX IF NOT EXISTS idx_builds_lease_expires ON builds(lease_expires_at);
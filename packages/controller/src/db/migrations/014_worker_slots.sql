@@ -0,0 +1,14 @@
+-- Migration 014: worker build slots
+--
+-- A worker runs up to max_concurrent_builds builds at once, as it reports at
+-- registration or poll. active_builds counts the slots in use; the worker is
+-- 'building' while any is.
+
+ALTER TABLE workers ADD COLUMN max_concurrent_builds INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE workers ADD COLUMN active_builds INTEGER NOT NULL DEFAULT 0;
+
+UPDATE workers
+SET active_builds = (
+  SELECT COUNT(*) FROM builds
+  WHERE builds.worker_id = workers.id AND builds.status IN ('assigned', 'building')
+);
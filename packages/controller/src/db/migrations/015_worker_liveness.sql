@@ -0,0 +1,21 @@
+-- Migration 015: worker liveness
+--
+-- A worker that stops checking in (polls, heartbeats, telemetry) is marked
+-- offline and its builds are reclaimed; it comes back online with its next
+-- poll. Each stretch online is one session, closed at the time the worker
+-- was last seen, for uptime history.
+
+CREATE TABLE IF NOT EXISTS worker_sessions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  worker_id TEXT NOT NULL,
+  online_at INTEGER NOT NULL,
+  offline_at INTEGER, -- NULL while online
+  FOREIGN KEY (worker_id) REFERENCES workers(id)
+);
+
+-- Workers not yet offline have been online since they registered
+INSERT INTO worker_sessions (worker_id, online_at)
+SELECT id, registered_at FROM workers WHERE status != 'offline';
+
+CREATE INDEX IF NOT EXISTS idx_worker_sessions_worker ON worker_sessions(worker_id, online_at);
+CREATE INDEX IF NOT EXISTS idx_workers_last_seen ON workers(last_seen_at);
@@ -0,0 +1,15 @@
+-- Migration 016: worker drain and maintenance mode
+--
+-- A draining worker finishes the builds it holds but is assigned no new ones
+-- until undrained; a paused worker likewise gets no new builds until resumed.
+-- Controller-wide settings (such as a queue paused for maintenance) are kept
+-- in controller_settings so every controller sharing the database sees them.
+
+ALTER TABLE workers ADD COLUMN drain_requested_at INTEGER; -- NULL unless draining
+ALTER TABLE workers ADD COLUMN paused_at INTEGER; -- NULL unless paused
+
+CREATE TABLE IF NOT EXISTS controller_settings (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL, -- JSON
+  updated_at INTEGER NOT NULL
+);
@@ -0,0 +1,14 @@
+-- Migration 017: build cancellation
+--
+-- Cancelled builds get their own status instead of failing. A build cancelled
+-- while running keeps its worker_id; the worker is told to stop through its
+-- polls, heartbeats and telemetry until it acknowledges (or uploads anyway,
+-- which is rejected and counts as the acknowledgement).
+
+ALTER TABLE builds ADD COLUMN cancel_requested_at INTEGER;
+ALTER TABLE builds ADD COLUMN cancel_acknowledged_at INTEGER;
+
+-- Builds cancelled before this migration were recorded as failures
+UPDATE builds
+SET status = 'cancelled'
+WHERE status = 'failed' AND error_message = 'Build cancelled by user';
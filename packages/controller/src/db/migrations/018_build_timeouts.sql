@@ -0,0 +1,9 @@
+-- Migration 018: build timeouts
+--
+-- Submitters may cap how long a build waits for a worker and how long it
+-- runs; null falls back to the controller's per-platform limits. A build
+-- that runs past its limit fails, and its worker is told to stop the same
+-- way as for a cancellation (cancel_requested_at).
+
+ALTER TABLE builds ADD COLUMN max_queue_wait_ms INTEGER;
+ALTER TABLE builds ADD COLUMN max_duration_ms INTEGER;
@@ -0,0 +1,66 @@
+-- Migration 001: initial controller schema (PostgreSQL)
+--
+-- Mirrors migrations/001_initial_schema.sql. Timestamps are milliseconds since
+-- the epoch (BIGINT) and booleans are 0/1 integers, so rows look the same on
+-- both backends.
+
+CREATE TABLE IF NOT EXISTS workers (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'idle', -- idle, building, offline
+  capabilities TEXT NOT NULL, -- JSON: platforms, xcode_version, etc.
+  registered_at BIGINT NOT NULL,
+  last_seen_at BIGINT NOT NULL,
+  builds_completed INTEGER DEFAULT 0,
+  builds_failed INTEGER DEFAULT 0
+);
+
+CREATE TABLE IF NOT EXISTS builds (
+  id TEXT PRIMARY KEY,
+  status TEXT NOT NULL DEFAULT 'pending', -- pending, assigned, building, completed, failed
+  platform TEXT NOT NULL, -- ios, android
+  source_path TEXT NOT NULL,
+  certs_path TEXT,
+  result_path TEXT,
+  worker_id TEXT REFERENCES workers(id),
+  submitted_at BIGINT NOT NULL,
+  started_at BIGINT,
+  completed_at BIGINT,
+  error_message TEXT,
+  access_token TEXT NOT NULL -- unique token for build submitter access
+);
+
+CREATE TABLE IF NOT EXISTS build_logs (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  build_id TEXT NOT NULL REFERENCES builds(id),
+  timestamp BIGINT NOT NULL,
+  level TEXT NOT NULL, -- info, warn, error
+  message TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS diagnostics (
+  id TEXT PRIMARY KEY,
+  worker_id TEXT NOT NULL REFERENCES workers(id),
+  status TEXT NOT NULL, -- healthy, warning, critical
+  run_at BIGINT NOT NULL,
+  duration_ms BIGINT NOT NULL,
+  auto_fixed INTEGER DEFAULT 0, -- boolean (0 or 1)
+  checks TEXT NOT NULL -- JSON array of check results
+);
+
+CREATE TABLE IF NOT EXISTS cpu_snapshots (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  build_id TEXT NOT NULL REFERENCES builds(id),
+  timestamp BIGINT NOT NULL,
+  cpu_percent DOUBLE PRECISION NOT NULL, -- 0-100% CPU usage
+  memory_mb DOUBLE PRECISION NOT NULL -- Memory usage in MB
+);
+
+CREATE INDEX IF NOT EXISTS idx_builds_status ON builds(status);
+CREATE INDEX IF NOT EXISTS idx_builds_worker ON builds(worker_id);
+CREATE INDEX IF NOT EXISTS idx_builds_access_token ON builds(access_token);
+CREATE INDEX IF NOT EXISTS idx_logs_build ON build_logs(build_id);
+CREATE INDEX IF NOT EXISTS idx_diagnostics_worker ON diagnostics(worker_id);
+CREATE INDEX IF NOT EXISTS idx_diagnostics_run_at ON diagnostics(run_at);
+CREATE INDEX IF NOT EXISTS idx_cpu_snapshots_build ON cpu_snapshots(build_id);
+CREATE INDEX IF NOT EXISTS idx_cpu_snapshots_timestamp ON cpu_snapshots(timestamp);
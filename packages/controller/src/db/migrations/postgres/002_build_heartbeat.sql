@@ -0,0 +1,3 @@
+-- Migration 002: track worker heartbeats on builds (PostgreSQL)
+
+ALTER TABLE builds ADD COLUMN IF NOT EXISTS last_heartbeat_at BIGINT;
@@ -0,0 +1,18 @@
+-- Migration 003: resumable upload sessions (PostgreSQL)
+
+CREATE TABLE IF NOT EXISTS upload_sessions (
+  id TEXT PRIMARY KEY,
+  kind TEXT NOT NULL, -- source, certs, result
+  status TEXT NOT NULL DEFAULT 'uploading', -- uploading, complete
+  total_size BIGINT NOT NULL, -- declared size in bytes
+  committed_offset BIGINT NOT NULL DEFAULT 0, -- bytes durably written
+  expected_sha256 TEXT, -- optional client-declared digest, verified on finalize
+  sha256 TEXT, -- digest computed on finalize
+  build_id TEXT, -- result uploads only
+  worker_id TEXT, -- result uploads only
+  created_at BIGINT NOT NULL,
+  updated_at BIGINT NOT NULL,
+  expires_at BIGINT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_upload_sessions_expires ON upload_sessions(expires_at);
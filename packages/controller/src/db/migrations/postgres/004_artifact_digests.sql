@@ -0,0 +1,5 @@
+-- Migration 004: artifact integrity digests (PostgreSQL)
+
+ALTER TABLE builds ADD COLUMN IF NOT EXISTS source_sha256 TEXT;
+ALTER TABLE builds ADD COLUMN IF NOT EXISTS certs_sha256 TEXT;
+ALTER TABLE builds ADD COLUMN IF NOT EXISTS result_sha256 TEXT;
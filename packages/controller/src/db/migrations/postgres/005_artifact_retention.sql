@@ -0,0 +1,10 @@
+-- Migration 005: artifact retention (PostgreSQL)
+
+ALTER TABLE builds ADD COLUMN IF NOT EXISTS source_size BIGINT;
+ALTER TABLE builds ADD COLUMN IF NOT EXISTS certs_size BIGINT;
+ALTER TABLE builds ADD COLUMN IF NOT EXISTS result_size BIGINT;
+ALTER TABLE builds ADD COLUMN IF NOT EXISTS source_deleted_at BIGINT;
+ALTER TABLE builds ADD COLUMN IF NOT EXISTS certs_deleted_at BIGINT;
+ALTER TABLE builds ADD COLUMN IF NOT EXISTS result_deleted_at BIGINT;
+ALTER TABLE builds ADD COLUMN IF NOT EXISTS pinned INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE builds ADD COLUMN IF NOT EXISTS last_accessed_at BIGINT;
@@ -0,0 +1,11 @@
+-- Migration 006: content-addressed blobs (PostgreSQL)
+
+CREATE TABLE IF NOT EXISTS blobs (
+  sha256 TEXT PRIMARY KEY,
+  location TEXT NOT NULL, -- storage driver location
+  size BIGINT NOT NULL,
+  ref_count INTEGER NOT NULL,
+  created_at BIGINT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_blobs_location ON blobs(location);
@@ -0,0 +1,5 @@
+-- Migration 007: build priority and submitter (PostgreSQL)
+
+ALTER TABLE builds ADD COLUMN IF NOT EXISTS priority TEXT NOT NULL DEFAULT 'normal'
+  CHECK(priority IN ('urgent', 'normal', 'background'));
+ALTER TABLE builds ADD COLUMN IF NOT EXISTS submitter TEXT;
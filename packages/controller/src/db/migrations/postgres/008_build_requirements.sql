@@ -0,0 +1,3 @@
+-- Migration 008: build requirements (PostgreSQL)
+
+ALTER TABLE builds ADD COLUMN IF NOT EXISTS requirements TEXT;
@@ -0,0 +1,28 @@
+-- Migration 009: build attempts (PostgreSQL)
+
+ALTER TABLE builds ADD COLUMN IF NOT EXISTS attempt INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE builds ADD COLUMN IF NOT EXISTS retry_after BIGINT;
+ALTER TABLE build_logs ADD COLUMN IF NOT EXISTS attempt INTEGER NOT NULL DEFAULT 1;
+
+CREATE TABLE IF NOT EXISTS build_attempts (
+  build_id TEXT NOT NULL REFERENCES builds(id),
+  attempt INTEGER NOT NULL,
+  worker_id TEXT,
+  started_at BIGINT NOT NULL,
+  finished_at BIGINT,
+  outcome TEXT, -- completed, failed, cancelled; NULL while running
+  failure_type TEXT, -- infrastructure, build
+  error_message TEXT,
+  PRIMARY KEY (build_id, attempt)
+);
+
+INSERT INTO build_attempts (build_id, attempt, worker_id, started_at, finished_at, outcome, failure_type, error_message)
+SELECT
+  id, 1, worker_id, started_at,
+  CASE WHEN status IN ('completed', 'failed') THEN completed_at END,
+  CASE WHEN status IN ('completed', 'failed') THEN status END,
+  CASE WHEN status = 'failed' THEN 'build' END,
+  error_message
+FROM builds
+WHERE started_at IS NOT NULL
+ON CONFLICT DO NOTHING;
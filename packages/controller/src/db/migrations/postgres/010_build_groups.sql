@@ -0,0 +1,12 @@
+-- Migration 010: build groups (PostgreSQL)
+
+CREATE TABLE IF NOT EXISTS build_groups (
+  id TEXT PRIMARY KEY,
+  access_token TEXT NOT NULL,
+  submitted_at BIGINT NOT NULL,
+  submitter TEXT
+);
+
+ALTER TABLE builds ADD COLUMN IF NOT EXISTS group_id TEXT REFERENCES build_groups(id);
+
+CREATE INDEX IF NOT EXISTS idx_builds_group ON builds(group_id);
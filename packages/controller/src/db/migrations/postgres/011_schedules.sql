@@ -0,0 +1,32 @@
+-- Migration 011: scheduled builds (PostgreSQL)
+
+CREATE TABLE IF NOT EXISTS schedules (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  cron TEXT NOT NULL,
+  platforms TEXT NOT NULL, -- comma-separated, e.g. ios,android
+  source_sha256 TEXT,
+  certs_sha256 TEXT,
+  git_url TEXT,
+  git_ref TEXT,
+  priority TEXT NOT NULL DEFAULT 'normal',
+  submitter TEXT,
+  requirements TEXT,
+  catch_up INTEGER NOT NULL DEFAULT 1, -- run once for runs missed during downtime
+  created_at BIGINT NOT NULL,
+  next_run_at BIGINT NOT NULL,
+  last_run_at BIGINT
+);
+
+CREATE TABLE IF NOT EXISTS schedule_runs (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  schedule_id TEXT NOT NULL REFERENCES schedules(id),
+  scheduled_for BIGINT NOT NULL,
+  recorded_at BIGINT NOT NULL,
+  outcome TEXT NOT NULL, -- triggered, missed, failed
+  build_id TEXT, -- the build, or the group's ID for several platforms
+  error_message TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_schedules_next_run ON schedules(next_run_at);
+CREATE INDEX IF NOT EXISTS idx_schedule_runs_schedule ON schedule_runs(schedule_id, scheduled_for);
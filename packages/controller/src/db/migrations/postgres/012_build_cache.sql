@@ -0,0 +1,6 @@
+-- Migration 012: build result cache (PostgreSQL)
+
+ALTER TABLE builds ADD COLUMN IF NOT EXISTS cache_key TEXT;
+ALTER TABLE builds ADD COLUMN IF NOT EXISTS cached_from TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_builds_cache_key ON builds(cache_key);
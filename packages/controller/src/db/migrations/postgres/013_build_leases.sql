@@ -0,0 +1,9 @@
+-- Migration 013: build leases (PostgreSQL)
+
+ALTER TABLE builds ADD COLUMN IF NOT EXISTS lease_expires_at BIGINT;
+
+UPDATE builds
+SET lease_expires_at = COALESCE(last_heartbeat_at, started_at) + 120000
+WHERE status IN ('assigned', 'building') AND lease_expires_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_builds_lease_expires ON builds(lease_expires_at);
@@ -0,0 +1,10 @@
+-- Migration 014: worker build slots (PostgreSQL)
+
+ALTER TABLE workers ADD COLUMN IF NOT EXISTS max_concurrent_builds INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE workers ADD COLUMN IF NOT EXISTS active_builds INTEGER NOT NULL DEFAULT 0;
+
+UPDATE workers
+SET active_builds = (
+  SELECT COUNT(*) FROM builds
+  WHERE builds.worker_id = workers.id AND builds.status IN ('assigned', 'building')
+);
@@ -0,0 +1,14 @@
+-- Migration 015: worker liveness (PostgreSQL)
+
+CREATE TABLE IF NOT EXISTS worker_sessions (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  worker_id TEXT NOT NULL REFERENCES workers(id),
+  online_at BIGINT NOT NULL,
+  offline_at BIGINT -- NULL while online
+);
+
+INSERT INTO worker_sessions (worker_id, online_at)
+SELECT id, registered_at FROM workers WHERE status != 'offline';
+
+CREATE INDEX IF NOT EXISTS idx_worker_sessions_worker ON worker_sessions(worker_id, online_at);
+CREATE INDEX IF NOT EXISTS idx_workers_last_seen ON workers(last_seen_at);
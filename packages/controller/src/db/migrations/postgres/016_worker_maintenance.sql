@@ -0,0 +1,10 @@
+-- Migration 016: worker drain and maintenance mode (PostgreSQL)
+
+ALTER TABLE workers ADD COLUMN IF NOT EXISTS drain_requested_at BIGINT; -- NULL unless draining
+ALTER TABLE workers ADD COLUMN IF NOT EXISTS paused_at BIGINT; -- NULL unless paused
+
+CREATE TABLE IF NOT EXISTS controller_settings (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL, -- JSON
+  updated_at BIGINT NOT NULL
+);
@@ -0,0 +1,8 @@
+-- Migration 017: build cancellation (PostgreSQL)
+
+ALTER TABLE builds ADD COLUMN IF NOT EXISTS cancel_requested_at BIGINT;
+ALTER TABLE builds ADD COLUMN IF NOT EXISTS cancel_acknowledged_at BIGINT;
+
+UPDATE builds
+SET status = 'cancelled'
+WHERE status = 'failed' AND error_message = 'Build cancelled by user';
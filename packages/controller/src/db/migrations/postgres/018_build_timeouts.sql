@@ -0,0 +1,4 @@
+-- Migration 018: build timeouts (PostgreSQL)
+
+ALTER TABLE builds ADD COLUMN IF NOT EXISTS max_queue_wait_ms BIGINT;
+ALTER TABLE builds ADD COLUMN IF NOT EXISTS max_duration_ms BIGINT;
@@ -62,7 +62,7 @@ export function requireBuildAccess(config: ControllerConfig, db: DatabaseService
     }
 
     // Verify build token matches this build
-    const build = db.verifyBuildToken(buildId, buildToken);
+    const build = await db.builds.verifyToken(buildId, buildToken);
     if (!build) {
       return reply.status(403).send({
         error: 'Invalid or expired build token',
@@ -74,6 +74,38 @@ export function requireBuildAccess(config: ControllerConfig, db: DatabaseService
   };
 }
 
+/**
+ * Build group access verification hook
+ * Accepts either admin API key OR the group's access token (which all of
+ * its builds share)
+ *
+ * Usage:
+ *   fastify.addHook('preHandler', requireGroupAccess(config, db));
+ */
+export function requireGroupAccess(config: ControllerConfig, db: DatabaseService) {
+  return async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    const apiKey = request.headers['x-api-key'] as string;
+    const buildToken = request.headers['x-build-token'] as string;
+
+    if (apiKey === config.apiKey) {
+      return;
+    }
+
+    if (!buildToken) {
+      return reply.status(401).send({
+        error: 'Missing X-API-Key or X-Build-Token header',
+      });
+    }
+
+    const group = await db.groups.get(request.params.id);
+    if (!group || group.access_token !== buildToken) {
+      return reply.status(403).send({
+        error: 'Invalid or expired build token',
+      });
+    }
+  };
+}
+
 /**
  * Worker verification hook
  * Validates that worker_id in request matches assigned worker for build
@@ -111,7 +143,7 @@ export function requireWorkerAccess(db: DatabaseService, requireBuildIdHeader =
       }
     }
 
-    const build = db.getBuild(buildId);
+    const build = await db.builds.get(buildId);
     if (!build) {
       return reply.status(404).send({
         error: 'Build not found',
@@ -4,14 +4,27 @@ import fastifyCors from '@fastify/cors';
 import ejs from 'ejs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
-import { DatabaseService } from './db/Database.js';
+import type { DatabaseService } from './db/Database.js';
+import { createDatabase } from './db/createDatabase.js';
 import { JobQueue } from './services/JobQueue.js';
 import { FileStorage } from './services/FileStorage.js';
+import { createStorageDriver } from './services/createStorageDriver.js';
+import { loadCertsKeyring } from './services/CertsKeyring.js';
+import { purgeExpiredUploads } from './services/UploadSessions.js';
+import { runRetention, deleteFinishedBuildCerts } from './services/Retention.js';
+import { failedWorkers } from './services/Retries.js';
+import { reclaimExpiredLeases } from './services/Leases.js';
+import { markOfflineWorkers } from './services/Liveness.js';
+import { enforceTimeouts } from './services/Timeouts.js';
+import { getQueuePause, workerAvailability } from './services/Maintenance.js';
+import { runDueSchedules } from './services/Schedules.js';
 import { registerApiRoutes } from './api/index.js';
 import { statsRoutes } from './api/stats/index.js';
 import type { ControllerConfig } from './domain/Config.js';
 import { generateDemoData } from './demo/generateDemoData.js';
 
+const SCHEDULE_CHECK_INTERVAL_MS = 30_000;
+
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
@@ -21,7 +34,17 @@ export class ControllerServer {
   private queue: JobQueue;
   private storage: FileStorage;
   private config: ControllerConfig;
-  private timeoutChecker?: NodeJS.Timeout;
+  private uploadPurger?: NodeJS.Timeout;
+  private retentionSweeper?: NodeJS.Timeout;
+  private retentionRunning = false;
+  private scheduler?: NodeJS.Timeout;
+  private schedulesRunning = false;
+  private leaseChecker?: NodeJS.Timeout;
+  private reclaimingLeases = false;
+  private livenessChecker?: NodeJS.Timeout;
+  private checkingLiveness = false;
+  private buildTimeoutChecker?: NodeJS.Timeout;
+  private enforcingTimeouts = false;
 
   constructor(config: ControllerConfig) {
     this.config = config;
@@ -33,43 +56,133 @@ export class ControllerServer {
         config.maxResultFileSize
       ),
     });
-    this.db = new DatabaseService(config.dbPath);
-    this.queue = new JobQueue();
-    this.storage = new FileStorage(config.storagePath);
+    this.db = createDatabase(config);
+    this.queue = new JobQueue(config.submitterWeights, config.retry.preferOtherWorkerMs);
+    this.storage = new FileStorage(config.storagePath, createStorageDriver(config), loadCertsKeyring(config));
 
     this.setupMiddleware();
     this.setupRoutes();
     this.setupQueueListeners();
-    this.restoreQueueState();
-    this.performStartupMaintenance();
   }
 
   /**
    * Restore queue state from database on startup
    * Recovers pending and assigned builds after server restart
    */
-  private restoreQueueState() {
-    const pendingBuilds = this.db.getPendingBuilds();
-    const assignedBuilds = this.db.getAssignedBuilds();
-    const workers = new Map(this.db.getAllWorkers().map(w => [w.id, w]));
+  private async restoreQueueState() {
+    const pendingBuilds = await this.db.builds.listPending();
+    const assignedBuilds = await this.db.builds.listAssigned();
+    const workers = new Map((await this.db.workers.list()).map(w => [w.id, w]));
+
+    // Retried builds keep avoiding the workers they failed on
+    const retried = new Map<string, string[]>();
+    for (const build of pendingBuilds.filter(b => b.attempt > 1)) {
+      retried.set(build.id, await failedWorkers(this.db, build.id));
+    }
 
-    this.queue.restoreFromDatabase(pendingBuilds, assignedBuilds, workers);
+    this.queue.restoreFromDatabase(pendingBuilds, assignedBuilds, workers, retried);
   }
 
   /**
    * Perform maintenance tasks on startup
    * - Purge old CPU snapshots (>90 days) to prevent unbounded growth
+   * - Purge resumable uploads that expired while the controller was down
+   * - Apply the artifact retention policy
    */
-  private performStartupMaintenance() {
+  private async performStartupMaintenance() {
     try {
-      const snapshotsBefore = this.db.getCpuSnapshotCount();
-      const deleted = this.db.purgeCpuSnapshotsOlderThan(90);
+      const snapshotsBefore = await this.db.cpuSnapshots.count();
+      const deleted = await this.db.cpuSnapshots.purgeOlderThan(90);
       if (deleted > 0) {
         console.log(`[Maintenance] Purged ${deleted} CPU snapshots older than 90 days (${snapshotsBefore} → ${snapshotsBefore - deleted})`);
       }
     } catch (err) {
       console.error('[Maintenance] Failed to purge old CPU snapshots:', err);
     }
+
+    await this.purgeExpiredUploads();
+    void this.sweepRetention();
+  }
+
+  /**
+   * Delete artifacts and logs that the retention policy no longer keeps
+   * Skips if the previous sweep is still deleting
+   */
+  private async sweepRetention() {
+    if (this.retentionRunning) {
+      return;
+    }
+
+    this.retentionRunning = true;
+    try {
+      const report = await runRetention(this.db, this.storage, this.config.retention);
+      if (report.actions.length > 0 || report.logs_deleted > 0) {
+        console.log(`[Maintenance] Retention deleted ${report.actions.length - report.failures.length} artifacts (${report.reclaimed_bytes} bytes) and ${report.logs_deleted} log entries`);
+      }
+      for (const failure of report.failures) {
+        console.error(`[Maintenance] Failed to delete ${failure.artifact} of build ${failure.build_id}: ${failure.error}`);
+      }
+    } catch (err) {
+      console.error('[Maintenance] Retention sweep failed:', err);
+    } finally {
+      this.retentionRunning = false;
+    }
+  }
+
+  /**
+   * Submit the builds of schedules that are due
+   * Skips if the previous run is still submitting (e.g. cloning a repository)
+   */
+  private async runSchedules() {
+    if (this.schedulesRunning) {
+      return;
+    }
+
+    this.schedulesRunning = true;
+    try {
+      for (const run of await runDueSchedules(this.db, this.queue, this.storage)) {
+        if (run.outcome === 'triggered') {
+          console.log(`[Schedules] Schedule ${run.schedule_id} submitted ${run.build_id}`);
+        } else {
+          console.warn(`[Schedules] Schedule ${run.schedule_id} ${run.outcome}: ${run.error_message}`);
+        }
+      }
+    } catch (err) {
+      console.error('[Schedules] Failed to run due schedules:', err);
+    } finally {
+      this.schedulesRunning = false;
+    }
+  }
+
+  /**
+   * Securely delete certs as soon as a build finishes, unless configured to
+   * keep them for retries
+   */
+  private async releaseBuildCerts(buildId: string) {
+    if (!this.config.retention.deleteCertsOnCompletion) {
+      return;
+    }
+
+    try {
+      await deleteFinishedBuildCerts(this.db, this.storage, buildId);
+    } catch (err) {
+      // The next retention sweep retries
+      console.error(`[Maintenance] Failed to delete certs of build ${buildId}:`, err);
+    }
+  }
+
+  /**
+   * Remove abandoned resumable upload sessions and their partial files
+   */
+  private async purgeExpiredUploads() {
+    try {
+      const purged = await purgeExpiredUploads(this.db, this.storage);
+      if (purged > 0) {
+        console.log(`[Maintenance] Purged ${purged} expired upload sessions`);
+      }
+    } catch (err) {
+      console.error('[Maintenance] Failed to purge expired uploads:', err);
+    }
   }
 
   private setupMiddleware() {
@@ -118,27 +231,28 @@ export class ControllerServer {
         const demoData = generateDemoData();
         return reply.view('index', {
           ...demoData,
+          queuePause: null,
           isDemo: true,
         });
       }
 
       // Real mode - show actual data
-      const builds = this.db.getAllBuilds();
-      const workers = this.db.getAllWorkers();
+      const builds = await this.db.builds.list();
+      const workers = await this.db.workers.list();
       const queueStats = this.queue.getStats();
+      const queuePause = await getQueuePause(this.db);
 
       // Enrich builds with worker names
-      const enrichedBuilds = builds.map(build => {
-        const worker = build.worker_id ? this.db.getWorker(build.worker_id) : null;
-        return {
-          ...build,
-          worker_name: worker?.name || null,
-        };
-      });
+      const workerNames = new Map(workers.map(worker => [worker.id, worker.name]));
+      const enrichedBuilds = builds.map(build => ({
+        ...build,
+        worker_name: (build.worker_id && workerNames.get(build.worker_id)) || null,
+      }));
 
       return reply.view('index', {
         builds: enrichedBuilds,
-        workers,
+        workers: workers.map(worker => ({ ...worker, availability: workerAvailability(worker) })),
+        queuePause,
         stats: {
           totalBuilds: builds.length,
           pendingBuilds: queueStats.pending,
@@ -172,65 +286,99 @@ export class ControllerServer {
 
     this.queue.on('job:completed', (build, worker) => {
       console.log(`Build ${build.id} completed by worker ${worker.name}`);
+      void this.releaseBuildCerts(build.id);
     });
 
     this.queue.on('job:failed', (build, worker) => {
       console.log(`Build ${build.id} failed on worker ${worker.name}`);
+      void this.releaseBuildCerts(build.id);
     });
+
+    this.queue.on('job:cancelled', (build, worker) => {
+      console.log(worker ? `Build ${build.id} cancelled on worker ${worker.name}` : `Build ${build.id} cancelled`);
+      void this.releaseBuildCerts(build.id);
+    });
+
+    // Certs stay until the last attempt finishes
+    this.queue.on('job:retrying', (build) => {
+      console.log(`Build ${build.id} requeued for attempt ${build.attempt}`);
+    });
+  }
+
+  /**
+   * Reclaim builds whose worker let its lease expire
+   */
+  private async reclaimExpiredLeases() {
+    if (this.reclaimingLeases) {
+      return;
+    }
+    this.reclaimingLeases = true;
+
+    try {
+      for (const build of await reclaimExpiredLeases(this.db, this.queue, this.config.retry)) {
+        console.warn(`[Leases] Reclaimed build ${build.id} from worker ${build.worker_id}: lease expired`);
+      }
+    } catch (err) {
+      console.error('[Leases] Failed to reclaim expired leases:', err);
+    } finally {
+      this.reclaimingLeases = false;
+    }
   }
 
   /**
-   * Check for stuck builds (no heartbeat for 2 minutes)
-   * Runs every 60 seconds
+   * Mark workers that stopped checking in offline, reclaiming their builds
    */
-  private checkStuckBuilds() {
-    const HEARTBEAT_TIMEOUT = 120000; // 2 minutes
-    const now = Date.now();
-
-    const activeBuilds = this.db.getAllBuilds().filter(b =>
-      b.status === 'assigned' || b.status === 'building'
-    );
-
-    for (const build of activeBuilds) {
-      // Check if heartbeat is missing or stale
-      const lastHeartbeat = (build as any).last_heartbeat_at;
-      const timeSinceStart = build.started_at ? now - build.started_at : 0;
-
-      // Only check builds that have been running for at least 30 seconds
-      // and haven't sent a heartbeat in 2 minutes
-      if (timeSinceStart > 30000) {
-        const timeSinceHeartbeat = lastHeartbeat ? now - lastHeartbeat : timeSinceStart;
-
-        if (timeSinceHeartbeat > HEARTBEAT_TIMEOUT) {
-          console.warn(`Build ${build.id} stuck - no heartbeat for ${Math.round(timeSinceHeartbeat / 1000)}s`);
-
-          // Mark as failed
-          this.db.updateBuildStatus(build.id, 'failed', {
-            error_message: `Build timeout - no heartbeat from worker for ${Math.round(timeSinceHeartbeat / 1000)}s`,
-            completed_at: now,
-          });
-
-          // Mark worker as idle
-          if (build.worker_id) {
-            this.db.updateWorkerStatus(build.worker_id, 'idle', now);
-          }
-
-          // Remove from queue
-          this.queue.fail(build.id, false);
-
-          // Log
-          this.db.addBuildLog({
-            build_id: build.id,
-            timestamp: now,
-            level: 'error',
-            message: `Build timeout - worker stopped responding`,
-          });
+  private async checkLiveness() {
+    if (this.checkingLiveness) {
+      return;
+    }
+    this.checkingLiveness = true;
+
+    try {
+      const { liveness, retry } = this.config;
+      for (const { worker, reclaimed } of await markOfflineWorkers(this.db, this.queue, liveness, retry)) {
+        console.warn(
+          `[Liveness] Worker ${worker.name} (${worker.id}) went offline` +
+            (reclaimed.length > 0 ? `, reclaimed ${reclaimed.map((build) => build.id).join(', ')}` : '')
+        );
+      }
+    } catch (err) {
+      console.error('[Liveness] Failed to check worker liveness:', err);
+    } finally {
+      this.checkingLiveness = false;
+    }
+  }
+
+  /**
+   * Fail builds that waited or ran past their limits
+   */
+  private async enforceBuildTimeouts() {
+    if (this.enforcingTimeouts) {
+      return;
+    }
+    this.enforcingTimeouts = true;
+
+    try {
+      for (const build of await enforceTimeouts(this.db, this.queue, this.config.timeouts)) {
+        console.warn(`[Timeouts] Build ${build.id} timed out ${build.status === 'pending' ? 'waiting for a worker' : `on worker ${build.worker_id}`}`);
+        // Running builds release theirs through job:failed
+        if (build.status === 'pending') {
+          void this.releaseBuildCerts(build.id);
         }
       }
+    } catch (err) {
+      console.error('[Timeouts] Failed to enforce build timeouts:', err);
+    } finally {
+      this.enforcingTimeouts = false;
     }
   }
 
   async start(): Promise<void> {
+    await this.db.migrate();
+    await this.db.lockController();
+    await this.restoreQueueState();
+    await this.performStartupMaintenance();
+
     await this.app.listen({
       port: this.config.port,
       host: '0.0.0.0',
@@ -242,24 +390,69 @@ export class ControllerServer {
     console.log(`\n📍 Server:   http://localhost:${this.config.port}`);
     console.log(`📊 Web UI:   http://localhost:${this.config.port}`);
     console.log(`🔌 API:      http://localhost:${this.config.port}/api`);
-    console.log(`\n💾 Database: ${this.config.dbPath}`);
-    console.log(`📦 Storage:  ${this.config.storagePath}`);
+    console.log(`\n💾 Database: ${describeDatabase(this.config)}`);
+    console.log(`📦 Storage:  ${this.config.storageDriver === 's3'
+      ? `s3://${this.config.s3!.bucket}/${this.config.s3!.prefix ?? ''}`
+      : this.config.storagePath}`);
     console.log(`🔐 API Key:  ${this.config.apiKey.substring(0, 8)}...`);
+    console.log(`🔑 Certs key: ${this.storage.getCertsKeyId()}`);
     console.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
 
-    // Start timeout checker (every 60 seconds)
-    this.timeoutChecker = setInterval(() => {
-      this.checkStuckBuilds();
+    // Purge abandoned upload sessions (every 60 seconds)
+    this.uploadPurger = setInterval(() => {
+      void this.purgeExpiredUploads();
     }, 60000);
+
+    this.leaseChecker = setInterval(() => {
+      void this.reclaimExpiredLeases();
+    }, this.config.leases.checkIntervalMs);
+
+    this.livenessChecker = setInterval(() => {
+      void this.checkLiveness();
+    }, this.config.liveness.checkIntervalMs);
+
+    this.buildTimeoutChecker = setInterval(() => {
+      void this.enforceBuildTimeouts();
+    }, this.config.timeouts.checkIntervalMs);
+
+    this.retentionSweeper = setInterval(() => {
+      void this.sweepRetention();
+    }, this.config.retention.sweepIntervalMs);
+
+    // Runs missed while the controller was down are handled by the first pass
+    void this.runSchedules();
+    this.scheduler = setInterval(() => {
+      void this.runSchedules();
+    }, SCHEDULE_CHECK_INTERVAL_MS);
   }
 
   async stop() {
     console.log('\nShutting down...');
 
-    // Stop timeout checker
-    if (this.timeoutChecker) {
-      clearInterval(this.timeoutChecker);
-      console.log('Timeout checker stopped');
+    // Stop upload purge
+    if (this.uploadPurger) {
+      clearInterval(this.uploadPurger);
+      console.log('Upload purge stopped');
+    }
+
+    if (this.retentionSweeper) {
+      clearInterval(this.retentionSweeper);
+    }
+
+    if (this.scheduler) {
+      clearInterval(this.scheduler);
+    }
+
+    if (this.leaseChecker) {
+      clearInterval(this.leaseChecker);
+    }
+
+    if (this.livenessChecker) {
+      clearInterval(this.livenessChecker);
+    }
+
+    if (this.buildTimeoutChecker) {
+      clearInterval(this.buildTimeoutChecker);
     }
 
     // Close HTTP server gracefully
@@ -270,7 +463,19 @@ export class ControllerServer {
     // No need to save separately
 
     // Close database
-    this.db.close();
+    await this.db.close();
     console.log('Database closed');
   }
 }
+
+/**
+ * Database location for the startup banner (never prints credentials)
+ */
+function describeDatabase(config: ControllerConfig): string {
+  if (!config.databaseUrl) {
+    return config.dbPath;
+  }
+
+  const url = new URL(config.databaseUrl);
+  return `${url.protocol}//${url.host}${url.pathname}`;
+}
@@ -0,0 +1,406 @@
+import { createReadStream, createWriteStream, existsSync, mkdirSync, mkdtempSync, readFileSync, readdirSync, renameSync, rmSync, statSync } from 'fs';
+import { dirname, join } from 'path';
+import { tmpdir } from 'os';
+import { pipeline } from 'stream/promises';
+import { createGunzip, createGzip } from 'zlib';
+import type { Writable } from 'stream';
+import type { Build, DatabaseService } from '../db/Database.js';
+import { SqliteDatabase, checkSqliteDatabase, snapshotSqliteDatabase } from '../db/SqliteDatabase.js';
+import { validateKey, type StorageDriver } from './StorageDriver.js';
+import { LocalStorageDriver } from './LocalStorageDriver.js';
+import { TarWriter, extractTar, type ArchivedEntry } from './TarArchive.js';
+
+export const BACKUP_FORMAT = 'expo-free-agent-backup';
+const BACKUP_VERSION = 1;
+
+const DATABASE_ENTRY = 'controller.db';
+const MANIFEST_ENTRY = 'manifest.json';
+const STORAGE_PREFIX = 'storage/';
+
+/**
+ * A stored artifact, by storage key and the location build records used
+ */
+export interface BackupFile {
+  key: string;
+  location: string;
+  size: number;
+  sha256: string;
+}
+
+/**
+ * Last entry of a backup archive, describing and checksumming the rest
+ */
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  created_at: number;
+  schema_version: number;
+  certs_key_id: string | null;  // Master key the certs bundles are encrypted with
+  database: { size: number; sha256: string };
+  files: BackupFile[];
+  missing: Array<Pick<BackupFile, 'key' | 'location'>>;  // Deleted between snapshot and copy
+}
+
+/**
+ * Lines an NDJSON export wrote, by type
+ */
+export interface ExportCounts {
+  workers: number;
+  groups: number;
+  schedules: number;
+  schedule_runs: number;
+  builds: number;
+  attempts: number;
+  logs: number;
+}
+
+/**
+ * Raised when an archive fails verification or cannot be restored
+ */
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+/**
+ * Write a backup of a SQLite controller database and the artifacts its
+ * builds reference to a gzipped tar archive, then verify it
+ *
+ * The database is snapshotted first, so the archive is consistent with one
+ * point in time while the controller keeps running; only artifacts that
+ * snapshot references are copied (in-flight uploads are not). The archive
+ * is written next to archivePath and renamed into place once verified.
+ */
+export async function createBackup(options: {
+  dbPath: string;
+  driver: StorageDriver;
+  archivePath: string;
+  certsKeyId?: string;
+}): Promise<BackupManifest> {
+  const { dbPath, driver, archivePath } = options;
+  const workDir = mkdtempSync(join(tmpdir(), 'expo-controller-backup-'));
+  const partialPath = `${archivePath}.partial`;
+  const gzip = createGzip();
+  let written: Promise<void> | undefined;
+
+  try {
+    const snapshotPath = join(workDir, DATABASE_ENTRY);
+    snapshotSqliteDatabase(dbPath, snapshotPath);
+
+    const locations = await referencedLocations(snapshotPath);
+    const { schemaVersion, problems } = checkSqliteDatabase(snapshotPath);
+    if (problems.length > 0) {
+      throw new BackupError(`Database snapshot failed its integrity check: ${problems.join('; ')}`);
+    }
+
+    written = pipeline(gzip, createWriteStream(partialPath));
+    const tar = new TarWriter(gzip);
+
+    const dbSize = statSync(snapshotPath).size;
+    const manifest: BackupManifest = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      created_at: Date.now(),
+      schema_version: schemaVersion,
+      certs_key_id: options.certsKeyId ?? null,
+      database: {
+        size: dbSize,
+        sha256: await tar.addFile(DATABASE_ENTRY, dbSize, createReadStream(snapshotPath)),
+      },
+      files: [],
+      missing: [],
+    };
+
+    for (const location of locations) {
+      const key = driver.resolveKey(location);
+      const stats = await driver.stat(key);
+      if (!stats) {
+        manifest.missing.push({ key, location });
+        continue;
+      }
+
+      const sha256 = await tar.addFile(STORAGE_PREFIX + key, stats.size, driver.createReadStream(key), stats.mtimeMs);
+      manifest.files.push({ key, location, size: stats.size, sha256 });
+    }
+
+    const manifestJson = Buffer.from(JSON.stringify(manifest, null, 2));
+    await tar.addFile(MANIFEST_ENTRY, manifestJson.length, [manifestJson]);
+    await tar.finish();
+    await written;
+
+    await verifyBackup(partialPath);
+    renameSync(partialPath, archivePath);
+    return manifest;
+  } catch (err) {
+    gzip.destroy();
+    await written?.catch(() => {});
+    rmSync(partialPath, { force: true });
+    throw err;
+  } finally {
+    rmSync(workDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Check every entry of a backup against its manifest and the database
+ * snapshot's integrity, without restoring anything
+ * @throws BackupError describing the first problem found
+ */
+export async function verifyBackup(archivePath: string): Promise<BackupManifest> {
+  const workDir = mkdtempSync(join(tmpdir(), 'expo-controller-verify-'));
+  try {
+    return await readBackup(archivePath, workDir, null);
+  } finally {
+    rmSync(workDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Restore a backup into a fresh database file and local storage directory
+ *
+ * Artifact locations on build records are rewritten for the new storage
+ * directory. Nothing is left behind if the archive fails verification.
+ * @throws BackupError if the targets already hold data or the archive is invalid
+ */
+export async function restoreBackup(
+  archivePath: string,
+  { dbPath, storagePath }: { dbPath: string; storagePath: string }
+): Promise<BackupManifest> {
+  if (existsSync(dbPath)) {
+    throw new BackupError(`Refusing to restore over existing database ${dbPath}`);
+  }
+  if (existsSync(storagePath) && readdirSync(storagePath).length > 0) {
+    throw new BackupError(`Refusing to restore into non-empty storage directory ${storagePath}`);
+  }
+
+  const createdStorage = !existsSync(storagePath);
+  mkdirSync(dirname(dbPath), { recursive: true });
+  mkdirSync(storagePath, { recursive: true });
+  // Next to the database, so the final rename stays on one filesystem
+  const workDir = mkdtempSync(join(dirname(dbPath), '.restore-'));
+
+  try {
+    const manifest = await readBackup(archivePath, workDir, storagePath);
+
+    const restoredDbPath = join(workDir, DATABASE_ENTRY);
+    await relocateArtifacts(restoredDbPath, manifest, new LocalStorageDriver(storagePath));
+    renameSync(restoredDbPath, dbPath);
+
+    return manifest;
+  } catch (err) {
+    for (const entry of readdirSync(storagePath)) {
+      rmSync(join(storagePath, entry), { recursive: true, force: true });
+    }
+    if (createdStorage) {
+      rmSync(storagePath, { recursive: true, force: true });
+    }
+    throw err;
+  } finally {
+    rmSync(workDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Export workers, build groups, schedules with their runs, and builds with
+ * their attempts and logs as newline-delimited JSON
+ *
+ * The first line describes the export; each following line is
+ * `{"type": "worker" | "group" | "schedule" | "schedule_run" | "build" | "attempt" | "log", "data": {...}}`.
+ * Works with either database backend, for moving controller history between
+ * hosts. Builds include their access tokens, so treat the export as a secret.
+ * @returns Lines written per type
+ */
+export async function exportNdjson(db: DatabaseService, out: Writable): Promise<ExportCounts> {
+  const counts: ExportCounts = { workers: 0, groups: 0, schedules: 0, schedule_runs: 0, builds: 0, attempts: 0, logs: 0 };
+  const writeLine = async (value: unknown) => {
+    if (!out.write(JSON.stringify(value) + '\n')) {
+      await new Promise((resolve) => out.once('drain', resolve));
+    }
+  };
+
+  await writeLine({ type: 'export', format: 'expo-free-agent-export', version: 1, exported_at: Date.now() });
+
+  for (const worker of await db.workers.list()) {
+    await writeLine({ type: 'worker', data: worker });
+    counts.workers++;
+  }
+
+  // Before the builds that reference them
+  for (const group of await db.groups.list()) {
+    await writeLine({ type: 'group', data: group });
+    counts.groups++;
+  }
+
+  for (const schedule of await db.schedules.list()) {
+    await writeLine({ type: 'schedule', data: schedule });
+    counts.schedules++;
+    for (const run of (await db.schedules.listRuns(schedule.id, Number.MAX_SAFE_INTEGER)).reverse()) {
+      await writeLine({ type: 'schedule_run', data: run });
+      counts.schedule_runs++;
+    }
+  }
+
+  // Oldest first, so an importer can replay them in submission order
+  const builds = (await db.builds.list()).reverse();
+  for (const build of builds) {
+    await writeLine({ type: 'build', data: build });
+    counts.builds++;
+
+    for (const attempt of await db.attempts.list(build.id)) {
+      await writeLine({ type: 'attempt', data: attempt });
+      counts.attempts++;
+    }
+
+    for (const log of await db.logs.list(build.id)) {
+      await writeLine({ type: 'log', data: log });
+      counts.logs++;
+    }
+  }
+
+  return counts;
+}
+
+/**
+ * Extract the database and manifest into workDir (and artifacts into
+ * storagePath, if given) and check them
+ */
+async function readBackup(archivePath: string, workDir: string, storagePath: string | null): Promise<BackupManifest> {
+  const gunzip = createGunzip();
+  const source = createReadStream(archivePath).on('error', (err) => gunzip.destroy(err));
+
+  let entries: ArchivedEntry[];
+  try {
+    entries = await extractTar(source.pipe(gunzip), (entry) => {
+      if (entry.name === DATABASE_ENTRY || entry.name === MANIFEST_ENTRY) {
+        return join(workDir, entry.name);
+      }
+      if (!entry.name.startsWith(STORAGE_PREFIX)) {
+        throw new BackupError(`Unexpected archive entry ${entry.name}`);
+      }
+      if (!storagePath) {
+        return null;
+      }
+
+      const key = validateKey(entry.name.slice(STORAGE_PREFIX.length));
+      const path = join(storagePath, key);
+      mkdirSync(dirname(path), { recursive: true });
+      return path;
+    });
+  } catch (err) {
+    if (err instanceof BackupError) {
+      throw err;
+    }
+    throw new BackupError(`Unreadable backup archive: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  const manifestPath = join(workDir, MANIFEST_ENTRY);
+  if (!existsSync(manifestPath)) {
+    throw new BackupError('Backup archive has no manifest (incomplete backup?)');
+  }
+
+  const manifest = JSON.parse(readFileSync(manifestPath, 'utf-8')) as BackupManifest;
+  if (manifest.format !== BACKUP_FORMAT || manifest.version !== BACKUP_VERSION) {
+    throw new BackupError(`Unsupported backup format ${manifest.format} v${manifest.version}`);
+  }
+
+  const archived = new Map(entries.map((entry) => [entry.name, entry]));
+  const expected = [
+    { name: DATABASE_ENTRY, ...manifest.database },
+    ...manifest.files.map((file) => ({ name: STORAGE_PREFIX + file.key, size: file.size, sha256: file.sha256 })),
+  ];
+
+  for (const file of expected) {
+    const entry = archived.get(file.name);
+    if (!entry) {
+      throw new BackupError(`Backup archive is missing ${file.name}`);
+    }
+    if (entry.size !== file.size || entry.sha256 !== file.sha256) {
+      throw new BackupError(`Checksum mismatch for ${file.name}`);
+    }
+  }
+  if (entries.length !== expected.length + 1) {
+    throw new BackupError('Backup archive has entries its manifest does not list');
+  }
+
+  const { schemaVersion, problems } = checkSqliteDatabase(join(workDir, DATABASE_ENTRY));
+  if (problems.length > 0) {
+    throw new BackupError(`Backed up database failed its integrity check: ${problems.join('; ')}`);
+  }
+  if (schemaVersion !== manifest.schema_version) {
+    throw new BackupError(`Backed up database is at schema version ${schemaVersion}, manifest says ${manifest.schema_version}`);
+  }
+
+  return manifest;
+}
+
+/**
+ * Distinct locations of artifacts that builds and schedules in the snapshot
+ * still hold
+ */
+async function referencedLocations(snapshotPath: string): Promise<string[]> {
+  const db = new SqliteDatabase(snapshotPath);
+  try {
+    const locations = new Set<string>();
+    for (const build of await db.builds.listWithStoredArtifacts()) {
+      for (const location of storedLocations(build)) {
+        locations.add(location);
+      }
+    }
+    for (const schedule of await db.schedules.list()) {
+      for (const sha256 of [schedule.source_sha256, schedule.certs_sha256]) {
+        const blob = sha256 && (await db.blobs.get(sha256));
+        if (blob) {
+          locations.add(blob.location);
+        }
+      }
+    }
+    return [...locations];
+  } finally {
+    await db.close();
+  }
+}
+
+/**
+ * Rewrite artifact locations recorded by the backed up controller to the
+ * restored storage directory
+ */
+async function relocateArtifacts(restoredDbPath: string, manifest: BackupManifest, driver: StorageDriver) {
+  const relocated = new Map(
+    [...manifest.files, ...manifest.missing].map((file) => [file.location, driver.locate(file.key)])
+  );
+  const relocate = (location: string | null) => (location && relocated.get(location)) ?? location;
+
+  const db = new SqliteDatabase(restoredDbPath);
+  try {
+    for (const build of await db.builds.list()) {
+      await db.builds.updateArtifactLocations(build.id, {
+        source_path: relocate(build.source_path)!,
+        certs_path: relocate(build.certs_path),
+        result_path: relocate(build.result_path),
+      });
+    }
+    for (const blob of await db.blobs.list()) {
+      await db.blobs.updateLocation(blob.sha256, relocate(blob.location)!);
+    }
+  } finally {
+    await db.close();
+  }
+}
+
+function storedLocations(build: Build): string[] {
+  const locations: string[] = [];
+
+  if (build.source_deleted_at === null) {
+    locations.push(build.source_path);
+  }
+  if (build.certs_path && build.certs_deleted_at === null) {
+    locations.push(build.certs_path);
+  }
+  if (build.result_path && build.result_deleted_at === null) {
+    locations.push(build.result_path);
+  }
+
+  return locations;
+}
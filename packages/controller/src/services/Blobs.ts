@@ -0,0 +1,143 @@
+import type { Blob, DatabaseService } from '../db/Database.js';
+import type { FileStorage, StoredFile } from './FileStorage.js';
+
+export const SHA256_PATTERN = /^[a-f0-9]{64}$/;
+
+/**
+ * Operations on the same blob run one at a time, so a blob being deleted for
+ * its last reference cannot race a submission that re-adds it
+ */
+const blobLocks = new Map<string, Promise<unknown>>();
+
+export function withBlobLock<T>(sha256: string, operation: () => Promise<T>): Promise<T> {
+  const previous = blobLocks.get(sha256) ?? Promise.resolve();
+  const current = previous.catch(() => {}).then(operation);
+  blobLocks.set(sha256, current);
+
+  const cleanup = () => {
+    if (blobLocks.get(sha256) === current) {
+      blobLocks.delete(sha256);
+    }
+  };
+  current.then(cleanup, cleanup);
+
+  return current;
+}
+
+/**
+ * Store a staged upload content-addressed and take a reference to it
+ *
+ * If a blob with the same SHA-256 is already stored, the staged file is
+ * discarded and the existing blob is shared. Certs are encrypted before
+ * they are stored and their staged plaintext is shredded.
+ * @returns The blob as a StoredFile whose path is the blob location
+ */
+export function storeBlob(
+  db: DatabaseService,
+  storage: FileStorage,
+  staged: StoredFile,
+  { certs = false }: { certs?: boolean } = {}
+): Promise<StoredFile> {
+  return withBlobLock(staged.sha256, async () => {
+    const existing = await db.blobs.get(staged.sha256);
+
+    if (existing && (await storage.exists(existing.location))) {
+      await db.blobs.addReference(existing.sha256);
+      storage.discardStaged(staged, { secure: certs });
+      return { path: existing.location, size: existing.size, sha256: existing.sha256 };
+    }
+
+    // Unknown, or the record outlived its bytes: store (again), keeping
+    // any references already counted
+    const committed = certs ? await storage.commitCertsBlob(staged) : await storage.commitBlob(staged);
+    await db.blobs.register({
+      sha256: committed.sha256,
+      location: committed.path,
+      size: committed.size,
+      created_at: Date.now(),
+    });
+    return committed;
+  });
+}
+
+/**
+ * Take a reference to an already stored blob by hash, without uploading it
+ * @returns The blob, or null if the controller does not have it
+ */
+export function acquireBlob(db: DatabaseService, storage: FileStorage, sha256: string): Promise<Blob | null> {
+  return withBlobLock(sha256, async () => {
+    const blob = await db.blobs.get(sha256);
+
+    if (!blob || !(await storage.exists(blob.location))) {
+      return null;
+    }
+
+    await db.blobs.addReference(sha256);
+    return blob;
+  });
+}
+
+/**
+ * Take another reference to a build's stored artifact (metadata-only copy)
+ *
+ * Artifacts stored before blobs existed are registered on first share, with
+ * a reference for the original build as well. Returns null for legacy
+ * artifacts without a recorded digest, which must be copied instead.
+ */
+export async function shareArtifact(
+  db: DatabaseService,
+  { path: location, sha256, size }: { path: string; sha256: string | null; size: number | null }
+): Promise<string | null> {
+  const blob = await db.blobs.getByLocation(location);
+
+  if (blob) {
+    return withBlobLock(blob.sha256, async () => {
+      await db.blobs.addReference(blob.sha256);
+      return blob.location;
+    });
+  }
+
+  if (!sha256) {
+    return null;
+  }
+
+  return withBlobLock(sha256, async () => {
+    // Same bytes already stored as a blob elsewhere: share that one
+    const existing = await db.blobs.get(sha256);
+    if (existing) {
+      await db.blobs.addReference(sha256);
+      return existing.location;
+    }
+
+    await db.blobs.register({ sha256, location, size: size ?? 0, created_at: Date.now() }, 2);
+    return location;
+  });
+}
+
+/**
+ * Drop a build's reference to a stored artifact, deleting the bytes once no
+ * build references them. Artifacts that are not blobs (build results, legacy
+ * per-build files) are deleted outright. Use secure for certs.
+ * @returns true if the stored bytes were deleted
+ */
+export async function releaseArtifact(
+  db: DatabaseService,
+  storage: FileStorage,
+  location: string,
+  options?: { secure?: boolean }
+): Promise<boolean> {
+  const blob = await db.blobs.getByLocation(location);
+
+  if (!blob) {
+    await storage.deleteArtifact(location, options);
+    return true;
+  }
+
+  return withBlobLock(blob.sha256, async () => {
+    if ((await db.blobs.releaseReference(blob.sha256)) > 0) {
+      return false;
+    }
+    await storage.deleteArtifact(blob.location, options);
+    return true;
+  });
+}
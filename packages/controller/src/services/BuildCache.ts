@@ -0,0 +1,45 @@
+import crypto from 'crypto';
+import type { Build, DatabaseService } from '../db/Database.js';
+import { shareArtifact } from './Blobs.js';
+import { parseRequirements } from './Capabilities.js';
+
+// Bump when what goes into the key changes, so old keys stop matching
+const CACHE_KEY_VERSION = 1;
+
+/**
+ * Fingerprint a build's inputs: platform, source and certs digests and
+ * requirements (which pick the Xcode and Expo SDK it builds with)
+ * @returns null for builds without a source digest, which are never cached
+ */
+export function buildCacheKey(
+  build: Pick<Build, 'platform' | 'source_sha256' | 'certs_sha256' | 'requirements'>
+): string | null {
+  if (!build.source_sha256) {
+    return null;
+  }
+
+  const requirements = Object.entries(parseRequirements(build)).sort(([a], [b]) => a.localeCompare(b));
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify([CACHE_KEY_VERSION, build.platform, build.source_sha256, build.certs_sha256, requirements]))
+    .digest('hex');
+}
+
+/**
+ * Take a reference to the result of the latest completed build with this
+ * cache key
+ * @returns The build and the shared result's location, or undefined on a miss
+ */
+export async function acquireCachedResult(
+  db: DatabaseService,
+  cacheKey: string
+): Promise<{ build: Build; resultPath: string } | undefined> {
+  const build = await db.builds.findCached(cacheKey);
+  if (!build) {
+    return undefined;
+  }
+
+  // Legacy results without a digest cannot be shared
+  const resultPath = await shareArtifact(db, { path: build.result_path!, sha256: build.result_sha256, size: build.result_size });
+  return resultPath ? { build, resultPath } : undefined;
+}
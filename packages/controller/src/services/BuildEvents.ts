@@ -0,0 +1,109 @@
+import type { Build, DatabaseService } from '../db/Database.js';
+import type { JobQueue } from './JobQueue.js';
+
+/**
+ * How often an open event stream checks its build for changes
+ */
+export const EVENTS_POLL_INTERVAL_MS = 1000;
+
+// Idle streams send a comment this often so proxies keep them open
+export const EVENTS_KEEPALIVE_MS = 15_000;
+
+const PROGRESS_PATTERN = /^Build progress: (\d+(?:\.\d+)?)%$/;
+
+/**
+ * What a watcher sees of a build; a status event is sent whenever it changes
+ */
+export interface BuildSnapshot {
+  status: Build['status'];
+  attempt: number;
+  worker_id: string | null;
+  queue_position: number | null; // Pending builds only
+  retry_after: number | null; // Set while a retried build waits out its backoff
+  started_at: number | null;
+  completed_at: number | null;
+  error_message: string | null;
+  cancel_requested_at: number | null;
+}
+
+/**
+ * An event and its ID: the log line it comes from, or for status events the
+ * last log line before it, so a client resuming from it misses nothing
+ */
+export type BuildEvent =
+  | { id: number; type: 'status'; data: BuildSnapshot }
+  | { id: number; type: 'log'; data: { attempt: number; timestamp: number; level: string; message: string } }
+  | { id: number; type: 'progress'; data: { attempt: number; timestamp: number; progress: number } };
+
+/**
+ * Where a stream stands: the last log line sent (the event ID clients resume
+ * from) and the last status sent
+ */
+export interface BuildEventCursor {
+  lastLogId: number;
+  snapshot: BuildSnapshot | null;
+}
+
+/**
+ * The log line recording a worker's progress report
+ */
+export function progressMessage(progress: number): string {
+  return `Build progress: ${progress}%`;
+}
+
+export function buildSnapshot(build: Build, queue: JobQueue): BuildSnapshot {
+  return {
+    status: build.status,
+    attempt: build.attempt,
+    worker_id: build.worker_id,
+    queue_position: build.status === 'pending' ? (queue.getPosition(build.id) ?? null) : null,
+    retry_after: build.status === 'pending' ? build.retry_after : null,
+    started_at: build.started_at,
+    completed_at: build.completed_at,
+    error_message: build.error_message,
+    cancel_requested_at: build.cancel_requested_at,
+  };
+}
+
+/**
+ * Events since the cursor: each new log line (and the progress it reports),
+ * then the build's status if it changed
+ *
+ * Only log lines after the cursor are read, so a watcher costs two small
+ * queries per check however long the build's log grows.
+ * @returns undefined once the build no longer exists
+ */
+export async function readBuildEvents(
+  db: DatabaseService,
+  queue: JobQueue,
+  buildId: string,
+  cursor: BuildEventCursor
+): Promise<{ events: BuildEvent[]; cursor: BuildEventCursor } | undefined> {
+  // Read the build after its logs, so a finished status follows its last lines
+  const logs = await db.logs.listAfter(buildId, cursor.lastLogId);
+  const build = await db.builds.get(buildId);
+  if (!build) {
+    return undefined;
+  }
+
+  const events: BuildEvent[] = [];
+  for (const { id, attempt, timestamp, level, message } of logs) {
+    events.push({ id, type: 'log', data: { attempt, timestamp, level, message } });
+
+    const progress = PROGRESS_PATTERN.exec(message);
+    if (progress) {
+      events.push({ id, type: 'progress', data: { attempt, timestamp, progress: Number(progress[1]) } });
+    }
+  }
+
+  const lastLogId = logs.at(-1)?.id ?? cursor.lastLogId;
+  const snapshot = buildSnapshot(build, queue);
+  if (JSON.stringify(snapshot) !== JSON.stringify(cursor.snapshot)) {
+    events.push({ id: lastLogId, type: 'status', data: snapshot });
+  }
+
+  return {
+    events,
+    cursor: { lastLogId, snapshot },
+  };
+}
@@ -0,0 +1,25 @@
+import type { Build } from '../db/Database.js';
+
+export type GroupStatus = 'pending' | 'building' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * Status of a group as a whole
+ *
+ * pending until any of its builds starts, building while any is unfinished,
+ * then completed if every build completed, failed if any failed and
+ * cancelled otherwise (the builds that completed can still be downloaded).
+ */
+export function groupStatus(builds: Pick<Build, 'status'>[]): GroupStatus {
+  const finished = builds.filter(
+    (build) => build.status === 'completed' || build.status === 'failed' || build.status === 'cancelled'
+  );
+
+  if (finished.length < builds.length) {
+    const started = builds.some((build) => build.status !== 'pending');
+    return started ? 'building' : 'pending';
+  }
+  if (finished.every((build) => build.status === 'completed')) {
+    return 'completed';
+  }
+  return finished.some((build) => build.status === 'failed') ? 'failed' : 'cancelled';
+}
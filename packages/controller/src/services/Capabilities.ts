@@ -0,0 +1,184 @@
+import type { Build, Worker } from '../db/Database.js';
+
+/**
+ * What a build needs from a worker besides its platform
+ */
+export interface BuildRequirements {
+  min_xcode_version?: string;
+  min_memory_gb?: number;
+  expo_sdk?: number;  // Major version, e.g. 52
+}
+
+/**
+ * Worker capabilities normalized from the registration payload
+ * null means the worker did not report it
+ */
+export interface WorkerCapabilities {
+  platforms: string[] | null;
+  xcode_version: string | null;
+  memory_gb: number | null;
+  cpu_cores: number | null;
+  expo_sdks: number[] | null;
+}
+
+export const VERSION_PATTERN = /^\d+(\.\d+){0,2}$/;
+
+// Submission fields that become BuildRequirements
+export const REQUIREMENT_FIELDS = ['min_xcode_version', 'min_memory_gb', 'expo_sdk'];
+
+/**
+ * Read the capabilities JSON a worker registered with
+ *
+ * Workers predate a common schema: the macOS app sends snake_case
+ * (`platforms`, `xcode_version`, `maxMemoryGB`) and the installer sends
+ * camelCase (`xcodeVersion`, `memoryGB`, `platform: 'darwin'`), so both
+ * are accepted.
+ */
+export function parseCapabilities(json: string): WorkerCapabilities {
+  let raw: Record<string, any>;
+  try {
+    raw = JSON.parse(json) ?? {};
+  } catch {
+    raw = {};
+  }
+
+  let platforms: string[] | null = null;
+  if (Array.isArray(raw.platforms)) {
+    platforms = raw.platforms.map(String);
+  } else if (raw.platform === 'darwin') {
+    platforms = ['ios', 'android'];  // A Mac host can run either
+  } else if (raw.platform === 'ios' || raw.platform === 'android') {
+    platforms = [raw.platform];
+  }
+
+  const xcode = raw.xcode_version ?? raw.xcodeVersion;
+  const numberOrNull = (value: unknown) => (typeof value === 'number' && value > 0 ? value : null);
+  const expoSdks = raw.expo_sdks ?? raw.expoSdkVersions;
+
+  return {
+    platforms,
+    xcode_version: typeof xcode === 'string' && VERSION_PATTERN.test(xcode) ? xcode : null,
+    memory_gb: numberOrNull(raw.memory_gb ?? raw.memoryGB ?? raw.maxMemoryGB),
+    cpu_cores: numberOrNull(raw.cpu_cores ?? raw.cpuCores),
+    expo_sdks: Array.isArray(expoSdks) ? expoSdks.map(Number).filter(Number.isInteger) : null,
+  };
+}
+
+/**
+ * Read a build's requirements (empty for builds without any)
+ */
+export function parseRequirements(build: Pick<Build, 'requirements'>): BuildRequirements {
+  return build.requirements ? JSON.parse(build.requirements) : {};
+}
+
+/**
+ * Validate submitted requirement fields
+ * @returns The requirements, or an error message
+ */
+export function parseRequirementFields(fields: Record<string, string>): BuildRequirements | string {
+  const requirements: BuildRequirements = {};
+
+  if (fields.min_xcode_version) {
+    if (!VERSION_PATTERN.test(fields.min_xcode_version)) {
+      return 'min_xcode_version must be a version like 16 or 15.4';
+    }
+    requirements.min_xcode_version = fields.min_xcode_version;
+  }
+
+  if (fields.min_memory_gb) {
+    const memory = Number(fields.min_memory_gb);
+    if (!(memory > 0)) {
+      return 'min_memory_gb must be a positive number';
+    }
+    requirements.min_memory_gb = memory;
+  }
+
+  if (fields.expo_sdk) {
+    const sdk = Number(fields.expo_sdk);
+    if (!Number.isInteger(sdk) || sdk <= 0) {
+      return 'expo_sdk must be a major version like 52';
+    }
+    requirements.expo_sdk = sdk;
+  }
+
+  return requirements;
+}
+
+/**
+ * Why a worker cannot run a build, one reason per unmet requirement
+ *
+ * Unreported Xcode versions and memory cannot satisfy a minimum. Expo SDK
+ * support is opt-out instead: the SDK comes with the project's own
+ * dependencies, so a worker only limits it by reporting `expo_sdks`.
+ */
+export function unmetRequirements(build: Build, worker: Worker): string[] {
+  const capabilities = parseCapabilities(worker.capabilities);
+  const requirements = parseRequirements(build);
+  const unmet: string[] = [];
+
+  if (capabilities.platforms && !capabilities.platforms.includes(build.platform)) {
+    unmet.push(`does not build ${build.platform}`);
+  }
+
+  if (requirements.min_xcode_version) {
+    if (!capabilities.xcode_version) {
+      unmet.push('does not report an Xcode version');
+    } else if (compareVersions(capabilities.xcode_version, requirements.min_xcode_version) < 0) {
+      unmet.push(`has Xcode ${capabilities.xcode_version}, needs ${requirements.min_xcode_version}`);
+    }
+  }
+
+  if (requirements.min_memory_gb) {
+    if (!capabilities.memory_gb) {
+      unmet.push('does not report its memory');
+    } else if (capabilities.memory_gb < requirements.min_memory_gb) {
+      unmet.push(`has ${capabilities.memory_gb} GB memory, needs ${requirements.min_memory_gb} GB`);
+    }
+  }
+
+  if (requirements.expo_sdk && capabilities.expo_sdks && !capabilities.expo_sdks.includes(requirements.expo_sdk)) {
+    unmet.push(`does not support Expo SDK ${requirements.expo_sdk}`);
+  }
+
+  return unmet;
+}
+
+export function canRunBuild(build: Build, worker: Worker): boolean {
+  return unmetRequirements(build, worker).length === 0;
+}
+
+/**
+ * Explain why none of the workers can run a build, or null if one can
+ */
+export function explainNoEligibleWorker(build: Build, workers: Worker[]): string | null {
+  if (workers.length === 0) {
+    return 'No workers are registered';
+  }
+
+  const reasons: string[] = [];
+  for (const worker of workers) {
+    const unmet = unmetRequirements(build, worker);
+    if (unmet.length === 0) {
+      return null;
+    }
+    reasons.push(`${worker.name} ${unmet.join(', ')}`);
+  }
+
+  return `No registered worker can run this build: ${reasons.join('; ')}`;
+}
+
+/**
+ * Compare dotted numeric versions ("15.2" vs "16"); missing parts count as 0
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const difference = (left[i] ?? 0) - (right[i] ?? 0);
+    if (difference !== 0) {
+      return Math.sign(difference);
+    }
+  }
+  return 0;
+}
@@ -0,0 +1,214 @@
+import crypto from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { ControllerConfig } from '../domain/Config.js';
+
+/**
+ * Envelope layout (all lengths in bytes):
+ *   magic (4) | master key ID (8)
+ *   | wrap IV (12) | wrap tag (16) | wrapped data key (32)
+ *   | data IV (12) | data tag (16) | ciphertext
+ *
+ * Each bundle is encrypted with its own random data key; only the data key is
+ * encrypted with the master key, so rotating the master key rewrites 60 bytes
+ * of header per bundle and never touches the ciphertext.
+ */
+const MAGIC = Buffer.from('EFA1');
+const KEY_BYTES = 32;
+const KEY_ID_BYTES = 8;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+const WRAP_OFFSET = MAGIC.length + KEY_ID_BYTES;
+const DATA_OFFSET = WRAP_OFFSET + IV_BYTES + TAG_BYTES + KEY_BYTES;
+const HEADER_BYTES = DATA_OFFSET + IV_BYTES + TAG_BYTES;
+
+/**
+ * Generated when no CERTS_MASTER_KEY is configured (development only)
+ */
+const GENERATED_KEY_FILE = 'certs-master.key';
+
+/**
+ * Master keys for certs bundles encrypted at rest
+ *
+ * New bundles are sealed with the current key; previous keys can still open
+ * bundles sealed before a rotation until they are rewrapped.
+ */
+export class CertsKeyring {
+  private current: { id: Buffer; key: Buffer };
+  private keys: Map<string, Buffer>;
+
+  constructor(currentKey: Buffer, previousKeys: Buffer[] = []) {
+    for (const key of [currentKey, ...previousKeys]) {
+      if (key.length !== KEY_BYTES) {
+        throw new Error(`Certs master keys must be ${KEY_BYTES} bytes`);
+      }
+    }
+
+    this.current = { id: keyId(currentKey), key: currentKey };
+    this.keys = new Map(
+      [...previousKeys, currentKey].map((key) => [keyId(key).toString('hex'), key])
+    );
+  }
+
+  /**
+   * ID of the current master key (safe to log)
+   */
+  get currentKeyId(): string {
+    return this.current.id.toString('hex');
+  }
+
+  /**
+   * Encrypt a bundle under a fresh data key
+   */
+  seal(plaintext: Buffer): Buffer {
+    const dataKey = crypto.randomBytes(KEY_BYTES);
+    const dataIv = crypto.randomBytes(IV_BYTES);
+    const cipher = crypto.createCipheriv('aes-256-gcm', dataKey, dataIv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+    const envelope = Buffer.concat([
+      Buffer.alloc(DATA_OFFSET),
+      dataIv,
+      cipher.getAuthTag(),
+      ciphertext,
+    ]);
+    this.wrapDataKey(envelope, dataKey);
+    dataKey.fill(0);
+
+    return envelope;
+  }
+
+  /**
+   * Decrypt a sealed bundle
+   * @throws if the bundle was sealed with an unknown key or was tampered with
+   */
+  open(envelope: Buffer): Buffer {
+    const dataKey = this.unwrapDataKey(envelope);
+
+    try {
+      const decipher = crypto.createDecipheriv(
+        'aes-256-gcm',
+        dataKey,
+        envelope.subarray(DATA_OFFSET, DATA_OFFSET + IV_BYTES)
+      );
+      decipher.setAuthTag(envelope.subarray(DATA_OFFSET + IV_BYTES, HEADER_BYTES));
+      return Buffer.concat([decipher.update(envelope.subarray(HEADER_BYTES)), decipher.final()]);
+    } finally {
+      dataKey.fill(0);
+    }
+  }
+
+  /**
+   * Whether a sealed bundle's data key is wrapped with the current master key
+   */
+  isCurrent(envelope: Buffer): boolean {
+    return envelope.subarray(MAGIC.length, WRAP_OFFSET).equals(this.current.id);
+  }
+
+  /**
+   * Re-encrypt a sealed bundle's data key with the current master key
+   * The ciphertext is copied unchanged.
+   */
+  rewrap(envelope: Buffer): Buffer {
+    const dataKey = this.unwrapDataKey(envelope);
+    const rewrapped = Buffer.from(envelope);
+    this.wrapDataKey(rewrapped, dataKey);
+    dataKey.fill(0);
+    return rewrapped;
+  }
+
+  private wrapDataKey(envelope: Buffer, dataKey: Buffer) {
+    const wrapIv = crypto.randomBytes(IV_BYTES);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.current.key, wrapIv);
+    // Bind the wrapped key to its key ID so headers cannot be spliced
+    cipher.setAAD(this.current.id);
+    const wrapped = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+
+    MAGIC.copy(envelope, 0);
+    this.current.id.copy(envelope, MAGIC.length);
+    wrapIv.copy(envelope, WRAP_OFFSET);
+    cipher.getAuthTag().copy(envelope, WRAP_OFFSET + IV_BYTES);
+    wrapped.copy(envelope, WRAP_OFFSET + IV_BYTES + TAG_BYTES);
+  }
+
+  private unwrapDataKey(envelope: Buffer): Buffer {
+    if (!isSealed(envelope)) {
+      throw new Error('Certs bundle is not encrypted');
+    }
+
+    const id = envelope.subarray(MAGIC.length, WRAP_OFFSET);
+    const masterKey = this.keys.get(id.toString('hex'));
+    if (!masterKey) {
+      throw new Error(`Certs bundle was encrypted with unknown master key ${id.toString('hex')}`);
+    }
+
+    const decipher = crypto.createDecipheriv(
+      'aes-256-gcm',
+      masterKey,
+      envelope.subarray(WRAP_OFFSET, WRAP_OFFSET + IV_BYTES)
+    );
+    decipher.setAAD(id);
+    decipher.setAuthTag(envelope.subarray(WRAP_OFFSET + IV_BYTES, WRAP_OFFSET + IV_BYTES + TAG_BYTES));
+    return Buffer.concat([
+      decipher.update(envelope.subarray(WRAP_OFFSET + IV_BYTES + TAG_BYTES, DATA_OFFSET)),
+      decipher.final(),
+    ]);
+  }
+}
+
+/**
+ * Whether bytes are a sealed envelope (bundles stored before encryption
+ * at rest are plain zips)
+ */
+export function isSealed(data: Buffer): boolean {
+  return data.length >= HEADER_BYTES && data.subarray(0, MAGIC.length).equals(MAGIC);
+}
+
+/**
+ * Decode a base64 master key from configuration
+ */
+export function parseMasterKey(value: string, name: string): Buffer {
+  const key = Buffer.from(value.trim(), 'base64');
+  if (key.length !== KEY_BYTES) {
+    throw new Error(`${name} must be ${KEY_BYTES} bytes, base64 encoded (e.g. \`openssl rand -base64 32\`)`);
+  }
+  return key;
+}
+
+/**
+ * Build the keyring from configuration
+ *
+ * Without a configured master key, one is generated once and kept next to
+ * the stored artifacts, which protects against leaked backups of the
+ * artifacts alone but not against access to the storage directory. With S3
+ * storage the storage directory is only a staging area, often on a disk that
+ * does not outlive the controller, so a key must be configured: a lost key
+ * leaves every stored bundle undecryptable.
+ */
+export function loadCertsKeyring(config: ControllerConfig): CertsKeyring {
+  const previous = config.certsPreviousMasterKeys.map((value) =>
+    parseMasterKey(value, 'CERTS_PREVIOUS_MASTER_KEYS')
+  );
+
+  if (config.certsMasterKey) {
+    return new CertsKeyring(parseMasterKey(config.certsMasterKey, 'CERTS_MASTER_KEY'), previous);
+  }
+
+  if (config.storageDriver === 's3') {
+    throw new Error('CERTS_MASTER_KEY required for s3 storage driver (e.g. `openssl rand -base64 32`)');
+  }
+
+  const keyPath = join(config.storagePath, GENERATED_KEY_FILE);
+  if (!existsSync(keyPath)) {
+    mkdirSync(config.storagePath, { recursive: true });
+    writeFileSync(keyPath, crypto.randomBytes(KEY_BYTES).toString('base64'), { mode: 0o600 });
+  }
+  console.warn(`⚠️  WARNING: Using generated certs master key at ${keyPath}. Set CERTS_MASTER_KEY environment variable for production.`);
+
+  return new CertsKeyring(parseMasterKey(readFileSync(keyPath, 'utf-8'), keyPath), previous);
+}
+
+function keyId(key: Buffer): Buffer {
+  return crypto.createHash('sha256').update(key).digest().subarray(0, KEY_ID_BYTES);
+}
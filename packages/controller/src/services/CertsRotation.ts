@@ -0,0 +1,77 @@
+import type { DatabaseService } from '../db/Database.js';
+import type { CertsRewrapOutcome, FileStorage } from './FileStorage.js';
+import { withBlobLock } from './Blobs.js';
+
+export interface CertsRotationReport {
+  key_id: string;
+  rewrapped: number;
+  encrypted: number;
+  current: number;
+  failures: Array<{ path: string; error: string }>;
+}
+
+/**
+ * Rewrap every stored certs bundle with the current master key
+ *
+ * Covers bundles held by builds and by schedules, which keep theirs for
+ * later runs.
+ *
+ * Run after moving the old key to CERTS_PREVIOUS_MASTER_KEYS; once the report
+ * shows no failures the old key can be dropped. Bundles stored before
+ * encryption at rest are encrypted on the way.
+ */
+export async function rotateStoredCerts(db: DatabaseService, storage: FileStorage): Promise<CertsRotationReport> {
+  const report: CertsRotationReport = {
+    key_id: storage.getCertsKeyId(),
+    rewrapped: 0,
+    encrypted: 0,
+    current: 0,
+    failures: [],
+  };
+
+  for (const location of await storedCertsLocations(db)) {
+    try {
+      const outcome = await rewrap(db, storage, location);
+      if (outcome) {
+        report[outcome]++;
+      }
+    } catch (err) {
+      report.failures.push({ path: location, error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Builds and schedules may share a blob, so each location is listed once
+ */
+async function storedCertsLocations(db: DatabaseService): Promise<Set<string>> {
+  const locations = new Set(await db.builds.listStoredCertsPaths());
+
+  for (const schedule of await db.schedules.list()) {
+    const blob = schedule.certs_sha256 && (await db.blobs.get(schedule.certs_sha256));
+    if (blob) {
+      locations.add(blob.location);
+    }
+  }
+
+  return locations;
+}
+
+/**
+ * Shared blobs are rewritten under their lock, so a build releasing the last
+ * reference meanwhile cannot have its deleted bundle written back
+ * @returns null if the bundle was deleted before its turn
+ */
+async function rewrap(db: DatabaseService, storage: FileStorage, location: string): Promise<CertsRewrapOutcome | null> {
+  const blob = await db.blobs.getByLocation(location);
+
+  if (!blob) {
+    return storage.rewrapBuildCerts(location);
+  }
+
+  return withBlobLock(blob.sha256, async () =>
+    (await db.blobs.get(blob.sha256)) ? storage.rewrapBuildCerts(location) : null
+  );
+}
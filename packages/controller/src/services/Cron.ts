@@ -0,0 +1,162 @@
+export class CronError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CronError';
+  }
+}
+
+/**
+ * A parsed 5-field cron expression: minute hour day-of-month month day-of-week
+ */
+export interface CronExpression {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>; // 1-12
+  daysOfWeek: Set<number>; // 0-6, Sunday is 0
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const MINUTE_MS = 60_000;
+
+// Expressions that match nothing within this window (e.g. 30 February) never run
+const SEARCH_WINDOW_MS = 5 * 366 * 24 * 60 * MINUTE_MS;
+
+/**
+ * Parse a cron expression
+ *
+ * Supports `*`, values, ranges (`1-5`), lists (`1,15`), steps (`*\/15`,
+ * `0-30/10`), month and day names (`jan`, `mon-fri`) and the macros
+ * @yearly, @monthly, @weekly, @daily and @hourly. Day-of-week 7 is Sunday.
+ * As in cron, a day matches either day field when both are restricted.
+ * @throws CronError if the expression is invalid
+ */
+export function parseCron(expression: string): CronExpression {
+  const trimmed = expression.trim().toLowerCase();
+  const fields = (MACROS[trimmed] ?? trimmed).split(/\s+/);
+
+  if (fields.length !== 5) {
+    throw new CronError(`Cron expression must have 5 fields (minute hour day month weekday), got ${fields.length}`);
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+  const daysOfWeek = parseField(dayOfWeek, 'day of week', 0, 7, DAY_NAMES);
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes: parseField(minute, 'minute', 0, 59),
+    hours: parseField(hour, 'hour', 0, 23),
+    daysOfMonth: parseField(dayOfMonth, 'day of month', 1, 31),
+    months: parseField(month, 'month', 1, 12, MONTH_NAMES, 1),
+    daysOfWeek,
+    anyDayOfMonth: dayOfMonth === '*',
+    anyDayOfWeek: dayOfWeek === '*',
+  };
+}
+
+/**
+ * First time after `after` (exclusive, whole UTC minutes) the expression
+ * matches, or null if it matches nothing within five years
+ */
+export function nextCronRun(cron: CronExpression, after: number): number | null {
+  let time = Math.floor(after / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+  const limit = after + SEARCH_WINDOW_MS;
+
+  // Skip whole months, days and hours that cannot match before trying minutes
+  while (time <= limit) {
+    const date = new Date(time);
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth();
+    const day = date.getUTCDate();
+    const hour = date.getUTCHours();
+
+    if (!cron.months.has(month + 1)) {
+      time = Date.UTC(year, month + 1, 1);
+    } else if (!dayMatches(cron, date)) {
+      time = Date.UTC(year, month, day + 1);
+    } else if (!cron.hours.has(hour)) {
+      time = Date.UTC(year, month, day, hour + 1);
+    } else if (!cron.minutes.has(date.getUTCMinutes())) {
+      time += MINUTE_MS;
+    } else {
+      return time;
+    }
+  }
+
+  return null;
+}
+
+function dayMatches(cron: CronExpression, date: Date): boolean {
+  const dayOfMonth = cron.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = cron.daysOfWeek.has(date.getUTCDay());
+
+  if (!cron.anyDayOfMonth && !cron.anyDayOfWeek) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+function parseField(
+  field: string,
+  label: string,
+  min: number,
+  max: number,
+  names: string[] = [],
+  nameOffset = 0
+): Set<number> {
+  const values = new Set<number>();
+
+  const parseValue = (value: string) => {
+    const named = names.indexOf(value);
+    const number = named >= 0 ? named + nameOffset : /^\d+$/.test(value) ? Number(value) : NaN;
+    if (!(number >= min && number <= max)) {
+      throw new CronError(`Invalid ${label} "${value}" (allowed ${min}-${max})`);
+    }
+    return number;
+  };
+
+  for (const part of field.split(',')) {
+    const [range, stepText, ...rest] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (rest.length > 0 || !Number.isInteger(step) || step < 1) {
+      throw new CronError(`Invalid ${label} step in "${part}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      [start, end] = [min, max];
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      [start, end] = [parseValue(from), parseValue(to)];
+      if (start > end) {
+        throw new CronError(`Invalid ${label} range "${range}"`);
+      }
+    } else {
+      start = parseValue(range);
+      end = stepText === undefined ? start : max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
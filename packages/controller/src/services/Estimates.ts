@@ -0,0 +1,136 @@
+import type { Build, BuildDuration, DatabaseService, Worker } from '../db/Database.js';
+import type { JobAssignment, JobQueue } from './JobQueue.js';
+import { canRunBuild } from './Capabilities.js';
+import { workerAvailability } from './Maintenance.js';
+
+/**
+ * Expected duration before any build of a platform has completed
+ */
+export const DEFAULT_BUILD_DURATION_MS = 15 * 60 * 1000;
+
+// Recent builds the estimates learn from
+const DURATION_SAMPLE_SIZE = 200;
+
+export type ExpectedDuration = (platform: Build['platform'], workerId: string | null) => number;
+
+export interface BuildEstimate {
+  queuePosition: number | null; // Pending builds only
+  startAt: number | null; // null while no worker can run the build
+  finishAt: number | null;
+}
+
+/**
+ * Expected build durations from recent completed builds
+ *
+ * The median of the platform's builds on that worker, else on any worker,
+ * else of all builds, else DEFAULT_BUILD_DURATION_MS.
+ */
+export function expectedDurations(durations: BuildDuration[]): ExpectedDuration {
+  const samples = new Map<string, number[]>();
+  const add = (key: string, duration: number) => {
+    const values = samples.get(key) ?? [];
+    values.push(duration);
+    samples.set(key, values);
+  };
+
+  for (const { platform, worker_id, duration_ms } of durations) {
+    if (worker_id) {
+      add(`${platform}:${worker_id}`, duration_ms);
+    }
+    add(platform, duration_ms);
+    add('*', duration_ms);
+  }
+
+  const medians = new Map(Array.from(samples, ([key, values]) => [key, median(values)]));
+  return (platform, workerId) =>
+    medians.get(`${platform}:${workerId}`) ?? medians.get(platform) ?? medians.get('*') ?? DEFAULT_BUILD_DURATION_MS;
+}
+
+/**
+ * Estimate when each pending and running build starts and finishes
+ *
+ * Running builds finish after their expected duration (now at the earliest,
+ * once overdue), each holding one of its worker's slots. Pending builds are
+ * then handed out in assignment order, each to the eligible worker with a
+ * slot free soonest, as the queue would if nothing else were submitted.
+ */
+export function estimateQueue(
+  pending: Build[],
+  active: JobAssignment[],
+  workers: Worker[],
+  expectedDuration: ExpectedDuration,
+  now = Date.now()
+): Map<string, BuildEstimate> {
+  const estimates = new Map<string, BuildEstimate>();
+  // When each of a worker's slots is next free
+  const freeAt = new Map(workers.map((worker) => [worker.id, new Array<number>(worker.max_concurrent_builds).fill(now)]));
+
+  for (const { build, worker } of active) {
+    const startAt = build.started_at ?? now;
+    const finishAt = Math.max(now, startAt + expectedDuration(build.platform, worker.id));
+    estimates.set(build.id, { queuePosition: null, startAt, finishAt });
+
+    const slots = freeAt.get(worker.id);
+    if (slots) {
+      slots[soonestSlot(slots)] = finishAt;
+    }
+  }
+
+  for (const [index, build] of pending.entries()) {
+    const eligible = workers.filter((worker) => canRunBuild(build, worker));
+    if (eligible.length === 0) {
+      estimates.set(build.id, { queuePosition: index + 1, startAt: null, finishAt: null });
+      continue;
+    }
+
+    const nextFree = (worker: Worker) => {
+      const slots = freeAt.get(worker.id)!;
+      return slots[soonestSlot(slots)];
+    };
+    const worker = eligible.reduce((soonest, candidate) => (nextFree(candidate) < nextFree(soonest) ? candidate : soonest));
+    const slots = freeAt.get(worker.id)!;
+    const slot = soonestSlot(slots);
+
+    const startAt = Math.max(slots[slot], build.retry_after ?? now);
+    const finishAt = startAt + expectedDuration(build.platform, worker.id);
+    slots[slot] = finishAt;
+    estimates.set(build.id, { queuePosition: index + 1, startAt, finishAt });
+  }
+
+  return estimates;
+}
+
+/**
+ * Estimate one build against the current queue and the online workers taking
+ * new builds (not draining or paused)
+ * @returns undefined for finished builds
+ */
+export async function estimateBuild(
+  db: DatabaseService,
+  queue: JobQueue,
+  buildId: string,
+  now = Date.now()
+): Promise<BuildEstimate | undefined> {
+  const [durations, workers] = await Promise.all([
+    db.builds.listRecentDurations(DURATION_SAMPLE_SIZE),
+    db.workers.list(),
+  ]);
+
+  return estimateQueue(
+    queue.getPending(),
+    queue.getActive(),
+    workers.filter((worker) => worker.status !== 'offline' && workerAvailability(worker) === 'available'),
+    expectedDurations(durations),
+    now
+  ).get(buildId);
+}
+
+function soonestSlot(freeAt: number[]): number {
+  return freeAt.indexOf(Math.min(...freeAt));
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : Math.round((sorted[middle - 1] + sorted[middle]) / 2);
+}
@@ -1,26 +1,93 @@
-import { mkdirSync, existsSync, createWriteStream, createReadStream, unlinkSync, readFileSync, copyFileSync } from 'fs';
-import { join, resolve } from 'path';
-import type { Readable } from 'stream';
+import { mkdirSync, existsSync, createWriteStream, createReadStream, unlinkSync, renameSync, rmSync, readdirSync, statSync, writeFileSync, truncateSync, readFileSync } from 'fs';
+import { join, resolve, sep } from 'path';
+import { Transform, type Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import crypto from 'crypto';
 import AdmZip from 'adm-zip';
+import type { StorageDriver } from './StorageDriver.js';
+import { LocalStorageDriver, shredFile } from './LocalStorageDriver.js';
+import { CertsKeyring, isSealed } from './CertsKeyring.js';
 
 /**
- * Local filesystem storage service
- * Stores build artifacts, source zips, and certs
+ * Stale upload temp files older than this are removed on startup
+ */
+const TEMP_FILE_MAX_AGE_MS = 60 * 60 * 1000; // 1 hour
+
+/**
+ * A file written to storage, with its size and SHA-256 digest
+ * computed while the bytes streamed in
+ */
+export interface StoredFile {
+  path: string;
+  size: number;
+  sha256: string;
+}
+
+/**
+ * Size and modification time of a stored file, used for download
+ * validators (ETag, Last-Modified) and Range requests
+ */
+export interface FileStats {
+  size: number;
+  mtimeMs: number;
+}
+
+/**
+ * Inclusive byte range within a file
+ */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Thrown when a streamed upload exceeds its size limit
+ * The partially written temp file has already been removed
+ */
+export class FileTooLargeError extends Error {
+  constructor(public readonly maxBytes: number) {
+    super(`File exceeds maximum size of ${maxBytes} bytes`);
+    this.name = 'FileTooLargeError';
+  }
+}
+
+/**
+ * What rewrapBuildCerts did to a stored certs bundle
+ */
+export type CertsRewrapOutcome = 'current' | 'rewrapped' | 'encrypted';
+
+/**
+ * Build artifact storage service
+ * Stores build artifacts, source zips, and certs through a StorageDriver
+ * (local disk by default). Uploads are always staged on local disk under
+ * storagePath, so size limits and digests are enforced before anything
+ * reaches the driver.
+ *
+ * Certs bundles are encrypted with the keyring before they leave the staging
+ * area and only decrypted by readBuildCerts. The server always passes the
+ * configured keyring; the default one is random, for tests.
  */
 export class FileStorage {
   private storagePath: string;
-
-  constructor(storagePath: string) {
+  private driver: StorageDriver;
+  private keyring: CertsKeyring;
+
+  constructor(
+    storagePath: string,
+    driver: StorageDriver = new LocalStorageDriver(storagePath),
+    keyring: CertsKeyring = new CertsKeyring(crypto.randomBytes(32))
+  ) {
     this.storagePath = storagePath;
+    this.driver = driver;
+    this.keyring = keyring;
     this.ensureDirectories();
   }
 
   private ensureDirectories() {
     const dirs = [
       this.storagePath,
-      join(this.storagePath, 'builds'),
-      join(this.storagePath, 'certs'),
-      join(this.storagePath, 'results'),
+      join(this.storagePath, 'tmp'),
+      join(this.storagePath, 'uploads'),
     ];
 
     for (const dir of dirs) {
@@ -28,215 +95,505 @@ export class FileStorage {
         mkdirSync(dir, { recursive: true });
       }
     }
+
+    this.purgeStaleTempFiles();
+  }
+
+  /**
+   * Remove temp files left behind by uploads interrupted by a crash
+   */
+  private purgeStaleTempFiles() {
+    const tmpDir = join(this.storagePath, 'tmp');
+    const cutoff = Date.now() - TEMP_FILE_MAX_AGE_MS;
+
+    for (const file of readdirSync(tmpDir)) {
+      const filePath = join(tmpDir, file);
+      try {
+        if (statSync(filePath).mtimeMs < cutoff) {
+          unlinkSync(filePath);
+        }
+      } catch (err) {
+        console.error(`Failed to delete stale temp file ${filePath}:`, err);
+      }
+    }
   }
 
   /**
    * Save build source zip
    */
-  saveBuildSource(buildId: string, stream: Readable): Promise<string> {
-    const filePath = join(this.storagePath, 'builds', `${buildId}.zip`);
-    return this.saveStream(stream, filePath);
+  saveBuildSource(buildId: string, stream: Readable, maxBytes?: number): Promise<StoredFile> {
+    return this.saveStream(stream, sourceKey(buildId), maxBytes);
   }
 
   /**
-   * Save build certs/credentials
+   * Save build certs/credentials, encrypted
    */
-  saveBuildCerts(buildId: string, stream: Readable): Promise<string> {
-    const filePath = join(this.storagePath, 'certs', `${buildId}.zip`);
-    return this.saveStream(stream, filePath);
+  async saveBuildCerts(buildId: string, stream: Readable, maxBytes?: number): Promise<StoredFile> {
+    const staged = await this.writeStream(stream, this.createTempPath(), maxBytes);
+    return this.commitBuildCerts(buildId, staged);
   }
 
   /**
    * Save build result (IPA/APK)
    */
-  saveBuildResult(buildId: string, stream: Readable, extension: string): Promise<string> {
-    const filePath = join(this.storagePath, 'results', `${buildId}.${extension}`);
-    return this.saveStream(stream, filePath);
+  saveBuildResult(buildId: string, stream: Readable, extension: string, maxBytes?: number): Promise<StoredFile> {
+    return this.saveStream(stream, resultKey(buildId, extension), maxBytes);
+  }
+
+  /**
+   * Stream an upload into a temp file without deciding where it belongs yet
+   * Used by multipart routes where form fields (build ID, platform) may arrive
+   * after the file. Finish with commitBuildSource/Certs/Result or discardStaged.
+   */
+  stageUpload(stream: Readable, maxBytes?: number): Promise<StoredFile> {
+    return this.writeStream(stream, this.createTempPath(), maxBytes);
+  }
+
+  /**
+   * Move a staged upload into place as a build source
+   */
+  commitBuildSource(buildId: string, staged: StoredFile): Promise<StoredFile> {
+    return this.commitStaged(staged, sourceKey(buildId));
   }
 
   /**
-   * Get build source path
+   * Encrypt a staged upload and move it into place as build certs
+   */
+  async commitBuildCerts(buildId: string, staged: StoredFile): Promise<StoredFile> {
+    return this.commitStaged(this.sealStaged(staged), certsKey(buildId));
+  }
+
+  /**
+   * Move a staged upload into the content-addressed blob area
+   * Use Blobs.storeBlob, which tracks references, rather than calling this directly
+   */
+  commitBlob(staged: StoredFile): Promise<StoredFile> {
+    return this.commitStaged(staged, blobKey(staged.sha256));
+  }
+
+  /**
+   * Encrypt a staged certs upload and move it into the blob area
+   * The blob stays addressed by the digest of the plaintext, so identical
+   * bundles are still shared; size is that of the encrypted bytes.
+   */
+  async commitCertsBlob(staged: StoredFile): Promise<StoredFile> {
+    return this.commitStaged(this.sealStaged(staged), blobKey(staged.sha256));
+  }
+
+  /**
+   * Move a staged upload into place as a build result
+   */
+  commitBuildResult(buildId: string, staged: StoredFile, extension: string): Promise<StoredFile> {
+    return this.commitStaged(staged, resultKey(buildId, extension));
+  }
+
+  /**
+   * Delete a staged upload that was never committed
+   * Safe to call on already-committed or missing files. Use secure for
+   * plaintext certs, which are overwritten before being removed.
+   */
+  discardStaged(staged: StoredFile | null, options?: { secure?: boolean }) {
+    if (!staged || !this.isTempPath(staged.path)) {
+      return;
+    }
+
+    if (options?.secure) {
+      shredFile(staged.path);
+    } else {
+      rmSync(staged.path, { force: true });
+    }
+  }
+
+  /**
+   * Get build source location
    */
   getBuildSourcePath(buildId: string): string {
-    return join(this.storagePath, 'builds', `${buildId}.zip`);
+    return this.driver.locate(sourceKey(buildId));
   }
 
   /**
-   * Get build certs path
+   * Get build certs location
    */
   getBuildCertsPath(buildId: string): string {
-    return join(this.storagePath, 'certs', `${buildId}.zip`);
+    return this.driver.locate(certsKey(buildId));
   }
 
   /**
-   * Get build result path
+   * Get build result location
    */
   getBuildResultPath(buildId: string, extension: string): string {
-    return join(this.storagePath, 'results', `${buildId}.${extension}`);
+    return this.driver.locate(resultKey(buildId, extension));
   }
 
   /**
    * Check if build source exists
    */
-  buildSourceExists(buildId: string): boolean {
-    return existsSync(this.getBuildSourcePath(buildId));
+  async buildSourceExists(buildId: string): Promise<boolean> {
+    return (await this.driver.stat(sourceKey(buildId))) !== null;
   }
 
   /**
    * Check if build result exists
    */
-  buildResultExists(buildId: string, extension: string): boolean {
-    return existsSync(this.getBuildResultPath(buildId, extension));
+  async buildResultExists(buildId: string, extension: string): Promise<boolean> {
+    return (await this.driver.stat(resultKey(buildId, extension))) !== null;
   }
 
   /**
-   * Create read stream for file
-   * SECURITY: Validates path is inside storage directory to prevent path traversal
+   * Create read stream for a stored file, optionally limited to a byte range
+   * SECURITY: Validates the location belongs to this store to prevent path traversal
    */
-  createReadStream(filePath: string): Readable {
-    const normalized = resolve(filePath);
-    const storageRoot = resolve(this.storagePath);
+  createReadStream(location: string, range?: ByteRange): Readable {
+    return this.driver.createReadStream(this.driver.resolveKey(location), range);
+  }
 
-    // Prevent path traversal - ensure file is inside storage directory
-    if (!normalized.startsWith(storageRoot)) {
-      throw new Error('Path traversal attempt blocked: file must be inside storage directory');
-    }
+  /**
+   * Get size and modification time of a stored file
+   * SECURITY: Validates the location belongs to this store to prevent path traversal
+   */
+  async getFileStats(location: string): Promise<FileStats> {
+    const stats = await this.driver.stat(this.driver.resolveKey(location));
 
-    if (!existsSync(normalized)) {
+    if (!stats) {
       throw new Error('File not found');
     }
 
-    return createReadStream(normalized);
+    return stats;
+  }
+
+  /**
+   * Delete a single stored artifact; missing files are not an error
+   * Use secure for certs, so local copies are overwritten before removal.
+   * SECURITY: Validates the location belongs to this store to prevent path traversal
+   */
+  async deleteArtifact(location: string, options?: { secure?: boolean }) {
+    await this.driver.delete(this.driver.resolveKey(location), options);
   }
 
   /**
    * Delete build artifacts
    */
-  deleteBuildArtifacts(buildId: string) {
-    const files = [
-      join(this.storagePath, 'builds', `${buildId}.zip`),
-      join(this.storagePath, 'certs', `${buildId}.zip`),
-      join(this.storagePath, 'results', `${buildId}.ipa`),
-      join(this.storagePath, 'results', `${buildId}.apk`),
+  async deleteBuildArtifacts(buildId: string) {
+    const keys = [
+      sourceKey(buildId),
+      certsKey(buildId),
+      resultKey(buildId, 'ipa'),
+      resultKey(buildId, 'apk'),
     ];
 
-    for (const file of files) {
+    for (const key of keys) {
       try {
-        if (existsSync(file)) {
-          unlinkSync(file);
-        }
+        await this.driver.delete(key, { secure: key === certsKey(buildId) });
       } catch (err) {
-        console.error(`Failed to delete ${file}:`, err);
+        console.error(`Failed to delete ${key}:`, err);
       }
     }
   }
 
   /**
-   * Save stream to file
+   * Stage a stream and commit it under key, so readers never see a
+   * partially written artifact
    */
-  private saveStream(stream: Readable, filePath: string): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const writeStream = createWriteStream(filePath);
+  private async saveStream(stream: Readable, key: string, maxBytes?: number): Promise<StoredFile> {
+    const staged = await this.writeStream(stream, this.createTempPath(), maxBytes);
+    return this.commitStaged(staged, key);
+  }
 
-      stream.pipe(writeStream);
+  /**
+   * Pipe stream to disk, enforcing the size limit and hashing as bytes arrive
+   * Nothing is buffered beyond the stream's own highWaterMark
+   */
+  private async writeStream(stream: Readable, filePath: string, maxBytes?: number): Promise<StoredFile> {
+    const meter = createMeter(maxBytes);
+
+    try {
+      await pipeline(stream, meter.transform, createWriteStream(filePath));
+    } catch (err) {
+      rmSync(filePath, { force: true });
+      throw err;
+    }
 
-      writeStream.on('finish', () => resolve(filePath));
-      writeStream.on('error', reject);
-      stream.on('error', reject);
-    });
+    return { path: filePath, ...meter.result() };
   }
 
   /**
-   * Get storage stats
+   * Create the backing file for a resumable upload session
    */
-  getStats() {
-    // Could be enhanced with actual disk usage calculations
-    return {
-      path: this.storagePath,
-      exists: existsSync(this.storagePath),
-    };
+  createUpload(uploadId: string) {
+    writeFileSync(this.getUploadPath(uploadId), '');
   }
 
   /**
-   * Read and unzip certificate bundle
-   * Extracts P12 certificate, password, and provisioning profiles
+   * Write one chunk of a resumable upload at the given offset
+   * A chunk is all-or-nothing: if the stream fails part way the file is
+   * truncated back to the offset, so the caller's committed offset stays valid.
+   * @returns Number of bytes written
    */
-  readBuildCerts(certsPath: string): Buffer {
-    const normalized = resolve(certsPath);
-    const storageRoot = resolve(this.storagePath);
+  async writeUploadChunk(uploadId: string, offset: number, stream: Readable, maxBytes: number): Promise<number> {
+    const filePath = this.getUploadPath(uploadId);
+    if (!existsSync(filePath)) {
+      throw new Error('Upload not found');
+    }
 
-    // Prevent path traversal
-    if (!normalized.startsWith(storageRoot)) {
-      throw new Error('Path traversal attempt blocked: file must be inside storage directory');
+    const meter = createMeter(maxBytes);
+
+    try {
+      await pipeline(stream, meter.transform, createWriteStream(filePath, { flags: 'r+', start: offset }));
+    } catch (err) {
+      truncateSync(filePath, offset);
+      throw err;
     }
 
-    if (!existsSync(normalized)) {
-      throw new Error('Certs file not found');
+    const { size } = meter.result();
+    // Drop any bytes past this chunk left over from an earlier interrupted write
+    truncateSync(filePath, offset + size);
+    return size;
+  }
+
+  /**
+   * Compute size and digest of a fully uploaded file
+   */
+  async hashUpload(uploadId: string): Promise<StoredFile> {
+    const filePath = this.getUploadPath(uploadId);
+    const hash = crypto.createHash('sha256');
+    let size = 0;
+
+    for await (const chunk of createReadStream(filePath)) {
+      size += chunk.length;
+      hash.update(chunk);
     }
 
-    return readFileSync(normalized);
+    return { path: filePath, size, sha256: hash.digest('hex') };
   }
 
   /**
-   * Check if a file exists
+   * Turn a finished resumable upload into a staged upload, ready for
+   * commitBuildSource/Certs/Result like a multipart file
    */
-  exists(filePath: string): boolean {
-    const normalized = resolve(filePath);
-    const storageRoot = resolve(this.storagePath);
+  stageCompletedUpload(uploadId: string, size: number, sha256: string): StoredFile {
+    const tempPath = this.createTempPath();
+    renameSync(this.getUploadPath(uploadId), tempPath);
+    return { path: tempPath, size, sha256 };
+  }
 
-    // Prevent path traversal
-    if (!normalized.startsWith(storageRoot)) {
-      return false;
+  /**
+   * Delete the backing file of an abandoned upload session
+   * Use secure for certs uploads, as with discardStaged.
+   */
+  deleteUpload(uploadId: string, options?: { secure?: boolean }) {
+    const uploadPath = this.getUploadPath(uploadId);
+
+    if (options?.secure) {
+      shredFile(uploadPath);
+    } else {
+      rmSync(uploadPath, { force: true });
+    }
+  }
+
+  private getUploadPath(uploadId: string): string {
+    // Session IDs are server-generated, but never let one escape the directory
+    if (!/^[A-Za-z0-9_-]+$/.test(uploadId)) {
+      throw new Error('Invalid upload ID');
+    }
+    return join(this.storagePath, 'uploads', `${uploadId}.part`);
+  }
+
+  private async commitStaged(staged: StoredFile, key: string): Promise<StoredFile> {
+    if (!this.isTempPath(staged.path)) {
+      throw new Error('Only staged uploads can be committed');
+    }
+
+    try {
+      await this.driver.putFile(key, staged.path);
+    } catch (err) {
+      rmSync(staged.path, { force: true });
+      throw err;
     }
 
-    return existsSync(normalized);
+    return { ...staged, path: this.driver.locate(key) };
   }
 
   /**
-   * Copy build source to new build ID
+   * Encrypt a staged plaintext upload into a new staged file and shred the
+   * plaintext
    */
-  async copyBuildSource(sourcePath: string, newBuildId: string): Promise<string> {
-    const normalized = resolve(sourcePath);
-    const storageRoot = resolve(this.storagePath);
+  private sealStaged(staged: StoredFile): StoredFile {
+    if (!this.isTempPath(staged.path)) {
+      throw new Error('Only staged uploads can be committed');
+    }
 
-    // Prevent path traversal
-    if (!normalized.startsWith(storageRoot)) {
-      throw new Error('Path traversal attempt blocked: file must be inside storage directory');
+    const sealedPath = this.createTempPath();
+    try {
+      const envelope = this.keyring.seal(readFileSync(staged.path));
+      writeFileSync(sealedPath, envelope, { mode: 0o600 });
+      return { path: sealedPath, size: envelope.length, sha256: staged.sha256 };
+    } catch (err) {
+      rmSync(sealedPath, { force: true });
+      throw err;
+    } finally {
+      shredFile(staged.path);
+    }
+  }
+
+  private createTempPath(): string {
+    return join(this.storagePath, 'tmp', `${crypto.randomUUID()}.part`);
+  }
+
+  private isTempPath(filePath: string): boolean {
+    return resolve(filePath).startsWith(resolve(this.storagePath, 'tmp') + sep);
+  }
+
+  /**
+   * Get storage stats
+   */
+  getStats() {
+    // Could be enhanced with actual disk usage calculations
+    return this.driver.describe();
+  }
+
+  /**
+   * Read and decrypt a certificate bundle into memory (bundles are small)
+   * Bundles stored before encryption at rest are returned as stored.
+   * SECURITY: The only place certs are decrypted; keep the plaintext out of storage
+   * SECURITY: Validates the location belongs to this store to prevent path traversal
+   */
+  async readBuildCerts(certsPath: string): Promise<Buffer> {
+    const stored = await this.readStoredFile(certsPath, 'Certs file not found');
+    return isSealed(stored) ? this.keyring.open(stored) : stored;
+  }
+
+  /**
+   * ID of the master key new certs bundles are encrypted with
+   */
+  getCertsKeyId(): string {
+    return this.keyring.currentKeyId;
+  }
+
+  /**
+   * Re-encrypt a stored certs bundle's data key with the current master key,
+   * encrypting bundles stored before encryption at rest
+   * SECURITY: Validates the location belongs to this store to prevent path traversal
+   */
+  async rewrapBuildCerts(certsPath: string): Promise<CertsRewrapOutcome> {
+    const stored = await this.readStoredFile(certsPath, 'Certs file not found');
+
+    if (isSealed(stored) && this.keyring.isCurrent(stored)) {
+      return 'current';
     }
 
-    if (!existsSync(normalized)) {
-      throw new Error('Source file not found');
+    const key = this.driver.resolveKey(certsPath);
+    const tempPath = this.createTempPath();
+    try {
+      writeFileSync(tempPath, isSealed(stored) ? this.keyring.rewrap(stored) : this.keyring.seal(stored), { mode: 0o600 });
+      if (!isSealed(stored)) {
+        // Replacing the file would leave the plaintext blocks behind
+        await this.driver.delete(key, { secure: true });
+      }
+      await this.driver.putFile(key, tempPath);
+    } finally {
+      rmSync(tempPath, { force: true });
+    }
+
+    return isSealed(stored) ? 'rewrapped' : 'encrypted';
+  }
+
+  private async readStoredFile(location: string, notFoundMessage: string): Promise<Buffer> {
+    const key = this.driver.resolveKey(location);
+
+    if (!(await this.driver.stat(key))) {
+      throw new Error(notFoundMessage);
+    }
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of this.driver.createReadStream(key)) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  /**
+   * Check if a file exists
+   */
+  async exists(location: string): Promise<boolean> {
+    let key: string;
+    try {
+      key = this.driver.resolveKey(location);
+    } catch {
+      // Prevent path traversal
+      return false;
     }
 
-    const newPath = join(this.storagePath, 'builds', `${newBuildId}.zip`);
-    copyFileSync(normalized, newPath);
+    return (await this.driver.stat(key)) !== null;
+  }
 
-    return newPath;
+  /**
+   * Copy build source to new build ID
+   */
+  async copyBuildSource(sourcePath: string, newBuildId: string): Promise<string> {
+    return this.copyArtifact(sourcePath, sourceKey(newBuildId), 'Source file not found');
   }
 
   /**
    * Copy build certs to new build ID
    */
   async copyBuildCerts(certsPath: string, newBuildId: string): Promise<string> {
-    const normalized = resolve(certsPath);
-    const storageRoot = resolve(this.storagePath);
+    return this.copyArtifact(certsPath, certsKey(newBuildId), 'Certs file not found');
+  }
 
+  private async copyArtifact(location: string, toKey: string, notFoundMessage: string): Promise<string> {
     // Prevent path traversal
-    if (!normalized.startsWith(storageRoot)) {
-      throw new Error('Path traversal attempt blocked: file must be inside storage directory');
-    }
+    const fromKey = this.driver.resolveKey(location);
 
-    if (!existsSync(normalized)) {
-      throw new Error('Certs file not found');
+    if (!(await this.driver.stat(fromKey))) {
+      throw new Error(notFoundMessage);
     }
 
-    const newPath = join(this.storagePath, 'certs', `${newBuildId}.zip`);
-    copyFileSync(normalized, newPath);
-
-    return newPath;
+    await this.driver.copy(fromKey, toKey);
+    return this.driver.locate(toKey);
   }
 }
 
+function blobKey(sha256: string): string {
+  return `blobs/${sha256}`;
+}
+
+function sourceKey(buildId: string): string {
+  return `builds/${buildId}.zip`;
+}
+
+function certsKey(buildId: string): string {
+  return `certs/${buildId}.zip`;
+}
+
+function resultKey(buildId: string, extension: string): string {
+  return `results/${buildId}.${extension}`;
+}
+
+/**
+ * Byte-counting, hashing pass-through that fails once maxBytes is exceeded
+ */
+function createMeter(maxBytes?: number) {
+  const hash = crypto.createHash('sha256');
+  let size = 0;
+
+  const transform = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      size += chunk.length;
+      if (maxBytes !== undefined && size > maxBytes) {
+        callback(new FileTooLargeError(maxBytes));
+        return;
+      }
+      hash.update(chunk);
+      callback(null, chunk);
+    },
+  });
+
+  return {
+    transform,
+    result: () => ({ size, sha256: hash.digest('hex') }),
+  };
+}
+
 export interface CertsBundle {
   p12: Buffer;
   password: string;
@@ -1,22 +1,48 @@
 import { EventEmitter } from 'events';
-import type { Build, Worker } from '../db/Database.js';
+import { BUILD_PRIORITIES, type Build, type BuildPriority, type Worker } from '../db/Database.js';
+import { canRunBuild } from './Capabilities.js';
 
 export interface JobAssignment {
   build: Build;
   worker: Worker;
 }
 
+/**
+ * Stride-scheduling state for one priority
+ *
+ * Each dispatch advances the submitter's pass by 1/weight and the submitter
+ * with the lowest pass goes next, so workers are shared in proportion to
+ * weight. virtualTime keeps submitters returning from idle from cashing in
+ * the share they did not use.
+ */
+interface FairShareLane {
+  virtualTime: number;
+  passes: Map<string, number>; // submitter -> pass
+}
+
 /**
  * In-memory job queue for build assignment
- * Simple FIFO queue with round-robin worker assignment
+ * Strict priority order (urgent, normal, background) with weighted fair-share
+ * between submitters within a priority; FIFO per submitter. Workers are only
+ * given builds whose requirements they meet.
  *
- * Persistence: Queue state is restored from DB on startup and persisted on shutdown
+ * Persistence: Queue state is restored from DB on startup and persisted on shutdown.
+ * Assignment and fair-share state are not shared between processes, so a
+ * database serves one controller at a time (DatabaseService.lockController).
  */
 export class JobQueue extends EventEmitter {
-  private pendingBuilds: Build[] = [];
+  private pendingBuilds: Build[] = []; // Arrival order
   private activeAssignments = new Map<string, JobAssignment>(); // buildId -> assignment
+  private lanes = createLanes();
+  private failedWorkers = new Map<string, Set<string>>(); // buildId -> workers earlier attempts failed on
+  // Assignment order of pendingBuilds, replayed only after the queue changes
+  private pendingOrder?: { builds: Build[]; positions: Map<string, number> };
 
-  constructor() {
+  /**
+   * @param preferOtherWorkerMs How long after its backoff a retried build
+   * passes over the workers it failed on
+   */
+  constructor(private submitterWeights: Record<string, number> = {}, private preferOtherWorkerMs = 0) {
     super();
   }
 
@@ -24,9 +50,17 @@ export class JobQueue extends EventEmitter {
    * Restore queue state from database
    * Call on server startup to recover pending/assigned builds
    */
-  restoreFromDatabase(pendingBuilds: Build[], assignedBuilds: Build[], workers: Map<string, any>) {
-    // Restore pending builds
+  restoreFromDatabase(
+    pendingBuilds: Build[],
+    assignedBuilds: Build[],
+    workers: Map<string, any>,
+    failedWorkers = new Map<string, string[]>()
+  ) {
+    // Restore pending builds (fair-share history starts over)
     this.pendingBuilds = [...pendingBuilds];
+    this.lanes = createLanes();
+    this.pendingOrder = undefined;
+    this.failedWorkers = new Map(Array.from(failedWorkers, ([buildId, ids]) => [buildId, new Set(ids)]));
 
     // Restore active assignments
     for (const build of assignedBuilds) {
@@ -58,17 +92,37 @@ export class JobQueue extends EventEmitter {
    * Add build to queue
    */
   enqueue(build: Build) {
+    const submitter = submitterKey(build);
+    const waiting = this.pendingBuilds.some(
+      (pending) => pending.priority === build.priority && submitterKey(pending) === submitter
+    );
+
+    // A submitter with nothing queued rejoins at the lane's current virtual time
+    if (!waiting) {
+      const lane = this.lanes.get(build.priority)!;
+      lane.passes.set(submitter, Math.max(lane.passes.get(submitter) ?? 0, lane.virtualTime));
+    }
+
     this.pendingBuilds.push(build);
+    this.pendingOrder = undefined;
     this.emit('job:added', build);
   }
 
   /**
-   * Assign next pending build to worker
-   * Returns assignment or undefined if no pending builds
+   * Assign next pending build the worker can run
+   * Returns assignment or undefined if no pending builds are eligible
    */
-  assignToWorker(worker: Worker): Build | undefined {
-    const build = this.pendingBuilds.shift();
-    if (!build) return undefined;
+  assignToWorker(worker: Worker, now = Date.now()): Build | undefined {
+    const index = this.selectNext(
+      this.pendingBuilds,
+      this.lanes,
+      (build) => this.isReady(build, worker, now) && canRunBuild(build, worker)
+    );
+    if (index === -1) return undefined;
+
+    const [build] = this.pendingBuilds.splice(index, 1);
+    this.charge(build, this.lanes);
+    this.pendingOrder = undefined;
 
     this.activeAssignments.set(build.id, { build, worker });
     this.emit('job:assigned', build, worker);
@@ -81,6 +135,7 @@ export class JobQueue extends EventEmitter {
    */
   complete(buildId: string) {
     const assignment = this.activeAssignments.get(buildId);
+    this.failedWorkers.delete(buildId);
     if (assignment) {
       this.activeAssignments.delete(buildId);
       this.emit('job:completed', assignment.build, assignment.worker);
@@ -88,34 +143,73 @@ export class JobQueue extends EventEmitter {
   }
 
   /**
-   * Mark build as failed and reassign to queue
+   * Mark build as failed for good
    */
-  fail(buildId: string, requeue = true) {
+  fail(buildId: string) {
     const assignment = this.activeAssignments.get(buildId);
+    this.failedWorkers.delete(buildId);
     if (assignment) {
       this.activeAssignments.delete(buildId);
+      this.emit('job:failed', assignment.build, assignment.worker);
+    } else {
+      this.pendingBuilds = this.pendingBuilds.filter((build) => build.id !== buildId);
+      this.pendingOrder = undefined;
+    }
+  }
 
-      if (requeue) {
-        // Put back at front of queue for retry
-        this.pendingBuilds.unshift(assignment.build);
-      }
+  /**
+   * Remove a cancelled build, pending or assigned
+   */
+  cancel(buildId: string) {
+    const assignment = this.activeAssignments.get(buildId);
+    const pending = this.pendingBuilds.find((build) => build.id === buildId);
+    this.failedWorkers.delete(buildId);
+    this.activeAssignments.delete(buildId);
+    this.pendingBuilds = this.pendingBuilds.filter((build) => build.id !== buildId);
+    this.pendingOrder = undefined;
 
-      this.emit('job:failed', assignment.build, assignment.worker);
+    const build = assignment?.build ?? pending;
+    if (build) {
+      this.emit('job:cancelled', build, assignment?.worker);
     }
   }
 
+  /**
+   * Requeue a build for its next attempt, ahead of builds submitted after it
+   * `build` carries the new attempt and its retry_after; it is not assigned
+   * before then, nor to failedWorkerIds while another worker could take it
+   */
+  retry(build: Build, failedWorkerIds: string[]) {
+    const assignment = this.activeAssignments.get(build.id);
+    this.activeAssignments.delete(build.id);
+    this.failedWorkers.set(build.id, new Set(failedWorkerIds));
+
+    // Back at the front: the build already waited its turn once
+    this.pendingBuilds = [build, ...this.pendingBuilds.filter((pending) => pending.id !== build.id)];
+    this.pendingOrder = undefined;
+    this.emit('job:retrying', build, assignment?.worker);
+  }
+
   /**
    * Get next pending build without removing from queue
    */
   peek(): Build | undefined {
-    return this.pendingBuilds[0];
+    return this.pendingBuilds[this.selectNext(this.pendingBuilds, this.lanes)];
   }
 
   /**
-   * Get all pending builds
+   * Get all pending builds in the order they would be assigned if nothing
+   * else were submitted
    */
   getPending(): Build[] {
-    return [...this.pendingBuilds];
+    return [...this.getPendingOrder().builds];
+  }
+
+  /**
+   * 1-based position of a pending build in assignment order
+   */
+  getPosition(buildId: string): number | undefined {
+    return this.getPendingOrder().positions.get(buildId);
   }
 
   /**
@@ -133,22 +227,19 @@ export class JobQueue extends EventEmitter {
   }
 
   /**
-   * Get build assigned to specific worker
+   * Get builds assigned to specific worker, in assignment order
    */
-  getWorkerBuild(workerId: string): Build | undefined {
-    for (const assignment of this.activeAssignments.values()) {
-      if (assignment.worker.id === workerId) {
-        return assignment.build;
-      }
-    }
-    return undefined;
+  getWorkerBuilds(workerId: string): Build[] {
+    return Array.from(this.activeAssignments.values())
+      .filter((assignment) => assignment.worker.id === workerId)
+      .map((assignment) => assignment.build);
   }
 
   /**
-   * Check if worker has active assignment
+   * Build slots the worker has free
    */
-  isWorkerBusy(workerId: string): boolean {
-    return this.getWorkerBuild(workerId) !== undefined;
+  freeSlots(worker: Worker): number {
+    return Math.max(0, worker.max_concurrent_builds - this.getWorkerBuilds(worker.id).length);
   }
 
   /**
@@ -168,5 +259,102 @@ export class JobQueue extends EventEmitter {
   clear() {
     this.pendingBuilds = [];
     this.activeAssignments.clear();
+    this.lanes = createLanes();
+    this.failedWorkers.clear();
+    this.pendingOrder = undefined;
+  }
+
+  /**
+   * Replay assignment on copies of the lanes, so no one's share is consumed;
+   * status requests and event streams ask often, so the order is kept until
+   * the queue changes
+   */
+  private getPendingOrder(): { builds: Build[]; positions: Map<string, number> } {
+    if (this.pendingOrder) {
+      return this.pendingOrder;
+    }
+
+    const pending = [...this.pendingBuilds];
+    const lanes = new Map(
+      Array.from(this.lanes, ([priority, lane]) => [priority, { ...lane, passes: new Map(lane.passes) }])
+    );
+
+    const builds: Build[] = [];
+    while (pending.length > 0) {
+      const [build] = pending.splice(this.selectNext(pending, lanes), 1);
+      this.charge(build, lanes);
+      builds.push(build);
+    }
+
+    this.pendingOrder = { builds, positions: new Map(builds.map((build, index) => [build.id, index + 1])) };
+    return this.pendingOrder;
+  }
+
+  /**
+   * Whether a retried build is out of its backoff, and past the window in
+   * which it avoids the workers it failed on
+   */
+  private isReady(build: Build, worker: Worker, now: number): boolean {
+    if (build.retry_after === null || build.retry_after === undefined) return true;
+    if (now < build.retry_after) return false;
+
+    return !this.failedWorkers.get(build.id)?.has(worker.id) || now >= build.retry_after + this.preferOtherWorkerMs;
+  }
+
+  /**
+   * Index of the build to assign next: highest priority first, then the
+   * submitter with the lowest pass (ties go to the earlier submission).
+   * Builds failing `eligible` are passed over as if they were not queued.
+   */
+  private selectNext(
+    pending: Build[],
+    lanes: Map<BuildPriority, FairShareLane>,
+    eligible: (build: Build) => boolean = () => true
+  ): number {
+    const candidates = new Set(pending.filter(eligible));
+    const priority = BUILD_PRIORITIES.find((p) => [...candidates].some((build) => build.priority === p));
+    if (!priority) return -1;
+
+    const passes = lanes.get(priority)!.passes;
+    const seen = new Set<string>();
+    let best = -1;
+    let bestPass = Infinity;
+
+    pending.forEach((build, index) => {
+      const submitter = submitterKey(build);
+      if (build.priority !== priority || !candidates.has(build) || seen.has(submitter)) return;
+      seen.add(submitter);
+
+      const pass = passes.get(submitter) ?? 0;
+      if (pass < bestPass) {
+        best = index;
+        bestPass = pass;
+      }
+    });
+
+    return best;
+  }
+
+  /**
+   * Advance the submitter's pass for a dispatched build
+   */
+  private charge(build: Build, lanes: Map<BuildPriority, FairShareLane>) {
+    const lane = lanes.get(build.priority)!;
+    const submitter = submitterKey(build);
+    const pass = lane.passes.get(submitter) ?? 0;
+
+    lane.virtualTime = Math.max(lane.virtualTime, pass);
+    lane.passes.set(submitter, pass + 1 / (this.submitterWeights[submitter] ?? 1));
   }
 }
+
+function createLanes(): Map<BuildPriority, FairShareLane> {
+  return new Map(BUILD_PRIORITIES.map((priority) => [priority, { virtualTime: 0, passes: new Map() }]));
+}
+
+/**
+ * Builds without a submitter share one fair-share slot
+ */
+function submitterKey(build: Build): string {
+  return build.submitter ?? '';
+}
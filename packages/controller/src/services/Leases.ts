@@ -0,0 +1,49 @@
+import type { Build, DatabaseService } from '../db/Database.js';
+import type { LeasePolicy, RetryPolicy } from '../domain/Config.js';
+import type { JobQueue } from './JobQueue.js';
+import { failAttempt } from './Retries.js';
+
+/**
+ * When a lease taken or renewed at `now` expires
+ */
+export function leaseExpiry(policy: LeasePolicy, platform: Build['platform'], now = Date.now()): number {
+  return now + policy.durationMs[platform];
+}
+
+/**
+ * Reclaim every build whose lease expired: its attempt fails as an
+ * infrastructure failure (retried elsewhere while attempts remain) and its
+ * worker's slot is freed
+ *
+ * Each reclaim is a conditional update, so a heartbeat or upload that lands
+ * first keeps the build, and one landing after is rejected.
+ * @returns The reclaimed builds
+ */
+export async function reclaimExpiredLeases(
+  db: DatabaseService,
+  queue: JobQueue,
+  retry: RetryPolicy,
+  now = Date.now()
+): Promise<Build[]> {
+  const reclaimed: Build[] = [];
+
+  for (const build of await db.builds.listExpiredLeases(now)) {
+    if (!(await db.builds.reclaimLease(build.id, build.attempt, now))) {
+      continue;
+    }
+
+    const silentFor = Math.round((now - (build.last_heartbeat_at ?? build.started_at ?? now)) / 1000);
+
+    await failAttempt(db, queue, retry, build, {
+      type: 'infrastructure',
+      message: `Lease expired - no heartbeat from worker for ${silentFor}s`,
+    }, now);
+
+    if (build.worker_id) {
+      await db.workers.syncSlots(build.worker_id);
+    }
+    reclaimed.push(build);
+  }
+
+  return reclaimed;
+}
@@ -0,0 +1,79 @@
+import type { Build, DatabaseService, Worker, WorkerSession } from '../db/Database.js';
+import type { LivenessPolicy, RetryPolicy } from '../domain/Config.js';
+import type { JobQueue } from './JobQueue.js';
+import { failAttempt } from './Retries.js';
+
+export interface UptimeSummary {
+  onlineMs: number;
+  uptimePercent: number;  // Of the time since `since` (or registration, if later)
+  onlineSince: number | null;  // Start of the current session; null while offline
+}
+
+/**
+ * Mark workers that stopped checking in offline and reclaim the builds they
+ * held as infrastructure failures (retried elsewhere while attempts remain)
+ *
+ * Marking offline is conditional on the worker still being silent, and each
+ * build is taken back by revoking its lease, so a poll or upload racing in
+ * either lands first and wins or is rejected afterwards.
+ * @returns The workers marked offline with the builds reclaimed from each
+ */
+export async function markOfflineWorkers(
+  db: DatabaseService,
+  queue: JobQueue,
+  liveness: LivenessPolicy,
+  retry: RetryPolicy,
+  now = Date.now()
+): Promise<Array<{ worker: Worker; reclaimed: Build[] }>> {
+  const seenBefore = now - liveness.offlineAfterMs;
+  const offline: Array<{ worker: Worker; reclaimed: Build[] }> = [];
+
+  for (const worker of await db.workers.listStale(seenBefore)) {
+    if (!(await db.workers.markOffline(worker.id, seenBefore))) {
+      continue;
+    }
+
+    const reclaimed: Build[] = [];
+    const silentFor = Math.round((now - worker.last_seen_at) / 1000);
+
+    for (const build of (await db.builds.listAssigned()).filter((b) => b.worker_id === worker.id)) {
+      if (!(await db.builds.revokeLease(build.id, build.attempt))) {
+        continue;
+      }
+
+      await failAttempt(db, queue, retry, build, {
+        type: 'infrastructure',
+        message: `Worker went offline - not seen for ${silentFor}s`,
+      }, now);
+      reclaimed.push(build);
+    }
+
+    await db.workers.syncSlots(worker.id);
+    offline.push({ worker, reclaimed });
+  }
+
+  return offline;
+}
+
+/**
+ * Time a worker spent online since `since`, from its sessions
+ */
+export function summarizeUptime(
+  worker: Pick<Worker, 'registered_at'>,
+  sessions: WorkerSession[],
+  since: number,
+  now = Date.now()
+): UptimeSummary {
+  const from = Math.max(since, worker.registered_at);
+  const onlineMs = sessions.reduce(
+    (total, session) => total + Math.max(0, Math.min(session.offline_at ?? now, now) - Math.max(session.online_at, from)),
+    0
+  );
+  const open = sessions.find((session) => session.offline_at === null);
+
+  return {
+    onlineMs,
+    uptimePercent: now > from ? Math.round((onlineMs / (now - from)) * 1000) / 10 : 100,
+    onlineSince: open?.online_at ?? null,
+  };
+}
@@ -0,0 +1,111 @@
+import { closeSync, createReadStream, existsSync, fsyncSync, mkdirSync, openSync, renameSync, rmSync, statSync, writeSync } from 'fs';
+import { copyFile } from 'fs/promises';
+import { dirname, join, relative, resolve, sep } from 'path';
+import type { Readable } from 'stream';
+import type { ByteRange, FileStats } from './FileStorage.js';
+import { validateKey, type StorageDriver } from './StorageDriver.js';
+
+/**
+ * Stores artifacts in a directory tree on local disk
+ * Locations are absolute paths, matching records written before drivers existed
+ */
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local';
+  private root: string;
+
+  constructor(root: string) {
+    this.root = resolve(root);
+  }
+
+  locate(key: string): string {
+    return join(this.root, validateKey(key));
+  }
+
+  /**
+   * SECURITY: Validates path is inside storage directory to prevent path traversal
+   */
+  resolveKey(location: string): string {
+    const normalized = resolve(location);
+
+    if (!normalized.startsWith(this.root + sep)) {
+      throw new Error('Path traversal attempt blocked: file must be inside storage directory');
+    }
+
+    return relative(this.root, normalized).split(sep).join('/');
+  }
+
+  async putFile(key: string, localPath: string): Promise<void> {
+    const filePath = this.locate(key);
+    mkdirSync(dirname(filePath), { recursive: true });
+    renameSync(localPath, filePath);
+  }
+
+  createReadStream(key: string, range?: ByteRange): Readable {
+    const filePath = this.locate(key);
+
+    if (!existsSync(filePath)) {
+      throw new Error('File not found');
+    }
+
+    return createReadStream(filePath, range ? { start: range.start, end: range.end } : undefined);
+  }
+
+  async stat(key: string): Promise<FileStats | null> {
+    const filePath = this.locate(key);
+
+    if (!existsSync(filePath)) {
+      return null;
+    }
+
+    const stats = statSync(filePath);
+    return { size: stats.size, mtimeMs: stats.mtimeMs };
+  }
+
+  async delete(key: string, options?: { secure?: boolean }): Promise<void> {
+    const filePath = this.locate(key);
+
+    if (options?.secure) {
+      shredFile(filePath);
+    } else {
+      rmSync(filePath, { force: true });
+    }
+  }
+
+  async copy(fromKey: string, toKey: string): Promise<void> {
+    const toPath = this.locate(toKey);
+    mkdirSync(dirname(toPath), { recursive: true });
+    await copyFile(this.locate(fromKey), toPath);
+  }
+
+  describe() {
+    return {
+      driver: this.name,
+      path: this.root,
+      exists: existsSync(this.root),
+    };
+  }
+}
+
+/**
+ * Overwrite a file with zeros before unlinking it; missing files are ignored
+ * Best effort: copy-on-write and journaling filesystems may keep old blocks.
+ */
+export function shredFile(filePath: string) {
+  if (!existsSync(filePath)) {
+    return;
+  }
+
+  const { size } = statSync(filePath);
+  const zeros = Buffer.alloc(Math.min(size, 64 * 1024));
+  const fd = openSync(filePath, 'r+');
+  try {
+    for (let offset = 0; offset < size; offset += zeros.length) {
+      writeSync(fd, zeros, 0, Math.min(zeros.length, size - offset), offset);
+    }
+    fsyncSync(fd);
+  } finally {
+    closeSync(fd);
+  }
+
+  rmSync(filePath, { force: true });
+}
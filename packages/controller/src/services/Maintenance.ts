@@ -0,0 +1,115 @@
+import type { Build, DatabaseService, Worker } from '../db/Database.js';
+import { canRunBuild, explainNoEligibleWorker } from './Capabilities.js';
+
+// controller_settings key holding the queue pause
+const QUEUE_PAUSE_KEY = 'queue_pause';
+
+// controller_settings key recording past queue pauses (see Timeouts)
+const QUEUE_PAUSE_HISTORY_KEY = 'queue_pause_history';
+
+export interface QueuePause {
+  pausedAt: number;
+  reason: string | null;
+}
+
+/**
+ * A queue pause that has ended
+ */
+export interface PastQueuePause {
+  pausedAt: number;
+  resumedAt: number;
+}
+
+/**
+ * Whether a worker (while online) is handed new builds, and if not, why
+ *
+ * A draining worker is drained once its last build has finished.
+ */
+export type WorkerAvailability = 'available' | 'draining' | 'drained' | 'paused';
+
+/**
+ * The queue pause, or null while the queue is running
+ */
+export async function getQueuePause(db: DatabaseService): Promise<QueuePause | null> {
+  const setting = await db.settings.get(QUEUE_PAUSE_KEY);
+  if (!setting) {
+    return null;
+  }
+
+  const { reason } = JSON.parse(setting.value) as { reason: string | null };
+  return { pausedAt: setting.updated_at, reason };
+}
+
+/**
+ * Stop assigning builds to every worker (builds still queue, and running
+ * builds finish); pausing again keeps the original time and replaces the reason
+ */
+export async function pauseQueue(db: DatabaseService, reason: string | null, now = Date.now()): Promise<QueuePause> {
+  const pausedAt = (await getQueuePause(db))?.pausedAt ?? now;
+  await db.settings.set(QUEUE_PAUSE_KEY, JSON.stringify({ reason }), pausedAt);
+  return { pausedAt, reason };
+}
+
+/**
+ * Resume assignment, recording the pause so pending builds' queue waits can
+ * leave it out (see Timeouts)
+ *
+ * Pauses that ended before every unfinished build started waiting no longer
+ * matter and are dropped.
+ * @returns false if the queue was not paused
+ */
+export async function resumeQueue(db: DatabaseService, now = Date.now()): Promise<boolean> {
+  const pause = await getQueuePause(db);
+  if (!pause || !(await db.settings.delete(QUEUE_PAUSE_KEY))) {
+    return false;
+  }
+
+  const unfinished = [...(await db.builds.listPending()), ...(await db.builds.listAssigned())];
+  const waitingSince = Math.min(now, ...unfinished.map((build) => build.retry_after ?? build.submitted_at));
+  const pauses = [...(await getPastQueuePauses(db)), { pausedAt: pause.pausedAt, resumedAt: now }]
+    .filter((past) => past.resumedAt > waitingSince);
+  await db.settings.set(QUEUE_PAUSE_HISTORY_KEY, JSON.stringify({ pauses }), now);
+  return true;
+}
+
+/**
+ * Queue pauses that have ended, oldest first
+ */
+export async function getPastQueuePauses(db: DatabaseService): Promise<PastQueuePause[]> {
+  const setting = await db.settings.get(QUEUE_PAUSE_HISTORY_KEY);
+  return setting ? (JSON.parse(setting.value) as { pauses: PastQueuePause[] }).pauses : [];
+}
+
+export function workerAvailability(
+  worker: Pick<Worker, 'drain_requested_at' | 'paused_at' | 'active_builds'>
+): WorkerAvailability {
+  if (worker.drain_requested_at !== null) {
+    return worker.active_builds > 0 ? 'draining' : 'drained';
+  }
+  return worker.paused_at !== null ? 'paused' : 'available';
+}
+
+/**
+ * Why a pending build is not being assigned, if not just waiting its turn:
+ * the queue is paused, every worker able to run it is draining or paused, or
+ * no online worker can run it at all
+ */
+export function explainWaiting(build: Build, workers: Worker[], queuePause: QueuePause | null): string | null {
+  if (queuePause) {
+    return queuePause.reason
+      ? `The queue is paused for maintenance: ${queuePause.reason}`
+      : 'The queue is paused for maintenance';
+  }
+
+  const online = workers.filter((worker) => worker.status !== 'offline');
+  const available = online.filter((worker) => workerAvailability(worker) === 'available');
+  if (explainNoEligibleWorker(build, available) === null) {
+    return null;
+  }
+
+  const held = online.filter((worker) => canRunBuild(build, worker));
+  if (held.length > 0) {
+    return `Every worker that can run this build is draining or paused: ${held.map((worker) => worker.name).join(', ')}`;
+  }
+  return explainNoEligibleWorker(build, online);
+}
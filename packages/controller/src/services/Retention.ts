@@ -0,0 +1,225 @@
+import type { Build, BuildArtifact, DatabaseService } from '../db/Database.js';
+import type { RetentionPolicy } from '../domain/Config.js';
+import type { FileStorage } from './FileStorage.js';
+import { releaseArtifact } from './Blobs.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type RetentionReason = 'certs_completed' | 'source_expired' | 'result_expired' | 'quota';
+
+export interface RetentionAction {
+  build_id: string;
+  artifact: BuildArtifact;
+  path: string;
+  size: number;
+  reason: RetentionReason;
+}
+
+export interface RetentionReport {
+  dry_run: boolean;
+  run_at: number;
+  stored_bytes: number;
+  quota_bytes: number | null;
+  reclaimed_bytes: number;
+  actions: RetentionAction[];
+  logs_deleted: number;
+  failures: Array<{ build_id: string; artifact: BuildArtifact; error: string }>;
+}
+
+interface StoredArtifact {
+  artifact: BuildArtifact;
+  path: string;
+  size: number;
+}
+
+/**
+ * Decide which artifacts a sweep at `now` would delete
+ *
+ * Only finished, unpinned builds are touched. Age rules apply first; if the
+ * remaining artifacts still exceed the quota, whole builds are evicted in
+ * least-recently-used order (last download, else completion time).
+ * Blobs shared by several builds count once, and only free space when the
+ * last build referencing them is swept. Artifacts stored before sizes were
+ * recorded count as 0 bytes.
+ */
+export function planRetention(
+  builds: Build[],
+  policy: RetentionPolicy,
+  now = Date.now()
+): { actions: RetentionAction[]; storedBytes: number; freedBytes: number } {
+  const actions: RetentionAction[] = [];
+  const planned = new Set<string>();
+  const references = new Map<string, { size: number; count: number }>();
+
+  for (const build of builds) {
+    for (const stored of storedArtifacts(build)) {
+      const ref = references.get(stored.path) ?? { size: stored.size, count: 0 };
+      ref.count++;
+      references.set(stored.path, ref);
+    }
+  }
+
+  const storedBytes = [...references.values()].reduce((sum, ref) => sum + ref.size, 0);
+  let freedBytes = 0;
+
+  const plan = (build: Build, stored: StoredArtifact, reason: RetentionReason) => {
+    actions.push({ build_id: build.id, ...stored, reason });
+    planned.add(`${build.id}:${stored.artifact}`);
+
+    const ref = references.get(stored.path)!;
+    if (--ref.count === 0) {
+      freedBytes += ref.size;
+    }
+  };
+
+  for (const build of builds) {
+    if (!isSweepable(build)) {
+      continue;
+    }
+
+    const age = now - (build.completed_at ?? build.submitted_at);
+    for (const stored of storedArtifacts(build)) {
+      const reason = expiryReason(stored.artifact, age, policy);
+      if (reason) {
+        plan(build, stored, reason);
+      }
+    }
+  }
+
+  if (policy.storageQuotaBytes !== null) {
+    const leastRecentlyUsed = builds
+      .filter(isSweepable)
+      .sort((a, b) => lastUsedAt(a) - lastUsedAt(b));
+
+    for (const build of leastRecentlyUsed) {
+      if (storedBytes - freedBytes <= policy.storageQuotaBytes) {
+        break;
+      }
+      for (const stored of storedArtifacts(build)) {
+        if (!planned.has(`${build.id}:${stored.artifact}`)) {
+          plan(build, stored, 'quota');
+        }
+      }
+    }
+  }
+
+  return { actions, storedBytes, freedBytes };
+}
+
+/**
+ * Apply the retention policy, or with dryRun only report what would be deleted
+ */
+export async function runRetention(
+  db: DatabaseService,
+  storage: FileStorage,
+  policy: RetentionPolicy,
+  { dryRun = false, now = Date.now() }: { dryRun?: boolean; now?: number } = {}
+): Promise<RetentionReport> {
+  const { actions, storedBytes, freedBytes } = planRetention(await db.builds.listWithStoredArtifacts(), policy, now);
+  const logCutoff = policy.logRetentionDays === null ? null : now - policy.logRetentionDays * DAY_MS;
+
+  const report: RetentionReport = {
+    dry_run: dryRun,
+    run_at: now,
+    stored_bytes: storedBytes,
+    quota_bytes: policy.storageQuotaBytes,
+    reclaimed_bytes: 0,
+    actions,
+    logs_deleted: 0,
+    failures: [],
+  };
+
+  if (dryRun) {
+    report.reclaimed_bytes = freedBytes;
+    report.logs_deleted = logCutoff === null ? 0 : await db.logs.countExpired(logCutoff);
+    return report;
+  }
+
+  for (const action of actions) {
+    try {
+      const deleted = await releaseArtifact(db, storage, action.path, { secure: action.artifact === 'certs' });
+      await db.builds.markArtifactDeleted(action.build_id, action.artifact, now);
+      if (deleted) {
+        report.reclaimed_bytes += action.size;
+      }
+    } catch (err) {
+      report.failures.push({
+        build_id: action.build_id,
+        artifact: action.artifact,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  if (logCutoff !== null) {
+    report.logs_deleted = await db.logs.purgeExpired(logCutoff);
+  }
+
+  return report;
+}
+
+/**
+ * Securely delete a finished build's certs right away (deleteCertsOnCompletion)
+ * Certs shared with a build still running are kept until it finishes too.
+ * @returns true if the build's certs were released
+ */
+export async function deleteFinishedBuildCerts(
+  db: DatabaseService,
+  storage: FileStorage,
+  buildId: string,
+  now = Date.now()
+): Promise<boolean> {
+  const build = await db.builds.get(buildId);
+
+  if (!build || !build.certs_path || build.certs_deleted_at !== null || !isSweepable(build)) {
+    return false;
+  }
+
+  await releaseArtifact(db, storage, build.certs_path, { secure: true });
+  await db.builds.markArtifactDeleted(build.id, 'certs', now);
+  return true;
+}
+
+function isSweepable(build: Build): boolean {
+  return (build.status === 'completed' || build.status === 'failed' || build.status === 'cancelled') && !build.pinned;
+}
+
+function lastUsedAt(build: Build): number {
+  return build.last_accessed_at ?? build.completed_at ?? build.submitted_at;
+}
+
+function storedArtifacts(build: Build): StoredArtifact[] {
+  const artifacts: StoredArtifact[] = [];
+
+  if (build.source_deleted_at === null) {
+    artifacts.push({ artifact: 'source', path: build.source_path, size: build.source_size ?? 0 });
+  }
+  if (build.certs_path && build.certs_deleted_at === null) {
+    artifacts.push({ artifact: 'certs', path: build.certs_path, size: build.certs_size ?? 0 });
+  }
+  if (build.result_path && build.result_deleted_at === null) {
+    artifacts.push({ artifact: 'result', path: build.result_path, size: build.result_size ?? 0 });
+  }
+
+  return artifacts;
+}
+
+/**
+ * Certs share the source's lifetime (they are only useful for rebuilding it)
+ * unless deleteCertsOnCompletion removes them first
+ */
+function expiryReason(artifact: BuildArtifact, age: number, policy: RetentionPolicy): RetentionReason | null {
+  if (artifact === 'certs' && policy.deleteCertsOnCompletion) {
+    return 'certs_completed';
+  }
+
+  if (artifact === 'result') {
+    return isOlderThan(age, policy.resultRetentionDays) ? 'result_expired' : null;
+  }
+
+  return isOlderThan(age, policy.sourceRetentionDays) ? 'source_expired' : null;
+}
+
+function isOlderThan(age: number, days: number | null): boolean {
+  return days !== null && age >= days * DAY_MS;
+}
@@ -0,0 +1,91 @@
+import type { Build, DatabaseService, FailureType } from '../db/Database.js';
+import type { RetryPolicy } from '../domain/Config.js';
+import type { JobQueue } from './JobQueue.js';
+
+export interface AttemptFailure {
+  type: FailureType;
+  message: string;
+}
+
+/**
+ * Backoff before attempt + 1: backoffMs, doubling per attempt, capped at maxBackoffMs
+ */
+export function retryDelay(policy: RetryPolicy, attempt: number): number {
+  return Math.min(policy.backoffMs * 2 ** (attempt - 1), policy.maxBackoffMs);
+}
+
+/**
+ * End a running build's current attempt as failed, then either requeue it as
+ * the next attempt or fail the build
+ *
+ * Only infrastructure failures are retried, up to policy.maxAttempts. The
+ * retry waits out the backoff and passes over the workers earlier attempts
+ * failed on while others are available. The caller is responsible for the
+ * worker (its status and build counts).
+ * @returns true if the build was requeued
+ */
+export async function failAttempt(
+  db: DatabaseService,
+  queue: JobQueue,
+  policy: RetryPolicy,
+  build: Build,
+  failure: AttemptFailure,
+  timestamp = Date.now()
+): Promise<boolean> {
+  await db.attempts.finish(build.id, build.attempt, {
+    finished_at: timestamp,
+    outcome: 'failed',
+    failure_type: failure.type,
+    error_message: failure.message,
+  });
+
+  if (failure.type === 'infrastructure' && build.attempt < policy.maxAttempts) {
+    const next = build.attempt + 1;
+    const delay = retryDelay(policy, build.attempt);
+
+    await db.logs.add({
+      build_id: build.id,
+      timestamp,
+      level: 'warn',
+      message: `Attempt ${build.attempt} failed: ${failure.message}`,
+    });
+
+    // Lost to a concurrent cancel or completion: nothing left to retry
+    if (!(await db.builds.scheduleRetry(build.id, next, timestamp + delay))) {
+      return false;
+    }
+
+    queue.retry((await db.builds.get(build.id))!, await failedWorkers(db, build.id));
+    await db.logs.add({
+      build_id: build.id,
+      timestamp,
+      level: 'info',
+      message: `Retrying in ${Math.round(delay / 1000)}s (attempt ${next} of ${policy.maxAttempts})`,
+    });
+    return true;
+  }
+
+  const message = build.attempt > 1 ? `${failure.message} (attempt ${build.attempt} of ${policy.maxAttempts})` : failure.message;
+  await db.builds.updateStatus(build.id, 'failed', {
+    error_message: message,
+    completed_at: timestamp,
+  });
+  queue.fail(build.id);
+
+  await db.logs.add({
+    build_id: build.id,
+    timestamp,
+    level: 'error',
+    message,
+  });
+  return false;
+}
+
+/**
+ * Workers earlier attempts of a build failed on
+ */
+export async function failedWorkers(db: DatabaseService, buildId: string): Promise<string[]> {
+  return (await db.attempts.list(buildId))
+    .filter((attempt) => attempt.outcome === 'failed' && attempt.worker_id)
+    .map((attempt) => attempt.worker_id!);
+}
@@ -0,0 +1,101 @@
+import { S3Client } from 'bun';
+import { rmSync } from 'fs';
+import { Readable } from 'stream';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import type { ByteRange, FileStats } from './FileStorage.js';
+import type { S3StorageConfig } from '../domain/Config.js';
+import { validateKey, type StorageDriver } from './StorageDriver.js';
+
+/**
+ * Stores artifacts in an S3-compatible bucket (AWS S3, MinIO, R2, ...)
+ * Locations are `s3://<bucket>/<prefix><key>` URLs
+ */
+export class S3StorageDriver implements StorageDriver {
+  readonly name = 's3';
+  private client: S3Client;
+  private bucket: string;
+  private prefix: string;
+  private endpoint?: string;
+
+  constructor(config: S3StorageConfig) {
+    this.bucket = config.bucket;
+    this.prefix = config.prefix ?? '';
+    this.endpoint = config.endpoint;
+    this.client = new S3Client({
+      bucket: config.bucket,
+      region: config.region,
+      endpoint: config.endpoint,
+      accessKeyId: config.accessKeyId,
+      secretAccessKey: config.secretAccessKey,
+    });
+  }
+
+  locate(key: string): string {
+    return `s3://${this.bucket}/${this.objectKey(key)}`;
+  }
+
+  resolveKey(location: string): string {
+    const base = `s3://${this.bucket}/${this.prefix}`;
+
+    if (!location.startsWith(base)) {
+      throw new Error(`Location ${location} is not in bucket ${this.bucket}`);
+    }
+
+    return validateKey(location.slice(base.length));
+  }
+
+  async putFile(key: string, localPath: string): Promise<void> {
+    await this.client.write(this.objectKey(key), Bun.file(localPath));
+    rmSync(localPath, { force: true });
+  }
+
+  createReadStream(key: string, range?: ByteRange): Readable {
+    let file = this.client.file(this.objectKey(key));
+    if (range) {
+      file = file.slice(range.start, range.end + 1);
+    }
+
+    // Missing objects surface as a stream error once the GET completes
+    return Readable.fromWeb(file.stream() as NodeReadableStream<Uint8Array>);
+  }
+
+  async stat(key: string): Promise<FileStats | null> {
+    try {
+      const stats = await this.client.file(this.objectKey(key)).stat();
+      return { size: stats.size, mtimeMs: stats.lastModified.getTime() };
+    } catch (err) {
+      if (isNotFound(err)) {
+        return null;
+      }
+      throw err;
+    }
+  }
+
+  async delete(key: string, _options?: { secure?: boolean }): Promise<void> {
+    // S3 DELETE succeeds for missing keys. Objects cannot be overwritten in
+    // place, so secure deletes rely on certs being encrypted at rest.
+    await this.client.file(this.objectKey(key)).delete();
+  }
+
+  async copy(fromKey: string, toKey: string): Promise<void> {
+    await this.client.write(this.objectKey(toKey), this.client.file(this.objectKey(fromKey)));
+  }
+
+  describe() {
+    return {
+      driver: this.name,
+      bucket: this.bucket,
+      prefix: this.prefix,
+      ...(this.endpoint && { endpoint: this.endpoint }),
+    };
+  }
+
+  private objectKey(key: string): string {
+    return `${this.prefix}${validateKey(key)}`;
+  }
+}
+
+function isNotFound(err: unknown): boolean {
+  const code = (err as { code?: string } | null)?.code;
+  return code === 'NoSuchKey' || code === 'NotFound';
+}
@@ -0,0 +1,205 @@
+import { execFile } from 'child_process';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join, sep } from 'path';
+import { Readable } from 'stream';
+import { promisify } from 'util';
+import AdmZip from 'adm-zip';
+import type { DatabaseService, Schedule, ScheduleRun } from '../db/Database.js';
+import type { JobQueue } from './JobQueue.js';
+import type { FileStorage, StoredFile } from './FileStorage.js';
+import { acquireBlob, releaseArtifact, storeBlob } from './Blobs.js';
+import { parseRequirements } from './Capabilities.js';
+import { nextCronRun, parseCron } from './Cron.js';
+import { parsePlatforms, submitBuilds, type SubmittedBuilds } from './Submissions.js';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * How late a run may start and still count as on time; later runs were
+ * missed (the controller was down) and only run if the schedule catches up
+ */
+export const MISSED_RUN_GRACE_MS = 5 * 60 * 1000;
+
+const GIT_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Bounds the walk over runs missed during a long downtime
+const MAX_MISSED_RUNS = 100_000;
+
+// Branch or tag names; a leading '-' would be read as an option
+export const GIT_REF_PATTERN = /^[\w.][\w./-]*$/;
+
+/**
+ * Run every schedule that is due at `now`
+ *
+ * A schedule is moved on to its next run before it is triggered, so a run
+ * is submitted at most once even if sweeps overlap. Runs that fell due while
+ * the controller was down are recorded as missed; schedules with catch_up
+ * then run once for them, others only run if the latest is still on time.
+ * @returns The runs recorded
+ */
+export async function runDueSchedules(
+  db: DatabaseService,
+  queue: JobQueue,
+  storage: FileStorage,
+  now = Date.now()
+): Promise<Omit<ScheduleRun, 'id'>[]> {
+  const recorded: Omit<ScheduleRun, 'id'>[] = [];
+  const record = async (run: Omit<ScheduleRun, 'id' | 'recorded_at'>) => {
+    const entry = { ...run, recorded_at: now };
+    await db.schedules.recordRun(entry);
+    recorded.push(entry);
+  };
+
+  for (const schedule of await db.schedules.listDue(now)) {
+    const cron = parseCron(schedule.cron);
+
+    // Every run due by now, of which only the latest may still run
+    let latest = schedule.next_run_at;
+    let due = 1;
+    let next = nextCronRun(cron, latest);
+    while (next !== null && next <= now && due < MAX_MISSED_RUNS) {
+      latest = next;
+      due++;
+      next = nextCronRun(cron, latest);
+    }
+
+    const onTime = now - latest <= MISSED_RUN_GRACE_MS;
+    const runNow = onTime || schedule.catch_up === 1;
+
+    // Schedules that can no longer match are parked far in the future
+    const nextRunAt = nextCronRun(cron, now) ?? Number.MAX_SAFE_INTEGER;
+    if (!(await db.schedules.advance(schedule.id, schedule.next_run_at, nextRunAt, runNow ? now : null))) {
+      continue;
+    }
+
+    const missed = runNow ? due - 1 : due;
+    if (missed > 0) {
+      await record({
+        schedule_id: schedule.id,
+        scheduled_for: schedule.next_run_at,
+        outcome: 'missed',
+        build_id: null,
+        error_message: `Missed ${missed} run${missed === 1 ? '' : 's'} while the controller was down` +
+          (runNow ? '; ran once to catch up' : ''),
+      });
+    }
+
+    if (!runNow) {
+      continue;
+    }
+
+    try {
+      const buildId = await triggerSchedule(db, queue, storage, schedule, now);
+      await record({ schedule_id: schedule.id, scheduled_for: latest, outcome: 'triggered', build_id: buildId, error_message: null });
+    } catch (err) {
+      await record({
+        schedule_id: schedule.id,
+        scheduled_for: latest,
+        outcome: 'failed',
+        build_id: null,
+        error_message: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  return recorded;
+}
+
+/**
+ * Submit a schedule's builds now
+ * @returns The build ID, or the group ID for several platforms
+ */
+export async function triggerSchedule(
+  db: DatabaseService,
+  queue: JobQueue,
+  storage: FileStorage,
+  schedule: Schedule,
+  timestamp = Date.now()
+): Promise<string> {
+  let source: StoredFile;
+  if (schedule.source_sha256) {
+    const blob = await acquireBlob(db, storage, schedule.source_sha256);
+    if (!blob) {
+      throw new Error(`Stored source ${schedule.source_sha256} is no longer available`);
+    }
+    source = { path: blob.location, size: blob.size, sha256: blob.sha256 };
+  } else {
+    source = await storeBlob(db, storage, await fetchGitSource(storage, schedule.git_url!, schedule.git_ref!));
+  }
+
+  let certs: StoredFile | null = null;
+  if (schedule.certs_sha256) {
+    const blob = await acquireBlob(db, storage, schedule.certs_sha256);
+    if (!blob) {
+      await releaseArtifact(db, storage, source.path);
+      throw new Error(`Stored certs ${schedule.certs_sha256} are no longer available`);
+    }
+    certs = { path: blob.location, size: blob.size, sha256: blob.sha256 };
+  }
+
+  let submitted: SubmittedBuilds;
+  try {
+    submitted = await submitBuilds(db, queue, {
+      source,
+      certs,
+      platforms: parsePlatforms(schedule.platforms)!,
+      priority: schedule.priority,
+      submitter: schedule.submitter,
+      requirements: parseRequirements(schedule),
+      origin: `schedule ${schedule.name}`,
+    }, timestamp);
+  } catch (err) {
+    // No build took over the references acquired for this run
+    await releaseArtifact(db, storage, source.path);
+    if (certs) {
+      await releaseArtifact(db, storage, certs.path, { secure: true });
+    }
+    throw err;
+  }
+
+  return submitted.groupId ?? submitted.builds[0].build.id;
+}
+
+/**
+ * Delete a schedule, dropping its references to the stored source and certs
+ */
+export async function deleteSchedule(db: DatabaseService, storage: FileStorage, schedule: Schedule): Promise<void> {
+  await db.schedules.delete(schedule.id);
+
+  for (const [sha256, secure] of [[schedule.source_sha256, false], [schedule.certs_sha256, true]] as const) {
+    const blob = sha256 && (await db.blobs.get(sha256));
+    if (blob) {
+      await releaseArtifact(db, storage, blob.location, { secure });
+    }
+  }
+}
+
+/**
+ * Shallow-clone a branch or tag and stage it zipped as a build source
+ * (without .git, like the CLI's zips)
+ */
+export async function fetchGitSource(storage: FileStorage, url: string, ref: string): Promise<StoredFile> {
+  if (!GIT_REF_PATTERN.test(ref)) {
+    throw new Error(`Invalid git ref "${ref}"`);
+  }
+
+  const dir = await mkdtemp(join(tmpdir(), 'schedule-git-'));
+  try {
+    try {
+      await execFileAsync('git', ['clone', '--quiet', '--depth', '1', '--branch', ref, '--', url, dir], {
+        timeout: GIT_TIMEOUT_MS,
+        env: { ...process.env, GIT_TERMINAL_PROMPT: '0' },
+      });
+    } catch (err) {
+      const { stderr, message } = err as { stderr?: string; message: string };
+      throw new Error(`git clone of ${ref} failed: ${(stderr || message).trim()}`);
+    }
+
+    const zip = new AdmZip();
+    zip.addLocalFolder(dir, '', (path: string) => !path.split(sep).includes('.git'));
+    return await storage.stageUpload(Readable.from([zip.toBuffer()]));
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,72 @@
+import type { Readable } from 'stream';
+import type { ByteRange, FileStats } from './FileStorage.js';
+
+/**
+ * Backend that holds committed build artifacts
+ *
+ * Artifacts are addressed by keys such as `builds/<id>.zip`. Build records
+ * store a driver-specific location string for each artifact (an absolute
+ * path for local disk, an s3:// URL for S3), produced by locate() and turned
+ * back into a key by resolveKey().
+ *
+ * Uploads are always staged on local disk first (FileStorage tmp/), so
+ * drivers only ever receive complete, validated files.
+ */
+export interface StorageDriver {
+  readonly name: string;
+
+  /**
+   * Location string recorded on build records for a key
+   */
+  locate(key: string): string;
+
+  /**
+   * Inverse of locate()
+   * @throws if the location does not belong to this store
+   */
+  resolveKey(location: string): string;
+
+  /**
+   * Store a local file under key, taking ownership of the local file
+   */
+  putFile(key: string, localPath: string): Promise<void>;
+
+  /**
+   * Stream an object, optionally limited to an inclusive byte range
+   */
+  createReadStream(key: string, range?: ByteRange): Readable;
+
+  /**
+   * Size and modification time, or null if the object does not exist
+   */
+  stat(key: string): Promise<FileStats | null>;
+
+  /**
+   * Delete an object; deleting a missing object is not an error
+   * With secure, drivers that can overwrite the bytes before removing them do so
+   */
+  delete(key: string, options?: { secure?: boolean }): Promise<void>;
+
+  copy(fromKey: string, toKey: string): Promise<void>;
+
+  /**
+   * Driver details for the health endpoint (no credentials)
+   */
+  describe(): Record<string, unknown>;
+}
+
+/**
+ * Reject keys that could escape the store (absolute, `..` segments, backslashes)
+ */
+export function validateKey(key: string): string {
+  const segments = key.split('/');
+  if (
+    key === '' ||
+    key.startsWith('/') ||
+    key.includes('\\') ||
+    segments.some((segment) => segment === '' || segment === '.' || segment === '..')
+  ) {
+    throw new Error('Path traversal attempt blocked: invalid storage key');
+  }
+  return key;
+}
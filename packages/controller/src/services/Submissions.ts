@@ -0,0 +1,156 @@
+import { nanoid } from 'nanoid';
+import crypto from 'crypto';
+import type { Build, BuildPriority, DatabaseService } from '../db/Database.js';
+import type { JobQueue } from './JobQueue.js';
+import type { StoredFile } from './FileStorage.js';
+import { shareArtifact } from './Blobs.js';
+import { acquireCachedResult, buildCacheKey } from './BuildCache.js';
+import type { BuildRequirements } from './Capabilities.js';
+import { explainWaiting, getQueuePause } from './Maintenance.js';
+import type { BuildTimeouts } from './Timeouts.js';
+
+export type BuildPlatform = Build['platform'];
+
+export interface Submission {
+  source: StoredFile; // A blob this submission holds a reference to
+  certs: StoredFile | null;
+  platforms: BuildPlatform[];
+  priority: BuildPriority;
+  submitter: string | null;
+  requirements: BuildRequirements;
+  timeouts?: BuildTimeouts; // Tighter limits than the controller's for these builds
+  origin?: string; // Logged with "Build submitted", e.g. the schedule
+  useCache?: boolean; // Complete at once from a matching build's result
+}
+
+export interface SubmittedBuilds {
+  groupId: string | null; // Set for several platforms
+  accessToken: string;
+  submittedAt: number;
+  builds: Array<{ build: Build; waitingReason: string | null }>; // Cache hits are already completed
+}
+
+/**
+ * Read a platform field: one platform, or several comma-separated
+ * @returns The distinct platforms in platform order, or null if any is unknown
+ */
+export function parsePlatforms(value: string): BuildPlatform[] | null {
+  const platforms = [...new Set(value.split(',').map((platform) => platform.trim()))].sort();
+  return platforms.every((platform) => platform === 'ios' || platform === 'android')
+    ? (platforms as BuildPlatform[])
+    : null;
+}
+
+/**
+ * Create and enqueue a build per platform from stored source and certs
+ *
+ * Several platforms make a build group, whose builds share one access token.
+ * The submission's blob references go to the first build; each further build
+ * takes its own, so retention can delete them build by build.
+ *
+ * With useCache, a platform whose inputs match a completed build with its
+ * result still stored is not queued: its build completes at once with a
+ * reference to that result.
+ */
+export async function submitBuilds(
+  db: DatabaseService,
+  queue: JobQueue,
+  submission: Submission,
+  timestamp = Date.now()
+): Promise<SubmittedBuilds> {
+  const { source, certs, platforms, requirements } = submission;
+
+  // Generate unique access token for this build (or group, whose builds
+  // share it)
+  const accessToken = crypto.randomBytes(32).toString('base64url');
+
+  const groupId = platforms.length > 1 ? nanoid() : null;
+  if (groupId) {
+    await db.groups.create({ id: groupId, access_token: accessToken, submitted_at: timestamp, submitter: submission.submitter });
+  }
+
+  const workers = await db.workers.list();
+  const queuePause = await getQueuePause(db);
+  const builds: SubmittedBuilds['builds'] = [];
+
+  for (const [index, platform] of platforms.entries()) {
+    const buildId = nanoid();
+    const sourcePath = index === 0 ? source.path : (await shareArtifact(db, source))!;
+    const certsPath = certs && (index === 0 ? certs.path : (await shareArtifact(db, certs))!);
+
+    // Xcode means nothing to an Android build of the group
+    const { min_xcode_version: _xcode, ...androidRequirements } = requirements;
+    const buildRequirements = platform === 'android' ? androidRequirements : requirements;
+    const requirementsJson = Object.keys(buildRequirements).length > 0 ? JSON.stringify(buildRequirements) : null;
+
+    const cacheKey = buildCacheKey({
+      platform,
+      source_sha256: source.sha256,
+      certs_sha256: certs?.sha256 ?? null,
+      requirements: requirementsJson,
+    });
+    const cached = submission.useCache && cacheKey ? await acquireCachedResult(db, cacheKey) : undefined;
+
+    await db.builds.create({
+      id: buildId,
+      status: cached ? 'completed' : 'pending',
+      platform,
+      source_path: sourcePath,
+      certs_path: certsPath ?? null,
+      submitted_at: timestamp,
+      access_token: accessToken,
+      source_sha256: source.sha256,
+      certs_sha256: certs?.sha256 ?? null,
+      source_size: source.size,
+      certs_size: certs?.size ?? null,
+      priority: submission.priority,
+      submitter: submission.submitter,
+      requirements: requirementsJson,
+      group_id: groupId,
+      cache_key: cacheKey,
+      cached_from: cached?.build.id ?? null,
+      ...submission.timeouts,
+    });
+
+    const details = [
+      ...(groupId ? [`${platform} build of group ${groupId}`] : []),
+      ...(submission.origin ? [submission.origin] : []),
+    ];
+    await db.logs.add({
+      build_id: buildId,
+      timestamp,
+      level: 'info',
+      message: details.length > 0 ? `Build submitted (${details.join(', ')})` : 'Build submitted',
+    });
+
+    if (cached) {
+      await db.builds.updateStatus(buildId, 'completed', {
+        started_at: timestamp,
+        completed_at: timestamp,
+        result_path: cached.resultPath,
+        result_sha256: cached.build.result_sha256!,
+        result_size: cached.build.result_size ?? undefined,
+      });
+      await db.logs.add({
+        build_id: buildId,
+        timestamp,
+        level: 'info',
+        message: `Build completed from cache (result of build ${cached.build.id})`,
+      });
+      builds.push({ build: (await db.builds.get(buildId))!, waitingReason: null });
+      continue;
+    }
+
+    const build = (await db.builds.get(buildId))!;
+    queue.enqueue(build);
+
+    const waitingReason = explainWaiting(build, workers, queuePause);
+    if (waitingReason) {
+      await db.logs.add({ build_id: buildId, timestamp, level: 'warn', message: waitingReason });
+    }
+
+    builds.push({ build, waitingReason });
+  }
+
+  return { groupId, accessToken, submittedAt: timestamp, builds };
+}
@@ -0,0 +1,220 @@
+import { open } from 'fs/promises';
+import { once } from 'events';
+import crypto from 'crypto';
+import type { Writable } from 'stream';
+
+const BLOCK_SIZE = 512;
+const NAME_LENGTH = 100;
+const MAX_ENTRY_SIZE = 8 ** 11 - 1; // 11 octal digits
+
+export interface TarEntry {
+  name: string;
+  size: number;
+}
+
+/**
+ * An archive entry with the SHA-256 of its content
+ */
+export interface ArchivedEntry extends TarEntry {
+  sha256: string;
+}
+
+/**
+ * Minimal streaming ustar writer (regular files only)
+ *
+ * Entries are streamed straight into `out` with backpressure, so archives of
+ * multi-gigabyte storage never sit in memory.
+ */
+export class TarWriter {
+  constructor(private out: Writable) {}
+
+  /**
+   * Append a file; content must yield exactly `size` bytes
+   * @returns SHA-256 of the content
+   */
+  async addFile(name: string, size: number, content: AsyncIterable<Buffer>, mtimeMs = Date.now()): Promise<string> {
+    await this.write(header(name, size, mtimeMs));
+
+    const hash = crypto.createHash('sha256');
+    let written = 0;
+    for await (const chunk of content) {
+      written += chunk.length;
+      if (written > size) {
+        throw new Error(`${name} grew while it was archived`);
+      }
+      hash.update(chunk);
+      await this.write(chunk);
+    }
+    if (written !== size) {
+      throw new Error(`${name} shrank while it was archived (${written} of ${size} bytes)`);
+    }
+
+    await this.write(Buffer.alloc(padding(size)));
+    return hash.digest('hex');
+  }
+
+  /**
+   * Write the end-of-archive marker and end the output stream
+   */
+  async finish() {
+    await this.write(Buffer.alloc(BLOCK_SIZE * 2));
+    this.out.end();
+  }
+
+  private async write(chunk: Buffer) {
+    if (!this.out.write(chunk)) {
+      await once(this.out, 'drain');
+    }
+  }
+}
+
+/**
+ * Read a ustar stream, writing each entry to the path chosen by `target`
+ * (or only hashing it when target returns null)
+ * @returns Every entry with its size and SHA-256, in archive order
+ */
+export async function extractTar(
+  source: AsyncIterable<Buffer>,
+  target: (entry: TarEntry) => string | null
+): Promise<ArchivedEntry[]> {
+  const entries: ArchivedEntry[] = [];
+  let buffer = Buffer.alloc(0);
+  let current: {
+    entry: TarEntry;
+    remaining: number;
+    hash: crypto.Hash;
+    file: Awaited<ReturnType<typeof open>> | null;
+  } | null = null;
+  let skip = 0;
+  let ended = false;
+
+  const finishEntry = async () => {
+    await current!.file?.close();
+    entries.push({ ...current!.entry, sha256: current!.hash.digest('hex') });
+    skip = padding(current!.entry.size);
+    current = null;
+  };
+
+  try {
+    for await (const chunk of source) {
+      buffer = buffer.length === 0 ? chunk : Buffer.concat([buffer, chunk]);
+
+      while (!ended) {
+        if (current) {
+          const take = Math.min(current.remaining, buffer.length);
+          if (take === 0 && current.remaining > 0) {
+            break;
+          }
+          const data = buffer.subarray(0, take);
+          current.hash.update(data);
+          if (current.file) {
+            await current.file.write(data);
+          }
+          current.remaining -= take;
+          buffer = buffer.subarray(take);
+          if (current.remaining === 0) {
+            await finishEntry();
+          }
+          continue;
+        }
+
+        if (skip > 0) {
+          const take = Math.min(skip, buffer.length);
+          skip -= take;
+          buffer = buffer.subarray(take);
+          if (skip > 0) {
+            break;
+          }
+        }
+
+        if (buffer.length < BLOCK_SIZE) {
+          break;
+        }
+
+        const block = buffer.subarray(0, BLOCK_SIZE);
+        buffer = buffer.subarray(BLOCK_SIZE);
+
+        if (block.every((byte) => byte === 0)) {
+          ended = true;
+          break;
+        }
+
+        const entry = parseHeader(block);
+        const path = target(entry);
+        current = {
+          entry,
+          remaining: entry.size,
+          hash: crypto.createHash('sha256'),
+          file: path ? await open(path, 'wx', 0o600) : null,
+        };
+        if (entry.size === 0) {
+          await finishEntry();
+        }
+      }
+    }
+  } finally {
+    await current?.file?.close();
+  }
+
+  if (!ended || current) {
+    throw new Error('Archive is truncated');
+  }
+
+  return entries;
+}
+
+function header(name: string, size: number, mtimeMs: number): Buffer {
+  if (Buffer.byteLength(name) > NAME_LENGTH) {
+    throw new Error(`Archive entry name too long: ${name}`);
+  }
+  if (size > MAX_ENTRY_SIZE) {
+    throw new Error(`Archive entry too large: ${name}`);
+  }
+
+  const block = Buffer.alloc(BLOCK_SIZE);
+  block.write(name, 0, NAME_LENGTH, 'utf-8');
+  writeOctal(block, 0o644, 100, 8);  // mode
+  writeOctal(block, 0, 108, 8);      // uid
+  writeOctal(block, 0, 116, 8);      // gid
+  writeOctal(block, size, 124, 12);
+  writeOctal(block, Math.floor(mtimeMs / 1000), 136, 12);
+  block.fill(' ', 148, 156);         // checksum is computed with spaces here
+  block.write('0', 156, 'ascii');    // regular file
+  block.write('ustar\u000000', 257, 'ascii');
+
+  const checksum = block.reduce((sum, byte) => sum + byte, 0);
+  block.write(`${checksum.toString(8).padStart(6, '0')}\u0000 `, 148, 'ascii');
+  return block;
+}
+
+function parseHeader(block: Buffer): TarEntry {
+  const stored = readOctal(block, 148, 8);
+  const actual = block.reduce((sum, byte, i) => sum + (i >= 148 && i < 156 ? 0x20 : byte), 0);
+  if (stored !== actual) {
+    throw new Error('Archive header checksum mismatch');
+  }
+
+  const type = String.fromCharCode(block[156]);
+  if (type !== '0' && type !== '\u0000') {
+    throw new Error(`Unsupported archive entry type "${type}"`);
+  }
+
+  const nameEnd = block.indexOf(0, 0);
+  return {
+    name: block.toString('utf-8', 0, nameEnd === -1 || nameEnd > NAME_LENGTH ? NAME_LENGTH : nameEnd),
+    size: readOctal(block, 124, 12),
+  };
+}
+
+function writeOctal(block: Buffer, value: number, offset: number, length: number) {
+  block.write(`${value.toString(8).padStart(length - 1, '0')}\u0000`, offset, length, 'ascii');
+}
+
+function readOctal(block: Buffer, offset: number, length: number): number {
+  const value = block.toString('ascii', offset, offset + length).replace(/[\u0000 ]+/g, '');
+  return value === '' ? 0 : parseInt(value, 8);
+}
+
+function padding(size: number): number {
+  return (BLOCK_SIZE - (size % BLOCK_SIZE)) % BLOCK_SIZE;
+}
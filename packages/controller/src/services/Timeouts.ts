@@ -0,0 +1,192 @@
+import type { Build, DatabaseService } from '../db/Database.js';
+import type { TimeoutPolicy } from '../domain/Config.js';
+import type { JobQueue } from './JobQueue.js';
+import { getPastQueuePauses, getQueuePause, type PastQueuePause, type QueuePause } from './Maintenance.js';
+
+// Submission fields that become a build's own limits, in seconds
+export const TIMEOUT_FIELDS = ['max_queue_wait_seconds', 'max_duration_seconds'];
+
+/**
+ * Limits a submitter set on a build; unset ones use the controller's
+ */
+export interface BuildTimeouts {
+  max_queue_wait_ms?: number;
+  max_duration_ms?: number;
+}
+
+/**
+ * The limits a build runs under, null when unlimited
+ */
+export interface BuildLimits {
+  maxQueueWaitMs: number | null;
+  maxDurationMs: number | null;
+}
+
+/**
+ * Read submitted timeout fields (seconds) for builds of the given platforms
+ * @returns The timeouts, or an error message for the submitter
+ */
+export function parseTimeoutFields(
+  fields: Record<string, string>,
+  policy: TimeoutPolicy,
+  platforms: Build['platform'][]
+): BuildTimeouts | string {
+  const timeouts: BuildTimeouts = {};
+
+  for (const [field, key, limits] of [
+    ['max_queue_wait_seconds', 'max_queue_wait_ms', policy.maxQueueWaitMs],
+    ['max_duration_seconds', 'max_duration_ms', policy.maxDurationMs],
+  ] as const) {
+    if (!fields[field]) {
+      continue;
+    }
+
+    const seconds = Number(fields[field]);
+    if (!Number.isInteger(seconds) || seconds < 1) {
+      return `${field} must be a positive whole number of seconds`;
+    }
+
+    // Submitters may only tighten the controller's limits
+    for (const platform of platforms) {
+      const limit = limits[platform];
+      if (limit !== null && seconds * 1000 > limit) {
+        return `${field} exceeds the controller's ${platform} limit of ${formatLimit(limit)}`;
+      }
+    }
+    timeouts[key] = seconds * 1000;
+  }
+
+  return timeouts;
+}
+
+export function buildLimits(
+  policy: TimeoutPolicy,
+  build: Pick<Build, 'platform' | 'max_queue_wait_ms' | 'max_duration_ms'>
+): BuildLimits {
+  return {
+    maxQueueWaitMs: build.max_queue_wait_ms ?? policy.maxQueueWaitMs[build.platform],
+    maxDurationMs: build.max_duration_ms ?? policy.maxDurationMs[build.platform],
+  };
+}
+
+/**
+ * When a build times out as it stands: pending builds when they have waited
+ * their limit (since submission, or since a retry became due), running builds
+ * when the current attempt has run its limit
+ *
+ * Time the queue spends paused does not count against pending builds: none
+ * times out while it is paused, and each past pause that fell within a
+ * build's wait pushes its deadline back by the time they overlapped.
+ * @returns null for finished builds, when unlimited, or for pending builds
+ * while the queue is paused
+ */
+export function timeoutDeadline(
+  policy: TimeoutPolicy,
+  build: Pick<Build, 'status' | 'platform' | 'submitted_at' | 'retry_after' | 'started_at' | 'max_queue_wait_ms' | 'max_duration_ms'>,
+  queuePause: QueuePause | null = null,
+  pastPauses: PastQueuePause[] = []
+): number | null {
+  const { maxQueueWaitMs, maxDurationMs } = buildLimits(policy, build);
+
+  if (build.status === 'pending') {
+    if (maxQueueWaitMs === null || queuePause) {
+      return null;
+    }
+    const waitingSince = build.retry_after ?? build.submitted_at;
+    let deadline = waitingSince + maxQueueWaitMs;
+    // Oldest first, so a pause that only falls within the wait once an
+    // earlier one has extended it is counted too
+    for (const { pausedAt, resumedAt } of pastPauses) {
+      if (pausedAt < deadline) {
+        deadline += Math.max(0, resumedAt - Math.max(pausedAt, waitingSince));
+      }
+    }
+    return deadline;
+  }
+  if ((build.status === 'assigned' || build.status === 'building') && build.started_at !== null) {
+    return maxDurationMs === null ? null : build.started_at + maxDurationMs;
+  }
+  return null;
+}
+
+/**
+ * Fail every pending or running build past its deadline; a running build's
+ * attempt fails as a timeout (not retried), its slot is freed and its worker
+ * is told to stop
+ *
+ * Each timeout is a conditional update on the attempt, so an upload, cancel
+ * or reclaim that lands first keeps the build.
+ * @returns The builds timed out, as they were
+ */
+export async function enforceTimeouts(
+  db: DatabaseService,
+  queue: JobQueue,
+  policy: TimeoutPolicy,
+  now = Date.now()
+): Promise<Build[]> {
+  const timedOut: Build[] = [];
+  const queuePause = await getQueuePause(db);
+  const pastPauses = await getPastQueuePauses(db);
+
+  for (const build of [...(await db.builds.listPending()), ...(await db.builds.listAssigned())]) {
+    const deadline = timeoutDeadline(policy, build, queuePause, pastPauses);
+    if (deadline === null || deadline > now) {
+      continue;
+    }
+
+    const { maxQueueWaitMs, maxDurationMs } = buildLimits(policy, build);
+    const message = build.status === 'pending'
+      ? `Timed out waiting for a worker: not started within ${formatLimit(maxQueueWaitMs!)} (maximum queue wait)`
+      : `Timed out: build ran longer than ${formatLimit(maxDurationMs!)} (maximum build duration)`;
+
+    if (!(await db.builds.timeOut(build.id, build.attempt, now, message))) {
+      continue;
+    }
+
+    if (build.status !== 'pending') {
+      await db.attempts.finish(build.id, build.attempt, {
+        finished_at: now,
+        outcome: 'failed',
+        failure_type: 'timeout',
+        error_message: message,
+      });
+      if (build.worker_id) {
+        await db.workers.syncSlots(build.worker_id);
+      }
+    }
+    queue.fail(build.id);
+
+    await db.logs.add({
+      build_id: build.id,
+      timestamp: now,
+      level: 'error',
+      message: build.worker_id ? `${message}, telling the worker to stop` : message,
+    });
+    timedOut.push(build);
+  }
+
+  return timedOut;
+}
+
+/**
+ * Why a worker was told to stop its build: a cancellation, or the timeout
+ */
+export function stopReason(build: Pick<Build, 'status' | 'error_message'>): string {
+  return build.status === 'cancelled' ? 'Build was cancelled' : (build.error_message ?? 'Build timed out');
+}
+
+/**
+ * A limit for messages, e.g. 45s, 30m or 2h 15m
+ */
+export function formatLimit(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) {
+    return `${minutes}m`;
+  }
+  return minutes % 60 === 0 ? `${minutes / 60}h` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
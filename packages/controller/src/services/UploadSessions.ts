@@ -0,0 +1,74 @@
+import type { DatabaseService, UploadSession } from '../db/Database.js';
+import type { FileStorage, StoredFile } from './FileStorage.js';
+
+/**
+ * Raised when an upload session cannot be used by a submit/upload request
+ * Carries the HTTP status the route should respond with
+ */
+export class UploadClaimError extends Error {
+  constructor(message: string, public readonly statusCode = 400) {
+    super(message);
+    this.name = 'UploadClaimError';
+  }
+}
+
+/**
+ * Take ownership of a finalized resumable upload
+ *
+ * Removes the session, then moves the uploaded file into staging (so it can be
+ * committed exactly like a multipart file). Call only once the request that
+ * references the upload has passed validation.
+ */
+export async function claimUpload(
+  db: DatabaseService,
+  storage: FileStorage,
+  uploadId: string,
+  kind: UploadSession['kind'],
+  buildId?: string
+): Promise<StoredFile> {
+  const session = await db.uploads.get(uploadId);
+
+  if (!session || session.expires_at < Date.now()) {
+    throw new UploadClaimError(`Upload ${uploadId} not found`, 404);
+  }
+
+  if (session.kind !== kind) {
+    throw new UploadClaimError(`Upload ${uploadId} is a ${session.kind} upload, expected ${kind}`);
+  }
+
+  if (session.status !== 'complete' || !session.sha256) {
+    throw new UploadClaimError(`Upload ${uploadId} has not been finalized`, 409);
+  }
+
+  if (buildId !== undefined && session.build_id !== buildId) {
+    throw new UploadClaimError(`Upload ${uploadId} belongs to a different build`, 403);
+  }
+
+  // Only one of several requests referencing the upload may take its file
+  if (!(await db.uploads.claim(uploadId, Date.now()))) {
+    throw new UploadClaimError(`Upload ${uploadId} has already been claimed`, 409);
+  }
+
+  try {
+    return storage.stageCompletedUpload(uploadId, session.total_size, session.sha256);
+  } catch (err) {
+    storage.deleteUpload(uploadId, { secure: kind === 'certs' });
+    throw err;
+  }
+}
+
+/**
+ * Delete sessions (and their partial files) that saw no activity before expiring
+ * Certs uploads are shredded, like certs of finished builds.
+ * @returns Number of sessions removed
+ */
+export async function purgeExpiredUploads(db: DatabaseService, storage: FileStorage, now = Date.now()): Promise<number> {
+  const expired = await db.uploads.listExpired(now);
+
+  for (const session of expired) {
+    storage.deleteUpload(session.id, { secure: session.kind === 'certs' });
+    await db.uploads.delete(session.id);
+  }
+
+  return expired.length;
+}
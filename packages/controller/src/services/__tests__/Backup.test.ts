@@ -0,0 +1,155 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { rmSync, existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { Readable, PassThrough } from 'stream';
+import { SqliteDatabase } from '../../db/SqliteDatabase';
+import { FileStorage } from '../FileStorage';
+import { LocalStorageDriver } from '../LocalStorageDriver';
+import { storeBlob } from '../Blobs';
+import { createBackup, verifyBackup, restoreBackup, exportNdjson, BackupError } from '../Backup';
+
+describe('Backup', () => {
+  const testDir = join(process.cwd(), '.test-backup');
+  const dbPath = join(testDir, 'data', 'controller.db');
+  const storagePath = join(testDir, 'artifacts');
+  const archivePath = join(testDir, 'backup.tar.gz');
+  const restoredDbPath = join(testDir, 'restored', 'controller.db');
+  const restoredStoragePath = join(testDir, 'restored', 'artifacts');
+  const now = Date.now();
+  let db: SqliteDatabase;
+  let storage: FileStorage;
+
+  beforeEach(async () => {
+    rmSync(testDir, { recursive: true, force: true });
+    mkdirSync(join(testDir, 'data'), { recursive: true });
+    db = new SqliteDatabase(dbPath);
+    storage = new FileStorage(storagePath);
+
+    const source = await storeBlob(db, storage, await storage.stageUpload(Readable.from([Buffer.from('source-zip')])));
+    const result = await storage.saveBuildResult('build-1', Readable.from([Buffer.from('ipa-bytes')]), 'ipa');
+
+    await db.workers.register({
+      id: 'worker-1',
+      name: 'Mac mini',
+      status: 'idle',
+      capabilities: '{}',
+      registered_at: now,
+      last_seen_at: now,
+    });
+    await db.builds.create({
+      id: 'build-1',
+      status: 'pending',
+      platform: 'ios',
+      source_path: source.path,
+      certs_path: null,
+      submitted_at: now,
+      access_token: 'token-1',
+      source_sha256: source.sha256,
+      certs_sha256: null,
+      source_size: source.size,
+      certs_size: null,
+      priority: 'normal',
+      submitter: null,
+      requirements: null,
+      group_id: null,
+      cache_key: null,
+      cached_from: null,
+    });
+    await db.builds.updateStatus('build-1', 'completed', {
+      completed_at: now,
+      result_path: result.path,
+      result_sha256: result.sha256,
+      result_size: result.size,
+    });
+    await db.logs.add({ build_id: 'build-1', timestamp: now, level: 'info', message: 'Build completed' });
+  });
+
+  afterEach(async () => {
+    await db.close();
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  const backup = () =>
+    createBackup({ dbPath, driver: new LocalStorageDriver(storagePath), archivePath, certsKeyId: 'key-1' });
+
+  test('should back up the database and referenced artifacts while open', async () => {
+    const manifest = await backup();
+
+    expect(existsSync(archivePath)).toBe(true);
+    expect(existsSync(`${archivePath}.partial`)).toBe(false);
+    expect(manifest.certs_key_id).toBe('key-1');
+    expect(manifest.files.map((file) => file.key).sort()).toEqual([
+      expect.stringMatching(/^blobs\/[0-9a-f]{64}$/),
+      'results/build-1.ipa',
+    ]);
+    expect(manifest.missing).toEqual([]);
+    expect((await verifyBackup(archivePath)).files).toEqual(manifest.files);
+  });
+
+  test('should restore into a fresh data directory with relocated artifacts', async () => {
+    await backup();
+
+    const manifest = await restoreBackup(archivePath, { dbPath: restoredDbPath, storagePath: restoredStoragePath });
+    expect(manifest.schema_version).toBeGreaterThan(0);
+
+    const restored = new SqliteDatabase(restoredDbPath);
+    try {
+      const build = (await restored.builds.get('build-1'))!;
+      expect(build.source_path.startsWith(restoredStoragePath)).toBe(true);
+      expect(readFileSync(build.source_path, 'utf-8')).toBe('source-zip');
+      expect(readFileSync(build.result_path!, 'utf-8')).toBe('ipa-bytes');
+      expect((await restored.blobs.get(build.source_sha256!))?.location).toBe(build.source_path);
+      expect(await restored.logs.list('build-1')).toHaveLength(1);
+    } finally {
+      await restored.close();
+    }
+  });
+
+  test('should record artifacts deleted before they were copied', async () => {
+    const build = (await db.builds.get('build-1'))!;
+    rmSync(build.result_path!);
+
+    const manifest = await backup();
+
+    expect(manifest.missing).toEqual([{ key: 'results/build-1.ipa', location: build.result_path! }]);
+  });
+
+  test('should reject a corrupted archive', async () => {
+    await backup();
+    const archive = readFileSync(archivePath);
+    archive[Math.floor(archive.length / 2)] ^= 0xff;
+    writeFileSync(archivePath, archive);
+
+    await expect(verifyBackup(archivePath)).rejects.toThrow(BackupError);
+    await expect(
+      restoreBackup(archivePath, { dbPath: restoredDbPath, storagePath: restoredStoragePath })
+    ).rejects.toThrow(BackupError);
+    expect(existsSync(restoredDbPath)).toBe(false);
+    expect(existsSync(restoredStoragePath)).toBe(false);
+  });
+
+  test('should refuse to restore over existing data', async () => {
+    await backup();
+
+    await expect(restoreBackup(archivePath, { dbPath, storagePath: restoredStoragePath })).rejects.toThrow(
+      'Refusing to restore over existing database'
+    );
+    await expect(restoreBackup(archivePath, { dbPath: restoredDbPath, storagePath })).rejects.toThrow(
+      'non-empty storage directory'
+    );
+  });
+
+  test('should export workers, builds and logs as NDJSON', async () => {
+    const out = new PassThrough();
+    const chunks: Buffer[] = [];
+    out.on('data', (chunk) => chunks.push(chunk));
+
+    const counts = await exportNdjson(db, out);
+    out.end();
+
+    const lines = Buffer.concat(chunks).toString('utf-8').trim().split('\n').map((line) => JSON.parse(line));
+    expect(counts).toEqual({ workers: 1, groups: 0, schedules: 0, schedule_runs: 0, builds: 1, attempts: 0, logs: 1 });
+    expect(lines.map((line) => line.type)).toEqual(['export', 'worker', 'build', 'log']);
+    expect(lines[2].data).toMatchObject({ id: 'build-1', status: 'completed', access_token: 'token-1' });
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { rmSync, existsSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { Readable } from 'stream';
+import { SqliteDatabase } from '../../db/SqliteDatabase';
+import { FileStorage } from '../FileStorage';
+import { storeBlob, acquireBlob, shareArtifact, releaseArtifact } from '../Blobs';
+
+describe('Blobs', () => {
+  const testStoragePath = join(process.cwd(), '.test-blobs');
+  let db: SqliteDatabase;
+  let storage: FileStorage;
+
+  beforeEach(() => {
+    rmSync(testStoragePath, { recursive: true, force: true });
+    db = new SqliteDatabase(':memory:');
+    storage = new FileStorage(testStoragePath);
+  });
+
+  afterEach(async () => {
+    await db.close();
+    rmSync(testStoragePath, { recursive: true, force: true });
+  });
+
+  const stage = (content: string) => storage.stageUpload(Readable.from([Buffer.from(content)]));
+
+  test('should store identical uploads once', async () => {
+    const first = await storeBlob(db, storage, await stage('same-zip'));
+    const second = await storeBlob(db, storage, await stage('same-zip'));
+
+    expect(second.path).toBe(first.path);
+    expect(readdirSync(join(testStoragePath, 'blobs'))).toEqual([first.sha256]);
+    expect(readdirSync(join(testStoragePath, 'tmp'))).toEqual([]);
+    expect((await db.blobs.get(first.sha256))?.ref_count).toBe(2);
+  });
+
+  test('should acquire known blobs by digest only', async () => {
+    const stored = await storeBlob(db, storage, await stage('source'));
+
+    const blob = await acquireBlob(db, storage, stored.sha256);
+
+    expect(blob?.location).toBe(stored.path);
+    expect((await db.blobs.get(stored.sha256))?.ref_count).toBe(2);
+    expect(await acquireBlob(db, storage, 'f'.repeat(64))).toBeNull();
+  });
+
+  test('should not acquire blobs whose bytes are gone', async () => {
+    const stored = await storeBlob(db, storage, await stage('source'));
+    rmSync(stored.path);
+
+    expect(await acquireBlob(db, storage, stored.sha256)).toBeNull();
+  });
+
+  test('should delete bytes only when the last reference is released', async () => {
+    const stored = await storeBlob(db, storage, await stage('shared'));
+    await shareArtifact(db, { path: stored.path, sha256: stored.sha256, size: stored.size });
+
+    expect(await releaseArtifact(db, storage, stored.path)).toBe(false);
+    expect(existsSync(stored.path)).toBe(true);
+
+    expect(await releaseArtifact(db, storage, stored.path)).toBe(true);
+    expect(existsSync(stored.path)).toBe(false);
+    expect(await db.blobs.get(stored.sha256)).toBeFalsy();
+  });
+
+  test('should register legacy per-build artifacts on first share', async () => {
+    const legacy = await storage.saveBuildSource('old-build', Readable.from([Buffer.from('legacy')]));
+
+    const shared = await shareArtifact(db, legacy);
+
+    expect(shared).toBe(legacy.path);
+    expect((await db.blobs.getByLocation(legacy.path))?.ref_count).toBe(2);
+
+    // Original and retry each hold a reference
+    expect(await releaseArtifact(db, storage, legacy.path)).toBe(false);
+    expect(await releaseArtifact(db, storage, legacy.path)).toBe(true);
+    expect(existsSync(legacy.path)).toBe(false);
+  });
+
+  test('should not share legacy artifacts without a digest', async () => {
+    const legacy = await storage.saveBuildSource('old-build', Readable.from([Buffer.from('legacy')]));
+
+    expect(await shareArtifact(db, { path: legacy.path, sha256: null, size: null })).toBeNull();
+  });
+
+  test('should delete non-blob artifacts outright', async () => {
+    const result = await storage.saveBuildResult('build-1', Readable.from([Buffer.from('ipa')]), 'ipa');
+
+    expect(await releaseArtifact(db, storage, result.path)).toBe(true);
+    expect(existsSync(result.path)).toBe(false);
+  });
+});
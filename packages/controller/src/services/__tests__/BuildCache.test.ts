@@ -0,0 +1,129 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { rmSync } from 'fs';
+import { join } from 'path';
+import { Readable } from 'stream';
+import { SqliteDatabase } from '../../db/SqliteDatabase';
+import { FileStorage, type StoredFile } from '../FileStorage';
+import { JobQueue } from '../JobQueue';
+import { shareArtifact, storeBlob } from '../Blobs';
+import { buildCacheKey } from '../BuildCache';
+import { submitBuilds, type Submission } from '../Submissions';
+
+describe('BuildCache', () => {
+  const testDir = join(process.cwd(), '.test-build-cache');
+  const sourceSha256 = 'a'.repeat(64);
+
+  test('should fingerprint platform, digests and requirements', () => {
+    const key = buildCacheKey({
+      platform: 'ios',
+      source_sha256: sourceSha256,
+      certs_sha256: null,
+      requirements: JSON.stringify({ min_xcode_version: '16', expo_sdk: 52 }),
+    });
+
+    expect(key).toMatch(/^[a-f0-9]{64}$/);
+    expect(buildCacheKey({
+      platform: 'ios',
+      source_sha256: sourceSha256,
+      certs_sha256: null,
+      requirements: JSON.stringify({ expo_sdk: 52, min_xcode_version: '16' }),
+    })).toBe(key!);
+    expect(buildCacheKey({ platform: 'android', source_sha256: sourceSha256, certs_sha256: null, requirements: null }))
+      .not.toBe(key);
+    expect(buildCacheKey({ platform: 'ios', source_sha256: sourceSha256, certs_sha256: 'b'.repeat(64), requirements: null }))
+      .not.toBe(buildCacheKey({ platform: 'ios', source_sha256: sourceSha256, certs_sha256: null, requirements: null }));
+    expect(buildCacheKey({ platform: 'ios', source_sha256: null, certs_sha256: null, requirements: null })).toBeNull();
+  });
+
+  describe('submissions', () => {
+    let db: SqliteDatabase;
+    let storage: FileStorage;
+    let queue: JobQueue;
+    let source: StoredFile;
+
+    beforeEach(async () => {
+      rmSync(testDir, { recursive: true, force: true });
+      db = new SqliteDatabase(':memory:');
+      storage = new FileStorage(join(testDir, 'storage'));
+      queue = new JobQueue();
+      source = await storeBlob(db, storage, await storage.stageUpload(Readable.from([Buffer.from('source-zip')])));
+    });
+
+    afterEach(async () => {
+      await db.close();
+      rmSync(testDir, { recursive: true, force: true });
+    });
+
+    const submit = async (overrides: Partial<Submission> = {}) => {
+      // Each submission holds its own reference to the source, as the route's does
+      const path = (await shareArtifact(db, source))!;
+      return submitBuilds(db, queue, {
+        source: { ...source, path },
+        certs: null,
+        platforms: ['ios'],
+        priority: 'normal',
+        submitter: null,
+        requirements: {},
+        useCache: true,
+        ...overrides,
+      });
+    };
+
+    const complete = async (buildId: string) => {
+      const result = await storeBlob(db, storage, await storage.stageUpload(Readable.from([Buffer.from('app.ipa')])));
+      await db.builds.updateStatus(buildId, 'completed', {
+        started_at: 1000,
+        completed_at: 2000,
+        result_path: result.path,
+        result_sha256: result.sha256,
+        result_size: result.size,
+      });
+      return result;
+    };
+
+    test('should complete a matching submission with the earlier result', async () => {
+      const first = (await submit()).builds[0].build;
+      expect(first.status).toBe('pending');
+
+      // Not cached until it completes
+      expect((await submit()).builds[0].build.status).toBe('pending');
+
+      const result = await complete(first.id);
+      const { builds } = await submit();
+
+      expect(builds[0].build).toMatchObject({
+        status: 'completed',
+        cached_from: first.id,
+        result_path: result.path,
+        result_sha256: result.sha256,
+      });
+      expect(queue.getStats().pending).toBe(2);
+      expect((await db.blobs.get(result.sha256))?.ref_count).toBe(2);
+      expect((await db.logs.list(builds[0].build.id)).map((log) => log.message)).toContain(
+        `Build completed from cache (result of build ${first.id})`
+      );
+    });
+
+    test('should rebuild without the cache or for other inputs', async () => {
+      await complete((await submit()).builds[0].build.id);
+
+      expect((await submit({ useCache: false })).builds[0].build.status).toBe('pending');
+      expect((await submit({ requirements: { expo_sdk: 52 } })).builds[0].build.status).toBe('pending');
+
+      // Only the platform that built before is a hit
+      const group = await submit({ platforms: ['android', 'ios'] });
+      expect(group.builds.map(({ build }) => [build.platform, build.status])).toEqual([
+        ['android', 'pending'],
+        ['ios', 'completed'],
+      ]);
+    });
+
+    test('should miss once the result is deleted', async () => {
+      const first = (await submit()).builds[0].build;
+      await complete(first.id);
+      await db.builds.markArtifactDeleted(first.id, 'result', 3000);
+
+      expect((await submit()).builds[0].build.status).toBe('pending');
+    });
+  });
+});
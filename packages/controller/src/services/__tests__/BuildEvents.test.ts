@@ -0,0 +1,103 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { SqliteDatabase } from '../../db/SqliteDatabase';
+import { JobQueue } from '../JobQueue';
+import { progressMessage, readBuildEvents, type BuildEventCursor } from '../BuildEvents';
+
+describe('BuildEvents', () => {
+  const now = Date.now();
+  let db: SqliteDatabase;
+  let queue: JobQueue;
+
+  beforeEach(async () => {
+    db = new SqliteDatabase(':memory:');
+    queue = new JobQueue();
+
+    await db.builds.create({
+      id: 'b1',
+      status: 'pending',
+      platform: 'ios',
+      source_path: 'builds/b1.zip',
+      certs_path: null,
+      submitted_at: now,
+      access_token: 'token-b1',
+      source_sha256: null,
+      certs_sha256: null,
+      source_size: 100,
+      certs_size: null,
+      priority: 'normal',
+      submitter: null,
+      requirements: null,
+      group_id: null,
+      cache_key: null,
+      cached_from: null,
+    });
+    queue.enqueue((await db.builds.get('b1'))!);
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  test('should send only new log lines and status changes', async () => {
+    let cursor: BuildEventCursor = { lastLogId: 0, snapshot: null };
+    await db.logs.add({ build_id: 'b1', timestamp: now, level: 'info', message: 'Build submitted' });
+
+    let read = (await readBuildEvents(db, queue, 'b1', cursor))!;
+    expect(read.events.map((event) => event.type)).toEqual(['log', 'status']);
+    expect(read.events[1].data).toMatchObject({ status: 'pending', queue_position: 1 });
+    cursor = read.cursor;
+
+    read = (await readBuildEvents(db, queue, 'b1', cursor))!;
+    expect(read.events).toEqual([]);
+    expect(read.cursor.lastLogId).toBe(cursor.lastLogId);
+
+    await db.logs.add({ build_id: 'b1', timestamp: now + 1, level: 'info', message: progressMessage(40) });
+    await db.builds.updateStatus('b1', 'failed', { completed_at: now + 2, error_message: 'Build failed' });
+
+    read = (await readBuildEvents(db, queue, 'b1', cursor))!;
+    const id = read.cursor.lastLogId;
+    expect(id).toBeGreaterThan(cursor.lastLogId);
+    expect(read.events).toEqual([
+      { id, type: 'log', data: { attempt: 1, timestamp: now + 1, level: 'info', message: 'Build progress: 40%' } },
+      { id, type: 'progress', data: { attempt: 1, timestamp: now + 1, progress: 40 } },
+      expect.objectContaining({ id, type: 'status', data: expect.objectContaining({ status: 'failed', error_message: 'Build failed' }) }),
+    ]);
+  });
+
+  test('should give each event of a batch its own log line ID', async () => {
+    for (const message of ['first', 'second', 'third']) {
+      await db.logs.add({ build_id: 'b1', timestamp: now, level: 'info', message });
+    }
+    const ids = (await db.logs.list('b1')).map((log) => log.id);
+
+    const read = (await readBuildEvents(db, queue, 'b1', { lastLogId: 0, snapshot: null }))!;
+    expect(read.events.map((event) => [event.type, event.id])).toEqual([
+      ['log', ids[0]],
+      ['log', ids[1]],
+      ['log', ids[2]],
+      ['status', ids[2]],
+    ]);
+
+    // A client that dropped after the first line resumes from its ID
+    const resumed = (await readBuildEvents(db, queue, 'b1', { lastLogId: read.events[0].id, snapshot: null }))!;
+    expect(resumed.events.filter((event) => event.type === 'log').map((event) => event.data)).toMatchObject([
+      { message: 'second' },
+      { message: 'third' },
+    ]);
+  });
+
+  test('should resume after the last log line a client saw', async () => {
+    await db.logs.add({ build_id: 'b1', timestamp: now, level: 'info', message: 'first' });
+    await db.logs.add({ build_id: 'b1', timestamp: now, level: 'info', message: 'second' });
+    const [first] = await db.logs.list('b1');
+
+    const read = (await readBuildEvents(db, queue, 'b1', { lastLogId: first.id, snapshot: null }))!;
+    expect(read.events.filter((event) => event.type === 'log').map((event) => event.data)).toEqual([
+      { attempt: 1, timestamp: now, level: 'info', message: 'second' },
+    ]);
+  });
+
+  test('should stop once the build is gone', async () => {
+    expect(await readBuildEvents(db, queue, 'missing', { lastLogId: 0, snapshot: null })).toBeUndefined();
+  });
+});
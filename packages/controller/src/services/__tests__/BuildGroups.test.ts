@@ -0,0 +1,24 @@
+import { describe, test, expect } from 'bun:test';
+import type { Build } from '../../db/Database';
+import { groupStatus } from '../BuildGroups';
+
+describe('BuildGroups', () => {
+  const builds = (...statuses: Build['status'][]) => statuses.map((status) => ({ status }));
+
+  test('should be pending until a build starts', () => {
+    expect(groupStatus(builds('pending', 'pending'))).toBe('pending');
+    expect(groupStatus(builds('assigned', 'pending'))).toBe('building');
+  });
+
+  test('should keep building while any build is unfinished', () => {
+    expect(groupStatus(builds('completed', 'pending'))).toBe('building');
+    expect(groupStatus(builds('failed', 'building'))).toBe('building');
+  });
+
+  test('should complete only when every build completed', () => {
+    expect(groupStatus(builds('completed', 'completed'))).toBe('completed');
+    expect(groupStatus(builds('completed', 'failed'))).toBe('failed');
+    expect(groupStatus(builds('cancelled', 'failed'))).toBe('failed');
+    expect(groupStatus(builds('completed', 'cancelled'))).toBe('cancelled');
+  });
+});
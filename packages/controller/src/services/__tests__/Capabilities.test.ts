@@ -0,0 +1,67 @@
+import { describe, test, expect } from 'bun:test';
+import type { Build, Worker } from '../../db/Database';
+import { parseCapabilities, unmetRequirements, explainNoEligibleWorker, compareVersions } from '../Capabilities';
+
+describe('Capabilities', () => {
+  const worker = (name: string, capabilities: object) =>
+    ({ id: name, name, status: 'idle', capabilities: JSON.stringify(capabilities) }) as Worker;
+
+  const build = (platform: 'ios' | 'android', requirements: object | null = null) =>
+    ({ id: 'b1', platform, requirements: requirements && JSON.stringify(requirements) }) as Build;
+
+  test('should normalize both registration formats', () => {
+    expect(parseCapabilities(JSON.stringify({ platforms: ['ios'], xcode_version: '15.0', maxMemoryGB: 16 }))).toEqual({
+      platforms: ['ios'],
+      xcode_version: '15.0',
+      memory_gb: 16,
+      cpu_cores: null,
+      expo_sdks: null,
+    });
+    expect(parseCapabilities(JSON.stringify({ platform: 'darwin', xcodeVersion: '16.1', memoryGB: 32, cpuCores: 10 }))).toMatchObject({
+      platforms: ['ios', 'android'],
+      xcode_version: '16.1',
+      memory_gb: 32,
+      cpu_cores: 10,
+    });
+    expect(parseCapabilities('not json').platforms).toBeNull();
+  });
+
+  test('should list every unmet requirement', () => {
+    const mac = worker('mac-mini', { platforms: ['ios'], xcode_version: '15.4', memoryGB: 8, expo_sdks: [51] });
+
+    expect(unmetRequirements(build('ios'), mac)).toEqual([]);
+    expect(unmetRequirements(build('ios', { min_xcode_version: '15', min_memory_gb: 8, expo_sdk: 51 }), mac)).toEqual([]);
+    expect(unmetRequirements(build('android', { min_xcode_version: '16', min_memory_gb: 16, expo_sdk: 52 }), mac)).toEqual([
+      'does not build android',
+      'has Xcode 15.4, needs 16',
+      'has 8 GB memory, needs 16 GB',
+      'does not support Expo SDK 52',
+    ]);
+  });
+
+  test('should not assume unreported versions or memory satisfy a minimum', () => {
+    const legacy = worker('legacy', {});
+
+    expect(unmetRequirements(build('android'), legacy)).toEqual([]);
+    expect(unmetRequirements(build('ios', { min_xcode_version: '15', expo_sdk: 52 }), legacy)).toEqual([
+      'does not report an Xcode version',
+    ]);
+  });
+
+  test('should explain only when no worker is eligible', () => {
+    const ios = worker('ios-box', { platforms: ['ios'] });
+    const android = worker('android-box', { platforms: ['android'] });
+
+    expect(explainNoEligibleWorker(build('ios'), [android, ios])).toBeNull();
+    expect(explainNoEligibleWorker(build('ios'), [android])).toBe(
+      'No registered worker can run this build: android-box does not build ios'
+    );
+    expect(explainNoEligibleWorker(build('ios'), [])).toBe('No workers are registered');
+  });
+
+  test('should compare dotted versions numerically', () => {
+    expect(compareVersions('15.10', '15.9')).toBe(1);
+    expect(compareVersions('16', '16.0.0')).toBe(0);
+    expect(compareVersions('15.4', '16')).toBe(-1);
+  });
+});
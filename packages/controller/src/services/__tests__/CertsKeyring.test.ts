@@ -0,0 +1,71 @@
+import { describe, test, expect } from 'bun:test';
+import crypto from 'crypto';
+import { join } from 'path';
+import { createConfig } from '../../domain/Config';
+import { CertsKeyring, isSealed, loadCertsKeyring, parseMasterKey } from '../CertsKeyring';
+
+describe('CertsKeyring', () => {
+  const plaintext = Buffer.from('signing certificate bundle');
+
+  test('should seal with a fresh data key and open again', () => {
+    const keyring = new CertsKeyring(crypto.randomBytes(32));
+
+    const first = keyring.seal(plaintext);
+    const second = keyring.seal(plaintext);
+
+    expect(isSealed(first)).toBe(true);
+    expect(first.equals(second)).toBe(false);
+    expect(keyring.open(first).equals(plaintext)).toBe(true);
+  });
+
+  test('should reject tampered envelopes', () => {
+    const keyring = new CertsKeyring(crypto.randomBytes(32));
+    const envelope = keyring.seal(plaintext);
+    envelope[envelope.length - 1] ^= 1;
+
+    expect(() => keyring.open(envelope)).toThrow();
+  });
+
+  test('should open envelopes of previous keys and rewrap them', () => {
+    const oldKey = crypto.randomBytes(32);
+    const envelope = new CertsKeyring(oldKey).seal(plaintext);
+    const keyring = new CertsKeyring(crypto.randomBytes(32), [oldKey]);
+
+    expect(keyring.isCurrent(envelope)).toBe(false);
+    expect(keyring.open(envelope).equals(plaintext)).toBe(true);
+
+    const rewrapped = keyring.rewrap(envelope);
+
+    expect(keyring.isCurrent(rewrapped)).toBe(true);
+    // Only the wrapped data key changes
+    expect(rewrapped.subarray(72).equals(envelope.subarray(72))).toBe(true);
+    expect(() => new CertsKeyring(oldKey).open(rewrapped)).toThrow('unknown master key');
+  });
+
+  test('should not treat plain zips as sealed', () => {
+    const zip = Buffer.concat([Buffer.from('PK\x03\x04'), crypto.randomBytes(200)]);
+
+    expect(isSealed(zip)).toBe(false);
+  });
+
+  test('should require 32-byte base64 master keys', () => {
+    expect(parseMasterKey(crypto.randomBytes(32).toString('base64'), 'KEY')).toHaveLength(32);
+    expect(() => parseMasterKey('too-short', 'CERTS_MASTER_KEY')).toThrow('CERTS_MASTER_KEY must be 32 bytes');
+  });
+
+  test('should not generate a master key for s3 storage', () => {
+    const config = createConfig({
+      port: 3000,
+      dbPath: ':memory:',
+      storagePath: join(process.cwd(), '.test-keyring'),
+      storageDriver: 's3',
+      s3: { bucket: 'builds' },
+      certsMasterKey: undefined,
+    });
+
+    expect(() => loadCertsKeyring(config)).toThrow('CERTS_MASTER_KEY required for s3 storage driver');
+
+    const masterKey = crypto.randomBytes(32).toString('base64');
+    expect(loadCertsKeyring({ ...config, certsMasterKey: masterKey }).currentKeyId).toHaveLength(16);
+  });
+});
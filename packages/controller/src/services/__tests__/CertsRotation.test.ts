@@ -0,0 +1,55 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import crypto from 'crypto';
+import { rmSync } from 'fs';
+import { join } from 'path';
+import { Readable } from 'stream';
+import { SqliteDatabase } from '../../db/SqliteDatabase';
+import { CertsKeyring } from '../CertsKeyring';
+import { FileStorage } from '../FileStorage';
+import { storeBlob } from '../Blobs';
+import { rotateStoredCerts } from '../CertsRotation';
+
+describe('CertsRotation', () => {
+  const testDir = join(process.cwd(), '.test-certs-rotation');
+  const oldKey = crypto.randomBytes(32);
+  const newKey = crypto.randomBytes(32);
+  const bundle = Buffer.from('p12-bytes and password.txt');
+  let db: SqliteDatabase;
+
+  beforeEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+    db = new SqliteDatabase(':memory:');
+  });
+
+  afterEach(async () => {
+    await db.close();
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test('should rewrap certs held only by a schedule', async () => {
+    const before = new FileStorage(testDir, undefined, new CertsKeyring(oldKey));
+    const certs = await storeBlob(db, before, await before.stageUpload(Readable.from([bundle])), { certs: true });
+    await db.schedules.create({
+      id: 's1',
+      name: 'nightly',
+      cron: '0 * * * *',
+      platforms: 'ios',
+      source_sha256: null,
+      certs_sha256: certs.sha256,
+      git_url: 'https://example.com/app.git',
+      git_ref: 'main',
+      priority: 'background',
+      submitter: 'ci',
+      requirements: null,
+      catch_up: 1,
+      created_at: Date.now(),
+      next_run_at: Date.now(),
+    });
+
+    const report = await rotateStoredCerts(db, new FileStorage(testDir, undefined, new CertsKeyring(newKey, [oldKey])));
+
+    expect(report).toMatchObject({ rewrapped: 1, encrypted: 0, current: 0, failures: [] });
+    const rotated = new FileStorage(testDir, undefined, new CertsKeyring(newKey));
+    expect((await rotated.readBuildCerts(certs.path)).equals(bundle)).toBe(true);
+  });
+});
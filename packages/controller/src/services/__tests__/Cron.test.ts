@@ -0,0 +1,40 @@
+import { describe, test, expect } from 'bun:test';
+import { CronError, nextCronRun, parseCron } from '../Cron';
+
+describe('Cron', () => {
+  const at = (iso: string) => Date.parse(iso);
+  const next = (expression: string, after: string) => {
+    const run = nextCronRun(parseCron(expression), at(after));
+    return run === null ? null : new Date(run).toISOString();
+  };
+
+  test('should find the next matching minute in UTC', () => {
+    expect(next('0 2 * * *', '2026-03-10T01:59:30Z')).toBe('2026-03-10T02:00:00.000Z');
+    expect(next('0 2 * * *', '2026-03-10T02:00:00Z')).toBe('2026-03-11T02:00:00.000Z');
+    expect(next('*/15 * * * *', '2026-03-10T10:16:00Z')).toBe('2026-03-10T10:30:00.000Z');
+    expect(next('@hourly', '2026-12-31T23:30:00Z')).toBe('2027-01-01T00:00:00.000Z');
+  });
+
+  test('should support ranges, lists and names', () => {
+    // 2026-03-13 is a Friday
+    expect(next('30 9 * * mon-fri', '2026-03-13T10:00:00Z')).toBe('2026-03-16T09:30:00.000Z');
+    expect(next('0 0 1,15 feb *', '2026-03-01T00:00:00Z')).toBe('2027-02-01T00:00:00.000Z');
+    expect(next('0 12 * * 7', '2026-03-13T00:00:00Z')).toBe('2026-03-15T12:00:00.000Z');
+  });
+
+  test('should match either day field when both are restricted', () => {
+    // The 20th, or the next Monday, whichever comes first
+    expect(next('0 0 20 * 1', '2026-03-13T00:00:00Z')).toBe('2026-03-16T00:00:00.000Z');
+    expect(next('0 0 20 * 1', '2026-03-18T00:00:00Z')).toBe('2026-03-20T00:00:00.000Z');
+  });
+
+  test('should return null for dates that never exist', () => {
+    expect(next('0 0 30 2 *', '2026-01-01T00:00:00Z')).toBeNull();
+  });
+
+  test('should reject invalid expressions', () => {
+    for (const expression of ['* * * *', '60 * * * *', '0 0 * * fri-mon', '*/0 * * * *', 'a b c d e']) {
+      expect(() => parseCron(expression)).toThrow(CronError);
+    }
+  });
+});
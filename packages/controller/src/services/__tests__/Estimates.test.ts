@@ -0,0 +1,96 @@
+import { describe, test, expect } from 'bun:test';
+import type { Build, Worker } from '../../db/Database';
+import { DEFAULT_BUILD_DURATION_MS, estimateQueue, expectedDurations } from '../Estimates';
+
+describe('Estimates', () => {
+  const MINUTE_MS = 60_000;
+  const now = 1_000_000_000;
+
+  const worker = (id: string, platforms: string[], slots = 1) =>
+    ({ id, name: id, status: 'idle', capabilities: JSON.stringify({ platforms }), max_concurrent_builds: slots }) as Worker;
+
+  const build = (id: string, platform: 'ios' | 'android', overrides: Partial<Build> = {}) =>
+    ({ id, platform, requirements: null, started_at: null, retry_after: null, ...overrides }) as Build;
+
+  // 10 minutes for iOS, 4 for Android, wherever they run
+  const flat = expectedDurations([
+    { platform: 'ios', worker_id: 'w1', duration_ms: 10 * MINUTE_MS },
+    { platform: 'android', worker_id: 'w1', duration_ms: 4 * MINUTE_MS },
+  ]);
+
+  test('should prefer the median on the same worker, then the platform, then all builds', () => {
+    const expected = expectedDurations([
+      { platform: 'ios', worker_id: 'fast', duration_ms: 5 * MINUTE_MS },
+      { platform: 'ios', worker_id: 'fast', duration_ms: 7 * MINUTE_MS },
+      { platform: 'ios', worker_id: 'slow', duration_ms: 30 * MINUTE_MS },
+      { platform: 'ios', worker_id: 'slow', duration_ms: 20 * MINUTE_MS },
+      { platform: 'ios', worker_id: 'slow', duration_ms: 25 * MINUTE_MS },
+    ]);
+
+    expect(expected('ios', 'fast')).toBe(6 * MINUTE_MS);
+    expect(expected('ios', 'slow')).toBe(25 * MINUTE_MS);
+    expect(expected('ios', 'new')).toBe(20 * MINUTE_MS);
+    expect(expected('android', 'fast')).toBe(20 * MINUTE_MS);
+    expect(expectedDurations([])('ios', null)).toBe(DEFAULT_BUILD_DURATION_MS);
+  });
+
+  test('should queue pending builds behind running ones on the worker free soonest', () => {
+    const w1 = worker('w1', ['ios', 'android']);
+    const w2 = worker('w2', ['ios', 'android']);
+    const running = build('running', 'ios', { started_at: now - 6 * MINUTE_MS });
+
+    const estimates = estimateQueue(
+      [build('a', 'ios'), build('b', 'android'), build('c', 'ios')],
+      [{ build: running, worker: w1 }],
+      [w1, w2],
+      flat,
+      now
+    );
+
+    expect(estimates.get('running')).toEqual({ queuePosition: null, startAt: now - 6 * MINUTE_MS, finishAt: now + 4 * MINUTE_MS });
+    expect(estimates.get('a')).toEqual({ queuePosition: 1, startAt: now, finishAt: now + 10 * MINUTE_MS });
+    expect(estimates.get('b')).toEqual({ queuePosition: 2, startAt: now + 4 * MINUTE_MS, finishAt: now + 8 * MINUTE_MS });
+    expect(estimates.get('c')).toEqual({ queuePosition: 3, startAt: now + 8 * MINUTE_MS, finishAt: now + 18 * MINUTE_MS });
+  });
+
+  test('should run as many builds at once as a worker has slots', () => {
+    const studio = worker('studio', ['ios'], 2);
+    const running = build('running', 'ios', { started_at: now - 6 * MINUTE_MS });
+
+    const estimates = estimateQueue(
+      [build('a', 'ios'), build('b', 'ios')],
+      [{ build: running, worker: studio }],
+      [studio],
+      flat,
+      now
+    );
+
+    expect(estimates.get('a')).toEqual({ queuePosition: 1, startAt: now, finishAt: now + 10 * MINUTE_MS });
+    expect(estimates.get('b')).toEqual({ queuePosition: 2, startAt: now + 4 * MINUTE_MS, finishAt: now + 14 * MINUTE_MS });
+  });
+
+  test('should treat overdue running builds as about to finish', () => {
+    const w1 = worker('w1', ['ios']);
+    const overdue = build('overdue', 'ios', { started_at: now - 60 * MINUTE_MS });
+
+    const estimates = estimateQueue([build('next', 'ios')], [{ build: overdue, worker: w1 }], [w1], flat, now);
+
+    expect(estimates.get('overdue')?.finishAt).toBe(now);
+    expect(estimates.get('next')?.startAt).toBe(now);
+  });
+
+  test('should only use eligible workers and wait out retry backoff', () => {
+    const android = worker('android-box', ['android']);
+
+    const estimates = estimateQueue(
+      [build('ios-build', 'ios'), build('retried', 'android', { retry_after: now + 2 * MINUTE_MS })],
+      [],
+      [android],
+      flat,
+      now
+    );
+
+    expect(estimates.get('ios-build')).toEqual({ queuePosition: 1, startAt: null, finishAt: null });
+    expect(estimates.get('retried')).toEqual({ queuePosition: 2, startAt: now + 2 * MINUTE_MS, finishAt: now + 6 * MINUTE_MS });
+  });
+});
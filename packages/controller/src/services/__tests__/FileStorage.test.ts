@@ -1,7 +1,10 @@
 import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
-import { mkdirSync, rmSync, existsSync, writeFileSync } from 'fs';
+import { mkdirSync, rmSync, existsSync, writeFileSync, readFileSync, readdirSync } from 'fs';
 import { join } from 'path';
-import { FileStorage } from '../FileStorage';
+import { Readable } from 'stream';
+import crypto from 'crypto';
+import { FileStorage, FileTooLargeError } from '../FileStorage';
+import { CertsKeyring } from '../CertsKeyring';
 
 describe('FileStorage', () => {
   const testStoragePath = join(process.cwd(), '.test-storage');
@@ -72,4 +75,125 @@ describe('FileStorage', () => {
       }).not.toThrow();
     });
   });
+
+  describe('Streaming Saves', () => {
+    const tmpDir = () => join(testStoragePath, 'tmp');
+
+    function chunked(data: Buffer, chunkSize = 1024): Readable {
+      const chunks: Buffer[] = [];
+      for (let i = 0; i < data.length; i += chunkSize) {
+        chunks.push(data.subarray(i, i + chunkSize));
+      }
+      return Readable.from(chunks);
+    }
+
+    test('should save stream with size and SHA-256 digest', async () => {
+      const data = crypto.randomBytes(10_000);
+      const saved = await storage.saveBuildSource('build-1', chunked(data));
+
+      expect(saved.path).toBe(storage.getBuildSourcePath('build-1'));
+      expect(saved.size).toBe(data.length);
+      expect(saved.sha256).toBe(crypto.createHash('sha256').update(data).digest('hex'));
+      expect(readFileSync(saved.path).equals(data)).toBe(true);
+      expect(readdirSync(tmpDir())).toEqual([]);
+    });
+
+    test('should reject stream exceeding size limit and leave no files behind', async () => {
+      const data = crypto.randomBytes(5_000);
+
+      await expect(storage.saveBuildSource('build-2', chunked(data), 4_096)).rejects.toBeInstanceOf(FileTooLargeError);
+
+      expect(await storage.buildSourceExists('build-2')).toBe(false);
+      expect(readdirSync(tmpDir())).toEqual([]);
+    });
+
+    test('should only publish staged uploads once committed', async () => {
+      const data = Buffer.from('result-bytes');
+      const staged = await storage.stageUpload(chunked(data));
+
+      expect(await storage.buildResultExists('build-3', 'ipa')).toBe(false);
+      expect(existsSync(staged.path)).toBe(true);
+
+      const committed = await storage.commitBuildResult('build-3', staged, 'ipa');
+
+      expect(committed.path).toBe(storage.getBuildResultPath('build-3', 'ipa'));
+      expect(committed.sha256).toBe(staged.sha256);
+      expect(readFileSync(committed.path).toString()).toBe('result-bytes');
+      expect(readdirSync(tmpDir())).toEqual([]);
+    });
+
+    test('should discard staged uploads', async () => {
+      const staged = await storage.stageUpload(chunked(Buffer.from('abandoned')));
+
+      storage.discardStaged(staged);
+
+      expect(existsSync(staged.path)).toBe(false);
+    });
+
+    test('should not discard files outside the temp directory', async () => {
+      const saved = await storage.saveBuildCerts('build-4', chunked(Buffer.from('certs')));
+
+      storage.discardStaged(saved);
+
+      expect(existsSync(saved.path)).toBe(true);
+    });
+  });
+
+  describe('Certs Encryption', () => {
+    const oldKey = crypto.randomBytes(32);
+    const newKey = crypto.randomBytes(32);
+    const bundle = Buffer.from('p12-bytes and password.txt');
+
+    test('should store certs encrypted and decrypt them on read', async () => {
+      storage = new FileStorage(testStoragePath, undefined, new CertsKeyring(newKey));
+
+      const saved = await storage.saveBuildCerts('build-1', Readable.from([bundle]));
+
+      expect(saved.sha256).toBe(crypto.createHash('sha256').update(bundle).digest('hex'));
+      expect(readFileSync(saved.path).includes(bundle)).toBe(false);
+      expect(readdirSync(join(testStoragePath, 'tmp'))).toEqual([]);
+      expect((await storage.readBuildCerts(saved.path)).equals(bundle)).toBe(true);
+    });
+
+    test('should not decrypt certs without the master key', async () => {
+      const saved = await new FileStorage(testStoragePath, undefined, new CertsKeyring(oldKey))
+        .saveBuildCerts('build-1', Readable.from([bundle]));
+
+      storage = new FileStorage(testStoragePath, undefined, new CertsKeyring(newKey));
+
+      await expect(storage.readBuildCerts(saved.path)).rejects.toThrow('unknown master key');
+    });
+
+    test('should rewrap certs with the current master key after rotation', async () => {
+      const saved = await new FileStorage(testStoragePath, undefined, new CertsKeyring(oldKey))
+        .saveBuildCerts('build-1', Readable.from([bundle]));
+
+      storage = new FileStorage(testStoragePath, undefined, new CertsKeyring(newKey, [oldKey]));
+
+      expect(await storage.rewrapBuildCerts(saved.path)).toBe('rewrapped');
+      expect(await storage.rewrapBuildCerts(saved.path)).toBe('current');
+
+      const rotated = new FileStorage(testStoragePath, undefined, new CertsKeyring(newKey));
+      expect((await rotated.readBuildCerts(saved.path)).equals(bundle)).toBe(true);
+    });
+
+    test('should read and encrypt certs stored before encryption at rest', async () => {
+      const legacyPath = storage.getBuildCertsPath('legacy');
+      mkdirSync(join(testStoragePath, 'certs'), { recursive: true });
+      writeFileSync(legacyPath, bundle);
+
+      expect((await storage.readBuildCerts(legacyPath)).equals(bundle)).toBe(true);
+      expect(await storage.rewrapBuildCerts(legacyPath)).toBe('encrypted');
+      expect(readFileSync(legacyPath).includes(bundle)).toBe(false);
+      expect((await storage.readBuildCerts(legacyPath)).equals(bundle)).toBe(true);
+    });
+
+    test('should securely delete certs', async () => {
+      const saved = await storage.saveBuildCerts('build-1', Readable.from([bundle]));
+
+      await storage.deleteArtifact(saved.path, { secure: true });
+
+      expect(existsSync(saved.path)).toBe(false);
+    });
+  });
 });
@@ -0,0 +1,171 @@
+import { describe, test, expect } from 'bun:test';
+import type { Build, BuildPriority, Worker } from '../../db/Database';
+import { JobQueue } from '../JobQueue';
+
+describe('JobQueue', () => {
+  const worker = { id: 'worker-1', name: 'Mac mini', capabilities: '{}' } as Worker;
+  let submitted = 0;
+
+  const build = (id: string, submitter: string | null, priority: BuildPriority = 'normal', platform = 'ios') =>
+    ({ id, submitter, priority, platform, requirements: null, status: 'pending', submitted_at: ++submitted }) as Build;
+
+  const drain = (queue: JobQueue) => {
+    const ids: string[] = [];
+    for (let next = queue.assignToWorker(worker); next; next = queue.assignToWorker(worker)) {
+      ids.push(next.id);
+    }
+    return ids;
+  };
+
+  test('should assign higher priorities first', () => {
+    const queue = new JobQueue();
+    queue.enqueue(build('background', 'alice', 'background'));
+    queue.enqueue(build('normal', 'alice'));
+    queue.enqueue(build('urgent', 'alice', 'urgent'));
+
+    expect(drain(queue)).toEqual(['urgent', 'normal', 'background']);
+  });
+
+  test('should alternate between submitters instead of draining the first', () => {
+    const queue = new JobQueue();
+    for (let i = 1; i <= 3; i++) {
+      queue.enqueue(build(`alice-${i}`, 'alice'));
+    }
+    queue.enqueue(build('bob-1', 'bob'));
+    queue.enqueue(build('bob-2', 'bob'));
+
+    expect(drain(queue)).toEqual(['alice-1', 'bob-1', 'alice-2', 'bob-2', 'alice-3']);
+  });
+
+  test('should share in proportion to submitter weights', () => {
+    const queue = new JobQueue({ ci: 2 });
+    for (let i = 1; i <= 4; i++) {
+      queue.enqueue(build(`ci-${i}`, 'ci'));
+    }
+    for (let i = 1; i <= 2; i++) {
+      queue.enqueue(build(`alice-${i}`, 'alice'));
+    }
+
+    expect(drain(queue)).toEqual(['ci-1', 'alice-1', 'ci-2', 'ci-3', 'alice-2', 'ci-4']);
+  });
+
+  test('should not let a returning submitter catch up on unused share', () => {
+    const queue = new JobQueue();
+    for (let i = 1; i <= 4; i++) {
+      queue.enqueue(build(`alice-${i}`, 'alice'));
+    }
+    queue.assignToWorker(worker);
+    queue.assignToWorker(worker);
+    queue.assignToWorker(worker);
+
+    queue.enqueue(build('bob-1', 'bob'));
+    queue.enqueue(build('bob-2', 'bob'));
+
+    // Bob rejoins level with alice, not three builds behind her
+    expect(drain(queue)).toEqual(['bob-1', 'alice-4', 'bob-2']);
+  });
+
+  test('should report positions in assignment order', () => {
+    const queue = new JobQueue();
+    queue.enqueue(build('alice-1', 'alice'));
+    queue.enqueue(build('alice-2', 'alice'));
+    queue.enqueue(build('bob-1', 'bob'));
+    queue.enqueue(build('urgent', null, 'urgent'));
+
+    expect(queue.getPending().map((b) => b.id)).toEqual(['urgent', 'alice-1', 'bob-1', 'alice-2']);
+    expect(queue.getPosition('bob-1')).toBe(3);
+    expect(queue.getPosition('missing')).toBeUndefined();
+
+    // Computing positions must not consume anyone's share
+    expect(queue.peek()?.id).toBe('urgent');
+    expect(drain(queue)).toEqual(['urgent', 'alice-1', 'bob-1', 'alice-2']);
+  });
+
+  test('should update positions as the queue changes', () => {
+    const queue = new JobQueue();
+    queue.enqueue(build('alice-1', 'alice'));
+    queue.enqueue(build('alice-2', 'alice'));
+    expect(queue.getPosition('alice-2')).toBe(2);
+
+    queue.enqueue(build('bob-1', 'bob'));
+    expect(queue.getPending().map((b) => b.id)).toEqual(['alice-1', 'bob-1', 'alice-2']);
+
+    queue.assignToWorker(worker);
+    expect(queue.getPosition('alice-1')).toBeUndefined();
+    expect(queue.getPosition('alice-2')).toBe(2);
+
+    queue.cancel('bob-1');
+    expect(queue.getPosition('alice-2')).toBe(1);
+  });
+
+  test('should drop cancelled pending builds', () => {
+    const queue = new JobQueue();
+    queue.enqueue(build('b1', 'alice'));
+    queue.enqueue(build('b2', 'alice'));
+
+    queue.cancel('b1');
+
+    expect(queue.getPosition('b2')).toBe(1);
+    expect(queue.getStats().pending).toBe(1);
+  });
+
+  test('should free the slot of a cancelled running build', () => {
+    const queue = new JobQueue();
+    const cancelled: Array<[string, string | undefined]> = [];
+    queue.on('job:cancelled', (build: Build, from?: Worker) => cancelled.push([build.id, from?.id]));
+    queue.enqueue(build('b1', 'alice'));
+    queue.assignToWorker(worker);
+
+    queue.cancel('b1');
+    queue.cancel('b1');
+
+    expect(queue.getWorkerBuilds(worker.id)).toEqual([]);
+    expect(cancelled).toEqual([['b1', worker.id]]);
+  });
+
+  test('should skip builds the worker cannot run', () => {
+    const queue = new JobQueue();
+    const androidWorker = { id: 'worker-2', name: 'Linux box', capabilities: '{"platforms":["android"]}' } as Worker;
+    queue.enqueue(build('ios-urgent', 'alice', 'urgent'));
+    queue.enqueue(build('android-1', 'alice', 'normal', 'android'));
+
+    expect(queue.assignToWorker(androidWorker)?.id).toBe('android-1');
+    expect(queue.assignToWorker(androidWorker)).toBeUndefined();
+    expect(queue.getPosition('ios-urgent')).toBe(1);
+  });
+
+  test('should hold retried builds back and prefer other workers', () => {
+    const queue = new JobQueue({}, 60_000);
+    const otherWorker = { id: 'worker-2', name: 'Mac Studio', capabilities: '{}' } as Worker;
+    queue.enqueue(build('b1', 'alice'));
+    queue.assignToWorker(worker, 0);
+
+    queue.retry({ ...build('b1', 'alice'), attempt: 2, retry_after: 1_000 }, [worker.id]);
+    queue.enqueue(build('b2', 'alice'));
+
+    // Backing off: later builds go first
+    expect(queue.assignToWorker(otherWorker, 500)?.id).toBe('b2');
+    queue.complete('b2');
+
+    // The failed worker waits until the preference window ends
+    expect(queue.assignToWorker(worker, 2_000)).toBeUndefined();
+    expect(queue.assignToWorker(worker, 61_000)?.id).toBe('b1');
+  });
+
+  test('should track the builds and free slots of each worker', () => {
+    const queue = new JobQueue();
+    const studio = { ...worker, id: 'studio', max_concurrent_builds: 2 } as Worker;
+    queue.enqueue(build('b1', 'alice'));
+    queue.enqueue(build('b2', 'alice'));
+
+    expect(queue.freeSlots(studio)).toBe(2);
+    queue.assignToWorker(studio);
+    queue.assignToWorker(studio);
+
+    expect(queue.getWorkerBuilds('studio').map((b) => b.id)).toEqual(['b1', 'b2']);
+    expect(queue.freeSlots(studio)).toBe(0);
+
+    queue.complete('b1');
+    expect(queue.freeSlots(studio)).toBe(1);
+  });
+});
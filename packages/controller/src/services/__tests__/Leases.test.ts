@@ -0,0 +1,92 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { SqliteDatabase } from '../../db/SqliteDatabase';
+import type { LeasePolicy, RetryPolicy } from '../../domain/Config';
+import { JobQueue } from '../JobQueue';
+import { leaseExpiry, reclaimExpiredLeases } from '../Leases';
+
+describe('Leases', () => {
+  const now = Date.now();
+  let db: SqliteDatabase;
+  let queue: JobQueue;
+
+  const leases: LeasePolicy = {
+    durationMs: { ios: 120_000, android: 60_000 },
+    checkIntervalMs: 15_000,
+  };
+  const retry: RetryPolicy = {
+    maxAttempts: 2,
+    backoffMs: 30_000,
+    maxBackoffMs: 30_000,
+    preferOtherWorkerMs: 60_000,
+  };
+
+  beforeEach(async () => {
+    db = new SqliteDatabase(':memory:');
+    queue = new JobQueue({}, retry.preferOtherWorkerMs);
+
+    await db.workers.register({ id: 'w1', name: 'Worker w1', status: 'idle', capabilities: '{}', registered_at: now, last_seen_at: now });
+    await db.builds.create({
+      id: 'b1',
+      status: 'pending',
+      platform: 'ios',
+      source_path: 'builds/b1.zip',
+      certs_path: null,
+      submitted_at: now,
+      access_token: 'token-b1',
+      source_sha256: null,
+      certs_sha256: null,
+      source_size: 100,
+      certs_size: null,
+      priority: 'normal',
+      submitter: null,
+      requirements: null,
+      group_id: null,
+      cache_key: null,
+      cached_from: null,
+    });
+    queue.enqueue((await db.builds.get('b1'))!);
+    queue.assignToWorker((await db.workers.get('w1'))!, now);
+    await db.builds.assignToWorker('b1', 'w1', now, leaseExpiry(leases, 'ios', now));
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  test('should size leases per platform', () => {
+    expect(leaseExpiry(leases, 'ios', now)).toBe(now + 120_000);
+    expect(leaseExpiry(leases, 'android', now)).toBe(now + 60_000);
+  });
+
+  test('should keep renewed leases', async () => {
+    expect(await db.builds.renewLease('b1', 'w1', now + 100_000, leaseExpiry(leases, 'ios', now + 100_000))).toBe(true);
+
+    expect(await reclaimExpiredLeases(db, queue, retry, now + 120_000)).toEqual([]);
+    expect(await db.builds.get('b1')).toMatchObject({ status: 'assigned', lease_expires_at: now + 220_000 });
+  });
+
+  test('should reclaim expired leases for a retry and reject the late worker', async () => {
+    const reclaimed = await reclaimExpiredLeases(db, queue, retry, now + 120_000);
+
+    expect(reclaimed.map((build) => build.id)).toEqual(['b1']);
+    expect(await db.builds.get('b1')).toMatchObject({ status: 'pending', attempt: 2, worker_id: null, lease_expires_at: null });
+    expect((await db.workers.get('w1'))?.status).toBe('idle');
+    expect((await db.attempts.list('b1'))[0]).toMatchObject({
+      outcome: 'failed',
+      failure_type: 'infrastructure',
+      error_message: 'Lease expired - no heartbeat from worker for 120s',
+    });
+
+    // Neither a late heartbeat nor a late upload gets the build back
+    expect(await db.builds.renewLease('b1', 'w1', now + 121_000, now + 241_000)).toBe(false);
+    expect(await db.builds.releaseLease('b1', 'w1', 1, now + 121_000)).toBe(false);
+    expect(await reclaimExpiredLeases(db, queue, retry, now + 121_000)).toEqual([]);
+  });
+
+  test('should not reclaim a build whose upload released the lease', async () => {
+    expect(await db.builds.releaseLease('b1', 'w1', 1, now + 60_000)).toBe(true);
+
+    expect(await reclaimExpiredLeases(db, queue, retry, now + 120_000)).toEqual([]);
+    expect((await db.builds.get('b1'))?.attempt).toBe(1);
+  });
+});
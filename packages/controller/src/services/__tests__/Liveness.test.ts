@@ -0,0 +1,102 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { SqliteDatabase } from '../../db/SqliteDatabase';
+import type { LivenessPolicy, RetryPolicy } from '../../domain/Config';
+import { JobQueue } from '../JobQueue';
+import { markOfflineWorkers, summarizeUptime } from '../Liveness';
+
+describe('Liveness', () => {
+  const now = Date.now();
+  let db: SqliteDatabase;
+  let queue: JobQueue;
+
+  const liveness: LivenessPolicy = { offlineAfterMs: 120_000, checkIntervalMs: 30_000 };
+  const retry: RetryPolicy = {
+    maxAttempts: 2,
+    backoffMs: 30_000,
+    maxBackoffMs: 30_000,
+    preferOtherWorkerMs: 60_000,
+  };
+
+  beforeEach(async () => {
+    db = new SqliteDatabase(':memory:');
+    queue = new JobQueue({}, retry.preferOtherWorkerMs);
+
+    for (const id of ['w1', 'w2']) {
+      await db.workers.register({ id, name: `Worker ${id}`, status: 'idle', capabilities: '{}', registered_at: now, last_seen_at: now });
+    }
+    await db.builds.create({
+      id: 'b1',
+      status: 'pending',
+      platform: 'ios',
+      source_path: 'builds/b1.zip',
+      certs_path: null,
+      submitted_at: now,
+      access_token: 'token-b1',
+      source_sha256: null,
+      certs_sha256: null,
+      source_size: 100,
+      certs_size: null,
+      priority: 'normal',
+      submitter: null,
+      requirements: null,
+      group_id: null,
+      cache_key: null,
+      cached_from: null,
+    });
+    queue.enqueue((await db.builds.get('b1'))!);
+    queue.assignToWorker((await db.workers.get('w1'))!, now);
+    await db.builds.assignToWorker('b1', 'w1', now, now + 600_000);
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  test('should mark silent workers offline and reclaim their builds', async () => {
+    await db.workers.markSeen('w2', now + 100_000);
+
+    const offline = await markOfflineWorkers(db, queue, liveness, retry, now + 130_000);
+
+    expect(offline.map(({ worker, reclaimed }) => [worker.id, reclaimed.map((b) => b.id)])).toEqual([['w1', ['b1']]]);
+    expect(await db.workers.get('w1')).toMatchObject({ status: 'offline', active_builds: 0 });
+    expect((await db.workers.get('w2'))?.status).toBe('idle');
+    expect(await db.builds.get('b1')).toMatchObject({ status: 'pending', attempt: 2, worker_id: null });
+    expect((await db.attempts.list('b1'))[0]).toMatchObject({
+      failure_type: 'infrastructure',
+      error_message: 'Worker went offline - not seen for 130s',
+    });
+    expect(queue.getWorkerBuilds('w1')).toEqual([]);
+
+    // Its lease is gone, so a late upload is rejected; a second check is a no-op
+    expect(await db.builds.releaseLease('b1', 'w1', 1, now + 131_000)).toBe(false);
+    expect(await markOfflineWorkers(db, queue, liveness, retry, now + 160_000)).toEqual([]);
+  });
+
+  test('should bring offline workers back with a new session', async () => {
+    await markOfflineWorkers(db, queue, liveness, retry, now + 130_000);
+
+    expect(await db.workers.markSeen('w1', now + 200_000)).toBe(true);
+    expect(await db.workers.markSeen('w1', now + 210_000)).toBe(false);
+    expect(await db.workers.get('w1')).toMatchObject({ status: 'idle', last_seen_at: now + 210_000 });
+
+    const sessions = await db.workers.listSessions('w1', now - 1);
+    expect(sessions.map(({ online_at, offline_at }) => [online_at, offline_at])).toEqual([
+      [now + 200_000, null],
+      [now, now],
+    ]);
+  });
+
+  test('should summarize time online', () => {
+    const sessions = [
+      { id: 2, worker_id: 'w1', online_at: now + 60_000, offline_at: null },
+      { id: 1, worker_id: 'w1', online_at: now - 60_000, offline_at: now + 20_000 },
+    ];
+
+    expect(summarizeUptime({ registered_at: now - 60_000 }, sessions, now, now + 100_000)).toEqual({
+      onlineMs: 60_000,
+      uptimePercent: 60,
+      onlineSince: now + 60_000,
+    });
+    expect(summarizeUptime({ registered_at: now }, sessions.slice(1), now, now + 100_000).onlineSince).toBeNull();
+  });
+});
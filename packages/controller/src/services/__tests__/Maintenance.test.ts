@@ -0,0 +1,103 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import type { Build, Worker } from '../../db/Database';
+import { SqliteDatabase } from '../../db/SqliteDatabase';
+import { explainWaiting, getPastQueuePauses, getQueuePause, pauseQueue, resumeQueue, workerAvailability } from '../Maintenance';
+
+describe('Maintenance', () => {
+  const worker = (name: string, overrides: Partial<Worker> = {}) =>
+    ({
+      id: name,
+      name,
+      status: 'idle',
+      capabilities: JSON.stringify({ platforms: ['ios'] }),
+      active_builds: 0,
+      drain_requested_at: null,
+      paused_at: null,
+      ...overrides,
+    }) as Worker;
+
+  const build = { id: 'b1', platform: 'ios', requirements: null } as Build;
+
+  test('should report draining until the last build finishes', () => {
+    expect(workerAvailability(worker('w1'))).toBe('available');
+    expect(workerAvailability(worker('w1', { paused_at: 1000 }))).toBe('paused');
+    expect(workerAvailability(worker('w1', { drain_requested_at: 1000, active_builds: 1 }))).toBe('draining');
+    expect(workerAvailability(worker('w1', { drain_requested_at: 1000, paused_at: 1000 }))).toBe('drained');
+  });
+
+  test('should explain builds waiting on held workers or a paused queue', () => {
+    const available = worker('available');
+    const draining = worker('draining', { drain_requested_at: 1000, active_builds: 1 });
+    const paused = worker('paused', { paused_at: 1000 });
+    const offline = worker('offline', { status: 'offline' });
+
+    expect(explainWaiting(build, [available, draining], null)).toBeNull();
+    expect(explainWaiting(build, [draining, paused, offline], null)).toBe(
+      'Every worker that can run this build is draining or paused: draining, paused'
+    );
+    expect(explainWaiting(build, [offline], null)).toBe('No workers are registered');
+    expect(explainWaiting(build, [available], { pausedAt: 1000, reason: null })).toBe(
+      'The queue is paused for maintenance'
+    );
+  });
+
+  describe('queue pause', () => {
+    let db: SqliteDatabase;
+
+    beforeEach(() => {
+      db = new SqliteDatabase(':memory:');
+    });
+
+    afterEach(async () => {
+      await db.close();
+    });
+
+    test('should persist until resumed, keeping the original time', async () => {
+      expect(await getQueuePause(db)).toBeNull();
+
+      await pauseQueue(db, 'Xcode update', 1000);
+      expect(await pauseQueue(db, 'Controller upgrade', 2000)).toEqual({ pausedAt: 1000, reason: 'Controller upgrade' });
+      expect(await getQueuePause(db)).toEqual({ pausedAt: 1000, reason: 'Controller upgrade' });
+
+      expect(await resumeQueue(db)).toBe(true);
+      expect(await resumeQueue(db)).toBe(false);
+      expect(await getQueuePause(db)).toBeNull();
+    });
+
+    test('should record past pauses only while a build that waited through them is unfinished', async () => {
+      await db.builds.create({
+        id: 'b1',
+        status: 'pending',
+        platform: 'ios',
+        source_path: 'builds/b1.zip',
+        certs_path: null,
+        submitted_at: 1500,
+        access_token: 'token-b1',
+        source_sha256: null,
+        certs_sha256: null,
+        source_size: 100,
+        certs_size: null,
+        priority: 'normal',
+        submitter: null,
+        requirements: null,
+        group_id: null,
+        cache_key: null,
+        cached_from: null,
+      });
+
+      await pauseQueue(db, null, 1000);
+      await resumeQueue(db, 2000);
+      await pauseQueue(db, null, 3000);
+      await resumeQueue(db, 4000);
+      expect(await getPastQueuePauses(db)).toEqual([
+        { pausedAt: 1000, resumedAt: 2000 },
+        { pausedAt: 3000, resumedAt: 4000 },
+      ]);
+
+      await db.builds.cancel('b1', 4500, 'Cancelled');
+      await pauseQueue(db, null, 5000);
+      await resumeQueue(db, 6000);
+      expect(await getPastQueuePauses(db)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,235 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { rmSync, existsSync } from 'fs';
+import { join } from 'path';
+import { Readable } from 'stream';
+import type { Build } from '../../db/Database';
+import { SqliteDatabase } from '../../db/SqliteDatabase';
+import { FileStorage } from '../FileStorage';
+import type { RetentionPolicy } from '../../domain/Config';
+import { runRetention, deleteFinishedBuildCerts } from '../Retention';
+import { storeBlob } from '../Blobs';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('Retention', () => {
+  const testStoragePath = join(process.cwd(), '.test-retention');
+  const now = Date.now();
+  let db: SqliteDatabase;
+  let storage: FileStorage;
+
+  const keepEverything: RetentionPolicy = {
+    deleteCertsOnCompletion: false,
+    sourceRetentionDays: null,
+    resultRetentionDays: null,
+    logRetentionDays: null,
+    storageQuotaBytes: null,
+    sweepIntervalMs: 60_000,
+  };
+
+  beforeEach(() => {
+    rmSync(testStoragePath, { recursive: true, force: true });
+    db = new SqliteDatabase(':memory:');
+    storage = new FileStorage(testStoragePath);
+  });
+
+  afterEach(async () => {
+    await db.close();
+    rmSync(testStoragePath, { recursive: true, force: true });
+  });
+
+  /**
+   * Store source, certs and result of `size` bytes each for a build that
+   * finished `ageDays` ago (certs take 100 bytes more, encrypted)
+   */
+  async function finishedBuild(id: string, ageDays: number, size = 100, status: Build['status'] = 'completed'): Promise<Build> {
+    const content = () => Readable.from([Buffer.alloc(size)]);
+    const source = await storage.saveBuildSource(id, content());
+    const certs = await storage.saveBuildCerts(id, content());
+    const result = await storage.saveBuildResult(id, content(), 'ipa');
+
+    await db.builds.create({
+      id,
+      status: 'pending',
+      platform: 'ios',
+      source_path: source.path,
+      certs_path: certs.path,
+      submitted_at: now - ageDays * DAY_MS - 1000,
+      access_token: `token-${id}`,
+      source_sha256: source.sha256,
+      certs_sha256: certs.sha256,
+      source_size: source.size,
+      certs_size: certs.size,
+      priority: 'normal',
+      submitter: null,
+      requirements: null,
+      group_id: null,
+      cache_key: null,
+      cached_from: null,
+    });
+    await db.builds.updateStatus(id, status, {
+      completed_at: now - ageDays * DAY_MS,
+      result_path: result.path,
+      result_sha256: result.sha256,
+      result_size: result.size,
+    });
+    await db.logs.add({ build_id: id, timestamp: now - ageDays * DAY_MS, level: 'info', message: 'done' });
+
+    return (await db.builds.get(id))!;
+  }
+
+  test('should keep everything by default', async () => {
+    await finishedBuild('old', 365);
+
+    const report = await runRetention(db, storage, keepEverything, { now });
+
+    expect(report.actions).toEqual([]);
+    expect(report.stored_bytes).toBe(400);
+    expect(report.logs_deleted).toBe(0);
+  });
+
+  test('should delete sources, certs, results and logs by age', async () => {
+    const old = await finishedBuild('old', 40);
+    await finishedBuild('recent', 5);
+
+    const report = await runRetention(db, storage, {
+      ...keepEverything,
+      sourceRetentionDays: 30,
+      resultRetentionDays: 30,
+      logRetentionDays: 30,
+    }, { now });
+
+    expect(report.actions.map((a) => `${a.build_id}:${a.artifact}:${a.reason}`)).toEqual([
+      'old:source:source_expired',
+      'old:certs:source_expired',
+      'old:result:result_expired',
+    ]);
+    expect(report.reclaimed_bytes).toBe(400);
+    expect(report.logs_deleted).toBe(1);
+    expect(existsSync(old.source_path)).toBe(false);
+    expect(existsSync(old.result_path!)).toBe(false);
+    expect(await storage.buildResultExists('recent', 'ipa')).toBe(true);
+
+    const updated = (await db.builds.get('old'))!;
+    expect(updated.source_deleted_at).toBe(now);
+    expect(updated.result_deleted_at).toBe(now);
+    expect(await db.logs.list('recent')).toHaveLength(1);
+  });
+
+  test('should only report in dry run', async () => {
+    const old = await finishedBuild('old', 40);
+
+    const report = await runRetention(db, storage, {
+      ...keepEverything,
+      resultRetentionDays: 30,
+      logRetentionDays: 30,
+    }, { now, dryRun: true });
+
+    expect(report.dry_run).toBe(true);
+    expect(report.actions).toHaveLength(1);
+    expect(report.reclaimed_bytes).toBe(100);
+    expect(report.logs_deleted).toBe(1);
+    expect(existsSync(old.result_path!)).toBe(true);
+    expect((await db.builds.get('old'))!.result_deleted_at).toBeNull();
+    expect(await db.logs.list('old')).toHaveLength(1);
+  });
+
+  test('should never sweep pinned or unfinished builds', async () => {
+    await finishedBuild('pinned', 40);
+    await db.builds.setPinned('pinned', true);
+    await finishedBuild('running', 40, 100, 'building');
+
+    const report = await runRetention(db, storage, {
+      ...keepEverything,
+      deleteCertsOnCompletion: true,
+      sourceRetentionDays: 1,
+      resultRetentionDays: 1,
+      logRetentionDays: 1,
+      storageQuotaBytes: 0,
+    }, { now });
+
+    expect(report.actions).toEqual([]);
+    expect(report.logs_deleted).toBe(0);
+  });
+
+  test('should evict least recently used builds above the quota', async () => {
+    await finishedBuild('oldest', 3);
+    await finishedBuild('downloaded', 2);
+    await finishedBuild('newest', 1);
+    await db.builds.updateAccessed('downloaded', now);
+
+    const report = await runRetention(db, storage, {
+      ...keepEverything,
+      storageQuotaBytes: 450,
+    }, { now });
+
+    // 1200 bytes stored: evicting "oldest" is not enough, "newest" goes next
+    // because "downloaded" was used more recently
+    expect([...new Set(report.actions.map((a) => a.build_id))]).toEqual(['oldest', 'newest']);
+    expect(report.actions.every((a) => a.reason === 'quota')).toBe(true);
+    expect(await storage.buildResultExists('downloaded', 'ipa')).toBe(true);
+  });
+
+  test('should count age-based deletions towards the quota', async () => {
+    await finishedBuild('old', 40);
+    await finishedBuild('recent', 1);
+
+    const report = await runRetention(db, storage, {
+      ...keepEverything,
+      resultRetentionDays: 30,
+      storageQuotaBytes: 450,
+    }, { now });
+
+    // 800 - 100 expired is still over quota, so the rest of "old" is evicted
+    expect(report.actions.map((a) => `${a.build_id}:${a.artifact}:${a.reason}`)).toEqual([
+      'old:result:result_expired',
+      'old:source:quota',
+      'old:certs:quota',
+    ]);
+  });
+
+  test('should only reclaim shared blobs once no build references them', async () => {
+    const blob = await storeBlob(db, storage, await storage.stageUpload(Readable.from([Buffer.alloc(100)])));
+    for (const [id, ageDays] of [['old', 40], ['retry', 1]] as const) {
+      await db.builds.create({
+        id,
+        status: 'pending',
+        platform: 'android',
+        source_path: blob.path,
+        certs_path: null,
+        submitted_at: now - ageDays * DAY_MS,
+        access_token: `token-${id}`,
+        source_sha256: blob.sha256,
+        certs_sha256: null,
+        source_size: blob.size,
+        certs_size: null,
+        priority: 'normal',
+        submitter: null,
+        requirements: null,
+        group_id: null,
+        cache_key: null,
+        cached_from: null,
+      });
+      await db.builds.updateStatus(id, 'completed', { completed_at: now - ageDays * DAY_MS });
+    }
+    await db.blobs.addReference(blob.sha256);
+
+    const report = await runRetention(db, storage, { ...keepEverything, sourceRetentionDays: 30 }, { now });
+
+    expect(report.stored_bytes).toBe(100);
+    expect(report.actions.map((a) => a.build_id)).toEqual(['old']);
+    expect(report.reclaimed_bytes).toBe(0);
+    expect(existsSync(blob.path)).toBe(true);
+    expect((await db.blobs.get(blob.sha256))?.ref_count).toBe(1);
+  });
+
+  test('should delete certs of finished builds immediately', async () => {
+    const build = await finishedBuild('done', 0, 100, 'failed');
+
+    expect(await deleteFinishedBuildCerts(db, storage, 'done', now)).toBe(true);
+    expect(existsSync(build.certs_path!)).toBe(false);
+    expect((await db.builds.get('done'))!.certs_deleted_at).toBe(now);
+
+    // Already deleted
+    expect(await deleteFinishedBuildCerts(db, storage, 'done', now)).toBe(false);
+  });
+});
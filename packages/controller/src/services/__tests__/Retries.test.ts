@@ -0,0 +1,116 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import type { Build } from '../../db/Database';
+import { SqliteDatabase } from '../../db/SqliteDatabase';
+import type { RetryPolicy } from '../../domain/Config';
+import { JobQueue } from '../JobQueue';
+import { failAttempt, retryDelay } from '../Retries';
+
+describe('Retries', () => {
+  const now = Date.now();
+  let db: SqliteDatabase;
+  let queue: JobQueue;
+
+  const policy: RetryPolicy = {
+    maxAttempts: 3,
+    backoffMs: 30_000,
+    maxBackoffMs: 45_000,
+    preferOtherWorkerMs: 60_000,
+  };
+
+  beforeEach(async () => {
+    db = new SqliteDatabase(':memory:');
+    queue = new JobQueue({}, policy.preferOtherWorkerMs);
+
+    for (const id of ['w1', 'w2']) {
+      await db.workers.register({ id, name: `Worker ${id}`, status: 'idle', capabilities: '{}', registered_at: now, last_seen_at: now });
+    }
+    await db.builds.create({
+      id: 'b1',
+      status: 'pending',
+      platform: 'ios',
+      source_path: 'builds/b1.zip',
+      certs_path: null,
+      submitted_at: now,
+      access_token: 'token-b1',
+      source_sha256: null,
+      certs_sha256: null,
+      source_size: 100,
+      certs_size: null,
+      priority: 'normal',
+      submitter: null,
+      requirements: null,
+      group_id: null,
+      cache_key: null,
+      cached_from: null,
+    });
+    queue.enqueue((await db.builds.get('b1'))!);
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  /**
+   * Dispatch b1 to a worker the way the poll route does
+   */
+  async function run(workerId: string, timestamp: number): Promise<Build> {
+    const assigned = queue.assignToWorker((await db.workers.get(workerId))!, timestamp);
+    expect(assigned?.id).toBe('b1');
+    expect(await db.builds.assignToWorker('b1', workerId, timestamp, timestamp + 120_000)).toBe(true);
+    return (await db.builds.get('b1'))!;
+  }
+
+  test('should double the backoff up to the maximum', () => {
+    expect([1, 2, 3].map((attempt) => retryDelay(policy, attempt))).toEqual([30_000, 45_000, 45_000]);
+  });
+
+  test('should retry infrastructure failures on another worker', async () => {
+    const first = await run('w1', now);
+
+    expect(await failAttempt(db, queue, policy, first, { type: 'infrastructure', message: 'Worker lost' }, now + 10)).toBe(true);
+
+    const pending = (await db.builds.get('b1'))!;
+    expect(pending).toMatchObject({ status: 'pending', attempt: 2, retry_after: now + 30_010, worker_id: null });
+
+    // w1 is passed over once the backoff has elapsed, w2 is not
+    expect(queue.assignToWorker((await db.workers.get('w1'))!, now + 30_010)).toBeUndefined();
+    const second = await run('w2', now + 30_010);
+    await db.logs.add({ build_id: 'b1', timestamp: now + 30_020, level: 'info', message: 'Compiling' });
+
+    expect((await db.attempts.list('b1')).map(({ attempt, worker_id, outcome, failure_type }) => ({ attempt, worker_id, outcome, failure_type }))).toEqual([
+      { attempt: 1, worker_id: 'w1', outcome: 'failed', failure_type: 'infrastructure' },
+      { attempt: 2, worker_id: 'w2', outcome: null, failure_type: null },
+    ]);
+    expect(second.started_at).toBe(now + 30_010);
+    expect((await db.logs.list('b1')).map((log) => [log.attempt, log.message])).toEqual([
+      [1, 'Attempt 1 failed: Worker lost'],
+      [2, 'Retrying in 30s (attempt 2 of 3)'],
+      [2, 'Compiling'],
+    ]);
+  });
+
+  test('should not retry build failures', async () => {
+    const first = await run('w1', now);
+
+    expect(await failAttempt(db, queue, policy, first, { type: 'build', message: 'Compilation error' }, now + 10)).toBe(false);
+
+    expect(await db.builds.get('b1')).toMatchObject({ status: 'failed', attempt: 1, error_message: 'Compilation error' });
+    expect(queue.getStats()).toEqual({ pending: 0, active: 0, total: 0 });
+  });
+
+  test('should fail the build once attempts are used up', async () => {
+    let timestamp = now;
+    for (const workerId of ['w1', 'w2', 'w1']) {
+      const build = await run(workerId, timestamp);
+      await failAttempt(db, queue, policy, build, { type: 'infrastructure', message: 'Worker lost' }, timestamp);
+      timestamp += 10 * 60_000;
+    }
+
+    expect(await db.builds.get('b1')).toMatchObject({
+      status: 'failed',
+      attempt: 3,
+      error_message: 'Worker lost (attempt 3 of 3)',
+    });
+    expect(await db.attempts.list('b1')).toHaveLength(3);
+  });
+});
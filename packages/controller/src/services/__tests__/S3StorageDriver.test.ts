@@ -0,0 +1,169 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach, afterEach } from 'bun:test';
+import { mkdirSync, rmSync, writeFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { Readable } from 'stream';
+import { S3StorageDriver } from '../S3StorageDriver';
+import { FileStorage } from '../FileStorage';
+
+/**
+ * Minimal in-memory S3 (path-style) supporting the calls the driver makes
+ */
+function startFakeS3() {
+  const objects = new Map<string, { body: Uint8Array; lastModified: Date }>();
+
+  const server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const key = decodeURIComponent(new URL(req.url).pathname);
+      const object = objects.get(key);
+      const notFound = () =>
+        new Response('<Error><Code>NoSuchKey</Code><Message>Not found</Message></Error>', {
+          status: 404,
+          headers: { 'Content-Type': 'application/xml' },
+        });
+
+      switch (req.method) {
+        case 'PUT':
+          objects.set(key, { body: new Uint8Array(await req.arrayBuffer()), lastModified: new Date() });
+          return new Response(null, { status: 200, headers: { ETag: '"etag"' } });
+        case 'HEAD':
+          if (!object) return new Response(null, { status: 404 });
+          return new Response(null, {
+            headers: {
+              'Content-Length': String(object.body.length),
+              'Last-Modified': object.lastModified.toUTCString(),
+              ETag: '"etag"',
+            },
+          });
+        case 'GET': {
+          if (!object) return notFound();
+          const match = /^bytes=(\d+)-(\d*)$/.exec(req.headers.get('range') ?? '');
+          if (match) {
+            const start = Number(match[1]);
+            const end = match[2] ? Number(match[2]) : object.body.length - 1;
+            return new Response(object.body.slice(start, end + 1), {
+              status: 206,
+              headers: { 'Content-Range': `bytes ${start}-${end}/${object.body.length}` },
+            });
+          }
+          return new Response(object.body);
+        }
+        case 'DELETE':
+          objects.delete(key);
+          return new Response(null, { status: 204 });
+        default:
+          return new Response(null, { status: 405 });
+      }
+    },
+  });
+
+  return { server, objects };
+}
+
+async function readAll(stream: Readable): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString();
+}
+
+describe('S3StorageDriver', () => {
+  const tmpPath = join(process.cwd(), '.test-s3-storage');
+  let fake: ReturnType<typeof startFakeS3>;
+  let driver: S3StorageDriver;
+
+  beforeAll(() => {
+    fake = startFakeS3();
+  });
+
+  afterAll(() => {
+    fake.server.stop(true);
+  });
+
+  beforeEach(() => {
+    fake.objects.clear();
+    rmSync(tmpPath, { recursive: true, force: true });
+    mkdirSync(tmpPath, { recursive: true });
+    driver = new S3StorageDriver({
+      bucket: 'artifacts',
+      endpoint: `http://localhost:${fake.server.port}`,
+      accessKeyId: 'test',
+      secretAccessKey: 'test',
+      region: 'us-east-1',
+      prefix: 'expo/',
+    });
+  });
+
+  afterEach(() => {
+    rmSync(tmpPath, { recursive: true, force: true });
+  });
+
+  function localFile(name: string, content: string): string {
+    const filePath = join(tmpPath, name);
+    writeFileSync(filePath, content);
+    return filePath;
+  }
+
+  test('should upload files under the prefix and take ownership of them', async () => {
+    const filePath = localFile('source.zip', 'source-bytes');
+
+    await driver.putFile('builds/b1.zip', filePath);
+
+    expect(fake.objects.has('/artifacts/expo/builds/b1.zip')).toBe(true);
+    expect(existsSync(filePath)).toBe(false);
+  });
+
+  test('should stat, read and range-read objects', async () => {
+    await driver.putFile('builds/b1.zip', localFile('source.zip', '0123456789'));
+
+    const stats = await driver.stat('builds/b1.zip');
+    expect(stats?.size).toBe(10);
+    expect(stats?.mtimeMs).toBeGreaterThan(0);
+
+    expect(await readAll(driver.createReadStream('builds/b1.zip'))).toBe('0123456789');
+    expect(await readAll(driver.createReadStream('builds/b1.zip', { start: 2, end: 5 }))).toBe('2345');
+  });
+
+  test('should return null stats for missing objects', async () => {
+    expect(await driver.stat('builds/missing.zip')).toBeNull();
+  });
+
+  test('should copy and delete objects', async () => {
+    await driver.putFile('builds/b1.zip', localFile('source.zip', 'copy-me'));
+
+    await driver.copy('builds/b1.zip', 'builds/b2.zip');
+    expect(await readAll(driver.createReadStream('builds/b2.zip'))).toBe('copy-me');
+
+    await driver.delete('builds/b1.zip');
+    expect(await driver.stat('builds/b1.zip')).toBeNull();
+    expect(await driver.stat('builds/b2.zip')).not.toBeNull();
+  });
+
+  test('should map keys to s3:// locations and back', () => {
+    const location = driver.locate('results/b1.ipa');
+
+    expect(location).toBe('s3://artifacts/expo/results/b1.ipa');
+    expect(driver.resolveKey(location)).toBe('results/b1.ipa');
+  });
+
+  test('should reject locations outside the bucket and traversal keys', () => {
+    expect(() => driver.resolveKey('s3://other/expo/builds/b1.zip')).toThrow('not in bucket');
+    expect(() => driver.resolveKey('/var/lib/builds/b1.zip')).toThrow('not in bucket');
+    expect(() => driver.resolveKey('s3://artifacts/expo/../secrets')).toThrow('Path traversal attempt blocked');
+    expect(() => driver.locate('/etc/passwd')).toThrow('Path traversal attempt blocked');
+  });
+
+  test('should back FileStorage with staged uploads committed to the bucket', async () => {
+    const storage = new FileStorage(tmpPath, driver);
+    const staged = await storage.stageUpload(Readable.from([Buffer.from('ipa-bytes')]));
+
+    const committed = await storage.commitBuildResult('b1', staged, 'ipa');
+
+    expect(committed.path).toBe('s3://artifacts/expo/results/b1.ipa');
+    expect(existsSync(staged.path)).toBe(false);
+    expect(await storage.buildResultExists('b1', 'ipa')).toBe(true);
+    expect((await storage.getFileStats(committed.path)).size).toBe(9);
+    expect(await readAll(storage.createReadStream(committed.path))).toBe('ipa-bytes');
+  });
+});
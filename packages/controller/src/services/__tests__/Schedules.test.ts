@@ -0,0 +1,150 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { execFileSync } from 'child_process';
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { Readable } from 'stream';
+import AdmZip from 'adm-zip';
+import type { Schedule } from '../../db/Database';
+import { SqliteDatabase } from '../../db/SqliteDatabase';
+import { FileStorage } from '../FileStorage';
+import { JobQueue } from '../JobQueue';
+import { acquireBlob, storeBlob } from '../Blobs';
+import { deleteSchedule, fetchGitSource, MISSED_RUN_GRACE_MS, runDueSchedules } from '../Schedules';
+
+describe('Schedules', () => {
+  const testDir = join(process.cwd(), '.test-schedules');
+  const HOUR_MS = 60 * 60 * 1000;
+  const start = Date.parse('2026-03-10T02:00:00Z');
+  let db: SqliteDatabase;
+  let storage: FileStorage;
+  let queue: JobQueue;
+  let sourceSha256: string;
+
+  beforeEach(async () => {
+    rmSync(testDir, { recursive: true, force: true });
+    db = new SqliteDatabase(':memory:');
+    storage = new FileStorage(join(testDir, 'storage'));
+    queue = new JobQueue();
+
+    // Held by the schedule, as the create route does
+    sourceSha256 = (await storeBlob(db, storage, await storage.stageUpload(Readable.from([Buffer.from('source-zip')])))).sha256;
+  });
+
+  afterEach(async () => {
+    await db.close();
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  const createSchedule = async (overrides: Partial<Schedule> = {}) => {
+    await db.schedules.create({
+      id: 's1',
+      name: 'nightly',
+      cron: '0 * * * *',
+      platforms: 'ios',
+      source_sha256: sourceSha256,
+      certs_sha256: null,
+      git_url: null,
+      git_ref: null,
+      priority: 'background',
+      submitter: 'ci',
+      requirements: null,
+      catch_up: 1,
+      created_at: start - HOUR_MS,
+      next_run_at: start,
+      ...overrides,
+    });
+  };
+
+  test('should submit a due schedule once and move it to its next run', async () => {
+    await createSchedule({ platforms: 'android,ios' });
+
+    expect(await runDueSchedules(db, queue, storage, start - 1)).toEqual([]);
+
+    const [run] = await runDueSchedules(db, queue, storage, start + 1000);
+    expect(run).toMatchObject({ outcome: 'triggered', scheduled_for: start });
+    expect(await runDueSchedules(db, queue, storage, start + 2000)).toEqual([]);
+
+    const builds = await db.builds.listByGroup(run.build_id!);
+    expect(builds.map((build) => [build.platform, build.priority, build.submitter])).toEqual([
+      ['android', 'background', 'ci'],
+      ['ios', 'background', 'ci'],
+    ]);
+    expect(queue.getStats().pending).toBe(2);
+    expect(await db.schedules.get('s1')).toMatchObject({ next_run_at: start + HOUR_MS, last_run_at: start + 1000 });
+
+    // The schedule's own reference plus one per build
+    expect((await db.blobs.get(sourceSha256))?.ref_count).toBe(3);
+  });
+
+  test('should run once for runs missed during downtime when catching up', async () => {
+    await createSchedule();
+
+    const runs = await runDueSchedules(db, queue, storage, start + 3 * HOUR_MS + 10 * 60_000);
+
+    expect(runs.map((run) => [run.outcome, run.scheduled_for])).toEqual([
+      ['missed', start],
+      ['triggered', start + 3 * HOUR_MS],
+    ]);
+    expect(runs[0].error_message).toBe('Missed 3 runs while the controller was down; ran once to catch up');
+    expect(await db.schedules.get('s1')).toMatchObject({ next_run_at: start + 4 * HOUR_MS });
+  });
+
+  test('should skip late runs of schedules that do not catch up', async () => {
+    await createSchedule({ catch_up: 0 });
+
+    const late = await runDueSchedules(db, queue, storage, start + MISSED_RUN_GRACE_MS + 1);
+    expect(late.map((run) => run.outcome)).toEqual(['missed']);
+    expect(queue.getStats().pending).toBe(0);
+
+    const onTime = await runDueSchedules(db, queue, storage, start + HOUR_MS + 1000);
+    expect(onTime.map((run) => run.outcome)).toEqual(['triggered']);
+  });
+
+  test('should record runs whose source is gone as failed', async () => {
+    await createSchedule({ source_sha256: 'f'.repeat(64) });
+
+    const [run] = await runDueSchedules(db, queue, storage, start);
+
+    expect(run).toMatchObject({ outcome: 'failed', build_id: null });
+    expect(run.error_message).toContain('no longer available');
+    expect((await db.schedules.listRuns('s1')).map((entry) => entry.outcome)).toEqual(['failed']);
+  });
+
+  test('should release what a run acquired when its builds cannot be submitted', async () => {
+    // Unparseable platforms fail the submission before any build is created
+    await createSchedule({ platforms: 'windows' });
+
+    const [run] = await runDueSchedules(db, queue, storage, start);
+
+    expect(run).toMatchObject({ outcome: 'failed', build_id: null });
+    expect((await db.blobs.get(sourceSha256))?.ref_count).toBe(1);
+  });
+
+  test('should release the stored source when deleted', async () => {
+    await createSchedule();
+    await acquireBlob(db, storage, sourceSha256); // A build still uses it
+
+    await deleteSchedule(db, storage, (await db.schedules.get('s1'))!);
+
+    expect(await db.schedules.get('s1')).toBeUndefined();
+    expect((await db.blobs.get(sourceSha256))?.ref_count).toBe(1);
+  });
+
+  test('should zip a git branch without its history', async () => {
+    const repo = join(testDir, 'repo');
+    mkdirSync(repo, { recursive: true });
+    writeFileSync(join(repo, 'app.json'), '{"expo":{}}');
+    const git = (...args: string[]) =>
+      execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], { cwd: repo, stdio: 'pipe' });
+    git('init', '--quiet', '--initial-branch=main');
+    git('add', '.');
+    git('commit', '--quiet', '-m', 'initial');
+
+    const staged = await fetchGitSource(storage, repo, 'main');
+    const zip = new AdmZip(readFileSync(staged.path));
+
+    expect(zip.getEntries().map((entry) => entry.entryName)).toEqual(['app.json']);
+    await expect(fetchGitSource(storage, repo, 'no-such-branch')).rejects.toThrow('git clone of no-such-branch failed');
+    await expect(fetchGitSource(storage, repo, '--upload-pack=evil')).rejects.toThrow('Invalid git ref');
+  });
+});
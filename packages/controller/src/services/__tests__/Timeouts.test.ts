@@ -0,0 +1,164 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import type { Build } from '../../db/Database';
+import { SqliteDatabase } from '../../db/SqliteDatabase';
+import type { TimeoutPolicy } from '../../domain/Config';
+import { JobQueue } from '../JobQueue';
+import { pauseQueue, resumeQueue } from '../Maintenance';
+import { enforceTimeouts, formatLimit, parseTimeoutFields, timeoutDeadline } from '../Timeouts';
+
+describe('Timeouts', () => {
+  const now = Date.now();
+  const MINUTE_MS = 60_000;
+
+  const timeouts: TimeoutPolicy = {
+    maxQueueWaitMs: { ios: 30 * MINUTE_MS, android: null },
+    maxDurationMs: { ios: 60 * MINUTE_MS, android: 20 * MINUTE_MS },
+    checkIntervalMs: 15_000,
+  };
+
+  test('should only let submitters tighten the controller limits', () => {
+    expect(parseTimeoutFields({ max_duration_seconds: '600' }, timeouts, ['ios', 'android'])).toEqual({ max_duration_ms: 600_000 });
+    expect(parseTimeoutFields({ max_queue_wait_seconds: '7200' }, timeouts, ['android'])).toEqual({ max_queue_wait_ms: 7_200_000 });
+    expect(parseTimeoutFields({ max_queue_wait_seconds: '7200' }, timeouts, ['ios'])).toBe(
+      "max_queue_wait_seconds exceeds the controller's ios limit of 30m"
+    );
+    expect(parseTimeoutFields({ max_duration_seconds: '1800' }, timeouts, ['ios', 'android'])).toBe(
+      "max_duration_seconds exceeds the controller's android limit of 20m"
+    );
+    expect(parseTimeoutFields({ max_duration_seconds: '1.5' }, timeouts, ['ios'])).toBe(
+      'max_duration_seconds must be a positive whole number of seconds'
+    );
+  });
+
+  test('should time pending builds from submission or a due retry and running ones from their start', () => {
+    const build = (overrides: Partial<Build>) =>
+      ({
+        status: 'pending',
+        platform: 'ios',
+        submitted_at: now,
+        retry_after: null,
+        started_at: null,
+        max_queue_wait_ms: null,
+        max_duration_ms: null,
+        ...overrides,
+      }) as Build;
+
+    expect(timeoutDeadline(timeouts, build({}))).toBe(now + 30 * MINUTE_MS);
+    expect(timeoutDeadline(timeouts, build({ retry_after: now + MINUTE_MS }))).toBe(now + 31 * MINUTE_MS);
+    expect(timeoutDeadline(timeouts, build({ max_queue_wait_ms: MINUTE_MS }))).toBe(now + MINUTE_MS);
+    expect(timeoutDeadline(timeouts, build({ platform: 'android' }))).toBeNull();
+    expect(timeoutDeadline(timeouts, build({ status: 'assigned', started_at: now + MINUTE_MS }))).toBe(now + 61 * MINUTE_MS);
+    expect(timeoutDeadline(timeouts, build({ status: 'completed' }))).toBeNull();
+  });
+
+  test('should not count time the queue spent paused against pending builds', () => {
+    const pending = { status: 'pending', platform: 'ios', submitted_at: now, retry_after: null } as Build;
+    const running = { status: 'building', platform: 'ios', started_at: now } as Build;
+    const pause = { pausedAt: now, reason: null };
+
+    expect(timeoutDeadline(timeouts, pending, pause)).toBeNull();
+    expect(timeoutDeadline(timeouts, running, pause)).toBe(now + 60 * MINUTE_MS);
+    // Only the part of a pause within the build's wait counts
+    expect(timeoutDeadline(timeouts, pending, null, [{ pausedAt: now + 10 * MINUTE_MS, resumedAt: now + 25 * MINUTE_MS }])).toBe(now + 45 * MINUTE_MS);
+    expect(timeoutDeadline(timeouts, pending, null, [{ pausedAt: now - 20 * MINUTE_MS, resumedAt: now + 5 * MINUTE_MS }])).toBe(now + 35 * MINUTE_MS);
+    expect(timeoutDeadline(timeouts, pending, null, [{ pausedAt: now - 20 * MINUTE_MS, resumedAt: now - MINUTE_MS }])).toBe(now + 30 * MINUTE_MS);
+    // The first pause moves the deadline past the start of the second
+    expect(timeoutDeadline(timeouts, pending, null, [
+      { pausedAt: now + 10 * MINUTE_MS, resumedAt: now + 20 * MINUTE_MS },
+      { pausedAt: now + 35 * MINUTE_MS, resumedAt: now + 40 * MINUTE_MS },
+    ])).toBe(now + 45 * MINUTE_MS);
+  });
+
+  test('should format limits', () => {
+    expect(formatLimit(45_000)).toBe('45s');
+    expect(formatLimit(30 * MINUTE_MS)).toBe('30m');
+    expect(formatLimit(120 * MINUTE_MS)).toBe('2h');
+    expect(formatLimit(135 * MINUTE_MS)).toBe('2h 15m');
+  });
+
+  describe('enforcement', () => {
+    let db: SqliteDatabase;
+    let queue: JobQueue;
+
+    const create = async (id: string) => {
+      await db.builds.create({
+        id,
+        status: 'pending',
+        platform: 'ios',
+        source_path: `builds/${id}.zip`,
+        certs_path: null,
+        submitted_at: now,
+        access_token: `token-${id}`,
+        source_sha256: null,
+        certs_sha256: null,
+        source_size: 100,
+        certs_size: null,
+        priority: 'normal',
+        submitter: null,
+        requirements: null,
+        group_id: null,
+        cache_key: null,
+        cached_from: null,
+      });
+      queue.enqueue((await db.builds.get(id))!);
+    };
+
+    beforeEach(async () => {
+      db = new SqliteDatabase(':memory:');
+      queue = new JobQueue();
+      await db.workers.register({ id: 'w1', name: 'Worker w1', status: 'idle', capabilities: '{}', registered_at: now, last_seen_at: now });
+    });
+
+    afterEach(async () => {
+      await db.close();
+    });
+
+    test('should fail builds left waiting past their limit', async () => {
+      await create('b1');
+
+      expect(await enforceTimeouts(db, queue, timeouts, now + 29 * MINUTE_MS)).toEqual([]);
+      expect((await enforceTimeouts(db, queue, timeouts, now + 30 * MINUTE_MS)).map((build) => build.id)).toEqual(['b1']);
+
+      expect(await db.builds.get('b1')).toMatchObject({
+        status: 'failed',
+        error_message: 'Timed out waiting for a worker: not started within 30m (maximum queue wait)',
+        cancel_requested_at: null,
+      });
+      expect(queue.getStats().pending).toBe(0);
+    });
+
+    test('should hold off queue wait timeouts while the queue is paused', async () => {
+      await create('b1');
+      await pauseQueue(db, 'Xcode update', now + 10 * MINUTE_MS);
+
+      expect(await enforceTimeouts(db, queue, timeouts, now + 45 * MINUTE_MS)).toEqual([]);
+
+      // The 10 minutes waited before the pause still count
+      await resumeQueue(db, now + 60 * MINUTE_MS);
+      expect(await enforceTimeouts(db, queue, timeouts, now + 79 * MINUTE_MS)).toEqual([]);
+      expect((await enforceTimeouts(db, queue, timeouts, now + 80 * MINUTE_MS)).map((build) => build.id)).toEqual(['b1']);
+    });
+
+    test('should fail builds running past their limit and tell the worker to stop', async () => {
+      await create('b1');
+      queue.assignToWorker((await db.workers.get('w1'))!, now);
+      await db.builds.assignToWorker('b1', 'w1', now, now + 2 * MINUTE_MS);
+
+      const later = now + 60 * MINUTE_MS;
+      expect((await enforceTimeouts(db, queue, timeouts, later)).map((build) => build.id)).toEqual(['b1']);
+
+      expect(await db.builds.get('b1')).toMatchObject({ status: 'failed', attempt: 1, cancel_requested_at: later, lease_expires_at: null });
+      expect((await db.attempts.list('b1'))[0]).toMatchObject({
+        outcome: 'failed',
+        failure_type: 'timeout',
+        error_message: 'Timed out: build ran longer than 1h (maximum build duration)',
+      });
+      expect((await db.workers.get('w1'))?.active_builds).toBe(0);
+      expect((await db.builds.listUnacknowledgedCancels('w1')).map((build) => build.id)).toEqual(['b1']);
+
+      // A late upload cannot complete it
+      expect(await db.builds.releaseLease('b1', 'w1', 1, later)).toBe(false);
+      expect(await enforceTimeouts(db, queue, timeouts, later)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { rmSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { Readable } from 'stream';
+import type { UploadSession } from '../../db/Database';
+import { SqliteDatabase } from '../../db/SqliteDatabase';
+import { FileStorage, type StoredFile } from '../FileStorage';
+import { claimUpload, purgeExpiredUploads, UploadClaimError } from '../UploadSessions';
+
+describe('UploadSessions', () => {
+  const testStoragePath = join(process.cwd(), '.test-upload-sessions');
+  const now = Date.now();
+  const HOUR_MS = 60 * 60 * 1000;
+  let db: SqliteDatabase;
+  let storage: FileStorage;
+
+  const upload = async (id: string, kind: UploadSession['kind'], data: Buffer) => {
+    await db.uploads.create({
+      id,
+      kind,
+      total_size: data.length,
+      expected_sha256: null,
+      build_id: null,
+      worker_id: null,
+      created_at: now,
+      updated_at: now,
+      expires_at: now + HOUR_MS,
+    });
+    storage.createUpload(id);
+    await storage.writeUploadChunk(id, 0, Readable.from([data]), data.length);
+    await db.uploads.advanceOffset(id, 0, data.length, now, now + HOUR_MS);
+    await db.uploads.complete(id, (await storage.hashUpload(id)).sha256, now);
+  };
+
+  beforeEach(() => {
+    rmSync(testStoragePath, { recursive: true, force: true });
+    db = new SqliteDatabase(':memory:');
+    storage = new FileStorage(testStoragePath);
+  });
+
+  afterEach(async () => {
+    await db.close();
+    rmSync(testStoragePath, { recursive: true, force: true });
+  });
+
+  test('should let only one of two concurrent requests claim an upload', async () => {
+    await upload('u1', 'source', Buffer.from('source-bytes'));
+
+    const claims = await Promise.allSettled([
+      claimUpload(db, storage, 'u1', 'source'),
+      claimUpload(db, storage, 'u1', 'source'),
+    ]);
+
+    const [claimed, lost] = claims;
+    expect(claimed.status).toBe('fulfilled');
+    expect(lost.status).toBe('rejected');
+    const error = (lost as PromiseRejectedResult).reason;
+    expect(error).toBeInstanceOf(UploadClaimError);
+    expect(error.statusCode).toBe(409);
+
+    expect(await db.uploads.get('u1')).toBeUndefined();
+    storage.discardStaged((claimed as PromiseFulfilledResult<StoredFile>).value);
+  });
+
+  test('should purge expired uploads and their files', async () => {
+    await upload('u1', 'source', Buffer.from('source-bytes'));
+    await upload('u2', 'certs', Buffer.from('certs-bytes'));
+
+    expect(await purgeExpiredUploads(db, storage, now)).toBe(0);
+    expect(await purgeExpiredUploads(db, storage, now + 2 * HOUR_MS)).toBe(2);
+
+    expect(await db.uploads.get('u2')).toBeUndefined();
+    expect(readdirSync(join(testStoragePath, 'uploads'))).toEqual([]);
+    await expect(claimUpload(db, storage, 'u2', 'certs')).rejects.toMatchObject({ statusCode: 404 });
+  });
+});
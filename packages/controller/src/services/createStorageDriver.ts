@@ -0,0 +1,19 @@
+import type { ControllerConfig } from '../domain/Config.js';
+import type { StorageDriver } from './StorageDriver.js';
+import { LocalStorageDriver } from './LocalStorageDriver.js';
+import { S3StorageDriver } from './S3StorageDriver.js';
+
+/**
+ * Create the artifact storage driver selected by config.storageDriver
+ */
+export function createStorageDriver(config: ControllerConfig): StorageDriver {
+  switch (config.storageDriver) {
+    case 'local':
+      return new LocalStorageDriver(config.storagePath);
+    case 's3':
+      if (!config.s3) {
+        throw new Error('S3 storage driver requires s3 configuration');
+      }
+      return new S3StorageDriver(config.s3);
+  }
+}
@@ -10,6 +10,7 @@
 import { mkdirSync, existsSync, rmSync, writeFileSync, readFileSync, createWriteStream } from 'fs';
 import { join } from 'path';
 import { pipeline } from 'stream/promises';
+import { createHash } from 'crypto';
 import archiver from 'archiver';
 
 interface MockWorkerConfig {
@@ -144,14 +145,14 @@ class MockWorker {
       // Download source
       console.log(`[${this.config.workerName}] Downloading source...`);
       const sourcePath = join(this.workDir, `${job.id}-source.zip`);
-      await this.downloadFile(job.source_url, sourcePath);
+      await this.downloadFile(job.source_url, sourcePath, job.source_sha256);
 
-      // Download certs if provided
+      // Download certs if provided (decrypted JSON, like the VM bootstrap)
       let certsPath: string | null = null;
       if (job.certs_url) {
         console.log(`[${this.config.workerName}] Downloading certs...`);
-        certsPath = join(this.workDir, `${job.id}-certs.zip`);
-        await this.downloadFile(job.certs_url, certsPath);
+        certsPath = join(this.workDir, `${job.id}-certs.json`);
+        await this.downloadFile(job.certs_url, certsPath, null, { 'X-Build-Id': job.id });
       }
 
       // Simulate build
@@ -187,7 +188,12 @@ class MockWorker {
     }
   }
 
-  private async downloadFile(url: string, outputPath: string): Promise<void> {
+  private async downloadFile(
+    url: string,
+    outputPath: string,
+    expectedSha256?: string | null,
+    extraHeaders: Record<string, string> = {}
+  ): Promise<void> {
     const fullUrl = url.startsWith('http')
       ? url
       : `${this.config.controllerUrl}${url}`;
@@ -196,6 +202,7 @@ class MockWorker {
       headers: {
         'X-API-Key': this.config.apiKey,
         'X-Worker-Id': this.workerId!,
+        ...extraHeaders,
       },
     });
 
@@ -209,6 +216,14 @@ class MockWorker {
 
     const fileStream = createWriteStream(outputPath);
     await pipeline(response.body as any, fileStream);
+
+    // Verify like the real worker does
+    if (expectedSha256) {
+      const actual = createHash('sha256').update(readFileSync(outputPath)).digest('hex');
+      if (actual !== expectedSha256) {
+        throw new Error(`Checksum mismatch for ${url}: expected ${expectedSha256}, got ${actual}`);
+      }
+    }
   }
 
   private async simulateBuild(): Promise<void> {
@@ -246,6 +261,7 @@ class MockWorker {
     form.append('build_id', buildId);
     form.append('worker_id', this.workerId!);
     form.append('success', 'true');
+    form.append('result_sha256', createHash('sha256').update(buffer).digest('hex'));
 
     const response = await fetch(`${this.config.controllerUrl}/api/workers/upload`, {
       method: 'POST',